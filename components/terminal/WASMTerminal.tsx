@@ -16,9 +16,23 @@ import { MissionLayer } from "@/lib/terminal/mission-layer"
 import { NetworkSimulator } from "@/lib/terminal/network-simulator"
 import { errorLogger, ErrorType, ErrorSeverity } from "@/lib/terminal/error-logger"
 import { CommandInterceptor } from "@/lib/terminal/command-interceptor"
-import { parseRedirection, executeWithRedirection } from "@/lib/terminal/io-redirection"
+import { commandRegistry, adventureCommandSpec } from "@/lib/terminal/command-registry"
+import { completeLine, formatCandidates } from "@/lib/terminal/tab-completion"
+import { LineEditor, splitKeys } from "@/lib/terminal/line-editor"
+import { parseRedirection, executeWithRedirection, collectHeredocInput, RedirectionResult, CommandStreams } from "@/lib/terminal/io-redirection"
+import { splitPipeline, isPipeline, executePipeline } from "@/lib/terminal/pipeline"
+import { executeCommandList, isCommandList } from "@/lib/terminal/command-list"
+import { parseShell, formatShell, collectRedirects, type CommandList as ShellCommandList, type ListItem } from "@/lib/terminal/shell-parser"
+import { expandArgv } from "@/lib/terminal/word-expansion"
+import type { CommandResult } from "@/lib/terminal/wasm-busybox"
 import { SSHSimulator } from "@/lib/terminal/ssh-simulator"
 import { EnvSimulator } from "@/lib/terminal/env-simulator"
+import { CommandHistory } from "@/lib/terminal/command-history"
+import { expandAliases } from "@/lib/terminal/alias-expansion"
+import { renderPrompt, DEFAULT_PS1, DEFAULT_PS2, type PromptInfo } from "@/lib/terminal/prompt"
+import { jobTable, findSignal, type Job, type JobProcess } from "@/lib/terminal/job-control"
+import { spawnCommand } from "@/lib/terminal/command-executor"
+import { processTable } from "@/lib/terminal/process-table"
 import { NanoEditor } from "./NanoEditor"
 import { LessViewer } from "./LessViewer"
 import { SSHModal } from "./SSHModal"
@@ -65,17 +79,21 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
   const envSimRef = useRef<EnvSimulator | null>(null)
   
   const [isMounted, setIsMounted] = useState(false)
-  const inputBufferRef = useRef("")
+  const lineEditorRef = useRef<LineEditor | null>(null)
+  const inputQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const heredocCommandRef = useRef<string | null>(null) // Line that started the heredoc
   const heredocBufferRef = useRef<string[]>([])
   const heredocTerminatorRef = useRef<string | null>(null)
+  const continuationRef = useRef<string | null>(null) // Incomplete command awaiting more lines
   const sudoContextRef = useRef(false)
-  const commandHistoryRef = useRef<string[]>([])
-  const historyIndexRef = useRef(-1)
+  const historyRef = useRef<CommandHistory | null>(null)
+  const lastKeyWasTabRef = useRef(false)
   
   // Password input state for sudo
   const passwordModeRef = useRef(false)
   const passwordBufferRef = useRef("")
   const pendingSudoCommandRef = useRef<string | null>(null)
+  const pendingSudoRedirectionRef = useRef<RedirectionResult | null>(null) // Applied to its output
   
   // Nano editor state
   const [editorOpen, setEditorOpen] = useState(false)
@@ -133,12 +151,16 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
         setSSHDuration(0)
       }
 
-      // 4. Reset heredoc state
+      // 4. Reset heredoc state, jobs and processes
+      jobTable.clear()
+      processTable.reset(adventure.processes, username)
+      heredocCommandRef.current = null
       heredocBufferRef.current = []
       heredocTerminatorRef.current = null
+      continuationRef.current = null
 
       // 5. Clear input buffer
-      inputBufferRef.current = ""
+      lineEditorRef.current?.reset("")
 
       // 6. Reset sudo context
       sudoContextRef.current = false
@@ -147,10 +169,10 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
       passwordModeRef.current = false
       passwordBufferRef.current = ""
       pendingSudoCommandRef.current = null
+      pendingSudoRedirectionRef.current = null
 
       // 7. Clear command history
-      commandHistoryRef.current = []
-      historyIndexRef.current = -1
+      historyRef.current?.clear()
 
       // 8. Reset filesystem
       try {
@@ -160,6 +182,9 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
           username: username,
           isSudo: false,
         })
+        envSimRef.current?.reset()
+        await writeStartupOutput(term, busyboxRef.current)
+        historyRef.current?.load()
         term.writeln("\x1b[1;32m✓ Filesystem reset\x1b[0m")
       } catch (error) {
         term.writeln("\x1b[1;31m✗ Failed to reset filesystem\x1b[0m")
@@ -189,8 +214,7 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
       term.writeln("")
       
       // 12. Show prompt
-      const prompt = `${username}@terminal:${initialPath}$ `
-      term.write(prompt)
+      writePromptRef.current(term, busyboxRef.current, username)
     },
     getCurrentState: () => ({
       sshConnected,
@@ -213,12 +237,20 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
     return () => setIsMounted(false)
   }, [])
 
+  // Commands an adventure adds exist only while it is loaded
+  useEffect(() => {
+    const commands = adventure.commands ?? []
+    commands.forEach(command => commandRegistry.register(adventureCommandSpec(command)))
+    return () => commands.forEach(command => commandRegistry.unregister(command.name))
+  }, [adventure])
+
   useEffect(() => {
     if (!terminalRef.current || xtermRef.current || !isMounted) return
 
     initializeTerminal()
 
     return () => {
+      jobTable.clear()
       if (xtermRef.current) {
         xtermRef.current.dispose()
       }
@@ -367,8 +399,30 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
     })
     sshSimRef.current = sshSim
     
-    // Initialize Environment Simulator
-    envSimRef.current = new EnvSimulator()
+    // Initialize Environment Simulator and share it with the shell and validators
+    const envSim = new EnvSimulator({ username, currentPath: initialPath })
+    envSimRef.current = envSim
+    busybox.setEnvironment(envSim)
+    missionLayer.setEnvironment(envSim)
+
+    // Jobs print as they run; a foreground job holds the prompt until it ends or is stopped
+    jobTable.clear()
+    processTable.reset(adventure.processes, username)
+    jobTable.setListener({
+      onOutput: (job, output) => writeJobOutput(term, job, output),
+      onExit: (job, exitCode) => {
+        envSim.setExitStatus(exitCode)
+        if (job.state === 'stopped') {
+          term.writeln(`\r\n${jobTable.format(job)}`)
+        }
+        writePrompt(term, busybox, username)
+      },
+    })
+
+    // Initialize Command History from $HISTFILE
+    const history = new CommandHistory({ fs: busybox.getFS(), env: envSim, username })
+    history.load()
+    historyRef.current = history
     
     // Initialize Command Interceptor
     interceptorRef.current = new CommandInterceptor({
@@ -378,6 +432,8 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
         username: username,
         isSudo: false,
       },
+      env: envSim,
+      history,
       onModalOpen: (type, data) => {
         if (type === 'less') {
           setLessFile(data.filename)
@@ -403,6 +459,12 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
       }
     }, 50)
 
+    // Line editor for the prompt
+    lineEditorRef.current = new LineEditor({
+      getColumns: () => term.cols,
+      searchHistory: (query, before) => historyRef.current?.search(query, before) ?? null,
+    })
+
     // Welcome message
     term.writeln("")
     term.writeln("\x1b[1;32m" + "=".repeat(60) + "\x1b[0m")
@@ -414,85 +476,310 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
     term.writeln(`Type '\x1b[1;33mhelp\x1b[0m' for available commands`)
     term.writeln("")
 
+    // Log in: source /etc/profile, ~/.profile and ~/.bashrc
+    await writeStartupOutput(term, busybox)
+
     writePrompt(term, busybox, username)
 
-    // Handle input
+    // Handle input one chunk at a time so pasted lines run in order
     term.onData((data) => {
-      const code = data.charCodeAt(0)
+      inputQueueRef.current = inputQueueRef.current
+        .then(() => handleInput(term, data))
+        .catch((error) => {
+          errorLogger.log(
+            ErrorType.COMMAND_EXECUTION,
+            'Input handling error',
+            { data },
+            error instanceof Error ? error : undefined,
+            ErrorSeverity.ERROR
+          )
+        })
+    })
+  }
 
-      if (code === 13) {
-        // Enter
-        term.write('\r\n')
-        
-        // Check if in password mode
-        if (passwordModeRef.current) {
-          const password = passwordBufferRef.current
-          const sudoCommand = pendingSudoCommandRef.current
-          
-          // Clear password state
-          passwordBufferRef.current = ""
-          passwordModeRef.current = false
-          pendingSudoCommandRef.current = null
-          
-          if (sudoCommand) {
-            handleSudoWithPassword(term, sudoCommand, password)
-          } else {
-            writePrompt(term, busybox, username)
-          }
-          return
+  const handleInput = async (term: XTerm, data: string) => {
+    const busybox = busyboxRef.current
+    const editor = lineEditorRef.current
+    if (!busybox || !editor) return
+
+    for (const key of splitKeys(data)) {
+      const repeatedTab = key === '\t' && lastKeyWasTabRef.current
+      lastKeyWasTabRef.current = key === '\t'
+
+      if (passwordModeRef.current) {
+        await handlePasswordKey(term, key)
+        continue
+      }
+
+      // A foreground job holds the terminal: Ctrl+C interrupts it, Ctrl+Z stops it,
+      // other keys go to the program (q quits top)
+      const foreground = jobTable.getForeground()
+      if (foreground) {
+        if (key === '\x03') {
+          term.write('^C\r\n')
+          jobTable.kill(foreground.id, findSignal('INT')!)
+        } else if (key === '\x1a') {
+          term.write('^Z')
+          jobTable.stop(foreground.id)
+        } else {
+          jobTable.input(foreground.id, key)
         }
-        
-        const command = inputBufferRef.current.trim()
-        inputBufferRef.current = ""
+        continue
+      }
 
-        if (command) {
-          handleCommand(term, command)
-        } else if (busybox) {
-          writePrompt(term, busybox, username)
+      const result = editor.handleKey(key)
+      term.write(result.output)
+
+      switch (result.command) {
+        case 'submit': {
+          // Keys typed while the command runs start a fresh line
+          const line = editor.getLine()
+          editor.reset("")
+          term.write('\r\n')
+          await submitLine(term, line)
+          break
         }
-      } else if (code === 127) {
-        // Backspace
-        if (passwordModeRef.current) {
-          // In password mode, just remove from buffer without showing anything
-          if (passwordBufferRef.current.length > 0) {
-            passwordBufferRef.current = passwordBufferRef.current.slice(0, -1)
-            term.write('\b \b')
+        case 'cancel':
+          // Ctrl+C abandons the line and any heredoc or continuation being typed
+          term.write('^C\r\n')
+          continuationRef.current = null
+          heredocCommandRef.current = null
+          heredocBufferRef.current = []
+          heredocTerminatorRef.current = null
+          historyRef.current?.resetCursor()
+          envSimRef.current?.setExitStatus(130)
+          writePrompt(term, busybox, username)
+          break
+        case 'eof':
+          // Ctrl+D on an empty line logs out of an SSH session
+          if (sshSimRef.current?.isConnected()) {
+            term.write('logout\r\n')
+            await handleCommand(term, 'exit')
           }
-        } else if (inputBufferRef.current.length > 0) {
-          inputBufferRef.current = inputBufferRef.current.slice(0, -1)
-          term.write('\b \b')
-        }
-      } else if (code >= 32) {
-        // Printable character
-        if (passwordModeRef.current) {
-          // In password mode, hide the character
-          passwordBufferRef.current += data
-          term.write('*') // Show asterisk instead of actual character
-        } else {
-          inputBufferRef.current += data
-          term.write(data)
+          break
+        case 'clear':
+          term.write('\x1b[2J\x1b[H' + editor.render())
+          break
+        case 'complete':
+          handleTab(term, repeatedTab)
+          break
+        case 'previous':
+        case 'next': {
+          const history = historyRef.current
+          const recalled = result.command === 'previous' ? history?.previous(editor.getLine()) : history?.next()
+          if (recalled !== null && recalled !== undefined) term.write(editor.setLine(recalled))
+          break
         }
       }
+    }
+  }
+
+  /**
+   * Keys typed at the sudo password prompt are hidden
+   */
+  const handlePasswordKey = async (term: XTerm, key: string) => {
+    const busybox = busyboxRef.current
+    if (!busybox) return
+
+    if (key === '\r' || key === '\n') {
+      term.write('\r\n')
+      const password = passwordBufferRef.current
+      const sudoCommand = pendingSudoCommandRef.current
+      const redirection = pendingSudoRedirectionRef.current
+
+      // Clear password state
+      passwordBufferRef.current = ""
+      passwordModeRef.current = false
+      pendingSudoCommandRef.current = null
+      pendingSudoRedirectionRef.current = null
+
+      if (sudoCommand) {
+        await handleSudoWithPassword(term, sudoCommand, password, redirection ?? undefined)
+      } else {
+        writePrompt(term, busybox, username)
+      }
+    } else if (key === '\x03') {
+      // Ctrl+C cancels the prompt
+      term.write('^C\r\n')
+      passwordBufferRef.current = ""
+      passwordModeRef.current = false
+      pendingSudoCommandRef.current = null
+      pendingSudoRedirectionRef.current = null
+      writePrompt(term, busybox, username)
+    } else if (key === '\x7f' || key === '\x08') {
+      if (passwordBufferRef.current.length > 0) {
+        passwordBufferRef.current = passwordBufferRef.current.slice(0, -1)
+        term.write('\b \b')
+      }
+    } else if (key >= ' ' && !key.startsWith('\x1b')) {
+      // Show asterisks instead of the actual characters
+      passwordBufferRef.current += key
+      term.write('*'.repeat(key.length))
+    }
+  }
+
+  /**
+   * Run an entered line: expand and record history, then execute
+   */
+  const submitLine = async (term: XTerm, line: string) => {
+    const busybox = busyboxRef.current
+    if (!busybox) return
+
+    let command = line.trim()
+
+    // An open quote, trailing | or && or unfinished if/for/while continues on the next line
+    if (continuationRef.current !== null) {
+      command = `${continuationRef.current}\n${line}`.trim()
+      continuationRef.current = null
+    }
+    if (command && !heredocTerminatorRef.current && parseShell(command).incomplete) {
+      continuationRef.current = command
+      writeContinuationPrompt(term)
+      return
+    }
+
+    // Expand !!, !n, !prefix and ^old^new, then record the command
+    // (heredoc body lines belong to the command that started them)
+    const history = historyRef.current
+    if (history && command && !heredocTerminatorRef.current) {
+      const expansion = history.expand(command)
+      if (expansion.error) {
+        term.writeln(`\x1b[1;31m${expansion.error}\x1b[0m`)
+        history.resetCursor()
+        writePrompt(term, busybox, username)
+        return
+      }
+      if (expansion.expanded) {
+        command = expansion.command
+        term.writeln(command)
+      }
+      history.add(command)
+    } else {
+      history?.resetCursor()
+    }
+
+    // Replace aliased command words (aliases belong to the local or remote shell)
+    if (command && !heredocTerminatorRef.current) {
+      const env = sshSimRef.current?.getActiveSession()?.env ?? envSimRef.current
+      if (env) command = expandAliases(command, name => env.getAlias(name))
+    }
+
+    if (command) {
+      busybox.beginCommandLine()
+      await handleCommand(term, command)
+    } else {
+      writePrompt(term, busybox, username)
+    }
+  }
+
+  const handleTab = (term: XTerm, repeated: boolean) => {
+    const busybox = busyboxRef.current
+    const networkSim = networkSimRef.current
+    if (!busybox) return
+
+    const editor = lineEditorRef.current
+    if (!editor) return
+
+    // Complete the text before the cursor, keeping whatever follows it
+    const context = busybox.getContext()
+    const line = editor.getLine()
+    const cursor = editor.getCursor()
+    const result = completeLine(line.slice(0, cursor), {
+      fs: busybox.getFS(),
+      currentPath: context.currentPath,
+      isSudo: context.isSudo,
+      commands: [...commandRegistry.getNames(), ...(envSimRef.current?.getAliasNames() ?? [])],
+      env: envSimRef.current ?? undefined,
+      servers: networkSim?.getServers(),
     })
+
+    if (result.line !== line.slice(0, cursor)) {
+      term.write(editor.setLine(result.line + line.slice(cursor), result.line.length))
+    } else if (repeated && result.candidates.length > 0) {
+      const listing = formatCandidates(result.candidates, term.cols).replace(/\n/g, '\r\n')
+      term.write(editor.moveToEnd() + '\r\n' + listing + '\r\n' + editor.render())
+    } else {
+      term.write('\x07')
+    }
   }
 
+  /**
+   * Source the startup files and show what they print
+   */
+  const writeStartupOutput = async (term: XTerm, busybox: BusyBoxWASM) => {
+    const result = await busybox.runStartupFiles()
+    if (result.stdout) {
+      result.stdout.split('\n').forEach(line => term.writeln(line))
+    }
+    if (result.stderr) {
+      term.writeln(`\x1b[1;31m${result.stderr}\x1b[0m`)
+    }
+  }
+
+  /**
+   * Write a prompt and start a new input line after it
+   */
+  const showPrompt = (term: XTerm, prompt: string) => {
+    term.write(prompt)
+    lineEditorRef.current?.reset(prompt)
+  }
+
+  /**
+   * What the local PS1/PS2 escapes (\u, \w, \$, \! ...) expand to
+   */
+  const localPromptInfo = (): PromptInfo => ({
+    user: username,
+    host: envSimRef.current?.getVariable('HOSTNAME') ?? 'terminal',
+    cwd: busyboxRef.current?.getContext().currentPath ?? initialPath,
+    home: `/home/${username}`,
+    isRoot: sudoContextRef.current,
+    historyNumber: (historyRef.current?.getEntries().length ?? 0) + 1,
+  })
+
   const writePrompt = (term: XTerm, busybox: BusyBoxWASM, user: string) => {
+    // A foreground job holds the prompt until it ends or is stopped
+    if (jobTable.getForeground()) return
+
+    // Report background jobs that ended since the last prompt
+    jobTable.takeNotices().forEach(notice => term.writeln(notice))
+
     // Check if in SSH session
     const sshSim = sshSimRef.current
     if (sshSim && sshSim.isConnected()) {
-      const prompt = sshSim.getRemotePrompt()
-      term.write(prompt)
+      showPrompt(term, sshSim.getRemotePrompt(localPromptInfo().historyNumber))
       return
     }
     
-    const context = busybox.getContext()
-    const path = context.currentPath
-    const displayPath = path === `/home/${user}` ? "~" : path
     const sudoIndicator = sudoContextRef.current ? '\x1b[1;31m[SUDO]\x1b[0m ' : ''
-    term.write(`${sudoIndicator}\x1b[1;32m${user}@terminal\x1b[0m:\x1b[1;34m${displayPath}\x1b[0m$ `)
+    const ps1 = envSimRef.current?.getVariable('PS1') ?? DEFAULT_PS1
+    const info = { ...localPromptInfo(), user, cwd: busybox.getContext().currentPath }
+    showPrompt(term, `${sudoIndicator}${renderPrompt(ps1, info)}`)
+  }
+
+  // resetExercise is defined above writePrompt, so it calls the latest one through this ref
+  const writePromptRef = useRef(writePrompt)
+  writePromptRef.current = writePrompt
+
+  /**
+   * Write the PS2 prompt for heredoc bodies and continued commands
+   */
+  const writeContinuationPrompt = (term: XTerm) => {
+    const sshSim = sshSimRef.current
+    if (sshSim && sshSim.isConnected()) {
+      showPrompt(term, sshSim.getRemotePrompt(localPromptInfo().historyNumber, true))
+      return
+    }
+
+    const ps2 = envSimRef.current?.getVariable('PS2') ?? DEFAULT_PS2
+    showPrompt(term, renderPrompt(ps2, localPromptInfo()))
   }
 
-  const handleSudoWithPassword = async (term: XTerm, command: string, password: string) => {
+  const handleSudoWithPassword = async (
+    term: XTerm,
+    command: string,
+    password: string,
+    redirection?: RedirectionResult
+  ) => {
     const busybox = busyboxRef.current
     const missionLayer = missionLayerRef.current
     if (!busybox) {
@@ -500,15 +787,34 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
       return
     }
 
-    // Execute sudo command with password
-    const result = await busybox.executeSudo(command, password)
+    // Resume a command list that stopped at a sudo prompt
+    const { ast } = parseShell(command)
+    if (ast && isCommandList(ast)) {
+      await handleCommandList(term, command, ast, { password })
+      return
+    }
+
+    // Execute sudo command with password (the whole pipeline if sudo was one of its stages)
+    const columns = redirection ? outputColumns(term, redirection) : term.cols
+    const result = isPipeline(command)
+      ? await executePipeline(splitPipeline(command), (stage, stdin, last) =>
+          stage.startsWith('sudo ')
+            ? busybox.executeSudo(stage.replace(/^sudo\s+/, ''), password, stdin, last ? columns : undefined)
+            : runPipelineStage(stage, stdin, last ? columns : undefined)
+        )
+      : await busybox.executeSudo(command.replace(/^sudo\s+/, ''), password, undefined, columns)
+
+    // Apply the output redirection the command was typed with
+    const { stdout, stderr } = redirection
+      ? await redirectOutput(term, redirection, { stdout: result.stdout, stderr: result.stderr })
+      : result
     
-    if (result.stdout) {
-      term.writeln(result.stdout)
+    if (stdout) {
+      term.writeln(stdout)
     }
     
-    if (result.stderr) {
-      term.writeln(`\x1b[1;31m${result.stderr}\x1b[0m`)
+    if (stderr) {
+      term.writeln(`\x1b[1;31m${stderr}\x1b[0m`)
     }
     
     // Validate with mission layer (pure output validation)
@@ -546,29 +852,107 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
       return
     }
 
-    // Handle command chaining with && 
-    if (command.includes(' && ')) {
-      const commands = command.split(' && ').map(cmd => cmd.trim())
-      
-      for (let i = 0; i < commands.length; i++) {
-        const cmd = commands[i]
-        const isLast = i === commands.length - 1
-        
-        // Execute each command in sequence
-        await handleSingleCommand(term, cmd)
-        
-        // Only validate on the last command in the chain
-        if (isLast && missionLayerRef.current) {
-          // Validation happens in handleSingleCommand
-        }
+    // Lists (`;`, `&&`, `||`) run pipeline by pipeline with short-circuiting
+    // (a list that starts a heredoc runs whole once its body has been read)
+    if (!heredocTerminatorRef.current && !(sshSim && sshSim.isConnected())) {
+      const { ast, pendingHeredocs } = parseShell(command)
+      if (ast && pendingHeredocs.length === 0 && await handleJobs(term, ast)) {
+        return
+      }
+      if (ast && isCommandList(ast) && pendingHeredocs.length === 0) {
+        await handleCommandList(term, command, ast)
+        return
       }
-      return
     }
 
     // Handle single command
     await handleSingleCommand(term, command)
   }
 
+  /**
+   * Start `&` items and long-running programs (sleep, tail -f, ping) as jobs
+   * Returns false when the line has neither, so it runs the usual way
+   */
+  const handleJobs = async (term: XTerm, ast: ShellCommandList): Promise<boolean> => {
+    const busybox = busyboxRef.current
+    if (!busybox) return false
+
+    // Destructive lines go through the usual confirmation (and run in the foreground)
+    if (detectDestructiveCommand(ast, { expansion: busybox.getExpansionContext() })?.isDestructive) {
+      return false
+    }
+
+    const background = ast.items.filter(item => item.separator === '&')
+    if (background.length === 0) {
+      const process = ast.items.length === 1 ? spawnJobProcess(ast.items[0], term.cols) : undefined
+      if (!process) return false
+      // The prompt comes back when the job ends or is stopped
+      jobTable.start(formatShell(ast.items[0].command), process, false)
+      return true
+    }
+
+    for (const item of background) {
+      const command = formatShell(item.command)
+      const process = spawnJobProcess(item, term.cols)
+      if (process) {
+        const job = jobTable.start(command, process, true)
+        term.writeln(`[${job.id}] ${job.pid}`)
+        continue
+      }
+
+      // Anything else runs to completion now and is reported at the next prompt
+      const finished: { exitCode?: number } = {}
+      const job = jobTable.start(command, { interval: 10, tick: () => ({ exitCode: finished.exitCode }) }, true)
+      term.writeln(`[${job.id}] ${job.pid}`)
+      const result = await executeCommandList({ type: 'list', items: [{ ...item, separator: null }] }, pipeline =>
+        runListPipeline(term, pipeline)
+      )
+      finished.exitCode = result.exitCode
+    }
+
+    const rest = ast.items.filter(item => item.separator !== '&')
+    if (rest.length > 0) {
+      await handleCommand(term, formatShell({ type: 'list', items: rest }))
+    } else {
+      writePrompt(term, busybox, username)
+    }
+    return true
+  }
+
+  /**
+   * The job form of a list item that is one simple command, if it has one
+   */
+  const spawnJobProcess = (item: ListItem, columns: number): JobProcess | undefined => {
+    const busybox = busyboxRef.current
+    const { first, rest } = item.command
+    const [command] = first.commands
+    if (!busybox || rest.length > 0 || first.negated || first.commands.length !== 1) return undefined
+    if (command.type !== 'simple' || command.redirects.length > 0) return undefined
+
+    const argv = expandArgv(formatShell(command), busybox.getExpansionContext())
+    if (argv.length === 0) return undefined
+    const context = {
+      ...busybox.getContext(),
+      isSudo: sudoContextRef.current,
+      env: envSimRef.current ?? undefined,
+      network: networkSimRef.current ?? undefined,
+      columns,
+    }
+    return spawnCommand(argv, context, busybox.getFS())
+  }
+
+  /**
+   * Print job output; background output goes above the line being typed
+   */
+  const writeJobOutput = (term: XTerm, job: Job, output: string) => {
+    const text = output.split('\n').join('\r\n')
+    if (!job.background) {
+      term.write(`${text}\r\n`)
+      return
+    }
+    term.write(`\r\x1b[K${text}\r\n${lineEditorRef.current?.render() ?? ''}`)
+  }
+
   const handleSingleCommand = async (term: XTerm, command: string) => {
     const busybox = busyboxRef.current
     const interceptor = interceptorRef.current
@@ -581,25 +965,23 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
     }
 
     // Handle heredoc continuation
-    if (heredocTerminatorRef.current) {
+    if (heredocTerminatorRef.current && heredocCommandRef.current !== null) {
       heredocBufferRef.current.push(command)
-      
-      // Check for terminator
-      const terminator = heredocTerminatorRef.current
-      if (command.trim() === terminator) {
-        // Heredoc complete - execute the buffered input
-        const heredocContent = heredocBufferRef.current.slice(0, -1).join('\n') + '\n'
-        heredocBufferRef.current = []
-        heredocTerminatorRef.current = null
-        
-        // Process with redirection handler (it stored the command)
-        // For now, just output confirmation
-        term.writeln(`\x1b[1;32m✓ Heredoc input captured (${heredocContent.split('\n').length} lines)\x1b[0m`)
-        writePrompt(term, busybox, username)
-      } else {
-        // Continue heredoc - just show continuation prompt
-        term.write('> ')
+
+      // The parser finds each terminator (after <<- tab stripping)
+      const source = [heredocCommandRef.current, ...heredocBufferRef.current].join('\n')
+      const { pendingHeredocs } = parseShell(source)
+      if (pendingHeredocs.length > 0) {
+        heredocTerminatorRef.current = pendingHeredocs[0].delimiter
+        writeContinuationPrompt(term)
+        return
       }
+
+      // Heredoc complete - run the command with its body
+      heredocCommandRef.current = null
+      heredocBufferRef.current = []
+      heredocTerminatorRef.current = null
+      await runHeredocCommand(term, source)
       return
     }
 
@@ -610,24 +992,19 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
       return
     }
 
-    if (command === "help") {
-      term.writeln("Available commands:")
-      term.writeln("  ls, cd, pwd, cat, mkdir, touch, rm, rmdir, cp, mv")
-      term.writeln("  echo, env, export, sudo, ssh, scp, less, grep, find")
-      term.writeln("  ping, curl, wget, netstat, dig, nslookup, ifconfig, ip")
-      term.writeln("  nano, vi, vim, clear, help")
-      term.writeln("")
-      term.writeln("I/O Redirection:")
-      term.writeln("  > file    - redirect output to file (overwrite)")
-      term.writeln("  >> file   - redirect output to file (append)")
-      term.writeln("  <<EOF     - heredoc input (multi-line)")
+    if (command === "help" || command.startsWith("help ")) {
+      const result = await busybox.execute(command)
+      result.stdout.split('\n').forEach(line => term.writeln(line))
+      if (result.stderr) {
+        term.writeln(`\x1b[1;31m${result.stderr}\x1b[0m`)
+      }
       writePrompt(term, busybox, username)
       return
     }
 
     // Check if in SSH session
     if (sshSim && sshSim.isConnected()) {
-      const result = sshSim.executeRemote(command, busybox)
+      const result = await sshSim.executeRemote(command, busybox, term.cols)
       if (result.output) {
         term.writeln(result.output)
       }
@@ -638,17 +1015,19 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
       return
     }
 
-    // Parse I/O redirection
-    let redirection = parseRedirection(command)
-    
-    // Check for heredoc
-    if (redirection.type === 'heredoc' && redirection.heredocMarker) {
-      heredocTerminatorRef.current = redirection.heredocMarker
+    // Heredoc: read the body lines before anything runs
+    const { pendingHeredocs } = parseShell(command)
+    if (pendingHeredocs.length > 0) {
+      heredocCommandRef.current = command
+      heredocTerminatorRef.current = pendingHeredocs[0].delimiter
       heredocBufferRef.current = []
-      term.write('> ')
+      writeContinuationPrompt(term)
       return
     }
 
+    // Parse I/O redirection
+    let redirection = parseRedirection(command)
+
     // Update interceptor context
     if (interceptor) {
       const context = busybox.getContext()
@@ -658,6 +1037,13 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
       })
     }
 
+    // Handle pipelines (cmd1 | cmd2 | ...)
+    const stages = splitPipeline(redirection.command)
+    if (stages.length > 1) {
+      await handlePipeline(term, command, redirection, stages)
+      return
+    }
+
     // Check if command should be intercepted
     if (interceptor && interceptor.shouldIntercept(redirection.command)) {
       const result = await interceptor.intercept(redirection.command)
@@ -711,34 +1097,20 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
           }
         }
         
-        // Handle output
-        if (result.output) {
-          // Apply output redirection if needed
-          if (redirection.hasRedirection && redirection.target && (redirection.type === 'output' || redirection.type === 'append')) {
-            try {
-              const redirectResult = await executeWithRedirection(
-                redirection,
-                result.output,
-                busybox.getFS(),
-                busybox.getContext().currentPath
-              )
-              if (redirectResult.success) {
-                term.writeln(`\x1b[1;32m✓ Output redirected to ${redirection.target}\x1b[0m`)
-              } else if (redirectResult.error) {
-                term.writeln(`\x1b[1;31mRedirection error: ${redirectResult.error}\x1b[0m`)
-              }
-            } catch (error) {
-              term.writeln(`\x1b[1;31mRedirection error: ${error}\x1b[0m`)
-            }
-          } else {
-            term.writeln(result.output)
-          }
+        // Handle output, applying any redirection first
+        const { stdout, stderr } = await redirectOutput(term, redirection, {
+          stdout: result.output || '',
+          stderr: result.error || '',
+        })
+        if (stdout) {
+          term.writeln(stdout)
         }
-        
-        if (result.error) {
-          term.writeln(`\x1b[1;31m${result.error}\x1b[0m`)
+        if (stderr) {
+          term.writeln(`\x1b[1;31m${stderr}\x1b[0m`)
         }
         
+        envSim?.setExitStatus(result.error ? 1 : 0)
+
         // Validate intercepted commands with mission layer
         if (missionLayerRef.current) {
           try {
@@ -804,40 +1176,29 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
     }
 
     // Handle network commands
-    const cmdName = redirection.command.split(" ")[0]
+    // Route on the name alone so $(...) only runs once, in the command itself
+    const [cmdName = ""] = expandArgv(redirection.command, {
+      fs: busybox.getFS(),
+      ...busybox.getContext(),
+      env: envSim || undefined,
+    })
     if (networkSimRef.current && networkSimRef.current.isNetworkCommand(cmdName)) {
-      const parts = redirection.command.split(" ")
-      const args = parts.slice(1)
+      const [, ...args] = expandArgv(redirection.command, busybox.getExpansionContext())
       const result = networkSimRef.current.execute(cmdName, args, {
         fs: busybox.getFS(),
         currentPath: busybox.getContext().currentPath
       })
       
-      let output = result.output || ''
-      if (result.error) output += `\x1b[1;31m${result.error}\x1b[0m\n`
-      
       // Apply redirection if needed
-      if (redirection.hasRedirection && redirection.target && output && (redirection.type === 'output' || redirection.type === 'append')) {
-        try {
-          const redirectResult = await executeWithRedirection(
-            redirection,
-            output,
-            busybox.getFS(),
-            busybox.getContext().currentPath
-          )
-          if (redirectResult.success) {
-            term.writeln(`\x1b[1;32m✓ Output redirected to ${redirection.target}\x1b[0m`)
-          } else if (redirectResult.error) {
-            term.writeln(`\x1b[1;31mRedirection error: ${redirectResult.error}\x1b[0m`)
-          }
-        } catch (error) {
-          term.writeln(`\x1b[1;31mRedirection error: ${error}\x1b[0m`)
-        }
-      } else {
-        if (result.output) term.writeln(result.output)
-        if (result.error) term.writeln(`\x1b[1;31m${result.error}\x1b[0m`)
-      }
+      const { stdout, stderr } = await redirectOutput(term, redirection, {
+        stdout: result.output || '',
+        stderr: result.error || '',
+      })
+      if (stdout) term.writeln(stdout)
+      if (stderr) term.writeln(`\x1b[1;31m${stderr}\x1b[0m`)
       
+      envSim?.setExitStatus(result.success ? 0 : 1)
+
       // Validate with mission layer for network commands
       if (missionLayerRef.current) {
         try {
@@ -864,7 +1225,7 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
     }
 
     // Check for destructive commands before execution
-    const destructiveCheck = detectDestructiveCommand(redirection.command)
+    const destructiveCheck = detectDestructiveCommand(redirection.command, { expansion: busybox.getExpansionContext() })
 
     if (destructiveCheck?.isDestructive) {
       // Store command for later execution if confirmed
@@ -885,7 +1246,7 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
 
     // Execute command through BusyBox
     try {
-      const result = await busybox.execute(redirection.command)
+      const result = await busybox.execute(redirection.command, undefined, outputColumns(term, redirection))
 
       // Check if password is required for sudo
       if (result.requiresPassword && result.pendingCommand) {
@@ -893,40 +1254,22 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
         passwordModeRef.current = true
         passwordBufferRef.current = ""
         pendingSudoCommandRef.current = result.pendingCommand
+        pendingSudoRedirectionRef.current = redirection
         
         // Show password prompt
         term.write('[sudo] password for ' + username + ': ')
         return
       }
 
-      let stdout = result.stdout
-      let stderr = result.stderr
-      
       // Preserve original output for error logging
-      const originalStdout = stdout
-      const originalStderr = stderr
+      const originalStdout = result.stdout
+      const originalStderr = result.stderr
       
-      // Apply I/O redirection if needed
-      if (redirection.hasRedirection && redirection.target && (redirection.type === 'output' || redirection.type === 'append')) {
-        try {
-          const redirectResult = await executeWithRedirection(
-            redirection,
-            stdout,
-            busybox.getFS(),
-            busybox.getContext().currentPath
-          )
-          if (redirectResult.success) {
-            term.writeln(`\x1b[1;32m✓ Output redirected to ${redirection.target}\x1b[0m`)
-            // Don't show output if redirected
-            stdout = ''
-            stderr = ''
-          } else if (redirectResult.error) {
-            term.writeln(`\x1b[1;31mRedirection error: ${redirectResult.error}\x1b[0m`)
-          }
-        } catch (error) {
-          term.writeln(`\x1b[1;31mRedirection error: ${error}\x1b[0m`)
-        }
-      }
+      // Apply I/O redirection; only what isn't redirected is shown
+      const { stdout, stderr } = await redirectOutput(term, redirection, {
+        stdout: result.stdout,
+        stderr: result.stderr,
+      })
 
       // Display output
       if (stdout) {
@@ -980,6 +1323,7 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
             command,                        // For logging only
             stdout: originalStdout,         // Primary validation source - use original before redirection
             stderr: originalStderr,
+            stdin: collectHeredocInput(redirection.command),
             exitCode: result.exitCode,
             fileSystem: busybox.getFS(),
           })
@@ -1010,6 +1354,458 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
     }
   }
 
+  /**
+   * Run one pipeline stage through the same routing as a single command:
+   * network simulator, interceptor, then BusyBox
+   */
+  const runPipelineStage = async (
+    stage: string,
+    stdin?: string,
+    columns?: number
+  ): Promise<CommandResult & { pager?: { filename: string; content: string } }> => {
+    const busybox = busyboxRef.current
+    if (!busybox) {
+      return { stdout: '', stderr: 'Error: Terminal not initialized', exitCode: 1 }
+    }
+
+    const [cmdName = ''] = expandArgv(stage, {
+      fs: busybox.getFS(),
+      ...busybox.getContext(),
+      env: envSimRef.current || undefined,
+    })
+
+    const networkSim = networkSimRef.current
+    if (networkSim && networkSim.isNetworkCommand(cmdName)) {
+      const [, ...args] = expandArgv(stage, busybox.getExpansionContext())
+      const result = networkSim.execute(cmdName, args, {
+        fs: busybox.getFS(),
+        currentPath: busybox.getContext().currentPath
+      })
+      envSimRef.current?.setExitStatus(result.success ? 0 : 1)
+      return {
+        stdout: result.output || '',
+        stderr: result.error || '',
+        exitCode: result.success ? 0 : 1,
+      }
+    }
+
+    const interceptor = interceptorRef.current
+    if (interceptor && interceptor.shouldIntercept(stage)) {
+      const result = await interceptor.intercept(stage, stdin)
+      if (result.intercepted && result.handled) {
+        const pager = result.action === 'openModal' && result.modalType === 'less' && result.modalData
+          ? { filename: result.modalData.filename, content: result.modalData.content }
+          : undefined
+        envSimRef.current?.setExitStatus(result.error ? 1 : 0)
+        return {
+          stdout: result.output || '',
+          stderr: result.error || '',
+          exitCode: result.error ? 1 : 0,
+          pager,
+        }
+      }
+    }
+
+    return busybox.execute(stage, stdin, columns)
+  }
+
+  /**
+   * Width of the terminal for a command whose stdout is shown on it,
+   * undefined when stdout goes to a file
+   */
+  const outputColumns = (term: XTerm, redirection: RedirectionResult): number | undefined =>
+    redirection.type === 'output' || redirection.type === 'append' ? undefined : term.cols
+
+  /**
+   * Run a command line whose heredoc bodies have all been read
+   * The shell feeds each body to its command and applies the redirections
+   */
+  const runHeredocCommand = async (term: XTerm, source: string, options: { confirmed?: boolean } = {}) => {
+    const busybox = busyboxRef.current
+    if (!busybox) {
+      term.writeln("\x1b[1;31mError: Terminal not initialized\x1b[0m")
+      return
+    }
+
+    // Check the line, and any body it feeds to a shell, before it runs
+    if (!options.confirmed) {
+      const destructiveCheck = detectDestructiveCommand(source, { expansion: busybox.getExpansionContext() })
+      if (destructiveCheck?.isDestructive) {
+        setConfirmCommand(source)
+        setConfirmSeverity(destructiveCheck.warningLevel)
+
+        const messageData = getDestructiveCommandMessage(destructiveCheck)
+        setConfirmTitle(messageData.title)
+        setConfirmMessage(messageData.message)
+        setConfirmLabel(messageData.confirmLabel)
+
+        const alternative = getSaferAlternative(source)
+        setConfirmAlternative(alternative || undefined)
+
+        setConfirmOpen(true)
+        return // Don't execute yet - wait for confirmation
+      }
+    }
+
+    const result = await busybox.execute(source, undefined, term.cols)
+
+    if (result.requiresPassword) {
+      // The body travels with the command so it is fed again after authentication
+      passwordModeRef.current = true
+      passwordBufferRef.current = ""
+      pendingSudoCommandRef.current = source.trim().replace(/^sudo\s+/, '')
+      term.write('[sudo] password for ' + username + ': ')
+      return
+    }
+
+    if (result.stdout) {
+      result.stdout.split('\n').forEach(line => term.writeln(line))
+    }
+    if (result.stderr) {
+      result.stderr.split('\n').forEach(line => {
+        if (line) term.writeln(`\x1b[1;31m${line}\x1b[0m`)
+      })
+    }
+
+    const redirection = parseRedirection(source)
+    if (result.exitCode === 0 && redirection.target) {
+      term.writeln(`\x1b[1;32m✓ Output redirected to ${redirection.target}\x1b[0m`)
+    }
+
+    if (missionLayerRef.current) {
+      try {
+        missionLayerRef.current.validateTask({
+          command: source,
+          stdout: result.stdout,
+          stderr: result.stderr,
+          stdin: collectHeredocInput(source),
+          exitCode: result.exitCode,
+          fileSystem: busybox.getFS(),
+        })
+      } catch (validationError) {
+        errorLogger.log(
+          ErrorType.MISSION_VALIDATION,
+          `Mission validation error for heredoc command: ${source}`,
+          { command: source, result },
+          validationError instanceof Error ? validationError : undefined,
+          ErrorSeverity.WARNING
+        )
+      }
+    }
+
+    writePrompt(term, busybox, username)
+  }
+
+  /**
+   * Apply a command's output redirection, reporting each file written
+   * Returns the output still bound for the terminal
+   */
+  const redirectOutput = async (
+    term: XTerm,
+    redirection: RedirectionResult,
+    streams: CommandStreams
+  ): Promise<CommandStreams> => {
+    const busybox = busyboxRef.current
+    if (!busybox || !redirection.streams?.length) {
+      return streams
+    }
+
+    try {
+      const redirectResult = await executeWithRedirection(
+        redirection,
+        streams,
+        busybox.getFS(),
+        busybox.getContext().currentPath
+      )
+      if (!redirectResult.success) {
+        term.writeln(`\x1b[1;31m${redirectResult.error}\x1b[0m`)
+        return { stdout: '', stderr: '' }
+      }
+      redirectResult.files?.forEach(file => {
+        term.writeln(`\x1b[1;32m✓ Output redirected to ${file}\x1b[0m`)
+      })
+      return { stdout: redirectResult.stdout || '', stderr: redirectResult.stderr || '' }
+    } catch (error) {
+      term.writeln(`\x1b[1;31mRedirection error: ${error}\x1b[0m`)
+      return streams
+    }
+  }
+
+  const handlePipeline = async (
+    term: XTerm,
+    command: string,
+    redirection: RedirectionResult,
+    stages: string[]
+  ) => {
+    const busybox = busyboxRef.current
+    if (!busybox) {
+      term.writeln("\x1b[1;31mError: Terminal not initialized\x1b[0m")
+      return
+    }
+
+    // Check every stage for destructive commands before anything runs
+    for (const stage of stages) {
+      const destructiveCheck = detectDestructiveCommand(stage, { expansion: busybox.getExpansionContext() })
+      if (destructiveCheck?.isDestructive) {
+        setConfirmCommand(redirection.command)
+        setConfirmSeverity(destructiveCheck.warningLevel)
+
+        const messageData = getDestructiveCommandMessage(destructiveCheck)
+        setConfirmTitle(messageData.title)
+        setConfirmMessage(messageData.message)
+        setConfirmLabel(messageData.confirmLabel)
+
+        const alternative = getSaferAlternative(stage)
+        setConfirmAlternative(alternative || undefined)
+
+        setConfirmOpen(true)
+        return // Don't execute yet - wait for confirmation
+      }
+    }
+
+    try {
+      const columns = outputColumns(term, redirection)
+      const result = await executePipeline(stages, (stage, stdin, last) =>
+        runPipelineStage(stage, stdin, last ? columns : undefined)
+      )
+
+      if (result.requiresPassword) {
+        // Re-run the whole pipeline once the password is entered
+        passwordModeRef.current = true
+        passwordBufferRef.current = ""
+        pendingSudoCommandRef.current = redirection.command
+        pendingSudoRedirectionRef.current = redirection
+        term.write('[sudo] password for ' + username + ': ')
+        return
+      }
+
+      // Apply I/O redirection to the output of the last stage
+      const { stdout, stderr } = await redirectOutput(term, redirection, {
+        stdout: result.stdout,
+        stderr: result.stderr,
+      })
+
+      // A pager at the end of the pipeline shows the output in the viewer
+      const pager = result.stageResults[result.stageResults.length - 1]?.pager
+      if (pager && stdout) {
+        lessCommandRef.current = command
+        setLessFile(pager.filename)
+        setLessContent(pager.content)
+        setLessOpen(true)
+      } else if (stdout) {
+        stdout.split('\n').forEach(line => {
+          if (line) term.writeln(line)
+        })
+      }
+
+      if (stderr) {
+        stderr.split('\n').forEach(line => {
+          if (line) term.writeln(`\x1b[1;31m${line}\x1b[0m`)
+        })
+
+        const errorSuggestion = analyzeError(result.stdout, stderr, command)
+        if (errorSuggestion) {
+          term.writeln(formatErrorSuggestion(errorSuggestion))
+        }
+      }
+
+      if (result.exitCode !== 0) {
+        const severity = result.exitCode <= 2 ? ErrorSeverity.INFO : ErrorSeverity.WARNING
+        errorLogger.log(
+          ErrorType.COMMAND_EXECUTION,
+          `Pipeline failed: ${command}`,
+          { exitCode: result.exitCode, stderr: result.stderr, stdout: result.stdout },
+          undefined,
+          severity
+        )
+      }
+
+      // Validate with mission layer using the final stage's output
+      if (missionLayerRef.current) {
+        try {
+          missionLayerRef.current.validateTask({
+            command,
+            stdout: result.stdout,
+            stderr: result.stderr,
+            stdin: collectHeredocInput(redirection.command),
+            exitCode: result.exitCode,
+            fileSystem: busybox.getFS(),
+          })
+        } catch (validationError) {
+          errorLogger.log(
+            ErrorType.MISSION_VALIDATION,
+            `Mission validation error for pipeline: ${command}`,
+            { command, result },
+            validationError instanceof Error ? validationError : undefined,
+            ErrorSeverity.WARNING
+          )
+        }
+      }
+
+      writePrompt(term, busybox, username)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      term.writeln(`\x1b[1;31mError: ${errorMessage}\x1b[0m`)
+      errorLogger.log(
+        ErrorType.COMMAND_EXECUTION,
+        `Pipeline execution error: ${command}`,
+        { command },
+        error instanceof Error ? error : undefined,
+        ErrorSeverity.ERROR
+      )
+      writePrompt(term, busybox, username)
+    }
+  }
+
+  /**
+   * Run a command list, validating once with the combined output
+   * `password` authenticates the leading sudo pipeline when resuming after a prompt
+   */
+  const handleCommandList = async (
+    term: XTerm,
+    command: string,
+    ast: ShellCommandList,
+    options: { password?: string; confirmed?: boolean } = {}
+  ) => {
+    const busybox = busyboxRef.current
+    if (!busybox) {
+      term.writeln("\x1b[1;31mError: Terminal not initialized\x1b[0m")
+      return
+    }
+
+    // Check the whole list for destructive commands before anything runs
+    if (!options.confirmed) {
+      const destructiveCheck = detectDestructiveCommand(ast, { expansion: busybox.getExpansionContext() })
+      if (destructiveCheck?.isDestructive) {
+        setConfirmCommand(command)
+        setConfirmSeverity(destructiveCheck.warningLevel)
+
+        const messageData = getDestructiveCommandMessage(destructiveCheck)
+        setConfirmTitle(messageData.title)
+        setConfirmMessage(messageData.message)
+        setConfirmLabel(messageData.confirmLabel)
+
+        const alternative = getSaferAlternative(command)
+        setConfirmAlternative(alternative || undefined)
+
+        setConfirmOpen(true)
+        return // Don't execute yet - wait for confirmation
+      }
+    }
+
+    try {
+      const result = await executeCommandList(ast, (pipeline, index) =>
+        runListPipeline(term, pipeline, index === 0 ? options.password : undefined)
+      )
+
+      if (result.requiresPassword) {
+        // Resume the rest of the list once the password is entered
+        passwordModeRef.current = true
+        passwordBufferRef.current = ""
+        pendingSudoCommandRef.current = result.pendingCommand || null
+        term.write('[sudo] password for ' + username + ': ')
+        return
+      }
+
+      if (result.exitCode !== 0) {
+        const severity = result.exitCode <= 2 ? ErrorSeverity.INFO : ErrorSeverity.WARNING
+        errorLogger.log(
+          ErrorType.COMMAND_EXECUTION,
+          `Command list failed: ${command}`,
+          { exitCode: result.exitCode, stderr: result.stderr, stdout: result.stdout },
+          undefined,
+          severity
+        )
+      }
+
+      // Validate with mission layer using the combined output of the list
+      if (missionLayerRef.current) {
+        try {
+          missionLayerRef.current.validateTask({
+            command,
+            stdout: result.stdout,
+            stderr: result.stderr,
+            stdin: collectHeredocInput(command),
+            exitCode: result.exitCode,
+            fileSystem: busybox.getFS(),
+          })
+        } catch (validationError) {
+          errorLogger.log(
+            ErrorType.MISSION_VALIDATION,
+            `Mission validation error for command list: ${command}`,
+            { command, result },
+            validationError instanceof Error ? validationError : undefined,
+            ErrorSeverity.WARNING
+          )
+        }
+      }
+
+      writePrompt(term, busybox, username)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      term.writeln(`\x1b[1;31mError: ${errorMessage}\x1b[0m`)
+      errorLogger.log(
+        ErrorType.COMMAND_EXECUTION,
+        `Command list execution error: ${command}`,
+        { command },
+        error instanceof Error ? error : undefined,
+        ErrorSeverity.ERROR
+      )
+      writePrompt(term, busybox, username)
+    }
+  }
+
+  /**
+   * Run one pipeline of a command list, applying its redirection and
+   * displaying its output as soon as it finishes
+   */
+  const runListPipeline = async (
+    term: XTerm,
+    pipeline: string,
+    password?: string
+  ): Promise<CommandResult> => {
+    const busybox = busyboxRef.current
+    if (!busybox) {
+      return { stdout: '', stderr: 'Error: Terminal not initialized', exitCode: 1 }
+    }
+
+    const redirection = parseRedirection(pipeline)
+    const columns = outputColumns(term, redirection)
+    const result = await executePipeline(splitPipeline(redirection.command), (stage, stdin, last) =>
+      password && stage.startsWith('sudo ')
+        ? busybox.executeSudo(stage.replace(/^sudo\s+/, ''), password, stdin, last ? columns : undefined)
+        : runPipelineStage(stage, stdin, last ? columns : undefined)
+    )
+
+    if (result.requiresPassword) {
+      return result
+    }
+
+    const { stdout, stderr } = await redirectOutput(term, redirection, {
+      stdout: result.stdout,
+      stderr: result.stderr,
+    })
+
+    if (stdout) {
+      stdout.split('\n').forEach(line => {
+        if (line) term.writeln(line)
+      })
+    }
+
+    if (stderr) {
+      stderr.split('\n').forEach(line => {
+        if (line) term.writeln(`\x1b[1;31m${line}\x1b[0m`)
+      })
+
+      const errorSuggestion = analyzeError(result.stdout, stderr, pipeline)
+      if (errorSuggestion) {
+        term.writeln(formatErrorSuggestion(errorSuggestion))
+      }
+    }
+
+    return result
+  }
+
   const handleEditor = (filename: string) => {
     console.log('[DEBUG] handleEditor called with filename:', filename)
     const busybox = busyboxRef.current
@@ -1172,8 +1968,26 @@ export const WASMTerminal = forwardRef<WASMTerminalRef, WASMTerminalProps>(funct
     // Execute the destructive command
     term.writeln(`\x1b[1;33m⚠️  Executing destructive command...\x1b[0m`)
     
+    const { ast } = parseShell(confirmCommand)
+    // Heredoc bodies would be lost if the line were split into stages
+    if (ast && collectRedirects(ast).some(redirect => redirect.heredoc)) {
+      setConfirmCommand("")
+      await runHeredocCommand(term, confirmCommand, { confirmed: true })
+      return
+    }
+
+    if (ast && isCommandList(ast)) {
+      setConfirmCommand("")
+      await handleCommandList(term, confirmCommand, ast, { confirmed: true })
+      return
+    }
+
     try {
-      const result = await busybox.execute(confirmCommand)
+      const result = isPipeline(confirmCommand)
+        ? await executePipeline(splitPipeline(confirmCommand), (stage, stdin, last) =>
+            runPipelineStage(stage, stdin, last ? term.cols : undefined)
+          )
+        : await busybox.execute(confirmCommand, undefined, term.cols)
       
       if (result.stdout) {
         term.writeln(result.stdout)
@@ -0,0 +1,94 @@
+/**
+ * Test alias/unalias, alias expansion and sourcing of startup files
+ */
+
+import { expandAliases } from '../alias-expansion'
+import { executeCommand, runStartupFiles, ExecutionContext } from '../command-executor'
+import { SSHSimulator } from '../ssh-simulator'
+import { EnvSimulator } from '../env-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Alias Expansion Tests', () => {
+  const aliases: Record<string, string> = {
+    ll: 'ls -l',
+    ls: 'ls -F',
+    sudo: 'sudo ',
+    la: 'll -a',
+    up: 'cd ..; ls',
+  }
+  const expand = (line: string) => expandAliases(line, name => aliases[name])
+
+  it('should expand words in command position only', () => {
+    expect(expand('ll /tmp')).toBe('ls -F -l /tmp')
+    expect(expand('echo ll')).toBe('echo ll')
+    expect(expand('cat x | ll && ll; if ll; then ll; fi')).toBe(
+      'cat x | ls -F -l && ls -F -l; if ls -F -l; then ls -F -l; fi'
+    )
+    expect(expand('FOO=1 ll > ll')).toBe('FOO=1 ls -F -l > ll')
+  })
+
+  it('should leave quoted words alone and not expand an alias inside itself', () => {
+    expect(expand("'ll' \\ll \"ll\"")).toBe("'ll' \\ll \"ll\"")
+    expect(expand('ls')).toBe('ls -F')
+    expect(expand('la')).toBe('ls -F -l -a')
+  })
+
+  it('should check the next word after a value ending in a blank', () => {
+    expect(expand('sudo ll')).toBe('sudo  ls -F -l')
+    expect(expand('up && ll')).toBe('cd ..; ls -F && ls -F -l')
+  })
+
+  describe('builtins and startup files', () => {
+    let fs: MEMFS
+    let env: EnvSimulator
+    let context: ExecutionContext
+
+    beforeEach(() => {
+      fs = new MEMFS()
+      fs.mkdirTree('/home/student/projects')
+      fs.chown('/home', 'student')
+      fs.chown('/home/student', 'student')
+      env = new EnvSimulator({ username: 'student' })
+      context = { currentPath: '/home/student', username: 'student', isSudo: false, env }
+    })
+
+    it('should define, print and remove aliases', () => {
+      executeCommand("alias ll='ls -l' say=\"echo it's\"", context, fs)
+      expect(env.getAlias('ll')).toBe('ls -l')
+      expect(executeCommand('alias', context, fs).stdout).toBe("alias ll='ls -l'\nalias say='echo it'\\''s'")
+      expect(executeCommand('alias ll', context, fs).stdout).toBe("alias ll='ls -l'")
+
+      const missing = executeCommand('alias nope', context, fs)
+      expect(missing.stderr).toBe('bash: alias: nope: not found')
+      expect(missing.exitCode).toBe(1)
+
+      expect(executeCommand('unalias ll', context, fs).exitCode).toBe(0)
+      expect(executeCommand('unalias ll', context, fs).stderr).toBe('bash: unalias: ll: not found')
+      expect(executeCommand('unalias', context, fs).exitCode).toBe(2)
+      executeCommand('unalias -a', context, fs)
+      expect(env.getAliasNames()).toEqual([])
+    })
+
+    it('should source /etc/profile, ~/.profile and ~/.bashrc in order', () => {
+      fs.mkdirTree('/etc')
+      fs.writeFile('/etc/profile', 'export GREETING=hello')
+      fs.writeFile('/home/student/.bashrc', "alias ll='ls -l'\ncd projects\necho \"$GREETING from bashrc\"")
+
+      const result = runStartupFiles(context, fs)
+      expect(result.stdout).toBe('hello from bashrc')
+      expect(result.newPath).toBe('/home/student/projects')
+      expect(env.getAlias('ll')).toBe('ls -l')
+    })
+
+    it('should source the remote startup files when an SSH session opens', () => {
+      fs.mkdirTree('/remotes/omega_agent/filesystem/home/omega_agent')
+      fs.writeFile('/remotes/omega_agent/filesystem/home/omega_agent/.bashrc', "alias drop='cd incoming'\necho 'Secure drop ready'")
+
+      const ssh = new SSHSimulator({ fs })
+      const result = ssh.connect('remote-server', 'omega_agent')
+      expect(result.message).toBe('Connected to remote-server as omega_agent\nSecure drop ready')
+      expect(result.session?.env.getAlias('drop')).toBe('cd incoming')
+      expect(env.getAlias('drop')).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Test awk: fields, patterns, BEGIN/END, arrays, printf and the string functions
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { parseAwk } from '../awk-parser'
+import { MEMFS } from '../memfs'
+
+describe('Awk Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+  const run = (command: string, stdin?: string) => executeCommand(command, context, fs, stdin)
+
+  const ACCESS_LOG = [
+    '192.168.1.100 GET /api/status 200 512',
+    '10.0.2.50 POST /upload 201 20480',
+    '192.168.1.100 POST /api/auth 401 128',
+    '10.0.2.50 GET /download 200 4096',
+    '10.0.2.50 GET /exfil 200 65536',
+  ].join('\n')
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree(context.currentPath)
+    fs.chown('/home', 'student')
+    fs.chown(context.currentPath, 'student')
+    fs.writeFile('/home/student/access.log', ACCESS_LOG)
+  })
+
+  it('should print fields, NF, NR and the whole record', () => {
+    expect(run("awk '{print $1}' access.log").stdout.split('\n')).toEqual([
+      '192.168.1.100', '10.0.2.50', '192.168.1.100', '10.0.2.50', '10.0.2.50',
+    ])
+    expect(run("awk '{print NR\": \"$NF}'", 'a b c\nd e').stdout).toBe('1: c\n2: e')
+    expect(run("awk '{print $(NF-1), NF}'", 'a b c').stdout).toBe('b 3')
+    expect(run("awk -F: -v OFS=- '{print $1, $3}'", 'root:x:0:0').stdout).toBe('root-0')
+    expect(run("awk 'BEGIN {FS=\",\"} {$2 = \"X\"; print; print NF}'", 'a,b,c').stdout).toBe('a X c\n3')
+    expect(run('awk 1', 'same').stdout).toBe('same')
+  })
+
+  it('should select records with regex, comparison and range patterns', () => {
+    expect(run("awk '/POST/ {print $3}' access.log").stdout).toBe('/upload\n/api/auth')
+    expect(run("awk '$4 != 200' access.log").stdout.split('\n')).toHaveLength(2)
+    // Fields that look like numbers compare as numbers; string constants compare as strings
+    expect(run("awk '$5 > 1000 {print $3}' access.log").stdout).toBe('/upload\n/download\n/exfil')
+    expect(run("awk '$1 > \"2\"'", '10\n9').stdout).toBe('9')
+    expect(run("awk 'NR==2, NR==3 {print NR}' access.log").stdout).toBe('2\n3')
+    expect(run("awk '$3 ~ /^\\/api/ && $2 == \"GET\"' access.log").stdout).toBe(ACCESS_LOG.split('\n')[0])
+    expect(run("awk '!seen[$1]++ {print $1}' access.log").stdout).toBe('192.168.1.100\n10.0.2.50')
+  })
+
+  it('should total with arrays and arithmetic in END', () => {
+    expect(run("awk '{bytes[$1] += $5} END {for (ip in bytes) print ip, bytes[ip]}' access.log").stdout)
+      .toBe('192.168.1.100 640\n10.0.2.50 90112')
+    expect(run("awk '{sum += $5} END {print sum / NR, NR % 2, 2 ^ 10}' access.log").stdout).toBe('18150.4 1 1024')
+    expect(run("awk 'END {print n + 0, length(a)}'", 'x').stdout).toBe('0 0')
+    expect(run("awk 'BEGIN {x = 7; x /= 2; print x, int(x), -x}'").stdout).toBe('3.5 3 -3.5')
+    expect(run("awk 'BEGIN {for (i = 1; i <= 5; i++) {if (i == 4) break; s = s i}; print s}'").stdout).toBe('123')
+  })
+
+  it('should format with printf and use the string functions', () => {
+    expect(run("awk '{printf \"%-15s %6.1f KB\\n\", $1, $5 / 1024}' access.log").stdout.split('\n')[1])
+      .toBe('10.0.2.50         20.0 KB')
+    expect(run("awk 'BEGIN {printf \"%05d|%x|%c|%s|%e\", 42, 255, 65, \"ok\", 1234.5}'").stdout).toBe('00042|ff|A|ok|1.234500e+03')
+    expect(run("awk 'BEGIN {print length(\"omega\"), substr(\"omega_agent\", 7), substr(\"omega\", 2, 3), index(\"omega\", \"g\")}'").stdout)
+      .toBe('5 agent meg 4')
+    expect(run("awk 'BEGIN {n = split(\"a:b:c\", parts, \":\"); print n, parts[3], toupper(parts[1]), tolower(\"ABC\")}'").stdout)
+      .toBe('3 c A abc')
+    expect(run("awk '{gsub(/o/, \"0\"); sub(/e/, \"[&]\"); print}'", 'omega root').stdout).toBe('0m[e]ga r00t')
+    expect(run("awk 'BEGIN {print 0.1 + 0.2, 1 / 3, 1e6, 100000 * 100000}'").stdout).toBe('0.3 0.333333 1000000 10000000000')
+  })
+
+  it('should feed a pipeline and write files with >', () => {
+    expect(run("awk '{print $1}' access.log | sort | uniq -c").stdout).toBe('      3 10.0.2.50\n      2 192.168.1.100')
+    run("awk '$4 == 200 {print $3 > \"ok.txt\"}' access.log")
+    expect(fs.readFile('/home/student/ok.txt', { encoding: 'utf8' })).toBe('/api/status\n/download\n/exfil')
+    expect(run("awk 'NR == 2 {exit 3} END {print NR}' access.log")).toMatchObject({ stdout: '2', exitCode: 3 })
+  })
+
+  it('should report syntax and runtime errors', () => {
+    expect(parseAwk('{print $1').error).toBe(
+      'awk: cmd. line:1: {print $1\n' +
+      'awk: cmd. line:1:          ^ unexpected newline or end of string'
+    )
+    expect(run("awk '{print \"oops}'").stderr).toMatch(/\^ unterminated string$/)
+    expect(run("awk '{print $1}' missing.log").stderr).toBe("awk: fatal: cannot open file `missing.log' for reading: No such file or directory")
+    expect(run("awk 'BEGIN {print 1 / 0}'")).toMatchObject({ stderr: 'awk: fatal: division by zero attempted', exitCode: 2 })
+    expect(run("awk 'BEGIN {while (1) n++}'").stderr).toBe('awk: fatal: loop stopped after 100000 iterations')
+    expect(run('awk').exitCode).toBe(2)
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * Test command history: recall, the history builtin and ! expansion
+ */
+
+import { CommandHistory } from '../command-history'
+import { CommandInterceptor } from '../command-interceptor'
+import { EnvSimulator } from '../env-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Command History Tests', () => {
+  let fs: MEMFS
+  let env: EnvSimulator
+  let history: CommandHistory
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdir('/home')
+    fs.mkdir('/home/student')
+    env = new EnvSimulator({ username: 'student' })
+    history = new CommandHistory({ fs, env })
+    ;['ls -la', 'cat secrets.txt', 'cd /tmp'].forEach(command => history.add(command))
+  })
+
+  it('should recall entries with Up/Down and restore the typed line', () => {
+    expect(history.previous('ec')).toBe('cd /tmp')
+    expect(history.previous('')).toBe('cat secrets.txt')
+    expect(history.next()).toBe('cd /tmp')
+    expect(history.next()).toBe('ec')
+    expect(history.next()).toBeNull()
+  })
+
+  it('should number entries and show the last n', () => {
+    const { output } = history.executeHistoryCommand([])
+    expect(output).toBe('    1  ls -la\n    2  cat secrets.txt\n    3  cd /tmp')
+    expect(history.executeHistoryCommand(['1']).output).toBe('    3  cd /tmp')
+    expect(history.executeHistoryCommand(['x']).error).toBe('bash: history: x: numeric argument required')
+  })
+
+  it('should expand !!, !n, !-n and !prefix', () => {
+    expect(history.expand('sudo !!')).toEqual({ command: 'sudo cd /tmp', expanded: true })
+    expect(history.expand('!1').command).toBe('ls -la')
+    expect(history.expand('!-2').command).toBe('cat secrets.txt')
+    expect(history.expand('!cat | wc').command).toBe('cat secrets.txt | wc')
+    expect(history.expand('!nope').error).toBe('bash: !nope: event not found')
+  })
+
+  it('should leave quoted, escaped and operator uses of ! alone', () => {
+    for (const line of ["echo '!!'", 'echo \\!\\!', '[ ! -f x ]', '[ a != b ]', 'echo "hi!"']) {
+      expect(history.expand(line)).toEqual({ command: line, expanded: false })
+    }
+  })
+
+  it('should repeat the last command with ^old^new', () => {
+    expect(history.expand('^tmp^var').command).toBe('cd /var')
+    expect(history.expand('^zzz^var').error).toBe('bash: :s^zzz^var: substitution failed')
+  })
+
+  it('should persist to $HISTFILE and clear with history -c', async () => {
+    expect(fs.readFile('/home/student/.bash_history', { encoding: 'utf8' })).toBe('ls -la\ncat secrets.txt\ncd /tmp')
+
+    const restored = new CommandHistory({ fs, env })
+    restored.load()
+    expect(restored.getEntries()).toHaveLength(3)
+
+    const interceptor = new CommandInterceptor({
+      fs,
+      env,
+      history,
+      context: { currentPath: '/home/student', username: 'student', isSudo: false },
+    })
+    expect(interceptor.shouldIntercept('history -c')).toBe(true)
+    await interceptor.intercept('history -c')
+    expect(history.getEntries()).toEqual([])
+    expect(fs.readFile('/home/student/.bash_history', { encoding: 'utf8' })).toBe('')
+  })
+})
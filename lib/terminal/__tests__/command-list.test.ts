@@ -0,0 +1,63 @@
+/**
+ * Test command list execution (;, &&, ||)
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { executeCommandList } from '../command-list'
+import { parseShell } from '../shell-parser'
+import { MEMFS } from '../memfs'
+
+describe('Command List Tests', () => {
+  let fs: MEMFS
+  let context: ExecutionContext
+
+  const run = (command: string) =>
+    executeCommandList(parseShell(command).ast!, async pipeline => executeCommand(pipeline, context, fs))
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    context = {
+      currentPath: '/home/student',
+      username: 'student',
+      isSudo: false,
+    }
+
+    fs.mkdir('/home')
+    fs.chown('/home', 'student')
+    fs.mkdir('/home/student')
+  })
+
+  it('should skip || when the first command succeeds', async () => {
+    const result = await run('mkdir temp_exfil || echo exists')
+    expect(result.stdout).toBe('')
+    expect(result.exitCode).toBe(0)
+    expect(fs.exists('/home/student/temp_exfil')).toBe(true)
+  })
+
+  it('should run || when the first command fails', async () => {
+    fs.mkdir('/home/student/temp_exfil')
+    const result = await run('mkdir temp_exfil || echo exists')
+    expect(result.stdout).toBe('exists')
+    expect(result.stderr).toContain('temp_exfil')
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('should stop && chains on failure but continue after ;', async () => {
+    const result = await run('cat missing.txt && echo never; echo always')
+    expect(result.stdout).toBe('always')
+    expect(result.results).toHaveLength(2)
+  })
+
+  it('should use the last exit code that ran', async () => {
+    const result = await run('nosuchcmd && echo a || echo b')
+    expect(result.stdout).toBe('b')
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('should halt at sudo and return the rest of the list', async () => {
+    const result = await run('echo a && sudo ls /; echo c')
+    expect(result.requiresPassword).toBe(true)
+    expect(result.pendingCommand).toBe('sudo ls /; echo c')
+    expect(result.stdout).toBe('a')
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Test the command registry and the commands registered with it
+ */
+
+import { CommandRegistry, commandRegistry, formatManPage, adventureCommandSpec } from '../command-registry'
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { CommandInterceptor } from '../command-interceptor'
+import { analyzeError } from '../error-recovery'
+import { MEMFS } from '../memfs'
+// Network commands are registered when the simulator module loads
+import '../network-simulator'
+
+describe('Command Registry Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree(context.currentPath)
+  })
+
+  it('should look commands up by name or alias and drop aliases on unregister', () => {
+    const registry = new CommandRegistry()
+    registry.register({ name: 'less', aliases: ['more'], summary: 'pager' })
+    registry.register({ name: 'konami', summary: 'secret', hidden: true })
+
+    expect(registry.get('more')?.name).toBe('less')
+    expect(registry.getNames()).toEqual(['less', 'more'])
+    expect(registry.suggest('lses')).toBe('less')
+    expect(registry.suggest('xyzzy')).toBeNull()
+
+    registry.unregister('less')
+    expect(registry.has('more')).toBe(false)
+  })
+
+  it('should register the executor, interpreter, interceptor and network commands', () => {
+    for (const name of ['ls', '[', 'bash', 'export', 'man', 'vim', 'ssh', 'help']) {
+      expect(commandRegistry.has(name)).toBe(true)
+    }
+    expect(commandRegistry.getNames()).not.toContain('konami')
+    expect(commandRegistry.get('head')?.numericOption).toBe('n')
+    expect(commandRegistry.get('rm')?.destructive).toBe(true)
+  })
+
+  it('should list commands and describe one with help', () => {
+    const listing = executeCommand('help', context, fs).stdout
+    expect(listing).toContain('Available commands:')
+    expect(listing).toMatch(/cat, cd, chmod/)
+    expect(listing).not.toContain('konami')
+
+    const head = executeCommand('help head', context, fs)
+    expect(head.stdout).toContain('head [OPTION]... [FILE]')
+
+    expect(executeCommand('help nosuch', context, fs).exitCode).toBe(1)
+  })
+
+  it('should show man pages through the interceptor', async () => {
+    const interceptor = new CommandInterceptor({ fs, context })
+    expect(interceptor.shouldIntercept('man grep')).toBe(true)
+    expect(interceptor.shouldIntercept('vim notes.txt')).toBe(true)
+    expect(interceptor.shouldIntercept('cat notes.txt')).toBe(false)
+
+    const page = await interceptor.intercept('man grep')
+    expect(page.modalType).toBe('less')
+    expect(page.output).toBe(formatManPage(commandRegistry.get('grep')!))
+    expect(page.output).toContain('SYNOPSIS')
+
+    expect((await interceptor.intercept('man nosuch')).error).toBe('No manual entry for nosuch')
+  })
+
+  it('should run adventure commands until they are unregistered', () => {
+    commandRegistry.register(adventureCommandSpec({ name: 'decrypt', summary: 'decrypt the vault', output: 'ACCESS GRANTED' }))
+    commandRegistry.register(adventureCommandSpec({ name: 'override', summary: 'override', output: 'done', requiresSudo: true }))
+
+    expect(executeCommand('decrypt', context, fs).stdout).toBe('ACCESS GRANTED')
+    expect(executeCommand('override', context, fs).stderr).toBe('override: Permission denied')
+    expect(executeCommand('override', { ...context, isSudo: true }, fs).stdout).toBe('done')
+
+    commandRegistry.unregister('decrypt')
+    commandRegistry.unregister('override')
+    expect(executeCommand('decrypt', context, fs).exitCode).toBe(127)
+  })
+
+  it('should suggest registered commands for typos', () => {
+    const suggestion = analyzeError('', 'bash: grpe: command not found', 'grpe foo')
+    expect(suggestion?.suggestions[0]).toBe('Did you mean: grep?')
+  })
+})
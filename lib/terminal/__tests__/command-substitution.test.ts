@@ -0,0 +1,98 @@
+/**
+ * Test command substitution ($(...) and backticks)
+ */
+
+import { executeCommand, ExecutionContext, getExpansionContext } from '../command-executor'
+import { detectDestructiveCommand } from '../destructive-command-detector'
+import { EnvSimulator } from '../env-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Command Substitution Tests', () => {
+  let fs: MEMFS
+  let context: ExecutionContext
+
+  const run = (command: string) => executeCommand(command, context, fs)
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdir('/home')
+    fs.chown('/home', 'student')
+    fs.mkdir('/home/student')
+    fs.mkdir('/home/student/projects')
+    fs.writeFile('/home/student/projects/project_alpha.txt', 'alpha')
+    fs.writeFile('/home/student/names.txt', 'a.txt\nb.txt\n')
+
+    context = {
+      currentPath: '/home/student',
+      username: 'student',
+      isSudo: false,
+      env: new EnvSimulator({ username: 'student' }),
+    }
+  })
+
+  it('should substitute stdout without trailing newlines', () => {
+    expect(run('echo "[$(cat names.txt)]"').stdout).toBe('[a.txt\nb.txt]')
+    expect(run('echo `basename /tmp/report.txt .txt`').stdout).toBe('report')
+  })
+
+  it('should split unquoted results into words', () => {
+    run('touch $(cat names.txt)')
+    expect(fs.exists('/home/student/a.txt')).toBe(true)
+    expect(fs.exists('/home/student/b.txt')).toBe(true)
+  })
+
+  it('should run nested substitutions in the same session', () => {
+    const result = run('cd $(dirname $(find /home -name project_alpha.txt))')
+    expect(result.newPath).toBe('/home/student/projects')
+  })
+
+  it('should run pipelines and lists inside a subshell', () => {
+    expect(run('echo $(cd projects; pwd)').stdout).toBe('/home/student/projects')
+    expect(run('echo $(cat names.txt | head -n 1)').stdout).toBe('a.txt')
+  })
+
+  it('should keep quoted and escaped forms literal', () => {
+    expect(run("echo '$(date)' \"\\$(date)\"").stdout).toBe('$(date) $(date)')
+  })
+
+  it('should analyse substituted commands and targets', () => {
+    const expansion = getExpansionContext(context, fs)
+
+    expect(detectDestructiveCommand('echo $(rm -rf /etc)')?.warningLevel).toBe('critical')
+    expect(detectDestructiveCommand('rm -rf $(dirname /home/x)', { expansion })?.warningLevel).toBe('critical')
+    expect(detectDestructiveCommand('rm $(cat names.txt)')?.isDestructive).toBe(true)
+  })
+
+  it('should not change anything while checking a line', () => {
+    fs.writeFile('/home/student/important', 'keep')
+    const expansion = getExpansionContext(context, fs)
+
+    const check = detectDestructiveCommand('rm $(cat names.txt > important)', { expansion })
+    expect(check?.reason).toContain("can't be checked")
+    expect(fs.readFile('/home/student/important', { encoding: 'utf8' })).toBe('keep')
+
+    detectDestructiveCommand('rm $(X=1 cat names.txt) $(touch made.txt)', { expansion })
+    expect(fs.exists('/home/student/made.txt')).toBe(false)
+
+    run('cat() { touch made.txt; }')
+    expect(detectDestructiveCommand('rm $(cat names.txt)', { expansion })?.reason).toContain("can't be checked")
+  })
+
+  it('should reuse substitutions run while checking instead of running them again', () => {
+    const substitutions = new Map<string, string>()
+    const checked = { ...context, substitutions }
+    fs.writeFile('/home/student/queue.txt', 'a.txt')
+
+    detectDestructiveCommand('rm $(head -n 1 queue.txt)', { expansion: getExpansionContext(checked, fs) })
+    expect(substitutions.get('head -n 1 queue.txt')).toBe('a.txt')
+
+    // The line runs with what was checked, even if the file changed since
+    fs.writeFile('/home/student/queue.txt', 'b.txt')
+    fs.writeFile('/home/student/a.txt', '')
+    fs.writeFile('/home/student/b.txt', '')
+    executeCommand('rm $(head -n 1 queue.txt)', checked, fs)
+    expect(fs.exists('/home/student/a.txt')).toBe(false)
+    expect(fs.exists('/home/student/b.txt')).toBe(true)
+    expect(substitutions.size).toBe(0)
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Test the destructive command check: operands the line computes as it
+ * runs, and command lines run by eval and sh -c
+ */
+
+import { ExecutionContext, getExpansionContext } from '../command-executor'
+import { detectDestructiveCommand } from '../destructive-command-detector'
+import { EnvSimulator } from '../env-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Destructive Command Detector Tests', () => {
+  let fs: MEMFS
+  let context: ExecutionContext
+
+  const check = (command: string) => detectDestructiveCommand(command, { expansion: getExpansionContext(context, fs) })
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree('/home/student/intel')
+    fs.chown('/home', 'student')
+    fs.chown('/home/student', 'student')
+    fs.chown('/home/student/intel', 'student')
+
+    context = {
+      currentPath: '/home/student',
+      username: 'student',
+      isSudo: false,
+      env: new EnvSimulator({ username: 'student' }),
+    }
+  })
+
+  it('should flag operands using a variable the line sets', () => {
+    expect(check('D=intel; rm -rf $D')?.reason).toContain("can't be checked")
+    expect(check('export D=intel; rm -rf "$D"')?.isDestructive).toBe(true)
+    expect(check('D=intel && rmdir ${D}')?.isDestructive).toBe(true)
+  })
+
+  it('should flag operands using a loop variable', () => {
+    expect(check('for d in intel; do rm -rf $d; done')?.isDestructive).toBe(true)
+    expect(check('for f in *.txt; do mv $f old/; done')?.isDestructive).toBe(true)
+  })
+
+  it('should flag loops that compute their operands as they run', () => {
+    context.env!.setVariable('f', 'notes.md')
+    expect(check('while read f; do rm $f; done < list.txt')?.isDestructive).toBe(true)
+    expect(check('i=0; while [ $i -lt 3 ]; do rm tmp$((i)); i=$((i + 1)); done')?.isDestructive).toBe(true)
+  })
+
+  it('should flag operands that expand to nothing before the line runs', () => {
+    expect(check('rm -rf $UNSET_DIR')?.isDestructive).toBe(true)
+    expect(check('f() { rm -rf $1; }; f intel')?.isDestructive).toBe(true)
+
+    // Set beforehand, the value itself is checked
+    context.env!.setVariable('D', 'notes.md')
+    expect(check('rm $D')?.isDestructive).toBe(false)
+  })
+
+  it('should check the command lines run by eval and sh -c', () => {
+    expect(check('eval "rm -rf intel"')?.isDestructive).toBe(true)
+    expect(check('sh -c "rm -rf intel"')?.isDestructive).toBe(true)
+    expect(check("bash -c 'rm -rf /etc'")?.warningLevel).toBe('critical')
+    expect(check('sudo sh -ec "rm -rf intel"')?.isDestructive).toBe(true)
+    expect(check('eval "echo hi"')).toBeNull()
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Test find: expressions with operators, metadata tests, -exec and -delete,
+ * and confirmation of the destructive ones
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { detectDestructiveCommand } from '../destructive-command-detector'
+import { MEMFS } from '../memfs'
+
+describe('Find Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+  const run = (command: string) => executeCommand(command, context, fs)
+  const lines = (command: string) => run(command).stdout.split('\n').sort()
+
+  const DAY = 24 * 60 * 60 * 1000
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree('/home/student/logs')
+    fs.chown('/home', 'student')
+    fs.chown('/home/student', 'student')
+    fs.chown('/home/student/logs', 'student')
+    fs.writeFile('/home/student/logs/sys.log', 'x'.repeat(2000))
+    fs.writeFile('/home/student/logs/Auth.LOG', 'login')
+    fs.writeFile('/home/student/notes.txt', '')
+    fs.mkdir('/home/student/vault')
+    fs.chown('/home/student/vault', 'root')
+
+    // A week-old file
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now - 8 * DAY)
+    fs.writeFile('/home/student/logs/old.log', 'stale')
+    jest.restoreAllMocks()
+  })
+
+  it('should print every file below the starting points', () => {
+    expect(run('find logs').stdout.split('\n')[0]).toBe('logs')
+    expect(lines('find logs -type f')).toEqual(['logs/Auth.LOG', 'logs/old.log', 'logs/sys.log'])
+    expect(run('find . -maxdepth 0').stdout).toBe('.')
+    expect(run('find missing')).toMatchObject({ stderr: "find: 'missing': No such file or directory", exitCode: 1 })
+    expect(run('find vault')).toMatchObject({ stdout: 'vault', stderr: "find: 'vault': Permission denied", exitCode: 1 })
+  })
+
+  it('should combine tests with !, -o and parentheses', () => {
+    expect(lines('find . -iname "*.log"')).toEqual(['./logs/Auth.LOG', './logs/old.log', './logs/sys.log'])
+    expect(lines('find . -name "*.log" -o -name "*.txt"')).toEqual(['./logs/old.log', './logs/sys.log', './notes.txt'])
+    expect(lines('find logs -type f ! -name "*.log"')).toEqual(['logs/Auth.LOG'])
+    expect(lines('find . \\( -name sys.log -o -name notes.txt \\) -print')).toEqual(['./logs/sys.log', './notes.txt'])
+    expect(run('find . \\( -name x').stderr).toBe("find: invalid expression; I was expecting to find a ')' somewhere but did not see one.")
+    expect(run('find . -bogus').stderr).toBe("find: unknown predicate '-bogus'")
+  })
+
+  it('should test size, age, owner and permissions', () => {
+    // Directories have the size ls -l shows, 4096 bytes
+    expect(run('find logs -size +2').stdout).toBe('logs\nlogs/sys.log')
+    expect(run('find . -type d -size 4k -name logs').stdout).toBe('./logs')
+    expect(run('ls -ld logs').stdout).toMatch(/ 4096 /)
+    expect(run('find . -type f -size -1').stdout).toBe('./notes.txt')
+    expect(run('find logs -size +1k -size -3k').stdout).toBe('logs/sys.log')
+    expect(run('find logs -mtime +7').stdout).toBe('logs/old.log')
+    expect(lines('find logs -type f -mtime -1')).toEqual(['logs/Auth.LOG', 'logs/sys.log'])
+    expect(run('find . -user root').stdout).toBe('./vault')
+    expect(run('find . -type f -perm 644 -name notes.txt').stdout).toBe('./notes.txt')
+    expect(run('find . -perm -u+q').stderr).toBe("find: invalid mode '-u+q'")
+
+    fs.chmod('/home/student/notes.txt', 0o746)
+    expect(run('find . -type f -perm -u+x').stdout).toBe('./notes.txt')
+    expect(run('find . -type f -perm /o=w').stdout).toBe('./notes.txt')
+    expect(run('find . -type f -perm u=rwx,g=r,o=rw').stdout).toBe('./notes.txt')
+    expect(run('find . -type f -perm -g+w').stdout).toBe('')
+  })
+
+  it('should run commands with -exec', () => {
+    expect(run('find logs -iname auth.log -exec cat {} \\;').stdout).toBe('login')
+    expect(run('find logs -name "*.log" -exec echo found {} +').stdout).toBe('found logs/sys.log logs/old.log')
+    expect(run('find logs -exec echo {}').stderr).toBe("find: missing argument to '-exec'")
+  })
+
+  it('should delete what it finds, directories after their contents', () => {
+    expect(run('find logs -name "*.log" -delete')).toMatchObject({ stdout: '', exitCode: 0 })
+    expect(fs.readdir('/home/student/logs')).toEqual(['Auth.LOG'])
+    run('find logs -delete')
+    expect(fs.exists('/home/student/logs')).toBe(false)
+  })
+
+  it('should confirm -delete and -exec rm before running them', () => {
+    expect(detectDestructiveCommand('find /tmp -name "*.bak" -delete')?.warningLevel).toBe('warning')
+    expect(detectDestructiveCommand('find /etc -delete')?.warningLevel).toBe('critical')
+    expect(detectDestructiveCommand('find /var/log -name "*.log" -exec rm {} \\;')?.warningLevel).toBe('critical')
+    expect(detectDestructiveCommand('find . -name "*.tmp" -exec rm {} +')?.isDestructive).toBe(true)
+    expect(detectDestructiveCommand('find . -name "*.tmp" -exec ls -l {} +')).toBeNull()
+    expect(detectDestructiveCommand('find /var/log -name "*.log"')).toBeNull()
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Test pathname (glob) expansion
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { expandArgv } from '../word-expansion'
+import { MEMFS } from '../memfs'
+
+describe('Glob Expansion Tests', () => {
+  let fs: MEMFS
+  let context: ExecutionContext
+
+  const expand = (command: string) => expandArgv(command, { fs, ...context })
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    context = {
+      currentPath: '/home/student',
+      username: 'student',
+      isSudo: false,
+    }
+
+    fs.mkdir('/home')
+    fs.chown('/home', 'student')
+    fs.mkdir('/home/student')
+    fs.mkdir('/home/student/projects')
+    fs.mkdir('/home/student/projects/alpha')
+    fs.mkdir('/home/student/temp_exfil')
+    fs.writeFile('/home/student/a.txt', 'alpha')
+    fs.writeFile('/home/student/b.txt', 'beta')
+    fs.writeFile('/home/student/c1.log', 'log')
+    fs.writeFile('/home/student/.hidden.txt', 'secret')
+    fs.writeFile('/home/student/projects/plan.md', 'plan')
+    fs.writeFile('/home/student/projects/alpha/notes.md', 'notes')
+  })
+
+  it('should expand * and ? in sorted order', () => {
+    expect(expand('ls *.txt')).toEqual(['ls', 'a.txt', 'b.txt'])
+    expect(expand('ls c?.log')).toEqual(['ls', 'c1.log'])
+  })
+
+  it('should expand bracket expressions', () => {
+    expect(expand('ls [ab].txt')).toEqual(['ls', 'a.txt', 'b.txt'])
+    expect(expand('ls [!a].txt')).toEqual(['ls', 'b.txt'])
+    expect(expand('ls c[[:digit:]].log')).toEqual(['ls', 'c1.log'])
+  })
+
+  it('should only match dotfiles with a leading dot in the pattern', () => {
+    expect(expand('ls *')).not.toContain('.hidden.txt')
+    expect(expand('ls .*.txt')).toEqual(['ls', '.hidden.txt'])
+  })
+
+  it('should leave unmatched patterns as-is', () => {
+    expect(expand('ls *.csv')).toEqual(['ls', '*.csv'])
+  })
+
+  it('should not expand quoted or escaped patterns', () => {
+    expect(expand('ls "*.txt" \'*.log\' \\*')).toEqual(['ls', '*.txt', '*.log', '*'])
+  })
+
+  it('should expand across directories and keep the typed prefix', () => {
+    expect(expand('ls projects/*')).toEqual(['ls', 'projects/alpha', 'projects/plan.md'])
+    expect(expand('ls /home/student/p*/*.md')).toEqual(['ls', '/home/student/projects/plan.md'])
+    expect(expand('ls */')).toEqual(['ls', 'projects/', 'temp_exfil/'])
+  })
+
+  it('should expand ** recursively', () => {
+    expect(expand('ls **/*.md')).toEqual(['ls', 'projects/alpha/notes.md', 'projects/plan.md'])
+  })
+
+  it('should give every command expanded operands', () => {
+    executeCommand('cp projects/* temp_exfil/', context, fs)
+    expect(fs.exists('/home/student/temp_exfil/plan.md')).toBe(true)
+
+    const result = executeCommand('rm *.log', context, fs)
+    expect(result.exitCode).toBe(0)
+    expect(fs.exists('/home/student/c1.log')).toBe(false)
+  })
+})
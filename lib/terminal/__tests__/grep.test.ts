@@ -0,0 +1,88 @@
+/**
+ * Test grep: BRE, ERE and fixed strings, -w and -x, -o, -c, -l and -L,
+ * context lines, stdin, recursion and --color
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { MEMFS } from '../memfs'
+
+describe('Grep Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+  const run = (command: string, stdin?: string) => executeCommand(command, context, fs, stdin)
+
+  const LOG = [
+    '09:00 INFO boot',
+    '09:01 WARN disk 91%',
+    '09:02 INFO sync',
+    '09:03 INFO sync',
+    '09:04 ERROR uplink lost',
+    '09:05 INFO retry',
+    '09:06 INFO retry',
+    '09:07 INFO retry',
+    '09:08 ERROR uplink lost',
+  ].join('\n')
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree('/home/student/logs')
+    fs.chown('/home', 'student')
+    fs.chown(context.currentPath, 'student')
+    fs.chown('/home/student/logs', 'student')
+    fs.writeFile('/home/student/logs/sys.log', LOG)
+    fs.writeFile('/home/student/logs/auth.log', 'login omega\nlogout omega')
+    fs.writeFile('/home/student/notes.txt', 'a+b\ncat\ncatalog')
+  })
+
+  it('should read standard input and set the exit status', () => {
+    expect(run('grep sync', 'sync\nidle\nresync')).toMatchObject({ stdout: 'sync\nresync', exitCode: 0 })
+    expect(run('grep nothing', 'sync').exitCode).toBe(1)
+    expect(run('grep x missing.txt')).toMatchObject({ stderr: 'grep: missing.txt: No such file or directory', exitCode: 2 })
+    expect(run('grep -q ERROR logs/sys.log')).toMatchObject({ stdout: '', exitCode: 0 })
+  })
+
+  it('should tell basic, extended and fixed-string patterns apart', () => {
+    expect(run("grep 'a+b' notes.txt").stdout).toBe('a+b')
+    expect(run("grep 'ca\\(t\\)\\{1\\}a' notes.txt").stdout).toBe('catalog')
+    expect(run("grep -E 'WARN|ERROR' logs/sys.log").stdout.split('\n')).toHaveLength(3)
+    expect(run("egrep 'c(at)+$' notes.txt").stdout).toBe('cat')
+    expect(run("fgrep '.*' notes.txt").exitCode).toBe(1)
+    expect(run("grep 'a[' notes.txt")).toMatchObject({ stderr: 'grep: Unmatched [, [^, [:, [., or [=', exitCode: 2 })
+  })
+
+  it('should match whole words and lines and print only the matches', () => {
+    expect(run('grep -w cat notes.txt').stdout).toBe('cat')
+    expect(run('grep -x cat notes.txt').stdout).toBe('cat')
+    expect(run('grep -o "[0-9]*%" logs/sys.log').stdout).toBe('91%')
+    expect(run('grep -on retry logs/sys.log').stdout).toBe('6:retry\n7:retry\n8:retry')
+  })
+
+  it('should count matches and list matching files', () => {
+    expect(run('grep -c INFO logs/sys.log').stdout).toBe('6')
+    expect(run('grep -c omega logs/sys.log logs/auth.log').stdout).toBe('logs/sys.log:0\nlogs/auth.log:2')
+    expect(run('grep -l omega logs/sys.log logs/auth.log').stdout).toBe('logs/auth.log')
+    expect(run('grep -L omega logs/sys.log logs/auth.log').stdout).toBe('logs/sys.log')
+    expect(run('grep -rl uplink').stdout).toBe('logs/sys.log')
+    expect(run('grep -r logout logs').stdout).toBe('logs/auth.log:logout omega')
+  })
+
+  it('should print context lines with -- between groups', () => {
+    expect(run('grep -n -A1 ERROR logs/sys.log').stdout).toBe(
+      '5:09:04 ERROR uplink lost\n6-09:05 INFO retry\n--\n9:09:08 ERROR uplink lost'
+    )
+    expect(run('grep -C1 sync logs/sys.log').stdout).toBe(
+      '09:01 WARN disk 91%\n09:02 INFO sync\n09:03 INFO sync\n09:04 ERROR uplink lost'
+    )
+    expect(run('grep -B1 -m1 WARN logs/sys.log').stdout).toBe('09:00 INFO boot\n09:01 WARN disk 91%')
+  })
+
+  it('should colour matches, file names and line numbers', () => {
+    expect(run('grep --color=always lo', 'login').stdout).toBe('\x1b[01;31m\x1b[Klo\x1b[m\x1b[Kgin')
+    expect(run('grep --color=always -Hn WARN logs/sys.log').stdout).toBe(
+      '\x1b[35m\x1b[Klogs/sys.log\x1b[m\x1b[K\x1b[36m\x1b[K:\x1b[m\x1b[K' +
+      '\x1b[32m\x1b[K2\x1b[m\x1b[K\x1b[36m\x1b[K:\x1b[m\x1b[K' +
+      '09:01 \x1b[01;31m\x1b[KWARN\x1b[m\x1b[K disk 91%'
+    )
+    expect(run('grep --color=never lo', 'login').stdout).toBe('login')
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Test fd-aware output redirection: 2>, 2>&1, &> and /dev special files,
+ * and input redirection left for the shell
+ */
+
+import { parseRedirection, executeWithRedirection, collectHeredocInput } from '../io-redirection'
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { detectDestructiveCommand } from '../destructive-command-detector'
+import { executePipeline, splitPipeline } from '../pipeline'
+import { EnvSimulator } from '../env-simulator'
+import { MEMFS } from '../memfs'
+
+describe('I/O Redirection Tests', () => {
+  let fs: MEMFS
+  const cwd = '/home/student'
+  const read = (name: string) => fs.readFile(`${cwd}/${name}`, { encoding: 'utf8' })
+
+  const redirect = (command: string, stdout: string, stderr: string) =>
+    executeWithRedirection(parseRedirection(command), { stdout, stderr }, fs, cwd)
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree(cwd)
+    fs.chown('/home', 'student')
+    fs.chown(cwd, 'student')
+  })
+
+  it('should parse stream redirections in order and strip them from the command', () => {
+    const result = parseRedirection('find / -name "*.log" > found.txt 2>&1')
+    expect(result.command).toBe('find / -name "*.log"')
+    expect(result.type).toBe('output')
+    expect(result.target).toBe('found.txt')
+    expect(result.streams).toEqual([
+      { fd: 1, op: '>', target: 'found.txt' },
+      { fd: 2, op: '>&', target: '1' },
+    ])
+
+    expect(parseRedirection('cmd &>> all.txt').streams).toEqual([{ fd: null, op: '>>', target: 'all.txt' }])
+    expect(parseRedirection('cmd 2>/dev/null').streams).toEqual([{ fd: 2, op: '>', target: '/dev/null' }])
+  })
+
+  it('should leave redirections on earlier pipeline stages in place', () => {
+    const result = parseRedirection('find / 2>/dev/null | grep log > hits.txt')
+    expect(result.command).toBe('find / 2> /dev/null | grep log')
+    expect(result.streams).toEqual([{ fd: 1, op: '>', target: 'hits.txt' }])
+  })
+
+  it('should leave < in the command so the shell feeds the file to stdin', async () => {
+    // The terminal runs redirection.command, piping its stages like this
+    const context: ExecutionContext = { currentPath: cwd, username: 'student', isSudo: false }
+    const terminal = async (command: string) => {
+      const redirection = parseRedirection(command)
+      const result = await executePipeline(splitPipeline(redirection.command), async (stage, stdin) =>
+        executeCommand(stage, context, fs, stdin))
+      return executeWithRedirection(redirection, result, fs, cwd)
+    }
+    fs.writeFile(`${cwd}/f.txt`, 'b\na\nc')
+
+    expect(parseRedirection('wc -l < f.txt')).toMatchObject({ hasRedirection: false, command: 'wc -l < f.txt' })
+    expect((await terminal('wc -l < f.txt')).stdout?.trim()).toBe('3')
+    expect((await terminal('sort < f.txt')).stdout).toBe('a\nb\nc')
+    expect((await terminal('grep a < f.txt | wc -l')).stdout?.trim()).toBe('1')
+    await terminal('sort < f.txt > sorted.txt')
+    expect(read('sorted.txt')).toBe('a\nb\nc')
+  })
+
+  it('should discard stderr with 2>/dev/null and keep stdout separate', async () => {
+    const result = await redirect('find / 2>/dev/null', '/var/log/auth.log', 'find: /root: Permission denied')
+    expect(result.stdout).toBe('/var/log/auth.log')
+    expect(result.stderr).toBe('')
+    expect(result.files).toEqual([])
+  })
+
+  it('should write stderr to a file and duplicate fds left to right', async () => {
+    const errors = await redirect('cmd 2> err.txt', 'out', 'oops')
+    expect(errors.stdout).toBe('out')
+    expect(read('err.txt')).toBe('oops')
+
+    // 2>&1 after > sends both streams to the file
+    await redirect('cmd > both.txt 2>&1', 'out', 'oops')
+    expect(read('both.txt')).toBe('out\noops')
+
+    // 2>&1 before > leaves stderr on the terminal (as stdout)
+    const swapped = await redirect('cmd 2>&1 > only.txt', 'out', 'oops')
+    expect(read('only.txt')).toBe('out')
+    expect(swapped.stdout).toBe('oops')
+
+    await redirect('cmd &> all.txt', 'out', 'oops')
+    expect(read('all.txt')).toBe('out\noops')
+  })
+
+  it('should send output to /dev/stderr and truncate files even without output', async () => {
+    const result = await redirect('echo warn >/dev/stderr', 'warn', '')
+    expect(result.stdout).toBe('')
+    expect(result.stderr).toBe('warn')
+
+    fs.writeFile(`${cwd}/old.txt`, 'stale')
+    const empty = await redirect('true > old.txt', '', '')
+    expect(read('old.txt')).toBe('')
+    expect(empty.files).toEqual(['old.txt'])
+
+    expect((await redirect('cmd 2>&3', 'out', '')).error).toContain('Bad file descriptor')
+  })
+
+  it('should provide /dev/null in MEMFS and honour redirections in executeCommand', () => {
+    const context: ExecutionContext = { currentPath: cwd, username: 'student', isSudo: false }
+    expect(fs.exists('/dev/null')).toBe(true)
+
+    fs.writeFile('/dev/null', 'discarded')
+    expect(fs.readFile('/dev/null', { encoding: 'utf8' })).toBe('')
+
+    const result = executeCommand('cat missing.txt 2>/dev/null', context, fs)
+    expect(result.stderr).toBe('')
+    expect(result.exitCode).toBe(1)
+
+    executeCommand('cat missing.txt 2> err.txt', context, fs)
+    expect(read('err.txt')).toContain('missing.txt')
+  })
+
+  it('should feed heredocs and here-strings to the command and write the target file', () => {
+    const env = new EnvSimulator({ username: 'student' })
+    const context: ExecutionContext = { currentPath: cwd, username: 'student', isSudo: false, env }
+    env.setVariable('TARGET', 'vault')
+
+    executeCommand('cat <<EOF > notes.txt\ntarget: $TARGET\nEOF', context, fs)
+    expect(read('notes.txt')).toBe('target: vault')
+
+    executeCommand("cat >> notes.txt <<'EOF'\nraw $TARGET\nEOF", context, fs)
+    expect(read('notes.txt')).toBe('target: vault\nraw $TARGET')
+
+    expect(executeCommand('cat <<-END\n\tindented\n\tEND', context, fs).stdout).toBe('indented')
+    expect(executeCommand('grep vau <<< "$TARGET"', context, fs).stdout).toBe('vault')
+  })
+
+  it('should flag heredocs that overwrite startup files or feed a shell', () => {
+    expect(detectDestructiveCommand('cat <<EOF > ~/.bashrc\nalias ls=rm\nEOF')?.isDestructive).toBe(true)
+    expect(detectDestructiveCommand('sh <<EOF\nrm -rf /etc\nEOF')?.warningLevel).toBe('critical')
+    expect(detectDestructiveCommand('cat <<EOF | bash\nrm -rf /var/log\nEOF')?.warningLevel).toBe('critical')
+    expect(detectDestructiveCommand('bash <<< "rm -rf /etc"')?.warningLevel).toBe('critical')
+    expect(detectDestructiveCommand('cat <<EOF > notes\nrm -rf /etc\nEOF')).toBeNull()
+  })
+
+  it('should collect heredoc bodies and here-strings for validation', () => {
+    expect(collectHeredocInput('cat <<EOF > f\nline one\nline two\nEOF')).toBe('line one\nline two\n')
+    expect(collectHeredocInput('grep x <<< "a b"')).toBe('a b\n')
+    expect(collectHeredocInput('echo hi > f')).toBe('')
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Test simulated jobs: sleep, ping and tail -f as jobs, jobs/fg/bg/kill
+ */
+
+import { jobTable, findSignal } from '../job-control'
+import { executeCommand, spawnCommand, ExecutionContext } from '../command-executor'
+import { NetworkSimulator } from '../network-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Job Control Tests', () => {
+  let fs: MEMFS
+  let output: string[]
+  let exits: number[]
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+  const run = (command: string) => executeCommand(command, context, fs)
+  const start = (command: string, background = false) =>
+    jobTable.start(command, spawnCommand(command.split(' '), context, fs)!, background)
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    fs = new MEMFS()
+    fs.mkdirTree(context.currentPath)
+    fs.chown('/home', 'student')
+    fs.chown(context.currentPath, 'student')
+    output = []
+    exits = []
+    jobTable.setListener({
+      onOutput: (_, text) => output.push(text),
+      onExit: (_, exitCode) => exits.push(exitCode),
+    })
+  })
+
+  afterEach(() => {
+    jobTable.clear()
+    jest.useRealTimers()
+  })
+
+  it('should hold the prompt while a foreground sleep runs', () => {
+    const job = start('sleep 2')
+    expect(jobTable.getForeground()?.id).toBe(job.id)
+
+    jest.advanceTimersByTime(1900)
+    expect(exits).toEqual([])
+    jest.advanceTimersByTime(100)
+    expect(exits).toEqual([0])
+    expect(jobTable.getForeground()).toBeNull()
+
+    // Outside a job (scripts, lists) sleep returns at once
+    expect(run('sleep 1m').exitCode).toBe(0)
+    expect(run('sleep soon').stderr).toBe("sleep: invalid time interval 'soon'\nTry 'sleep --help' for more information.")
+  })
+
+  it('should stop, list, resume and report background jobs', () => {
+    const job = start('sleep 100')
+    jobTable.stop(job.id)
+    expect(exits).toEqual([148])
+    start('sleep 1', true)
+
+    expect(run('jobs').stdout).toBe(
+      '[1]-  Stopped                 sleep 100\n' +
+      '[2]+  Running                 sleep 1 &'
+    )
+    expect(run('jobs -p').stdout).toBe(`${job.pid}\n${job.pid + 1}`)
+
+    expect(run('bg %1').stdout).toBe('[1]- sleep 100 &')
+    expect(run('bg %1').stderr).toBe('bash: bg: job 1 already in background')
+
+    jest.advanceTimersByTime(1000)
+    expect(jobTable.takeNotices()).toEqual(['[2]+  Done                    sleep 1'])
+    expect(jobTable.takeNotices()).toEqual([])
+
+    expect(run('fg').stdout).toBe('sleep 100')
+    expect(jobTable.getForeground()?.id).toBe(1)
+    expect(run('fg %7').stderr).toBe('bash: fg: %7: no such job')
+  })
+
+  it('should kill jobs by job spec or pid', () => {
+    const job = start('sleep 100', true)
+    start('sleep 200', true)
+
+    expect(run('kill %?100').exitCode).toBe(0)
+    expect(jobTable.takeNotices()).toEqual(['[1]-  Terminated              sleep 100'])
+    expect(jobTable.get(job.id)).toBeNull()
+
+    run(`kill -9 ${job.pid + 1}`)
+    expect(jobTable.takeNotices()).toEqual(['[2]+  Killed                  sleep 200'])
+
+    expect(run('kill %1').stderr).toBe('bash: kill: %1: no such job')
+    expect(run('kill 4242').stderr).toBe('bash: kill: (4242) - No such process')
+    expect(run('kill -BOGUS %1').stderr).toBe('bash: kill: BOGUS: invalid signal specification')
+    expect(run('kill').exitCode).toBe(2)
+    expect(run('kill -l 15').stdout).toBe('TERM')
+  })
+
+  it('should ping until interrupted and honour -c', () => {
+    const network = new NetworkSimulator()
+    expect(network.execute('ping', ['-c', '2', 'localhost']).output).toContain('2 packets transmitted')
+    expect(spawnCommand(['ping', '-c', '2', 'localhost'], context, fs)).toBeUndefined()
+
+    const job = start('ping localhost')
+    jest.advanceTimersByTime(2000)
+    expect(output).toEqual([
+      'PING localhost (127.0.0.1): 56 data bytes\n64 bytes from 127.0.0.1: icmp_seq=0 ttl=64 time=0.0 ms',
+      '64 bytes from 127.0.0.1: icmp_seq=1 ttl=64 time=0.1 ms',
+      '64 bytes from 127.0.0.1: icmp_seq=2 ttl=64 time=0.1 ms',
+    ])
+
+    jobTable.kill(job.id, findSignal('INT')!)
+    expect(output[3]).toMatch(/^--- localhost ping statistics ---\n3 packets transmitted, 3 packets received/)
+    expect(exits).toEqual([130])
+    expect(jobTable.takeNotices()).toEqual([])
+
+    // Jobs ping through the terminal's simulator, with the hosts the story added
+    const pingProcess = jest.spyOn(network, 'pingProcess')
+    spawnCommand(['ping', 'localhost'], { ...context, network }, fs)
+    expect(pingProcess).toHaveBeenCalledWith(['localhost'])
+  })
+
+  it('should follow a file with tail -f', () => {
+    fs.writeFile(`${context.currentPath}/feed.log`, 'one\ntwo')
+    start('tail -f feed.log')
+    expect(output).toEqual(['one\ntwo'])
+
+    fs.writeFile(`${context.currentPath}/feed.log`, 'one\ntwo\nthree')
+    jest.advanceTimersByTime(1000)
+    expect(output).toEqual(['one\ntwo', 'three'])
+
+    expect(spawnCommand(['tail', '-f', 'missing.log'], context, fs)).toBeUndefined()
+  })
+})
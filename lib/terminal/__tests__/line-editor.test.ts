@@ -0,0 +1,123 @@
+/**
+ * Test readline-style line editing
+ */
+
+import { LineEditor, splitKeys, visibleWidth } from '../line-editor'
+import { CommandHistory } from '../command-history'
+import { MEMFS } from '../memfs'
+
+describe('Line Editor Tests', () => {
+  let columns: number
+  let editor: LineEditor
+
+  const type = (data: string) => splitKeys(data).map(key => editor.handleKey(key))
+
+  beforeEach(() => {
+    columns = 80
+    editor = new LineEditor({ getColumns: () => columns })
+    editor.reset('$ ')
+  })
+
+  it('should split input into keys and text runs', () => {
+    expect(splitKeys('ls -la\x1b[D\x1bb\x7f\r\necho')).toEqual(['ls -la', '\x1b[D', '\x1bb', '\x7f', '\r', 'echo'])
+    expect(visibleWidth('\x1b[1;32muser@terminal\x1b[0m:~$ ')).toBe(17)
+  })
+
+  it('should insert and delete at the cursor', () => {
+    type('cat file.txt\x1b[H\x1b[3~\x1b[3~\x1b[3~ls\x1b[F\x7f\x7f\x7fmd')
+    expect(editor.getLine()).toBe('ls file.md')
+
+    type('\x01\x06\x06\x02x')
+    expect(editor.getLine()).toBe('lxs file.md')
+    expect(editor.getCursor()).toBe(2)
+  })
+
+  it('should move by words with Alt+B and Alt+F', () => {
+    type('grep -r secret /etc')
+    type('\x1bb\x1bb')
+    expect(editor.getCursor()).toBe('grep -r '.length)
+    type('\x1bf')
+    expect(editor.getCursor()).toBe('grep -r secret'.length)
+  })
+
+  it('should kill and yank text', () => {
+    type('rm -rf /tmp/cache\x17')
+    expect(editor.getLine()).toBe('rm -rf ')
+    type('\x01\x0b\x19')
+    expect(editor.getLine()).toBe('rm -rf ')
+
+    type('\x19')
+    expect(editor.getLine()).toBe('rm -rf rm -rf ')
+    type('\x15')
+    expect(editor.getLine()).toBe('')
+  })
+
+  it('should accumulate consecutive kills', () => {
+    type('one two three\x17\x17\x19')
+    expect(editor.getLine()).toBe('one two three')
+  })
+
+  it('should hand control keys back to the terminal', () => {
+    expect(editor.handleKey('\x04').command).toBe('eof')
+    type('ls')
+    expect(editor.handleKey('\x04').command).toBeUndefined()
+    expect(editor.handleKey('\t').command).toBe('complete')
+    expect(editor.handleKey('\x1b[A').command).toBe('previous')
+    expect(editor.handleKey('\x03').command).toBe('cancel')
+    expect(editor.handleKey('\r').command).toBe('submit')
+  })
+
+  it('should redraw wrapped lines from the first row', () => {
+    columns = 10
+    type('abcdefghijklmnop') // Prompt width 2: the line spans two rows
+    const [home] = type('\x01')
+    expect(home.output).toBe('\x1b[1A\r\x1b[2Cabcdefghijklmnop\x1b[J\x1b[1A\r\x1b[2C')
+
+    // Ending exactly at the edge moves the cursor onto the next row
+    editor.reset('$ ')
+    const results = type('abcdefgh')
+    expect(results[results.length - 1].output).toBe('\r\x1b[2Cabcdefgh \r\x1b[J\r')
+  })
+
+  describe('reverse search', () => {
+    beforeEach(() => {
+      const history = new CommandHistory({ fs: new MEMFS() })
+      ;['cat /etc/passwd', 'ls -la', 'cat notes.txt', 'cd /tmp'].forEach(line => history.add(line))
+      editor = new LineEditor({
+        getColumns: () => columns,
+        searchHistory: (query, before) => history.search(query, before),
+      })
+      editor.reset('$ ')
+    })
+
+    it('should search as the query is typed and show the prompt', () => {
+      const results = type('\x12cat')
+      expect(editor.isSearching()).toBe(true)
+      expect(editor.getLine()).toBe('cat notes.txt')
+      expect(results[results.length - 1].output).toContain("(reverse-i-search)`cat': cat notes.txt")
+    })
+
+    it('should find older matches on repeated Ctrl+R', () => {
+      type('\x12cat\x12')
+      expect(editor.getLine()).toBe('cat /etc/passwd')
+
+      const [failed] = type('\x12')
+      expect(failed.output).toContain("(failed reverse-i-search)`cat': cat /etc/passwd")
+    })
+
+    it('should accept with Enter or another key and restore with Ctrl+G', () => {
+      type('\x12ls')
+      expect(editor.handleKey('\r').command).toBe('submit')
+      expect(editor.getLine()).toBe('ls -la')
+
+      editor.reset('$ ')
+      type('echo hi\x12cd\x05!')
+      expect(editor.isSearching()).toBe(false)
+      expect(editor.getLine()).toBe('cd /tmp!')
+
+      editor.reset('$ ')
+      type('echo hi\x12cat\x07')
+      expect(editor.getLine()).toBe('echo hi')
+    })
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Test ls: sorting, recursion, the long format with block totals, type
+ * indicators and inode numbers, colours and the column layout
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { MEMFS } from '../memfs'
+
+describe('Ls Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+  const run = (command: string, columns?: number) => executeCommand(command, { ...context, columns }, fs)
+
+  const DAY = 24 * 60 * 60 * 1000
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree('/home/student/logs')
+    fs.chown('/home', 'student')
+    fs.chown('/home/student', 'student')
+    fs.chown('/home/student/logs', 'student')
+
+    // Oldest first, so -t lists them the other way round
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now - 2 * DAY)
+    fs.writeFile('/home/student/logs/sys.log', 'x'.repeat(5000))
+    jest.spyOn(Date, 'now').mockReturnValue(now - DAY)
+    fs.writeFile('/home/student/logs/auth.log', 'login')
+    jest.restoreAllMocks()
+
+    fs.writeFile('/home/student/notes.txt', '')
+    fs.writeFile('/home/student/run.sh', 'echo hi')
+    fs.chmod('/home/student/run.sh', 0o755)
+    fs.writeFile('/home/student/.bashrc', '')
+    fs.mkdir('/home/student/vault')
+    fs.chown('/home/student/vault', 'root')
+  })
+
+  it('should sort by name, time or size, and in reverse', () => {
+    expect(run('ls logs').stdout).toBe('auth.log\nsys.log')
+    expect(run('ls -r logs').stdout).toBe('sys.log\nauth.log')
+    expect(run('ls -S logs').stdout).toBe('sys.log\nauth.log')
+    fs.writeFile('/home/student/logs/new.log', '')
+    expect(run('ls -t logs').stdout).toBe('new.log\nauth.log\nsys.log')
+    expect(run('ls -a').stdout.split('\n').slice(0, 3)).toEqual(['.', '..', '.bashrc'])
+    expect(run('ls -A').stdout.split('\n')[0]).toBe('.bashrc')
+  })
+
+  it('should list files, directories and missing operands separately', () => {
+    expect(run('ls notes.txt logs')).toMatchObject({ stdout: 'notes.txt\n\nlogs:\nauth.log\nsys.log', exitCode: 0 })
+    expect(run('ls -d logs vault').stdout).toBe('logs\nvault')
+    expect(run('ls missing logs')).toMatchObject({
+      stdout: 'logs:\nauth.log\nsys.log',
+      stderr: "ls: cannot access 'missing': No such file or directory",
+      exitCode: 2,
+    })
+    expect(run('ls vault')).toMatchObject({ stderr: "ls: cannot open directory 'vault': Permission denied", exitCode: 1 })
+    expect(run('ls /')).toMatchObject({ stdout: 'dev\nhome', exitCode: 0 })
+  })
+
+  it('should list subdirectories recursively with -R', () => {
+    fs.rmdir('/home/student/vault')
+    expect(run('ls -R').stdout).toBe('.:\nlogs\nnotes.txt\nrun.sh\n\n./logs:\nauth.log\nsys.log')
+    expect(run('ls -R logs').stdout).toBe('logs:\nauth.log\nsys.log')
+  })
+
+  it('should print the long format with link counts and block totals', () => {
+    const lines = run('ls -l logs').stdout.split('\n')
+    expect(lines[0]).toBe('total 12')
+    expect(lines[1]).toMatch(/^-rw-r--r-- 1 student student    5 \w{3} [ \d]\d \d\d:\d\d auth\.log$/)
+    expect(lines[2]).toMatch(/^-rw-r--r-- 1 student student 5000 .* sys\.log$/)
+    expect(run('ls -lh logs').stdout.split('\n')[0]).toBe('total 12K')
+    expect(run('ls -lh logs/sys.log').stdout).toMatch(/ 4\.9K .* logs\/sys\.log$/)
+    expect(run('ls -ld .').stdout).toMatch(/^d[rwx-]{9} 4 student student 4096 /)
+  })
+
+  it('should mark types with -F and print inode numbers with -i', () => {
+    expect(run('ls -F').stdout).toBe('logs/\nnotes.txt\nrun.sh*\nvault/')
+    const ino = fs.stat('/home/student/notes.txt').ino
+    expect(run('ls -i notes.txt').stdout).toBe(`${ino} notes.txt`)
+    expect(run('ls -li notes.txt').stdout).toMatch(new RegExp(`^${ino} -rw-r--r-- 1 `))
+  })
+
+  it('should colour and lay out names in columns on the terminal', () => {
+    expect(run('ls', 80).stdout).toBe('\x1b[01;34mlogs\x1b[0m  notes.txt  \x1b[01;32mrun.sh\x1b[0m  \x1b[01;34mvault\x1b[0m')
+    expect(run('ls --color=never', 20).stdout).toBe('logs       run.sh\nnotes.txt  vault')
+    expect(run('ls --color=never -1', 20).stdout).toBe('logs\nnotes.txt\nrun.sh\nvault')
+    expect(run('ls --color=always logs').stdout).toBe('auth.log\nsys.log')
+    expect(run('ls | cat', 80).stdout).toBe('logs\nnotes.txt\nrun.sh\nvault')
+    expect(run('ls --color=sometimes').stderr).toMatch(/^ls: invalid argument 'sometimes' for '--color'/)
+  })
+
+  it('should lay out ls in columns inside lists and loops', () => {
+    expect(run('cd logs; ls --color=never', 20).stdout).toBe('auth.log  sys.log')
+    expect(run('ls --color=never logs && echo done', 20).stdout).toBe('auth.log  sys.log\ndone')
+    expect(run('for d in logs; do ls --color=never $d; done', 20).stdout).toBe('auth.log  sys.log')
+    expect(run('ls logs > list.txt; cat list.txt', 20).stdout).toBe('auth.log\nsys.log')
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Test getopt-style option parsing and the errors and --help it produces
+ */
+
+import { parseOptions, formatOptions, OptionSpec } from '../option-parser'
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { MEMFS } from '../memfs'
+
+const HEAD_OPTIONS: OptionSpec[] = [
+  { flags: ['-n', '--lines'], value: 'NUM', description: 'print the first NUM lines instead of the first 10' },
+  { flags: ['-q', '--quiet', '--silent'], description: 'never print headers giving file names' },
+  { flags: ['-e', '--regexp'], value: 'PATTERN', repeatable: true, description: 'use PATTERN for matching' },
+  { flags: ['-r', '-R', '--recursive'], description: 'read all files under each directory, recursively' },
+]
+
+const parse = (...args: string[]) => parseOptions('head', args, { options: HEAD_OPTIONS, numericOption: 'n' })
+
+describe('Option Parser Tests', () => {
+  it('should parse combined flags, attached values and permuted operands', () => {
+    const { options, error } = parse('-qn5', 'a.txt', '-R', '--lines=7', 'b.txt')
+    expect(error).toBeUndefined()
+    expect(options.flags).toEqual(new Set(['q', 'r']))
+    expect(options.namedArgs.get('n')).toBe('7')
+    expect(options.args).toEqual(['a.txt', 'b.txt'])
+
+    expect(parse('-n', '3').options.namedArgs.get('n')).toBe('3')
+    expect(parse('--li', '4').options.namedArgs.get('n')).toBe('4')
+    expect(parse('-20').options.namedArgs.get('n')).toBe('20')
+  })
+
+  it('should stop at -- and keep - as an operand', () => {
+    const { options } = parse('-q', '--', '-n', '-')
+    expect(options.flags).toEqual(new Set(['q']))
+    expect(options.args).toEqual(['-n', '-'])
+  })
+
+  it('should keep every value of a repeatable option', () => {
+    const { options } = parse('-e', 'foo', '--regexp=bar')
+    expect(options.values.get('e')).toEqual(['foo', 'bar'])
+    expect(options.namedArgs.get('e')).toBe('bar')
+  })
+
+  it('should report GNU-style usage errors', () => {
+    const tryHelp = "\nTry 'head --help' for more information."
+    expect(parse('-z').error).toBe(`head: invalid option -- 'z'${tryHelp}`)
+    expect(parse('-n').error).toBe(`head: option requires an argument -- 'n'${tryHelp}`)
+    expect(parse('--lines').error).toBe(`head: option '--lines' requires an argument${tryHelp}`)
+    expect(parse('--quiet=yes').error).toBe(`head: option '--quiet' doesn't allow an argument${tryHelp}`)
+    expect(parse('--bogus').error).toBe(`head: unrecognized option '--bogus'${tryHelp}`)
+    expect(parse('--re').error).toBe(`head: option '--re' is ambiguous; possibilities: '--regexp' '--recursive'${tryHelp}`)
+  })
+
+  it('should format option help like coreutils', () => {
+    expect(formatOptions(HEAD_OPTIONS.slice(0, 1))).toBe(
+      '  -n, --lines=NUM             print the first NUM lines instead of the first 10\n' +
+      '      --help                  display this help and exit'
+    )
+  })
+
+  describe('through executeCommand', () => {
+    let fs: MEMFS
+    const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+
+    beforeEach(() => {
+      fs = new MEMFS()
+      fs.mkdirTree(context.currentPath)
+      fs.chown('/home', 'student')
+      fs.chown(context.currentPath, 'student')
+    })
+
+    it('should print generated --help and reject unknown options', () => {
+      const help = executeCommand('head --help', context, fs)
+      expect(help.exitCode).toBe(0)
+      expect(help.stdout).toMatch(/^Usage: head \[OPTION\]\.\.\. \[FILE\]/)
+      expect(help.stdout).toContain('-n, --lines=NUM')
+
+      const ls = executeCommand('ls -z', context, fs)
+      expect(ls.exitCode).toBe(2)
+      expect(ls.stderr).toBe("ls: invalid option -- 'z'\nTry 'ls --help' for more information.")
+    })
+
+    it('should treat operands after -- as file names', () => {
+      fs.writeFile(`${context.currentPath}/-notes`, 'x')
+      expect(executeCommand('rm -- -notes', context, fs).exitCode).toBe(0)
+      expect(fs.exists(`${context.currentPath}/-notes`)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Test pipeline execution: stdout piped to the next stage's stdin,
+ * stderr and exit status, and commands reading standard input
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { executePipeline, isPipeline, splitPipeline } from '../pipeline'
+import { MEMFS } from '../memfs'
+
+describe('Pipeline Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+
+  const LOG = '10.0.0.1 GET\n10.0.0.2 POST\n10.0.0.1 POST\n10.0.0.3 GET'
+
+  const run = (command: string) =>
+    executePipeline(splitPipeline(command), async (stage, stdin) => executeCommand(stage, context, fs, stdin))
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree('/home/student')
+    fs.chown('/home', 'student')
+    fs.chown('/home/student', 'student')
+    fs.writeFile('/home/student/access.log', LOG)
+  })
+
+  it('should split command lines on unquoted pipes', () => {
+    expect(splitPipeline('cat access.log | grep GET | wc -l')).toEqual(['cat access.log', 'grep GET', 'wc -l'])
+    expect(isPipeline("echo 'a|b'")).toBe(false)
+    expect(isPipeline('echo a || echo b')).toBe(false)
+  })
+
+  it("should feed each stage's stdout to the next stage's stdin", async () => {
+    const result = await run('cat access.log | grep POST')
+    expect(result.stdout).toBe('10.0.0.2 POST\n10.0.0.1 POST')
+    expect(result.stages).toEqual(['cat access.log', 'grep POST'])
+    expect(result.stageResults).toHaveLength(2)
+  })
+
+  it('should let cat, grep, head, tail and wc read standard input', async () => {
+    expect((await run('cat access.log | cat')).stdout).toBe(LOG)
+    expect((await run('cat access.log | head -n 1')).stdout).toBe('10.0.0.1 GET')
+    expect((await run('cat access.log | tail -n 1')).stdout).toBe('10.0.0.3 GET')
+    expect((await run('cat access.log | grep 10.0.0.1 | wc -l')).stdout.trim()).toBe('2')
+  })
+
+  it('should not pipe stderr and should take the exit status of the last stage', async () => {
+    const failing = await run('cat missing.txt | wc -l')
+    expect(failing.stderr).toBe('cat: missing.txt: No such file or directory')
+    expect(failing.stdout.trim()).toBe('0')
+    expect(failing.exitCode).toBe(0)
+
+    const lastFails = await run('cat access.log | grep DELETE')
+    expect(lastFails.exitCode).toBe(1)
+  })
+
+  it('should halt at a stage waiting for a sudo password', async () => {
+    const result = await run('echo a | sudo cat | wc -l')
+    expect(result.requiresPassword).toBe(true)
+    expect(result.stageResults).toHaveLength(2)
+  })
+
+  it('should reject empty stages', async () => {
+    const result = await executePipeline(['ls', ''], async () => ({ stdout: '', stderr: '', exitCode: 0 }))
+    expect(result).toMatchObject({ stderr: "bash: syntax error near unexpected token `|'", exitCode: 2 })
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * Test translating POSIX basic and extended regular expressions to JavaScript
+ */
+
+import { translateRegex, compileRegex } from '../posix-regex'
+
+describe('POSIX Regex Tests', () => {
+  it('should swap escaped and plain operators in a BRE', () => {
+    expect(translateRegex('\\(ab\\)\\{2\\}')).toBe('(ab){2}')
+    expect(translateRegex('a+b?(c)|d{1}')).toBe('a\\+b\\?\\(c\\)\\|d\\{1\\}')
+    expect(translateRegex('a\\+\\|b')).toBe('a+|b')
+    expect(translateRegex('(a+)|b', true)).toBe('(a+)|b')
+  })
+
+  it('should treat *, ^ and $ as literals where they cannot be operators', () => {
+    expect(translateRegex('*a')).toBe('\\*a')
+    expect(translateRegex('^*a')).toBe('^\\*a')
+    expect(translateRegex('a^b$c$')).toBe('a\\^b\\$c$')
+    expect(translateRegex('\\(^a$\\)')).toBe('(^a$)')
+  })
+
+  it('should expand bracket expressions and GNU escapes', () => {
+    expect(translateRegex('[[:digit:][:upper:]]')).toBe('[0-9A-Z]')
+    expect(translateRegex('[]a\\]')).toBe('[\\]a\\\\]')
+    expect(compileRegex('\\<cat\\>').test('a cat sat')).toBe(true)
+    expect(compileRegex('\\<cat\\>').test('concatenate')).toBe(false)
+  })
+
+  it('should report malformed expressions with GNU messages', () => {
+    expect(() => compileRegex('\\(a')).toThrow('Unmatched ( or \\(')
+    expect(() => compileRegex('[abc')).toThrow('Unmatched [, [^, [:, [., or [=')
+    expect(() => compileRegex('[[:word:]]')).toThrow('Invalid character class name')
+    expect(() => compileRegex('a\\')).toThrow('Trailing backslash')
+    expect(() => compileRegex('a**', { extended: true })).toThrow('Invalid preceding regular expression')
+  })
+})
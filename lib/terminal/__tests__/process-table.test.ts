@@ -0,0 +1,126 @@
+/**
+ * Test the simulated process table: ps, top, kill, pgrep, pkill and /proc
+ */
+
+import { processTable, procFilesystem } from '../process-table'
+import { jobTable } from '../job-control'
+import { executeCommand, spawnCommand, ExecutionContext } from '../command-executor'
+import { fileSystemValidators } from '../validation-registry'
+import { MEMFS } from '../memfs'
+
+describe('Process Table Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+  const sudo: ExecutionContext = { ...context, isSudo: true }
+  const run = (command: string, ctx = context) => executeCommand(command, ctx, fs)
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mount('/proc', procFilesystem)
+    fs.mkdirTree(context.currentPath)
+    fs.chown('/home', 'student')
+    fs.chown(context.currentPath, 'student')
+    processTable.reset([
+      { pid: 4242, command: '/usr/sbin/omega_surveillanced --daemon', cpu: 12.4, mem: 3.1, env: { OMEGA_MODE: 'stealth' } },
+      { command: '/usr/bin/python3 /opt/omega/keylogger.py', user: 'student' },
+    ], 'student')
+  })
+
+  afterEach(() => {
+    jobTable.clear()
+  })
+
+  it('should list processes with ps, ps -ef and ps aux', () => {
+    expect(run('ps').stdout).toBe('    PID TTY          TIME CMD\n   1001 pts/0    00:00:00 bash')
+
+    const full = run('ps -ef').stdout.split('\n')
+    expect(full[0]).toBe('UID          PID    PPID  C STIME TTY          TIME CMD')
+    expect(full).toContainEqual(expect.stringMatching(/^root +4242 +1 12 \S+ \? +00:12:24 \/usr\/sbin\/omega_surveillanced --daemon$/))
+    expect(full).toContainEqual(expect.stringMatching(/^student +4243 +1 +0 .* \/usr\/bin\/python3 \/opt\/omega\/keylogger.py$/))
+
+    const bsd = run('ps aux').stdout.split('\n')
+    expect(bsd[0]).toBe('USER         PID %CPU %MEM    VSZ   RSS TTY      STAT START   TIME COMMAND')
+    expect(bsd.find(line => line.includes('omega'))).toMatch(/^root +4242 12\.4 +3\.1 +\d+ +\d+ \? +S +\S+ +12:24 /)
+    expect(run('ps -u student').stdout.split('\n')).toHaveLength(3)
+  })
+
+  it('should find and signal processes with pgrep and pkill', () => {
+    expect(run('pgrep omega').stdout).toBe('4242')
+    expect(run('pgrep -l -u student python').stdout).toBe('4243 python3')
+    expect(run('pgrep -f -a keylogger').stdout).toBe('4243 /usr/bin/python3 /opt/omega/keylogger.py')
+    expect(run('pgrep -x omega').exitCode).toBe(1)
+    expect(run('pgrep').exitCode).toBe(2)
+
+    expect(run('pkill omega_surveill').stderr).toBe('pkill: killing pid 4242 failed: Operation not permitted')
+    expect(run('pkill -9 omega_surveill', sudo).exitCode).toBe(0)
+    expect(processTable.get(4242)).toBeNull()
+    expect(run('pkill omega_surveill').exitCode).toBe(1)
+  })
+
+  it('should kill, stop and continue processes by pid', () => {
+    expect(run('kill 4242').stderr).toBe('bash: kill: (4242) - Operation not permitted')
+    expect(run('kill -STOP 4242', sudo).exitCode).toBe(0)
+    expect(processTable.get(4242)?.state).toBe('T')
+    run('kill -CONT 4242', sudo)
+    expect(processTable.get(4242)?.state).toBe('S')
+
+    // init ignores signals; the student's own processes need no sudo
+    expect(run('kill -9 1', sudo).exitCode).toBe(0)
+    expect(processTable.get(1)).not.toBeNull()
+    expect(run('kill 4243').exitCode).toBe(0)
+    expect(run('kill 4243').stderr).toBe('bash: kill: (4243) - No such process')
+  })
+
+  it('should expose /proc/<pid> read-only inside MEMFS', () => {
+    expect(fs.readdir('/proc')).toEqual(['1', '214', '398', '412', '1001', '4242', '4243'])
+    expect(fs.readdir('/proc/4242')).toEqual(['cmdline', 'environ', 'status'])
+    expect(fs.readFile('/proc/4242/cmdline', { encoding: 'utf8' })).toBe('/usr/sbin/omega_surveillanced\0--daemon')
+    expect(run('cat /proc/4242/status').stdout).toContain('Name:\tomega_surveilla\nState:\tS (sleeping)\nPid:\t4242\nPPid:\t1')
+
+    // A root process's environment needs sudo
+    expect(run('cat /proc/4242/environ').exitCode).toBe(1)
+    expect(run('cat /proc/4242/environ', sudo).stdout).toContain('OMEGA_MODE=stealth')
+
+    expect(() => fs.writeFile('/proc/4242/status', 'x')).toThrow('EROFS')
+    expect(() => fs.unlink('/proc/4242/status')).toThrow('EROFS')
+    expect(run('rm -r /proc/4242', sudo).stderr).toContain('EROFS')
+
+    // Jobs show up as processes of the shell
+    const job = jobTable.start('sleep 100', spawnCommand(['sleep', '100'], context, fs)!, true)
+    expect(fs.readFile(`/proc/${job.pid}/cmdline`, { encoding: 'utf8' })).toBe('sleep\x00100')
+    run(`kill ${job.pid}`)
+    expect(fs.exists(`/proc/${job.pid}`)).toBe(false)
+  })
+
+  it('should animate top until q is pressed', () => {
+    jest.useFakeTimers()
+    const frames: string[] = []
+    const exits: number[] = []
+    jobTable.setListener({ onOutput: (_, text) => frames.push(text), onExit: (_, code) => exits.push(code) })
+
+    const job = jobTable.start('top', spawnCommand(['top'], context, fs)!, false)
+    jest.advanceTimersByTime(2000)
+    expect(frames).toHaveLength(3)
+    expect(frames[0]).toMatch(/^\x1b\[H\x1b\[2Jtop - \d\d:\d\d:\d\d up 3 days, +4:00,  1 user/)
+    expect(frames[0]).toContain('Tasks:   8 total,   0 running,   8 sleeping,   0 stopped')
+    expect(frames[1]).not.toBe(frames[2])
+
+    jobTable.input(job.id, 'q')
+    expect(exits).toEqual([0])
+    jest.useRealTimers()
+
+    expect(run('top -b -n 2').stdout.match(/^top - /gm)).toHaveLength(2)
+    expect(spawnCommand(['top', '-b'], context, fs)).toBeUndefined()
+  })
+
+  it('should validate that a rogue process is running or killed', () => {
+    expect(fileSystemValidators.processRunning(fs, 'omega_surveillanced')).toBe(true)
+    expect(fileSystemValidators.processKilled(fs, 'omega_surveillanced')).toBe(false)
+
+    run('kill -STOP 4242', sudo)
+    expect(fileSystemValidators.processRunning(fs, 'omega_surveillanced')).toBe(false)
+    run('kill -9 4242', sudo)
+    expect(fileSystemValidators.processKilled(fs, 'omega_surveillanced')).toBe(true)
+    expect(fileSystemValidators.processKilled(new MEMFS(), 'omega_surveillanced')).toBe(false)
+  })
+})
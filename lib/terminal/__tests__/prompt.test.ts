@@ -0,0 +1,52 @@
+/**
+ * Test PS1/PS2 prompt rendering for local and remote sessions
+ */
+
+import { renderPrompt, DEFAULT_PS1, PromptInfo } from '../prompt'
+import { EnvSimulator } from '../env-simulator'
+import { SSHSimulator } from '../ssh-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Prompt Tests', () => {
+  const info: PromptInfo = {
+    user: 'student',
+    host: 'terminal.orion.local',
+    cwd: '/home/student/intel',
+    home: '/home/student',
+    isRoot: false,
+    historyNumber: 42,
+    now: new Date(2024, 4, 26, 21, 5, 9),
+  }
+
+  it('should expand user, host, directory and history escapes', () => {
+    expect(renderPrompt('\\u@\\h:\\w\\$ ', info)).toBe('student@terminal:~/intel$ ')
+    expect(renderPrompt('[\\H \\W] \\!\\n\\$ ', info)).toBe('[terminal.orion.local intel] 42\n$ ')
+    expect(renderPrompt('\\W \\$ ', { ...info, cwd: '/', isRoot: true })).toBe('/ # ')
+    expect(renderPrompt('\\w', { ...info, cwd: '/home/studentx' })).toBe('/home/studentx')
+  })
+
+  it('should expand time escapes and colour codes', () => {
+    expect(renderPrompt('\\t \\T \\A \\d', info)).toBe('21:05:09 09:05:09 21:05 Sun May 26')
+    expect(renderPrompt('\\[\\e[1;31m\\]\\u\\[\\033[0m\\] \\\\', info)).toBe('\x1b[1;31mstudent\x1b[0m \\')
+  })
+
+  it('should read PS1 and PS2 from the environment', () => {
+    const env = new EnvSimulator({ username: 'student' })
+    expect(env.getVariable('PS1')).toBe(DEFAULT_PS1)
+    expect(env.getVariable('PS2')).toBe('> ')
+    expect(renderPrompt(env.getVariable('PS1')!, { ...info, host: env.getVariable('HOSTNAME')! })).toBe(
+      '\x1b[1;32mstudent@terminal\x1b[0m:\x1b[1;34m~/intel\x1b[0m$ '
+    )
+  })
+
+  it('should render the remote prompt from the session PS1', () => {
+    const fs = new MEMFS()
+    fs.mkdirTree('/remotes/omega_agent/filesystem/home/omega_agent')
+    fs.writeFile('/remotes/omega_agent/filesystem/home/omega_agent/.bashrc', "PS1='\\u@\\h [\\!] \\W> '")
+
+    const ssh = new SSHSimulator({ fs })
+    ssh.connect('agency.local', 'omega_agent')
+    expect(ssh.getRemotePrompt(7)).toBe('omega_agent@agency [7] ~> ')
+    expect(ssh.getRemotePrompt(7, true)).toBe('> ')
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * Test sed: substitution, addresses, d and p, -n, -e and -i
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { MEMFS } from '../memfs'
+
+describe('Sed Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+  const run = (command: string, stdin?: string) => executeCommand(command, context, fs, stdin)
+
+  const CONFIG = [
+    '# Uplink settings',
+    'host=203.0.113.5',
+    'port=8443',
+    '# Credentials',
+    'user=omega_agent',
+    'password=hunter2',
+  ].join('\n')
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree(context.currentPath)
+    fs.chown('/home', 'student')
+    fs.chown(context.currentPath, 'student')
+    fs.writeFile('/home/student/uplink.conf', `${CONFIG}\n`)
+  })
+
+  it('should substitute the first, every or the Nth match', () => {
+    expect(run("sed 's/a/A/'", 'banana').stdout).toBe('bAnana')
+    expect(run("sed 's/a/A/g'", 'banana').stdout).toBe('bAnAnA')
+    expect(run("sed 's/a/A/2'", 'banana').stdout).toBe('banAna')
+    expect(run("sed 's/a/A/2g'", 'banana').stdout).toBe('banAnA')
+    expect(run("sed 's/BAN/x/i'", 'banana').stdout).toBe('xana')
+    expect(run("sed 's/b*/-/g'", 'abc').stdout).toBe('-a-c-')
+  })
+
+  it('should use groups, & and case conversion in the replacement', () => {
+    expect(run("sed 's/\\([a-z]*\\)=\\(.*\\)/\\2 <- \\1/'", 'port=8443').stdout).toBe('8443 <- port')
+    expect(run("sed -E 's/([a-z]+)=(.*)/\\2 <- \\1/'", 'port=8443').stdout).toBe('8443 <- port')
+    expect(run("sed 's/[[:digit:]]\\+/[&]/g'", 'a1b22').stdout).toBe('a[1]b[22]')
+    expect(run("sed 's/\\w\\+/\\u&/g'", 'omega agent').stdout).toBe('Omega Agent')
+    expect(run("sed 's|/|\\\\|g'", '/var/log').stdout).toBe('\\var\\log')
+    // In a BRE, + and ( ) match themselves
+    expect(run("sed 's/(a+)/x/'", 'f(a+)').stdout).toBe('fx')
+  })
+
+  it('should select lines by number, $, regex and range', () => {
+    expect(run("sed -n '2p' uplink.conf").stdout).toBe('host=203.0.113.5')
+    expect(run("sed -n '$p' uplink.conf").stdout).toBe('password=hunter2')
+    expect(run("sed '/^#/d' uplink.conf").stdout).toBe('host=203.0.113.5\nport=8443\nuser=omega_agent\npassword=hunter2')
+    expect(run("sed -n '/Credentials/,$p' uplink.conf").stdout).toBe('# Credentials\nuser=omega_agent\npassword=hunter2')
+    expect(run("sed -n '2,3!p' uplink.conf").stdout.split('\n')).toHaveLength(4)
+    expect(run("sed '3q'", 'a\nb\nc\nd').stdout).toBe('a\nb\nc')
+    expect(run("sed -n '/port/='", CONFIG).stdout).toBe('3')
+    expect(run("sed '/user/{s/omega/OMEGA/;s/_agent//}'", 'user=omega_agent').stdout).toBe('user=OMEGA')
+  })
+
+  it('should run several -e scripts and the a, i, c and y commands', () => {
+    expect(run("sed -e 's/host/HOST/' -e '/^#/d' uplink.conf").stdout.split('\n')[0]).toBe('HOST=203.0.113.5')
+    expect(run("sed -ne '/pass/p'", CONFIG).stdout).toBe('password=hunter2')
+    expect(run("sed -e '1i header' -e '$a footer'", 'body').stdout).toBe('header\nbody\nfooter')
+    expect(run("sed '2,3c [removed]'", 'a\nb\nc\nd').stdout).toBe('a\n[removed]\nd')
+    expect(run("sed 'y/abc/xyz/'", 'aabbcc').stdout).toBe('xxyyzz')
+  })
+
+  it('should edit files in place, keeping a backup with a suffix', () => {
+    expect(run("sed -i 's/hunter2/REDACTED/' uplink.conf").stdout).toBe('')
+    expect(fs.readFile('/home/student/uplink.conf', { encoding: 'utf8' })).toBe(`${CONFIG.replace('hunter2', 'REDACTED')}\n`)
+
+    expect(run("sed -i.bak '/^#/d' uplink.conf").exitCode).toBe(0)
+    expect(fs.readFile('/home/student/uplink.conf.bak', { encoding: 'utf8' })).toContain('# Credentials')
+    expect(fs.readFile('/home/student/uplink.conf', { encoding: 'utf8' })).not.toContain('#')
+
+    fs.mkdirTree('/etc')
+    fs.writeFile('/etc/shadow', 'root:x')
+    expect(run("sed -i 's/x/y/' /etc/shadow").stderr).toBe("sed: can't read /etc/shadow: Permission denied")
+    expect(run("sed -i 's/x/y/'").stderr).toBe('sed: no input files')
+    expect(run("sed 's/x/y/' missing.txt").stderr).toBe("sed: can't read missing.txt: No such file or directory")
+  })
+
+  it('should explain malformed scripts', () => {
+    const error = (script: string) => run(`sed '${script}'`, 'text').stderr
+    expect(error('s/a/b')).toBe("sed: -e expression #1, char 5: unterminated `s' command")
+    expect(error('s/a/b/x')).toBe("sed: -e expression #1, char 7: unknown option to `s'")
+    expect(error('k')).toBe("sed: -e expression #1, char 1: unknown command: `k'")
+    expect(error('s/a/\\1/')).toBe("sed: -e expression #1, char 7: invalid reference \\1 on `s' command's RHS")
+    expect(error('/abc')).toBe('sed: -e expression #1, char 4: unterminated address regex')
+    expect(error('1,')).toBe("sed: -e expression #1, char 2: unexpected `,'")
+    expect(error('pq')).toBe('sed: -e expression #1, char 2: extra characters after command')
+    expect(run("sed -e p -e 'y/ab/c/'").stderr).toBe("sed: -e expression #2, char 7: strings for `y' command are different lengths")
+    expect(run('sed').stderr).toMatch(/^Usage: sed/)
+    expect(run('sed', 'text').exitCode).toBe(1)
+  })
+})
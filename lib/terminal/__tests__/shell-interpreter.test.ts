@@ -0,0 +1,116 @@
+/**
+ * Test the shell interpreter: control flow, functions and scripts
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { EnvSimulator } from '../env-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Shell Interpreter Tests', () => {
+  let fs: MEMFS
+  let env: EnvSimulator
+  let context: ExecutionContext
+
+  const run = (command: string) => executeCommand(command, context, fs)
+  const script = (name: string, source: string) => fs.writeFile(`/home/student/${name}`, source)
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdir('/home')
+    fs.chown('/home', 'student')
+    fs.mkdir('/home/student')
+    fs.mkdir('/home/student/intel')
+    fs.writeFile('/home/student/intel/a.txt', 'alpha')
+    fs.writeFile('/home/student/intel/b.txt', 'bravo')
+
+    env = new EnvSimulator({ username: 'student' })
+    context = {
+      currentPath: '/home/student',
+      username: 'student',
+      isSudo: false,
+      env,
+    }
+  })
+
+  it('should run if/elif/else with test and [', () => {
+    expect(run('if [ -d intel ]; then echo dir; else echo none; fi').stdout).toBe('dir')
+    expect(run('if test -f nope; then echo a; elif [ 3 -gt 2 ]; then echo b; fi').stdout).toBe('b')
+    expect(run('[ abc = abd ]').exitCode).toBe(1)
+  })
+
+  it('should loop with for and redirect output into files', () => {
+    run('for f in intel/*.txt; do cat $f >> exfil_log.txt; done')
+    expect(fs.readFile('/home/student/exfil_log.txt', { encoding: 'utf8' })).toBe('alpha\nbravo')
+  })
+
+  it('should read piped lines in a while loop and support break', () => {
+    const result = run('printf_lines() { echo one; echo two; echo three; }; printf_lines | while read line; do [ $line = three ] && break; echo "<$line>"; done')
+    expect(result.stdout).toBe('<one>\n<two>')
+  })
+
+  it('should count in a while loop with $((...))', () => {
+    const result = run('i=0; while [ $i -lt 3 ]; do cp intel/a.txt "copy_$i.txt"; i=$((i + 1)); done; echo $i')
+    expect(result.stdout).toBe('3')
+    expect(fs.exists('/home/student/copy_2.txt')).toBe(true)
+
+    expect(run('n=7; echo $(( (n - 1) / 4 % 5 )) $((n > 5 && n != 8)) $((-n / 2)) $((010 + 0x10))').stdout).toBe('1 1 -3 24')
+    expect(run('echo $(( $(echo 6) * 7 )) "$((unset_var + 1))"').stdout).toBe('42 1')
+    expect(run('echo $((5 / 0))').stderr).toBe('bash: 5 / 0: division by 0 (error token is "0")')
+    expect(run('echo $((1 << 3)) $((1 << 40)) $((-7 >> 1)) $((1 + 1 << 2))').stdout).toBe('8 1099511627776 -4 8')
+    expect(run('echo $((1 +))').stderr).toBe('bash: 1 +: syntax error: operand expected (error token is "+")')
+  })
+
+  it('should match case patterns', () => {
+    const classify = (file: string) =>
+      run(`case ${file} in *.txt) echo text ;; *.sh|*.bash) echo script ;; *) echo other ;; esac`).stdout
+    expect(classify('notes.txt')).toBe('text')
+    expect(classify('run.bash')).toBe('script')
+    expect(classify('image.png')).toBe('other')
+  })
+
+  it('should call functions with arguments, locals and return codes', () => {
+    run('greet() { local name=$1; echo "hi $name ($#)"; return 3; }')
+    const result = run('greet agent two')
+    expect(result.stdout).toBe('hi agent (2)')
+    expect(result.exitCode).toBe(3)
+    expect(env.getVariable('name')).toBeUndefined()
+  })
+
+  it('should run scripts with sh and positional parameters', () => {
+    script('exfil.sh', '#!/bin/sh\nfor f in "$@"; do\n  echo "copy $f"\ndone\nexit 4\necho never\n')
+    const result = run('sh exfil.sh a.txt "b c.txt"')
+    expect(result.stdout).toBe('copy a.txt\ncopy b c.txt')
+    expect(result.exitCode).toBe(4)
+  })
+
+  it('should require the x bit and a shell shebang for ./script', () => {
+    script('run.sh', '#!/bin/bash\necho ran $0')
+    expect(run('./run.sh').stderr).toContain('Permission denied')
+
+    run('chmod +x run.sh')
+    expect(run('./run.sh').stdout).toBe('ran ./run.sh')
+
+    script('tool.py', '#!/usr/bin/python3\nprint(1)')
+    run('chmod 755 tool.py')
+    expect(run('./tool.py').stderr).toContain('bad interpreter')
+  })
+
+  it('should keep variables and directory from source but not from sh', () => {
+    script('setup.sh', 'TARGET=intel\ncd $TARGET\nshow() { echo "in $PWD"; }')
+
+    const child = run('sh setup.sh')
+    expect(child.newPath).toBeUndefined()
+    expect(env.getVariable('TARGET')).toBeUndefined()
+
+    const sourced = run('source setup.sh')
+    expect(sourced.newPath).toBe('/home/student/intel')
+    expect(env.getVariable('TARGET')).toBe('intel')
+    expect(env.getFunction('show')).toBeDefined()
+  })
+
+  it('should stop runaway loops', () => {
+    const result = run('while true; do :; done')
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr).toContain('loop stopped')
+  })
+})
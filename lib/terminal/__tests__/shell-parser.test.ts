@@ -0,0 +1,166 @@
+/**
+ * Test shell grammar parsing
+ */
+
+import { parseShell, parseArgv, formatShell, collectSimpleCommands, SimpleCommand } from '../shell-parser'
+import { parseRedirection } from '../io-redirection'
+import { detectDestructiveCommand } from '../destructive-command-detector'
+import { splitPipeline } from '../pipeline'
+
+describe('Shell Parser Tests', () => {
+  describe('words and quoting', () => {
+    it('should split on unquoted whitespace', () => {
+      expect(parseArgv('ls  -la   /tmp')).toEqual(['ls', '-la', '/tmp'])
+    })
+
+    it('should keep quoted whitespace and concatenate adjacent parts', () => {
+      expect(parseArgv(`grep "a b" 'c d'e`)).toEqual(['grep', 'a b', 'c de'])
+    })
+
+    it('should handle backslash escapes', () => {
+      expect(parseArgv('echo a\\ b \\"q\\"')).toEqual(['echo', 'a b', '"q"'])
+    })
+
+    it('should keep empty quoted arguments', () => {
+      expect(parseArgv(`printf '' ""`)).toEqual(['printf', '', ''])
+    })
+
+    it('should record quoting of each word part', () => {
+      const { ast } = parseShell(`echo "$HOME"'$X'\\$Y`)
+      const word = (ast!.items[0].command.first.commands[0] as SimpleCommand).words[1]
+      expect(word.parts).toEqual([
+        { value: '$HOME', quote: 'double' },
+        { value: '$X$', quote: 'single' },
+        { value: 'Y', quote: 'none' },
+      ])
+    })
+
+    it('should keep command substitutions in one word', () => {
+      expect(parseArgv('echo $(ls | wc -l) `date; x`')).toEqual(['echo', '$(ls | wc -l)', '`date; x`'])
+    })
+
+    it('should ignore comments', () => {
+      expect(parseArgv('ls # list files')).toEqual(['ls'])
+      expect(parseArgv('echo a#b')).toEqual(['echo', 'a#b'])
+    })
+  })
+
+  describe('operators', () => {
+    it('should parse lists, and-or chains and pipelines', () => {
+      const { ast } = parseShell('cd /tmp && ls | grep x || echo none; pwd')
+      expect(ast!.items).toHaveLength(2)
+      const andOr = ast!.items[0].command
+      expect(andOr.first.commands).toHaveLength(1)
+      expect(andOr.rest.map(r => r.op)).toEqual(['&&', '||'])
+      expect(andOr.rest[0].pipeline.commands).toHaveLength(2)
+    })
+
+    it('should not treat quoted operators as syntax', () => {
+      expect(parseArgv('echo "a | b; c && d"')).toEqual(['echo', 'a | b; c && d'])
+    })
+
+    it('should parse subshells and brace groups', () => {
+      const { ast } = parseShell('(cd /tmp; ls) && { echo a; echo b; }')
+      expect(ast!.items[0].command.first.commands[0].type).toBe('subshell')
+      expect(ast!.items[0].command.rest[0].pipeline.commands[0].type).toBe('group')
+      expect(collectSimpleCommands(ast!)).toHaveLength(4)
+    })
+
+    it('should parse control flow and function definitions', () => {
+      const { ast } = parseShell('greet() { echo hi; }; for f in *.txt; do if [ -s $f ]; then cat $f; fi; done')
+      const [definition, loop] = ast!.items.map(item => item.command.first.commands[0])
+      expect(definition.type).toBe('function')
+      expect(loop.type).toBe('for')
+      expect(collectSimpleCommands(ast!).map(c => c.words[0].raw)).toEqual(['echo', '[', 'cat'])
+      expect(parseShell('if true; then').incomplete).toBe(true)
+      expect(parseShell('done').error).toBe("bash: syntax error near unexpected token `done'")
+    })
+
+    it('should parse leading assignments', () => {
+      const { ast } = parseShell('FOO=bar BAZ="x y" env')
+      const command = ast!.items[0].command.first.commands[0] as SimpleCommand
+      expect(command.assignments.map(a => a.name)).toEqual(['FOO', 'BAZ'])
+      expect(command.words.map(w => w.raw)).toEqual(['env'])
+    })
+
+    it('should report syntax errors', () => {
+      expect(parseShell('ls | | wc').error).toBe("bash: syntax error near unexpected token `|'")
+      expect(parseShell('; ls').error).toBe("bash: syntax error near unexpected token `;'")
+    })
+
+    it('should flag incomplete input', () => {
+      expect(parseShell('echo "abc').incomplete).toBe(true)
+      expect(parseShell('ls |').incomplete).toBe(true)
+      expect(parseShell('ls &&').incomplete).toBe(true)
+    })
+  })
+
+  describe('redirections', () => {
+    it('should parse fd numbers and operators', () => {
+      const { ast } = parseShell('cmd 2>/dev/null >out.txt 2>&1 < in &>all')
+      const command = ast!.items[0].command.first.commands[0] as SimpleCommand
+      expect(command.words.map(w => w.raw)).toEqual(['cmd'])
+      expect(command.redirects.map(r => [r.fd, r.op, r.target.raw])).toEqual([
+        [2, '>', '/dev/null'],
+        [null, '>', 'out.txt'],
+        [2, '>&', '1'],
+        [null, '<', 'in'],
+        [null, '&>', 'all'],
+      ])
+    })
+
+    it('should read heredoc bodies after the newline', () => {
+      const { ast, pendingHeredocs } = parseShell("cat <<'EOF' > notes.txt\nline $1\n\tsecond\nEOF\necho done")
+      const heredoc = (ast!.items[0].command.first.commands[0] as SimpleCommand).redirects[0].heredoc!
+      expect(heredoc).toEqual({ delimiter: 'EOF', quoted: true, stripTabs: false, body: 'line $1\n\tsecond\n' })
+      expect(pendingHeredocs).toHaveLength(0)
+      expect(ast!.items).toHaveLength(2)
+    })
+
+    it('should leave unterminated heredocs pending', () => {
+      const { ast, pendingHeredocs } = parseShell('cat <<EOF')
+      expect(ast).not.toBeNull()
+      expect(pendingHeredocs.map(h => h.delimiter)).toEqual(['EOF'])
+    })
+  })
+
+  describe('formatting', () => {
+    it('should round-trip through the formatter', () => {
+      const input = `grep -i "two words" file.txt | sort && echo 'ok' > out.txt`
+      expect(formatShell(parseShell(input).ast!)).toBe(input)
+    })
+
+    it('should format compound commands on one line', () => {
+      const input = 'while read line; do case $line in a*) echo "$line" ;; esac; done < in.txt'
+      expect(formatShell(parseShell(input).ast!)).toBe(input)
+    })
+  })
+
+  describe('consumers', () => {
+    it('should split pipelines without breaking quoted pipes', () => {
+      expect(splitPipeline('echo "a|b" | grep a')).toEqual(['echo "a|b"', 'grep a'])
+      expect(splitPipeline('true || false')).toEqual(['true || false'])
+    })
+
+    it('should find the redirection target without a surrounding space', () => {
+      const result = parseRedirection('echo "1 > 0" >notes.txt')
+      expect(result.type).toBe('output')
+      expect(result.target).toBe('notes.txt')
+      expect(result.command).toBe('echo "1 > 0"')
+    })
+
+    it('should not treat stderr redirection as stdout redirection', () => {
+      expect(parseRedirection('ls missing 2>/dev/null').type).toBe('none')
+    })
+
+    it('should detect destructive commands anywhere in the line', () => {
+      const result = detectDestructiveCommand('cd /tmp && sudo rm -rf /etc')
+      expect(result?.isDestructive).toBe(true)
+      expect(result?.warningLevel).toBe('critical')
+    })
+
+    it('should ignore redirection characters inside quotes', () => {
+      expect(detectDestructiveCommand('echo "a > report.txt"')).toBeNull()
+    })
+  })
+})
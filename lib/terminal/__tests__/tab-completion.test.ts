@@ -0,0 +1,89 @@
+/**
+ * Test tab completion of commands, paths, variables and remote targets
+ */
+
+import { completeLine, formatCandidates, CompletionSources } from '../tab-completion'
+import { EnvSimulator } from '../env-simulator'
+import { NetworkSimulator } from '../network-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Tab Completion Tests', () => {
+  let sources: CompletionSources
+
+  const complete = (line: string) => completeLine(line, sources)
+
+  beforeEach(() => {
+    const fs = new MEMFS()
+    fs.mkdir('/home')
+    fs.chown('/home', 'student')
+    fs.mkdir('/home/student')
+    fs.mkdir('/home/student/projects')
+    fs.mkdir('/home/student/projects/alpha')
+    fs.writeFile('/home/student/projects/plan.md', 'plan')
+    fs.writeFile('/home/student/secret notes.txt', 'notes')
+    fs.writeFile('/home/student/secret_key.pem', 'key')
+    fs.writeFile('/home/student/.hidden', 'hidden')
+    fs.writeFile('/home/student/run.sh', 'echo run')
+    fs.chmod('/home/student/run.sh', 0o755)
+    fs.mkdir('/root')
+
+    sources = {
+      fs,
+      currentPath: '/home/student',
+      isSudo: false,
+      commands: ['cat', 'cd', 'chmod', 'ssh', 'scp'],
+      env: new EnvSimulator({ username: 'student' }),
+      servers: new NetworkSimulator().getServers(),
+    }
+  })
+
+  it('should complete command names in command position', () => {
+    expect(complete('chm').line).toBe('chmod ')
+    expect(complete('ls | ca').line).toBe('ls | cat ')
+    expect(complete('c').candidates).toEqual(['cat', 'cd', 'chmod'])
+  })
+
+  it('should complete paths relative to the current directory', () => {
+    expect(complete('cd proj').line).toBe('cd projects/')
+    expect(complete('cat projects/p').line).toBe('cat projects/plan.md ')
+    expect(complete('cat ~/projects/a').line).toBe('cat ~/projects/alpha/')
+    expect(complete('./r').line).toBe('./run.sh ')
+  })
+
+  it('should extend to the common prefix and escape special characters', () => {
+    const result = complete('cat sec')
+    expect(result.line).toBe('cat secret')
+    expect(result.candidates).toEqual(['secret notes.txt', 'secret_key.pem'])
+    expect(complete('cat secret\\ ').line).toBe('cat secret\\ notes.txt ')
+    expect(complete('cat "secret n').line).toBe('cat "secret notes.txt" ')
+  })
+
+  it('should hide dotfiles and unreadable directories', () => {
+    expect(complete('cat .h').line).toBe('cat .hidden ')
+    expect(complete('cat ').candidates).not.toContain('.hidden')
+    expect(complete('ls /root/').candidates).toEqual([])
+  })
+
+  it('should complete absolute paths from the root directory', () => {
+    expect(complete('cat /ho').line).toBe('cat /home/')
+    expect(complete('cat /home/student/run').line).toBe('cat /home/student/run.sh ')
+    expect(complete('ls /').candidates).toEqual(['dev/', 'home/', 'root/'])
+  })
+
+  it('should complete variable names', () => {
+    expect(complete('echo $HOM').line).toBe('echo $HOME ')
+    expect(complete('cd ${HOM').line).toBe('cd ${HOME} ')
+  })
+
+  it('should complete ssh and scp targets from the server list', () => {
+    expect(complete('ssh remote').line).toBe('ssh remote-server ')
+    expect(complete('ssh omega_').line).toBe('ssh omega_agent@remote-server ')
+    expect(complete('scp plan.md omega_agent@rem').line).toBe('scp plan.md omega_agent@remote-server:')
+    expect(complete('scp plan.md omega_agent@remote-server:/home/omega/inc').line)
+      .toBe('scp plan.md omega_agent@remote-server:/home/omega/incoming/')
+  })
+
+  it('should lay out candidates in columns', () => {
+    expect(formatCandidates(['a', 'bb', 'ccc', 'd'], 12)).toBe('a    ccc\nbb   d')
+  })
+})
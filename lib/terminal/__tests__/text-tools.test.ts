@@ -0,0 +1,108 @@
+/**
+ * Test the text tools: head, tail, wc, sort, uniq, cut, tr, tee, nl, rev and tac
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { MEMFS } from '../memfs'
+
+describe('Text Tools Tests', () => {
+  let fs: MEMFS
+  const context: ExecutionContext = { currentPath: '/home/student', username: 'student', isSudo: false }
+  const run = (command: string, stdin?: string) => executeCommand(command, context, fs, stdin)
+
+  const ACCESS_LOG = [
+    '192.168.1.100 - student "GET /api/status" 200',
+    '10.0.2.50 - omega_agent "POST /upload" 201',
+    '192.168.1.100 - student "POST /api/auth" 200',
+    '10.0.2.50 - omega_agent "GET /download" 200',
+    '10.0.2.50 - omega_agent "GET /exfil" 200',
+  ].join('\n')
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdirTree(context.currentPath)
+    fs.chown('/home', 'student')
+    fs.chown(context.currentPath, 'student')
+    fs.writeFile('/home/student/access.log', ACCESS_LOG)
+    fs.writeFile('/home/student/notes.txt', 'alpha beta\n\ngamma\n')
+  })
+
+  it('should validate line counts for head and tail', () => {
+    expect(run('head -n 2 access.log').stdout.split('\n')).toHaveLength(2)
+    expect(run('head -n -3 access.log').stdout).toBe(ACCESS_LOG.split('\n').slice(0, 2).join('\n'))
+    expect(run('tail -n +2', 'header\na\nb').stdout).toBe('a\nb')
+    expect(run('tail -n 2', 'header\na\nb').stdout).toBe('a\nb')
+    expect(run('tail -n -1', 'header\na\nb').stdout).toBe('b')
+    expect(run('head -n 5x access.log')).toMatchObject({ stderr: "head: invalid number of lines: '5x'", exitCode: 1 })
+    expect(run('tail -n 1.5', 'a').stderr).toBe("tail: invalid number of lines: '1.5'")
+
+    // A final newline ends the last line rather than adding an empty one
+    fs.writeFile('/home/student/list.txt', 'one\ntwo\nthree\nfour\n')
+    expect(run('tail -1 list.txt').stdout).toBe('four')
+    expect(run('tail -n +3 list.txt').stdout).toBe('three\nfour')
+    expect(run('tail -n 2', 'a\nb\nc\n').stdout).toBe('b\nc')
+    expect(run('head -n -1 list.txt').stdout).toBe('one\ntwo\nthree')
+    expect(run('head -n 9 list.txt').stdout).toBe('one\ntwo\nthree\nfour')
+  })
+
+  it('should count lines, words and bytes with wc', () => {
+    expect(run('wc -l access.log').stdout).toBe('5 access.log')
+    expect(run('wc notes.txt').stdout).toBe(' 3  3 18 notes.txt')
+    expect(run('wc -w').stdout).toBe('0')
+    expect(run('wc -lw', 'one two\nthree').stdout).toBe('      2       3')
+    expect(run('wc -l access.log notes.txt').stdout).toBe('5 access.log\n3 notes.txt\n8 total')
+    expect(run('wc missing.txt').stderr).toBe('wc: missing.txt: No such file or directory')
+  })
+
+  it('should sort by line, number, key and separator', () => {
+    expect(run('sort', 'pear\napple\nBanana').stdout).toBe('Banana\napple\npear')
+    expect(run('sort -f', 'pear\napple\nBanana').stdout).toBe('apple\nBanana\npear')
+    expect(run('sort -n -r', '10\n9\n100').stdout).toBe('100\n10\n9')
+    expect(run('sort -u', 'b\na\nb').stdout).toBe('a\nb')
+    expect(run('sort -t: -k2 -n', 'x:3\ny:1\nz:2').stdout).toBe('y:1\nz:2\nx:3')
+    expect(run('sort -k 2,2 -k1r', 'b 1\na 1\nc 0').stdout).toBe('c 0\nb 1\na 1')
+    expect(run('sort -k 0').exitCode).toBe(2)
+  })
+
+  it('should count connections per IP with cut, sort and uniq', () => {
+    const result = executeCommand("cut -d' ' -f1 access.log | sort | uniq -c | sort -rn", context, fs)
+    expect(result.stdout).toBe('      3 10.0.2.50\n      2 192.168.1.100')
+
+    expect(run('uniq -d', 'a\na\nb\nc\nc').stdout).toBe('a\nc')
+    expect(run('uniq -u', 'a\na\nb').stdout).toBe('b')
+    expect(run('cut -c1-3,5', 'abcdef').stdout).toBe('abce')
+    expect(run('cut -d, -f2- -s', 'a,b,c\nplain').stdout).toBe('b,c')
+    expect(run('cut -d ab -f1').stderr).toBe("cut: the delimiter must be a single character\nTry 'cut --help' for more information.")
+    expect(run('cut access.log').stderr).toMatch(/^cut: you must specify a list of bytes, characters, or fields/)
+  })
+
+  it('should translate, delete and squeeze characters with tr', () => {
+    expect(run("tr 'a-z' 'A-Z'", 'Hello, World').stdout).toBe('HELLO, WORLD')
+    expect(run("tr '[:lower:]' '[:upper:]'", 'ghost').stdout).toBe('GHOST')
+    expect(run("tr -d '0-9'", 'agent007').stdout).toBe('agent')
+    expect(run("tr -s ' '", 'too    many   spaces').stdout).toBe('too many spaces')
+    expect(run("tr abc x", 'aabbcd').stdout).toBe('xxxxxd')
+    expect(run("tr ' ' '\\n'", 'a b').stdout).toBe('a\nb')
+    expect(run('tr abc').stderr).toBe("tr: missing operand after 'abc'\nTwo strings must be given when translating.\nTry 'tr --help' for more information.")
+  })
+
+  it('should copy standard input to files with tee', () => {
+    expect(run('tee out.txt', 'first').stdout).toBe('first')
+    run('tee -a out.txt copy.txt', 'second')
+    expect(fs.readFile('/home/student/out.txt', { encoding: 'utf8' })).toBe('first\nsecond')
+    expect(fs.readFile('/home/student/copy.txt', { encoding: 'utf8' })).toBe('second')
+
+    fs.mkdirTree('/secure')
+    fs.chown('/secure', 'root')
+    const denied = run('tee /secure/x', 'data')
+    expect(denied.stdout).toBe('data')
+    expect(denied.stderr).toBe('tee: /secure/x: Permission denied')
+  })
+
+  it('should number, reverse and flip lines with nl, rev and tac', () => {
+    expect(run('nl notes.txt').stdout).toBe('     1\talpha beta\n\n     2\tgamma')
+    expect(run('nl -b a -w 2 -s ". " notes.txt').stdout).toBe(' 1. alpha beta\n 2. \n 3. gamma')
+    expect(run('rev', 'stressed\nlevel').stdout).toBe('desserts\nlevel')
+    expect(run('tac notes.txt').stdout).toBe('gamma\n\nalpha beta')
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * Test parameter and tilde expansion
+ */
+
+import { executeCommand, ExecutionContext } from '../command-executor'
+import { EnvSimulator } from '../env-simulator'
+import { MEMFS } from '../memfs'
+
+describe('Word Expansion Tests', () => {
+  let fs: MEMFS
+  let env: EnvSimulator
+  let context: ExecutionContext
+
+  const echo = (args: string) => executeCommand(`echo ${args}`, context, fs).stdout
+
+  beforeEach(() => {
+    fs = new MEMFS()
+    fs.mkdir('/home')
+    fs.chown('/home', 'student')
+    fs.mkdir('/home/student')
+    fs.mkdir('/home/student/projects')
+
+    env = new EnvSimulator({ username: 'student' })
+    context = {
+      currentPath: '/home/student',
+      username: 'student',
+      isSudo: false,
+      env,
+    }
+  })
+
+  it('should expand variables outside single quotes', () => {
+    expect(echo('$HOME ${USER} "$USER" \'$USER\'')).toBe('/home/student student student $USER')
+  })
+
+  it('should expand unset variables to nothing', () => {
+    expect(echo('a $MISSING b')).toBe('a b')
+    expect(echo('"[$MISSING]"')).toBe('[]')
+  })
+
+  it('should support default, assign and length forms', () => {
+    expect(echo('${MISSING:-fallback} ${USER:+set}')).toBe('fallback set')
+    expect(echo('${CODE:=42} $CODE ${#USER}')).toBe('42 42 7')
+  })
+
+  it('should expand special parameters', () => {
+    env.setExitStatus(3)
+    expect(echo('$? $$')).toBe('3 1000')
+  })
+
+  it('should split unquoted expansions but not quoted ones', () => {
+    executeCommand('FILES="a.txt   b.txt"', context, fs)
+    const result = executeCommand('touch $FILES', context, fs)
+    expect(result.exitCode).toBe(0)
+    expect(fs.exists('/home/student/a.txt')).toBe(true)
+    expect(fs.exists('/home/student/b.txt')).toBe(true)
+    expect(echo('"$FILES"')).toBe('a.txt   b.txt')
+  })
+
+  it('should expand ~ and ~user', () => {
+    expect(echo('~ ~/projects ~root "~"')).toBe('/home/student /home/student/projects /root ~')
+  })
+
+  it('should support cd - using OLDPWD', () => {
+    env.updatePWD('/home/student/projects')
+    const result = executeCommand('cd -', { ...context, currentPath: '/home/student/projects' }, fs)
+    expect(result.newPath).toBe('/home/student')
+    expect(result.stdout).toBe('/home/student')
+  })
+
+  it('should reject assignments to readonly variables', () => {
+    const result = executeCommand('HOME=/tmp', context, fs)
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr).toContain('readonly')
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Alias Expansion
+ * Replaces aliased command words in a typed line before it is parsed, as
+ * interactive bash does. Only unquoted words in command position are
+ * replaced; an alias whose value ends in a blank makes the following word
+ * eligible too (alias sudo='sudo '), and an alias is never expanded inside
+ * its own value (alias ls='ls -F').
+ */
+
+export type AliasLookup = (name: string) => string | undefined
+
+interface Expansion {
+  text: string
+  commandPosition: boolean // Whether the next word is in command position
+}
+
+// Words after which the next word starts a command
+const COMMAND_PREFIXES = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!', '{', 'time'])
+
+// Operators, longest first
+const OPERATORS = ['&&', '||', ';;', '<<<', '<<-', '<<', '>>', '>&', '<&', '<>', '>|', '&>>', '&>', ';', '&', '|', '(', ')', '<', '>']
+
+const REDIRECT_OPERATORS = new Set(['<<<', '<<-', '<<', '>>', '>&', '<&', '<>', '>|', '&>>', '&>', '<', '>'])
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/
+
+/**
+ * Expand aliases in a command line
+ */
+export function expandAliases(line: string, lookup: AliasLookup): string {
+  return expand(line, lookup, new Set()).text
+}
+
+function expand(line: string, lookup: AliasLookup, active: Set<string>): Expansion {
+  let text = ''
+  let pos = 0
+  let commandPosition = true
+  let heredocPending = false
+
+  while (pos < line.length) {
+    const char = line[pos]
+
+    if (char === ' ' || char === '\t') {
+      text += char
+      pos++
+      continue
+    }
+
+    if (char === '\n') {
+      // Heredoc bodies follow the line that introduced them and are left alone
+      if (heredocPending) return { text: text + line.slice(pos), commandPosition: false }
+      text += char
+      pos++
+      commandPosition = true
+      continue
+    }
+
+    if (char === '#') {
+      const end = line.indexOf('\n', pos)
+      const stop = end === -1 ? line.length : end
+      text += line.slice(pos, stop)
+      pos = stop
+      continue
+    }
+
+    const operator = OPERATORS.find(op => line.startsWith(op, pos))
+    if (operator) {
+      text += operator
+      pos += operator.length
+      if (REDIRECT_OPERATORS.has(operator)) {
+        // The redirect target is never a command name
+        if (operator === '<<' || operator === '<<-') heredocPending = true
+        const target = skipBlanksAndWord(line, pos)
+        text += line.slice(pos, target)
+        pos = target
+      } else {
+        commandPosition = true
+      }
+      continue
+    }
+
+    const end = wordEnd(line, pos)
+    const word = line.slice(pos, end)
+    pos = end
+
+    // fd number of a redirect such as 2>
+    if (/^\d+$/.test(word) && (line[pos] === '<' || line[pos] === '>')) {
+      text += word
+      continue
+    }
+
+    if (!commandPosition) {
+      text += word
+      continue
+    }
+
+    const value = isPlainWord(word) && !active.has(word) ? lookup(word) : undefined
+    if (value !== undefined) {
+      const inner = expand(value, lookup, new Set([...active, word]))
+      text += inner.text
+      commandPosition = /[ \t]$/.test(value) || inner.commandPosition
+      continue
+    }
+
+    text += word
+    commandPosition = COMMAND_PREFIXES.has(word) || ASSIGNMENT.test(word)
+  }
+
+  return { text, commandPosition }
+}
+
+// Unquoted words without expansions are the only ones looked up
+function isPlainWord(word: string): boolean {
+  return !/['"\\$`]/.test(word)
+}
+
+function skipBlanksAndWord(line: string, pos: number): number {
+  while (line[pos] === ' ' || line[pos] === '\t') pos++
+  return wordEnd(line, pos)
+}
+
+// End of the word starting at pos, stepping over quotes, escapes and $(...)
+function wordEnd(line: string, pos: number): number {
+  let depth = 0
+  while (pos < line.length) {
+    const char = line[pos]
+    if (depth === 0 && /[\s;&|()<>]/.test(char)) break
+
+    if (char === '\\') {
+      pos += 2
+    } else if (char === "'") {
+      const close = line.indexOf("'", pos + 1)
+      pos = close === -1 ? line.length : close + 1
+    } else if (char === '"' || char === '`') {
+      pos++
+      while (pos < line.length && line[pos] !== char) pos += line[pos] === '\\' ? 2 : 1
+      pos++
+    } else if (char === '$' && line[pos + 1] === '(') {
+      depth++
+      pos += 2
+    } else {
+      if (char === ')' && depth > 0) depth--
+      pos++
+    }
+  }
+  return Math.min(pos, line.length)
+}
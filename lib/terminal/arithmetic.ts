@@ -0,0 +1,173 @@
+/**
+ * Shell Arithmetic
+ * Evaluates the integer expressions of $((...)): + - * / %, << and >>,
+ * parentheses, unary + - !, comparisons, && and ||, decimal, octal (010)
+ * and hex (0x10) constants, and variables by name, unset ones being 0
+ */
+
+export type VariableLookup = (name: string) => string | undefined
+
+// Longest first, so <= is not read as <
+const OPERATORS = ['<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')']
+
+// Binary operators by precedence, loosest first
+const PRECEDENCE = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['<<', '>>'], ['+', '-'], ['*', '/', '%']]
+
+// A variable's value is itself an expression; this stops one naming itself
+const MAX_DEPTH = 32
+
+class ArithmeticError extends Error {}
+
+/**
+ * Evaluate an arithmetic expression; errors read like bash's
+ * ("1 +: syntax error: operand expected (error token is "+")")
+ */
+export function evaluateArithmetic(expression: string, lookup: VariableLookup, depth = 0): number {
+  try {
+    return new ArithmeticParser(expression, lookup, depth).parse()
+  } catch (error) {
+    if (!(error instanceof ArithmeticError)) throw error
+    throw new Error(`${expression.trim()}: ${error.message}`)
+  }
+}
+
+/**
+ * Precedence climbing over the tokens of one expression
+ */
+class ArithmeticParser {
+  private tokens: string[]
+  private pos = 0
+
+  constructor(expression: string, private lookup: VariableLookup, private depth: number) {
+    this.tokens = tokenize(expression)
+  }
+
+  parse(): number {
+    if (this.tokens.length === 0) return 0
+    const value = this.parseBinary(0)
+    if (this.pos < this.tokens.length) {
+      throw new ArithmeticError(`syntax error in expression (error token is "${this.rest()}")`)
+    }
+    return value
+  }
+
+  private parseBinary(level: number): number {
+    if (level === PRECEDENCE.length) return this.parseUnary()
+
+    let left = this.parseBinary(level + 1)
+    while (PRECEDENCE[level].includes(this.peek() ?? '')) {
+      const operator = this.tokens[this.pos++]
+      const right = this.parseBinary(level + 1)
+      left = this.apply(operator, left, right)
+    }
+    return left
+  }
+
+  private parseUnary(): number {
+    const token = this.peek()
+    if (token === '-' || token === '+' || token === '!') {
+      this.pos++
+      const operand = this.parseUnary()
+      if (token === '!') return operand === 0 ? 1 : 0
+      return token === '-' ? -operand : operand
+    }
+    return this.parseOperand()
+  }
+
+  private parseOperand(): number {
+    const token = this.tokens[this.pos]
+    if (token === undefined || (OPERATORS.includes(token) && token !== '(')) {
+      const errorToken = token === undefined ? this.previousOperand() : this.rest()
+      throw new ArithmeticError(`syntax error: operand expected (error token is "${errorToken}")`)
+    }
+    this.pos++
+
+    if (token === '(') {
+      const value = this.parseBinary(0)
+      if (this.tokens[this.pos] !== ')') {
+        throw new ArithmeticError(`missing \`)' (error token is "${this.rest()}")`)
+      }
+      this.pos++
+      return value
+    }
+
+    if (/^[A-Za-z_]\w*$/.test(token)) return this.variable(token)
+    return parseConstant(token)
+  }
+
+  private variable(name: string): number {
+    const value = this.lookup(name)
+    if (value === undefined || value.trim() === '') return 0
+    if (this.depth >= MAX_DEPTH) throw new ArithmeticError(`expression recursion level exceeded (error token is "${name}")`)
+    return evaluateArithmetic(value, this.lookup, this.depth + 1)
+  }
+
+  private apply(operator: string, left: number, right: number): number {
+    switch (operator) {
+      case '+': return left + right
+      case '-': return left - right
+      case '*': return left * right
+      case '/':
+      case '%':
+        if (right === 0) throw new ArithmeticError(`division by 0 (error token is "${this.previousOperand()}")`)
+        return operator === '/' ? Math.trunc(left / right) : left % right
+      // Shifts by multiplying, so results are not cut to 32 bits
+      case '<<': return left * 2 ** right
+      case '>>': return Math.floor(left / 2 ** right)
+      case '<': return Number(left < right)
+      case '<=': return Number(left <= right)
+      case '>': return Number(left > right)
+      case '>=': return Number(left >= right)
+      case '==': return Number(left === right)
+      case '!=': return Number(left !== right)
+      case '&&': return Number(left !== 0 && right !== 0)
+      default: return Number(left !== 0 || right !== 0)
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.pos]
+  }
+
+  private rest(): string {
+    return this.tokens.slice(this.pos).join(' ')
+  }
+
+  // The token just consumed: the right operand, or an operator missing one
+  private previousOperand(): string {
+    return this.tokens[this.pos - 1] ?? ''
+  }
+}
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = []
+  let i = 0
+  while (i < expression.length) {
+    if (/\s/.test(expression[i])) {
+      i++
+      continue
+    }
+
+    const word = expression.slice(i).match(/^\w+/)
+    if (word) {
+      tokens.push(word[0])
+      i += word[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find(op => expression.startsWith(op, i))
+    if (!operator) {
+      throw new ArithmeticError(`syntax error: invalid arithmetic operator (error token is "${expression.slice(i)}")`)
+    }
+    tokens.push(operator)
+    i += operator.length
+  }
+  return tokens
+}
+
+function parseConstant(token: string): number {
+  if (/^0x[0-9a-f]+$/i.test(token)) return parseInt(token.slice(2), 16)
+  if (/^0[0-7]+$/.test(token)) return parseInt(token, 8)
+  if (/^\d+$/.test(token)) return parseInt(token, 10)
+  throw new ArithmeticError(`value too great for base (error token is "${token}")`)
+}
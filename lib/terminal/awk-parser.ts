@@ -0,0 +1,692 @@
+/**
+ * Awk Parser
+ * Turns an awk program into rules: BEGIN and END actions, and actions
+ * guarded by an expression, a /regex/ or a range pattern. Statements are
+ * print, printf, if, while, do, for, for-in, delete, next and exit, over
+ * awk's expressions (fields, arrays, arithmetic, comparison, matching,
+ * concatenation, assignment and the built-in string and math functions).
+ */
+
+import { compileRegex } from './posix-regex'
+
+export type Expr =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'regex'; regex: RegExp; source: string } // On its own, matches $0
+  | { type: 'var'; name: string }
+  | { type: 'index'; name: string; subscripts: Expr[] }
+  | { type: 'field'; index: Expr }
+  | { type: 'assign'; op: string; target: LValue; value: Expr }
+  | { type: 'cond'; test: Expr; then: Expr; else: Expr }
+  | { type: 'binary'; op: string; left: Expr; right: Expr } // op ' ' is concatenation
+  | { type: 'unary'; op: string; operand: Expr }
+  | { type: 'incdec'; op: string; prefix: boolean; target: LValue }
+  | { type: 'in'; subscripts: Expr[]; array: string }
+  | { type: 'call'; name: string; args: Expr[] }
+
+export type LValue = Extract<Expr, { type: 'var' | 'index' | 'field' }>
+
+export interface Redirect {
+  append: boolean // >> rather than >
+  target: Expr
+}
+
+export type Stmt =
+  | { type: 'print' | 'printf'; args: Expr[]; redirect?: Redirect }
+  | { type: 'expr'; expr: Expr }
+  | { type: 'block'; body: Stmt[] }
+  | { type: 'if'; test: Expr; then: Stmt; else?: Stmt }
+  | { type: 'while'; test: Expr; body: Stmt }
+  | { type: 'do'; body: Stmt; test: Expr }
+  | { type: 'for'; init?: Expr; test?: Expr; step?: Expr; body: Stmt }
+  | { type: 'forIn'; variable: string; array: string; body: Stmt }
+  | { type: 'break' | 'continue' | 'next' }
+  | { type: 'exit'; code?: Expr }
+  | { type: 'delete'; array: string; subscripts?: Expr[] } // Without subscripts, the whole array
+
+export interface Rule {
+  kind: 'BEGIN' | 'END' | 'main'
+  pattern?: Expr
+  rangeEnd?: Expr  // pattern,rangeEnd
+  action?: Stmt[]  // Left out: print $0
+}
+
+// Built-in functions with their least and greatest number of arguments
+export const BUILTIN_FUNCTIONS: Record<string, [number, number]> = {
+  length: [0, 1],
+  substr: [2, 3],
+  index: [2, 2],
+  split: [2, 3],
+  sub: [2, 3],
+  gsub: [2, 3],
+  match: [2, 2],
+  sprintf: [1, Infinity],
+  tolower: [1, 1],
+  toupper: [1, 1],
+  int: [1, 1],
+  sqrt: [1, 1],
+  exp: [1, 1],
+  log: [1, 1],
+  sin: [1, 1],
+  cos: [1, 1],
+  atan2: [2, 2],
+}
+
+const KEYWORDS = new Set([
+  'BEGIN', 'END', 'if', 'else', 'while', 'for', 'do', 'break', 'continue', 'next', 'exit',
+  'delete', 'in', 'print', 'printf', 'getline', 'function', 'return',
+])
+
+const OPERATORS = [
+  '**=', '+=', '-=', '*=', '/=', '%=', '^=', '**', '==', '<=', '>=', '!=', '!~', '++', '--', '&&', '||', '>>',
+  '+', '-', '*', '/', '%', '^', '!', '<', '>', '~', '?', ':', '=', ',', ';', '(', ')', '{', '}', '[', ']', '$', '|',
+]
+
+const ASSIGN_OPS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '^=', '**='])
+
+// Tokens after which a newline is only white space
+const CONTINUES_LINE = new Set(['{', '&&', '||', ',', 'do', 'else'])
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', '/': '/', a: '\x07', b: '\b', f: '\f', v: '\v',
+}
+
+type TokenType = 'number' | 'string' | 'regex' | 'name' | 'builtin' | 'keyword' | 'op' | 'newline' | 'eof'
+
+interface Token {
+  type: TokenType
+  value: string
+  offset: number // Where it starts in the source, for errors
+}
+
+class AwkSyntaxError extends Error {
+  constructor(message: string, public offset: number) {
+    super(message)
+  }
+}
+
+/**
+ * Parse an awk program. Errors point at the offending spot, as gawk's do:
+ *   awk: cmd. line:1: {print $1
+ *   awk: cmd. line:1:          ^ unexpected newline or end of string
+ */
+export function parseAwk(source: string, sourceName = 'cmd. line'): { rules: Rule[]; error?: string } {
+  try {
+    return { rules: new Parser(tokenize(source)).parseProgram() }
+  } catch (error) {
+    if (!(error instanceof AwkSyntaxError)) throw error
+    const before = source.slice(0, error.offset)
+    const line = before.split('\n').length
+    const column = before.length - before.lastIndexOf('\n') - 1
+    const prefix = `awk: ${sourceName}:${line}: `
+    return { rules: [], error: `${prefix}${source.split('\n')[line - 1]}\n${prefix}${' '.repeat(column)}^ ${error.message}` }
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  const push = (type: TokenType, value: string, offset: number) => tokens.push({ type, value, offset })
+  // A / after an operand divides; anywhere else it starts a regex
+  const divides = () => {
+    const last = tokens[tokens.length - 1]
+    return !!last && (['number', 'string', 'regex', 'name', 'builtin'].includes(last.type) ||
+      (last.type === 'op' && [')', ']', '++', '--'].includes(last.value)))
+  }
+
+  while (i < source.length) {
+    const char = source[i]
+    const start = i
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      i++
+    } else if (char === '\\' && source[i + 1] === '\n') {
+      i += 2
+    } else if (char === '#') {
+      while (i < source.length && source[i] !== '\n') i++
+    } else if (char === '\n') {
+      const last = tokens[tokens.length - 1]
+      if (last && !CONTINUES_LINE.has(last.value) && last.type !== 'newline') push('newline', '\n', i)
+      i++
+    } else if (char === '"') {
+      let text = ''
+      i++
+      while (i < source.length && source[i] !== '"' && source[i] !== '\n') {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const octal = source.slice(i + 1).match(/^[0-7]{1,3}/)
+          if (octal) {
+            text += String.fromCharCode(parseInt(octal[0], 8))
+            i += octal[0].length + 1
+          } else {
+            text += STRING_ESCAPES[source[i + 1]] ?? source[i + 1]
+            i += 2
+          }
+        } else {
+          text += source[i++]
+        }
+      }
+      if (source[i] !== '"') throw new AwkSyntaxError('unterminated string', start)
+      i++
+      push('string', text, start)
+    } else if (char === '/' && !divides()) {
+      let body = ''
+      let inBracket = false
+      i++
+      while (i < source.length && source[i] !== '\n' && (inBracket || source[i] !== '/')) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          body += source[i + 1] === '/' ? '/' : source.slice(i, i + 2)
+          i += 2
+          continue
+        }
+        if (source[i] === '[') inBracket = true
+        else if (source[i] === ']') inBracket = false
+        body += source[i++]
+      }
+      if (source[i] !== '/') throw new AwkSyntaxError('unterminated regexp', start)
+      i++
+      push('regex', body, start)
+    } else if (/[0-9.]/.test(char) && /^\.?\d/.test(source.slice(i))) {
+      const number = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/)![0]
+      i += number.length
+      push('number', number, start)
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = source.slice(i).match(/^[A-Za-z_]\w*/)![0]
+      i += name.length
+      push(KEYWORDS.has(name) ? 'keyword' : name in BUILTIN_FUNCTIONS ? 'builtin' : 'name', name, start)
+    } else {
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i))
+      if (!op) throw new AwkSyntaxError('invalid char in expression', start)
+      i += op.length
+      push('op', op, start)
+    }
+  }
+
+  push('eof', '', source.length)
+  return tokens
+}
+
+function isLValue(expr: Expr): expr is LValue {
+  return expr.type === 'var' || expr.type === 'index' || expr.type === 'field'
+}
+
+/**
+ * Recursive descent, loosest binding first:
+ *   ternary ?:  ||  &&  in  ~ !~  < <= == != >= >  concatenation
+ *   + -  * / %  unary ! - +  ^  ++ --  $  grouping
+ * Assignment binds loosest of all and groups to the right.
+ */
+class Parser {
+  private pos = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parseProgram(): Rule[] {
+    const rules: Rule[] = []
+    this.skipTerminators()
+    while (!this.at('eof')) {
+      rules.push(this.parseRule())
+      this.skipTerminators()
+    }
+    return rules
+  }
+
+  private parseRule(): Rule {
+    if (this.isKeyword('BEGIN') || this.isKeyword('END')) {
+      const kind = this.next().value as 'BEGIN' | 'END'
+      if (!this.is('{')) throw this.fail(`${kind} blocks must have an action part`)
+      return { kind, action: this.parseBlock() }
+    }
+    if (this.isKeyword('function')) throw this.fail('user-defined functions are not supported')
+
+    const rule: Rule = { kind: 'main' }
+    if (!this.is('{')) {
+      rule.pattern = this.parseExpr()
+      if (this.is(',')) {
+        this.next()
+        rule.rangeEnd = this.parseExpr()
+      }
+    }
+    if (this.is('{')) {
+      rule.action = this.parseBlock()
+    } else if (!this.isTerminator()) {
+      throw this.fail('syntax error')
+    }
+    return rule
+  }
+
+  private parseBlock(): Stmt[] {
+    this.expect('{')
+    const body: Stmt[] = []
+    this.skipTerminators()
+    while (!this.is('}')) {
+      body.push(this.parseStatement())
+      this.skipTerminators()
+    }
+    this.next()
+    return body
+  }
+
+  private parseStatement(): Stmt {
+    if (this.is('{')) return { type: 'block', body: this.parseBlock() }
+    if (this.is(';')) {
+      this.next()
+      return { type: 'block', body: [] }
+    }
+
+    if (this.isKeyword('if')) {
+      this.next()
+      const test = this.parseCondition()
+      const then = this.parseBody()
+      // else may follow on the next line or after a ;
+      const save = this.pos
+      this.skipTerminators()
+      if (this.isKeyword('else')) {
+        this.next()
+        return { type: 'if', test, then, else: this.parseBody() }
+      }
+      this.pos = save
+      return { type: 'if', test, then }
+    }
+
+    if (this.isKeyword('while')) {
+      this.next()
+      const test = this.parseCondition()
+      return { type: 'while', test, body: this.parseBody() }
+    }
+
+    if (this.isKeyword('do')) {
+      this.next()
+      const body = this.parseBody()
+      this.skipTerminators()
+      if (!this.isKeyword('while')) throw this.fail('syntax error')
+      this.next()
+      const test = this.parseCondition()
+      this.expectTerminator()
+      return { type: 'do', body, test }
+    }
+
+    if (this.isKeyword('for')) return this.parseFor()
+
+    const statement = this.parseSimpleStatement()
+    this.expectTerminator()
+    return statement
+  }
+
+  // for (init; test; step) body, or for (key in array) body
+  private parseFor(): Stmt {
+    this.next()
+    this.expect('(')
+    const [name, keyword, array, close] = this.tokens.slice(this.pos, this.pos + 4)
+    if (name.type === 'name' && keyword.value === 'in' && array?.type === 'name' && close?.value === ')') {
+      this.pos += 4
+      return { type: 'forIn', variable: name.value, array: array.value, body: this.parseBody() }
+    }
+
+    const init = this.is(';') ? undefined : this.parseExpr()
+    this.expect(';')
+    this.skipNewlines()
+    const test = this.is(';') ? undefined : this.parseExpr()
+    this.expect(';')
+    this.skipNewlines()
+    const step = this.is(')') ? undefined : this.parseExpr()
+    this.expect(')')
+    return { type: 'for', init, test, step, body: this.parseBody() }
+  }
+
+  private parseSimpleStatement(): Stmt {
+    const token = this.peek()
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'print':
+        case 'printf':
+          return this.parsePrint()
+        case 'delete': {
+          this.next()
+          const array = this.expectName()
+          if (!this.is('[')) return { type: 'delete', array }
+          this.next()
+          const subscripts = this.parseExprList()
+          this.expect(']')
+          return { type: 'delete', array, subscripts }
+        }
+        case 'next':
+        case 'break':
+        case 'continue':
+          this.next()
+          return { type: token.value as 'next' | 'break' | 'continue' }
+        case 'exit':
+          this.next()
+          return { type: 'exit', code: this.isTerminator() ? undefined : this.parseExpr() }
+        case 'getline':
+        case 'return':
+          throw this.fail(`${token.value} is not supported`)
+      }
+    }
+    return { type: 'expr', expr: this.parseExpr() }
+  }
+
+  // print expr-list [> file]: a bare > redirects rather than compares
+  private parsePrint(): Stmt {
+    const type = this.next().value as 'print' | 'printf'
+    let args = this.parseGroupedList()
+    if (!args) {
+      args = this.isTerminator() || this.is('>') || this.is('>>') || this.is('|') ? [] : this.parseExprList(true)
+    }
+
+    let redirect: Redirect | undefined
+    if (this.is('>') || this.is('>>')) {
+      const append = this.next().value === '>>'
+      redirect = { append, target: this.parseConcat() }
+    }
+    if (this.is('|')) throw this.fail('output pipes are not supported; pipe the output of awk instead')
+    if (type === 'printf' && args.length === 0) throw this.fail('printf: no format')
+    return { type, args, redirect }
+  }
+
+  // print (a, b) > "file": parentheses around the whole list
+  private parseGroupedList(): Expr[] | null {
+    if (!this.is('(')) return null
+    const save = this.pos
+    try {
+      this.next()
+      const list = this.parseExprList()
+      this.expect(')')
+      if (this.isTerminator() || this.is('>') || this.is('>>') || this.is('|')) return list
+    } catch (error) {
+      if (!(error instanceof AwkSyntaxError)) throw error
+    }
+    this.pos = save
+    return null
+  }
+
+  private parseCondition(): Expr {
+    this.expect('(')
+    const test = this.parseExpr()
+    this.expect(')')
+    return test
+  }
+
+  // The body of if, while, do and for, which may start on the next line
+  private parseBody(): Stmt {
+    this.skipNewlines()
+    return this.parseStatement()
+  }
+
+  private parseExprList(noGt = false): Expr[] {
+    const list = [this.parseExpr(noGt)]
+    while (this.is(',')) {
+      this.next()
+      list.push(this.parseExpr(noGt))
+    }
+    return list
+  }
+
+  // noGt: in a print list, where > starts a redirection
+  private parseExpr(noGt = false): Expr {
+    const left = this.parseTernary(noGt)
+    if (this.at('op') && ASSIGN_OPS.has(this.peek().value)) {
+      if (!isLValue(left)) throw this.fail('syntax error')
+      const op = this.next().value
+      return { type: 'assign', op, target: left, value: this.parseExpr(noGt) }
+    }
+    return left
+  }
+
+  private parseTernary(noGt: boolean): Expr {
+    const test = this.parseOr(noGt)
+    if (!this.is('?')) return test
+    this.next()
+    this.skipNewlines()
+    const then = this.parseTernary(noGt)
+    this.skipNewlines()
+    this.expect(':')
+    this.skipNewlines()
+    return { type: 'cond', test, then, else: this.parseTernary(noGt) }
+  }
+
+  private parseOr(noGt: boolean): Expr {
+    let left = this.parseAnd(noGt)
+    while (this.is('||')) {
+      this.next()
+      left = { type: 'binary', op: '||', left, right: this.parseAnd(noGt) }
+    }
+    return left
+  }
+
+  private parseAnd(noGt: boolean): Expr {
+    let left = this.parseIn(noGt)
+    while (this.is('&&')) {
+      this.next()
+      left = { type: 'binary', op: '&&', left, right: this.parseIn(noGt) }
+    }
+    return left
+  }
+
+  private parseIn(noGt: boolean): Expr {
+    let left = this.parseMatch(noGt)
+    while (this.isKeyword('in')) {
+      this.next()
+      left = { type: 'in', subscripts: [left], array: this.expectName() }
+    }
+    return left
+  }
+
+  private parseMatch(noGt: boolean): Expr {
+    let left = this.parseComparison(noGt)
+    while (this.is('~') || this.is('!~')) {
+      const op = this.next().value
+      left = { type: 'binary', op, left, right: this.parseComparison(noGt) }
+    }
+    return left
+  }
+
+  private parseComparison(noGt: boolean): Expr {
+    const left = this.parseConcat()
+    const op = this.peek().value
+    if (this.at('op') && ['<', '<=', '==', '!=', '>=', ...(noGt ? [] : ['>'])].includes(op)) {
+      this.next()
+      return { type: 'binary', op, left, right: this.parseConcat() }
+    }
+    return left
+  }
+
+  private parseConcat(): Expr {
+    let left = this.parseAdditive()
+    while (this.startsOperand()) {
+      left = { type: 'binary', op: ' ', left, right: this.parseAdditive() }
+    }
+    return left
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative()
+    while (this.is('+') || this.is('-')) {
+      const op = this.next().value
+      left = { type: 'binary', op, left, right: this.parseMultiplicative() }
+    }
+    return left
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary()
+    while (this.is('*') || this.is('/') || this.is('%')) {
+      const op = this.next().value
+      left = { type: 'binary', op, left, right: this.parseUnary() }
+    }
+    return left
+  }
+
+  private parseUnary(): Expr {
+    if (this.is('!') || this.is('-') || this.is('+')) {
+      const op = this.next().value
+      return { type: 'unary', op, operand: this.parseUnary() }
+    }
+    return this.parsePower()
+  }
+
+  private parsePower(): Expr {
+    const base = this.parsePostfix()
+    if (!this.is('^') && !this.is('**')) return base
+    this.next()
+    // Groups to the right, and the exponent may be negative: 2^-1
+    return { type: 'binary', op: '^', left: base, right: this.parseUnary() }
+  }
+
+  private parsePostfix(): Expr {
+    if (this.is('++') || this.is('--')) {
+      const op = this.next().value
+      const target = this.parsePrimary()
+      if (!isLValue(target)) throw this.fail('syntax error')
+      return { type: 'incdec', op, prefix: true, target }
+    }
+    const expr = this.parsePrimary()
+    if (isLValue(expr) && (this.is('++') || this.is('--'))) {
+      return { type: 'incdec', op: this.next().value, prefix: false, target: expr }
+    }
+    return expr
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek()
+    switch (token.type) {
+      case 'number':
+        this.next()
+        return { type: 'number', value: parseFloat(token.value) }
+      case 'string':
+        this.next()
+        return { type: 'string', value: token.value }
+      case 'regex':
+        this.next()
+        try {
+          return { type: 'regex', regex: compileRegex(token.value, { extended: true }), source: token.value }
+        } catch (error) {
+          this.pos--
+          throw this.fail(error instanceof Error ? error.message : String(error))
+        }
+      case 'name': {
+        this.next()
+        if (!this.is('[')) return { type: 'var', name: token.value }
+        this.next()
+        const subscripts = this.parseExprList()
+        this.expect(']')
+        return { type: 'index', name: token.value, subscripts }
+      }
+      case 'builtin':
+        return this.parseCall()
+      case 'newline':
+      case 'eof':
+        throw this.fail('unexpected newline or end of string')
+    }
+
+    if (this.is('$')) {
+      this.next()
+      // $ binds tighter than ++: $i++ increments the field
+      if (this.is('++') || this.is('--') || this.is('-')) {
+        return { type: 'field', index: this.is('-') ? this.parseUnary() : this.parsePostfix() }
+      }
+      return { type: 'field', index: this.parsePrimary() }
+    }
+
+    if (this.is('(')) {
+      this.next()
+      const list = this.parseExprList()
+      this.expect(')')
+      if (list.length === 1) return list[0]
+      // (i, j) in array
+      if (!this.isKeyword('in')) throw this.fail('syntax error')
+      this.next()
+      return { type: 'in', subscripts: list, array: this.expectName() }
+    }
+
+    if (this.isKeyword('getline')) throw this.fail('getline is not supported')
+    throw this.fail('syntax error')
+  }
+
+  private parseCall(): Expr {
+    const token = this.next()
+    const name = token.value
+    let args: Expr[] = []
+    if (this.is('(')) {
+      this.next()
+      args = this.is(')') ? [] : this.parseExprList()
+      this.expect(')')
+    } else if (name !== 'length') {
+      throw this.fail('syntax error')
+    }
+
+    const [least, most] = BUILTIN_FUNCTIONS[name]
+    if (args.length < least || args.length > most) {
+      this.pos--
+      throw this.fail(`${args.length} is invalid as number of arguments for ${name}`)
+    }
+    if (name === 'split' && args[1].type !== 'var') {
+      throw this.fail('split: second argument is not an array')
+    }
+    if ((name === 'sub' || name === 'gsub') && args[2] && !isLValue(args[2])) {
+      throw this.fail(`${name} third parameter is not a changeable object`)
+    }
+    return { type: 'call', name, args }
+  }
+
+  // Tokens that can begin an operand, and so a concatenation
+  private startsOperand(): boolean {
+    const token = this.peek()
+    if (['number', 'string', 'regex', 'name', 'builtin'].includes(token.type)) return true
+    return token.type === 'op' && ['$', '(', '++', '--'].includes(token.value)
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos]
+    if (token.type !== 'eof') this.pos++
+    return token
+  }
+
+  private at(type: TokenType): boolean {
+    return this.peek().type === type
+  }
+
+  private is(op: string): boolean {
+    return this.peek().type === 'op' && this.peek().value === op
+  }
+
+  private isKeyword(word: string): boolean {
+    return this.peek().type === 'keyword' && this.peek().value === word
+  }
+
+  private isTerminator(): boolean {
+    return this.is(';') || this.is('}') || this.at('newline') || this.at('eof')
+  }
+
+  private expect(op: string): void {
+    if (!this.is(op)) {
+      throw this.fail(this.at('newline') || this.at('eof') ? 'unexpected newline or end of string' : 'syntax error')
+    }
+    this.next()
+  }
+
+  private expectName(): string {
+    if (!this.at('name')) throw this.fail('syntax error')
+    return this.next().value
+  }
+
+  private expectTerminator(): void {
+    if (!this.isTerminator()) throw this.fail('syntax error')
+  }
+
+  private skipNewlines(): void {
+    while (this.at('newline')) this.next()
+  }
+
+  private skipTerminators(): void {
+    while (this.at('newline') || this.is(';')) this.next()
+  }
+
+  private fail(message: string): AwkSyntaxError {
+    return new AwkSyntaxError(message, this.peek().offset)
+  }
+}
@@ -0,0 +1,800 @@
+/**
+ * Awk
+ * Runs awk programs over files or standard input for field-based log
+ * analysis: $N, NF, NR, FNR, FS, OFS and ORS, -F and -v, print and printf
+ * (also into files with > and >>), associative arrays, arithmetic, string
+ * and regex comparisons, and the string functions length, substr, index,
+ * split, sub, gsub, match, sprintf, tolower and toupper.
+ */
+
+import type { CommandResult } from './command-executor'
+import { commandRegistry } from './command-registry'
+import type { CommandInvocation } from './command-registry'
+import { parseAwk } from './awk-parser'
+import type { Expr, LValue, Redirect, Rule, Stmt } from './awk-parser'
+import { compileRegex } from './posix-regex'
+import { readInputs, resolvePath, splitLines, writeOutput } from './text-tools'
+
+// Text from input (fields, split() elements, -v values): compares as a number when it looks like one
+class StrNum {
+  constructor(readonly text: string) {}
+}
+
+// undefined is a variable never assigned, both "" and 0
+type Value = number | string | StrNum | undefined
+
+type AwkArray = Map<string, Value>
+
+// Thrown to end a record, a loop iteration, a loop or the program
+class NextRecord {}
+class ContinueLoop {}
+class BreakLoop {}
+class ExitProgram {
+  constructor(readonly code?: number) {}
+}
+
+class AwkError extends Error {}
+
+const MAX_LOOP_ITERATIONS = 100000
+
+const NUMBER_PREFIX = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/
+
+function looksNumeric(text: string): boolean {
+  return /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/.test(text)
+}
+
+function toNumber(value: Value): number {
+  if (typeof value === 'number') return value
+  if (value === undefined) return 0
+  const match = (typeof value === 'string' ? value : value.text).match(NUMBER_PREFIX)
+  return match ? parseFloat(match[0]) : 0
+}
+
+function toText(value: Value): string {
+  if (typeof value === 'number') return formatNumber(value)
+  if (value === undefined) return ''
+  return typeof value === 'string' ? value : value.text
+}
+
+function toBoolean(value: Value): boolean {
+  if (typeof value === 'number') return value !== 0
+  if (value instanceof StrNum && looksNumeric(value.text)) return toNumber(value) !== 0
+  return toText(value) !== ''
+}
+
+// Integers print as integers, anything else as %.6g (OFMT and CONVFMT)
+function formatNumber(number: number): string {
+  if (Number.isInteger(number) && Math.abs(number) < 1e16) return String(number)
+  return formatPrintf('%.6g', [number])
+}
+
+/**
+ * Compare as numbers when both sides are numeric (numbers, numeric input or
+ * unset variables), otherwise as strings
+ */
+function compareValues(a: Value, b: Value): number {
+  const numeric = (value: Value) =>
+    typeof value === 'number' || value === undefined || (value instanceof StrNum && looksNumeric(value.text))
+  if (numeric(a) && numeric(b)) return toNumber(a) - toNumber(b)
+  const x = toText(a)
+  const y = toText(b)
+  return x < y ? -1 : x > y ? 1 : 0
+}
+
+/**
+ * printf-style formatting: %c %d %i %o %x %X %u %e %E %f %F %g %G %s %%
+ * with flags (- + space # 0), width and precision (* takes an argument)
+ */
+function formatPrintf(format: string, args: Value[]): string {
+  let next = 0
+  const take = () => args[next++]
+
+  return format.replace(/%([-+ #0]*)(\*|\d+)?(?:\.(\*|\d*))?([cdieEfFgGosuxX%])/g, (spec, flags: string, width?: string, precision?: string, conversion?: string) => {
+    if (conversion === '%') return '%'
+    let minWidth = width === '*' ? toNumber(take()) : width ? parseInt(width, 10) : 0
+    const places = precision === '*' ? toNumber(take()) : precision !== undefined ? parseInt(precision || '0', 10) : undefined
+    const value = take()
+    let left = flags.includes('-')
+    if (minWidth < 0) {
+      left = true
+      minWidth = -minWidth
+    }
+
+    let sign = ''
+    let body: string
+    switch (conversion) {
+      case 'c':
+        body = typeof value === 'number' ? String.fromCharCode(value) : toText(value).charAt(0)
+        break
+      case 's':
+        body = places === undefined ? toText(value) : toText(value).slice(0, places)
+        break
+      default: {
+        const number = toNumber(value)
+        sign = number < 0 ? '-' : flags.includes('+') ? '+' : flags.includes(' ') ? ' ' : ''
+        body = formatDigits(Math.abs(number), conversion!, places, flags.includes('#'))
+        if ('ouxX'.includes(conversion!)) sign = ''
+      }
+    }
+
+    const padding = Math.max(0, minWidth - sign.length - body.length)
+    if (left) return sign + body + ' '.repeat(padding)
+    if (flags.includes('0') && !'cs'.includes(conversion!)) return sign + '0'.repeat(padding) + body
+    return ' '.repeat(padding) + sign + body
+  })
+}
+
+// The digits of one numeric conversion, without the sign
+function formatDigits(number: number, conversion: string, places: number | undefined, alternate: boolean): string {
+  if (!isFinite(number)) return isNaN(number) ? 'nan' : 'inf'
+  const integer = Math.trunc(number)
+
+  switch (conversion) {
+    case 'd':
+    case 'i':
+    case 'u':
+      return places === undefined ? String(integer) : String(integer).padStart(places, '0')
+    case 'o':
+      return (alternate ? '0' : '') + integer.toString(8)
+    case 'x':
+    case 'X': {
+      const hex = (alternate && integer !== 0 ? '0x' : '') + integer.toString(16)
+      return conversion === 'X' ? hex.toUpperCase() : hex
+    }
+    case 'f':
+    case 'F':
+      return number.toFixed(places ?? 6)
+    case 'e':
+    case 'E': {
+      const exponential = cExponential(number, places ?? 6)
+      return conversion === 'E' ? exponential.toUpperCase() : exponential
+    }
+    default: {
+      // %g: %e or %f, whichever is shorter for the precision, without trailing zeros
+      const precision = places === 0 ? 1 : places ?? 6
+      const exponent = number === 0 ? 0 : parseInt(number.toExponential(precision - 1).split('e')[1], 10)
+      let text = exponent < -4 || exponent >= precision
+        ? cExponential(number, precision - 1)
+        : number.toFixed(Math.max(0, precision - 1 - exponent))
+      if (!alternate && text.includes('.')) text = text.replace(/\.?0+(?=e|$)/, '')
+      return conversion === 'G' ? text.toUpperCase() : text
+    }
+  }
+}
+
+// C's %e: at least two exponent digits (1.5e+02)
+function cExponential(number: number, places: number): string {
+  return number.toExponential(places).replace(/e([-+])(\d)$/, 'e$10$2')
+}
+
+function unescape(text: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', '/': '/' }
+  return text.replace(/\\(.)/g, (match, char: string) => escapes[char] ?? match)
+}
+
+/**
+ * Runs the rules of a parsed program: BEGIN, every record, END
+ */
+class Interpreter {
+  output = ''
+  errors = ''
+  readonly redirects = new Map<string, { append: boolean; text: string }>() // print > file, written at the end
+  private scalars = new Map<string, Value>()
+  private arrays = new Map<string, AwkArray>()
+  private record = ''
+  private fields: string[] = []
+  private ranges = new Set<Rule>() // Range patterns that have started and not yet ended
+  private regexCache = new Map<string, RegExp>()
+
+  constructor(private rules: Rule[]) {
+    const defaults: Record<string, Value> = {
+      FS: ' ', OFS: ' ', ORS: '\n', RS: '\n', NR: 0, NF: 0, FNR: 0, FILENAME: '', SUBSEP: '\x1c', RSTART: 0, RLENGTH: -1,
+    }
+    Object.entries(defaults).forEach(([name, value]) => this.scalars.set(name, value))
+  }
+
+  /**
+   * Whether the program reads input: only BEGIN rules don't
+   */
+  readsInput(): boolean {
+    return this.rules.some(rule => rule.kind !== 'BEGIN')
+  }
+
+  begin(): void {
+    this.runSpecial('BEGIN')
+  }
+
+  end(): void {
+    this.runSpecial('END')
+  }
+
+  /**
+   * Run the main rules over every line of one input
+   */
+  readLines(filename: string, lines: string[]): void {
+    this.scalars.set('FILENAME', filename)
+    this.scalars.set('FNR', 0)
+    for (const line of lines) {
+      this.scalars.set('NR', toNumber(this.scalars.get('NR')) + 1)
+      this.scalars.set('FNR', toNumber(this.scalars.get('FNR')) + 1)
+      this.setRecord(line)
+
+      for (const rule of this.rules) {
+        if (rule.kind !== 'main' || !this.selects(rule)) continue
+        try {
+          this.execute(rule.action ?? [{ type: 'print', args: [] }])
+        } catch (signal) {
+          if (signal instanceof NextRecord) break
+          throw signal
+        }
+      }
+    }
+  }
+
+  /**
+   * Assign a variable from -v or a var=value operand
+   */
+  assignVariable(name: string, value: string): void {
+    this.setVariable(name, new StrNum(unescape(value)))
+  }
+
+  private runSpecial(kind: 'BEGIN' | 'END'): void {
+    for (const rule of this.rules.filter(candidate => candidate.kind === kind)) {
+      try {
+        this.execute(rule.action!)
+      } catch (signal) {
+        if (signal instanceof NextRecord) throw new AwkError(`\`next' used in ${kind} action`)
+        throw signal
+      }
+    }
+  }
+
+  private selects(rule: Rule): boolean {
+    if (!rule.pattern) return true
+    if (!rule.rangeEnd) return toBoolean(this.evaluate(rule.pattern))
+
+    // A range includes the record that starts it, and may end on that same record
+    if (this.ranges.has(rule)) {
+      if (toBoolean(this.evaluate(rule.rangeEnd))) this.ranges.delete(rule)
+      return true
+    }
+    if (!toBoolean(this.evaluate(rule.pattern))) return false
+    if (!toBoolean(this.evaluate(rule.rangeEnd))) this.ranges.add(rule)
+    return true
+  }
+
+  private execute(statements: Stmt[]): void {
+    statements.forEach(statement => this.executeStatement(statement))
+  }
+
+  private executeStatement(statement: Stmt): void {
+    switch (statement.type) {
+      case 'print': {
+        const text = statement.args.length === 0
+          ? this.record
+          : statement.args.map(arg => toText(this.evaluate(arg))).join(toText(this.scalars.get('OFS')))
+        this.write(text + toText(this.scalars.get('ORS')), statement.redirect)
+        break
+      }
+      case 'printf': {
+        const [format, ...args] = statement.args.map(arg => this.evaluate(arg))
+        this.write(formatPrintf(toText(format), args), statement.redirect)
+        break
+      }
+      case 'expr':
+        this.evaluate(statement.expr)
+        break
+      case 'block':
+        this.execute(statement.body)
+        break
+      case 'if':
+        if (toBoolean(this.evaluate(statement.test))) this.executeStatement(statement.then)
+        else if (statement.else) this.executeStatement(statement.else)
+        break
+      case 'while':
+        this.loop(() => toBoolean(this.evaluate(statement.test)), statement.body)
+        break
+      case 'do':
+        if (!this.runBody(statement.body)) this.loop(() => toBoolean(this.evaluate(statement.test)), statement.body)
+        break
+      case 'for':
+        if (statement.init) this.evaluate(statement.init)
+        this.loop(() => !statement.test || toBoolean(this.evaluate(statement.test)), statement.body, () => {
+          if (statement.step) this.evaluate(statement.step)
+        })
+        break
+      case 'forIn': {
+        const keys = Array.from(this.array(statement.array).keys())
+        let index = 0
+        this.loop(() => index < keys.length, statement.body, () => undefined, () => {
+          this.setVariable(statement.variable, keys[index++])
+        })
+        break
+      }
+      case 'break':
+        throw new BreakLoop()
+      case 'continue':
+        throw new ContinueLoop()
+      case 'next':
+        throw new NextRecord()
+      case 'exit':
+        throw new ExitProgram(statement.code ? toNumber(this.evaluate(statement.code)) : undefined)
+      case 'delete': {
+        const array = this.array(statement.array)
+        if (statement.subscripts) array.delete(this.key(statement.subscripts))
+        else array.clear()
+        break
+      }
+    }
+  }
+
+  private loop(test: () => boolean, body: Stmt, step = () => {}, before = () => {}): void {
+    let iterations = 0
+    while (test()) {
+      if (++iterations > MAX_LOOP_ITERATIONS) throw new AwkError(`loop stopped after ${MAX_LOOP_ITERATIONS} iterations`)
+      before()
+      if (this.runBody(body)) return
+      step()
+    }
+  }
+
+  // Run a loop body once; true if it broke out of the loop
+  private runBody(body: Stmt): boolean {
+    try {
+      this.executeStatement(body)
+    } catch (signal) {
+      if (signal instanceof BreakLoop) return true
+      if (!(signal instanceof ContinueLoop)) throw signal
+    }
+    return false
+  }
+
+  private write(text: string, redirect?: Redirect): void {
+    if (!redirect) {
+      this.output += text
+      return
+    }
+    const target = toText(this.evaluate(redirect.target))
+    if (target === '/dev/stdout') {
+      this.output += text
+    } else if (target === '/dev/stderr') {
+      this.errors += text
+    } else {
+      // Like an open file: the first > truncates, later prints add to it
+      const file = this.redirects.get(target) ?? { append: redirect.append, text: '' }
+      file.text += text
+      this.redirects.set(target, file)
+    }
+  }
+
+  private evaluate(expr: Expr): Value {
+    switch (expr.type) {
+      case 'number':
+      case 'string':
+        return expr.value
+      case 'regex':
+        return expr.regex.test(this.record) ? 1 : 0
+      case 'var':
+        return this.getVariable(expr.name)
+      case 'index': {
+        // Referring to an element creates it, as in real awk
+        const array = this.array(expr.name)
+        const key = this.key(expr.subscripts)
+        if (!array.has(key)) array.set(key, undefined)
+        return array.get(key)
+      }
+      case 'field':
+        return this.getField(this.fieldIndex(expr.index))
+      case 'assign':
+        return this.assign(expr.target, expr.op, expr.value)
+      case 'cond':
+        return this.evaluate(toBoolean(this.evaluate(expr.test)) ? expr.then : expr.else)
+      case 'unary': {
+        const operand = this.evaluate(expr.operand)
+        if (expr.op === '!') return toBoolean(operand) ? 0 : 1
+        return expr.op === '-' ? -toNumber(operand) : toNumber(operand)
+      }
+      case 'incdec': {
+        const old = toNumber(this.evaluate(expr.target))
+        const value = expr.op === '++' ? old + 1 : old - 1
+        this.store(expr.target, value)
+        return expr.prefix ? value : old
+      }
+      case 'in':
+        return this.array(expr.array).has(this.key(expr.subscripts)) ? 1 : 0
+      case 'call':
+        return this.call(expr.name, expr.args)
+      case 'binary':
+        return this.binary(expr.op, expr.left, expr.right)
+    }
+  }
+
+  private binary(op: string, left: Expr, right: Expr): Value {
+    switch (op) {
+      case '||':
+        return toBoolean(this.evaluate(left)) || toBoolean(this.evaluate(right)) ? 1 : 0
+      case '&&':
+        return toBoolean(this.evaluate(left)) && toBoolean(this.evaluate(right)) ? 1 : 0
+      case '~':
+      case '!~': {
+        const text = toText(this.evaluate(left))
+        return this.regexOf(right).test(text) === (op === '~') ? 1 : 0
+      }
+      case ' ':
+        return toText(this.evaluate(left)) + toText(this.evaluate(right))
+    }
+
+    const a = this.evaluate(left)
+    const b = this.evaluate(right)
+    switch (op) {
+      case '<': return compareValues(a, b) < 0 ? 1 : 0
+      case '<=': return compareValues(a, b) <= 0 ? 1 : 0
+      case '==': return compareValues(a, b) === 0 ? 1 : 0
+      case '!=': return compareValues(a, b) !== 0 ? 1 : 0
+      case '>=': return compareValues(a, b) >= 0 ? 1 : 0
+      case '>': return compareValues(a, b) > 0 ? 1 : 0
+      default: return arithmetic(op, toNumber(a), toNumber(b))
+    }
+  }
+
+  private assign(target: LValue, op: string, valueExpr: Expr): Value {
+    let value = this.evaluate(valueExpr)
+    if (op !== '=') {
+      value = arithmetic(op.slice(0, -1), toNumber(this.evaluate(target)), toNumber(value))
+    }
+    this.store(target, value)
+    return value
+  }
+
+  private store(target: LValue, value: Value): void {
+    switch (target.type) {
+      case 'var':
+        this.setVariable(target.name, value)
+        break
+      case 'index':
+        this.array(target.name).set(this.key(target.subscripts), value)
+        break
+      case 'field':
+        this.setField(this.fieldIndex(target.index), toText(value))
+    }
+  }
+
+  private call(name: string, args: Expr[]): Value {
+    const text = (index: number) => toText(this.evaluate(args[index]))
+    const number = (index: number) => toNumber(this.evaluate(args[index]))
+
+    switch (name) {
+      case 'length': {
+        if (args.length === 0) return this.record.length
+        const arg = args[0]
+        if (arg.type === 'var' && this.arrays.has(arg.name)) return this.arrays.get(arg.name)!.size
+        return text(0).length
+      }
+      case 'substr': {
+        // Characters at positions m to m+n-1 that exist, counting from 1
+        const value = text(0)
+        const start = Math.round(number(1))
+        const end = args.length > 2 ? start + Math.round(number(2)) : Infinity
+        return value.slice(Math.max(start, 1) - 1, Math.max(0, Math.min(end, value.length + 1) - 1))
+      }
+      case 'index':
+        return text(0).indexOf(text(1)) + 1
+      case 'split': {
+        const value = text(0)
+        const separator = args.length > 2 ? (args[2].type === 'regex' ? args[2].regex : text(2)) : toText(this.scalars.get('FS'))
+        const array = this.array((args[1] as { name: string }).name)
+        const parts = this.split(value, separator)
+        array.clear()
+        parts.forEach((part, index) => array.set(String(index + 1), new StrNum(part)))
+        return parts.length
+      }
+      case 'sub':
+      case 'gsub':
+        return this.substitute(name === 'gsub', args)
+      case 'match': {
+        const match = this.regexOf(args[1]).exec(text(0))
+        this.scalars.set('RSTART', match ? match.index + 1 : 0)
+        this.scalars.set('RLENGTH', match ? match[0].length : -1)
+        return match ? match.index + 1 : 0
+      }
+      case 'sprintf': {
+        const [format, ...values] = args.map(arg => this.evaluate(arg))
+        return formatPrintf(toText(format), values)
+      }
+      case 'tolower':
+        return text(0).toLowerCase()
+      case 'toupper':
+        return text(0).toUpperCase()
+      case 'int':
+        return Math.trunc(number(0))
+      case 'atan2':
+        return Math.atan2(number(0), number(1))
+      default:
+        return (Math as unknown as Record<string, (x: number) => number>)[name](number(0))
+    }
+  }
+
+  // sub(re, repl[, target]) and gsub: & in repl is the match, \\& a literal &
+  private substitute(global: boolean, args: Expr[]): number {
+    const regex = this.regexOf(args[0])
+    const replacement = toText(this.evaluate(args[1]))
+    const target: LValue = (args[2] as LValue | undefined) ?? { type: 'field', index: { type: 'number', value: 0 } }
+    const original = toText(this.evaluate(target))
+
+    const pattern = new RegExp(regex.source, `${regex.flags}g`)
+    let result = ''
+    let copied = 0
+    let previousEnd = -1
+    let count = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(original)) !== null) {
+      if (match[0] === '') {
+        pattern.lastIndex++
+        if (match.index === previousEnd) continue
+      }
+      const found = match[0]
+      result += original.slice(copied, match.index) + replacement.replace(/\\\\|\\&|&/g, token =>
+        token === '&' ? found : token.slice(1)
+      )
+      copied = previousEnd = match.index + found.length
+      count++
+      if (!global) break
+    }
+
+    if (count > 0) this.store(target, result + original.slice(copied))
+    return count
+  }
+
+  /**
+   * Split text into fields: FS " " splits on runs of blanks, any other
+   * single character splits on itself, anything longer is a regex
+   */
+  private split(text: string, separator: string | RegExp): string[] {
+    if (separator === ' ') {
+      const trimmed = text.trim()
+      return trimmed === '' ? [] : trimmed.split(/[ \t\n]+/)
+    }
+    if (text === '') return []
+    if (typeof separator === 'string' && separator.length === 1 && separator !== '\\') return text.split(separator)
+
+    const regex = typeof separator === 'string' ? this.dynamicRegex(separator) : separator
+    const pattern = new RegExp(regex.source, `${regex.flags}g`)
+    const parts: string[] = []
+    let start = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0] === '') {
+        pattern.lastIndex++
+        continue
+      }
+      parts.push(text.slice(start, match.index))
+      start = match.index + match[0].length
+    }
+    parts.push(text.slice(start))
+    return parts
+  }
+
+  private regexOf(expr: Expr): RegExp {
+    return expr.type === 'regex' ? expr.regex : this.dynamicRegex(toText(this.evaluate(expr)))
+  }
+
+  // A string used as a regex ($0 ~ "err" or FS = "[:,]")
+  private dynamicRegex(source: string): RegExp {
+    let regex = this.regexCache.get(source)
+    if (!regex) {
+      try {
+        regex = compileRegex(source, { extended: true })
+      } catch (error) {
+        throw new AwkError(`${error instanceof Error ? error.message : error}: /${source}/`)
+      }
+      this.regexCache.set(source, regex)
+    }
+    return regex
+  }
+
+  private key(subscripts: Expr[]): string {
+    return subscripts.map(subscript => toText(this.evaluate(subscript))).join(toText(this.scalars.get('SUBSEP')))
+  }
+
+  private getVariable(name: string): Value {
+    if (this.arrays.has(name)) throw new AwkError(`attempt to use array \`${name}' in a scalar context`)
+    return this.scalars.get(name)
+  }
+
+  private setVariable(name: string, value: Value): void {
+    if (this.arrays.has(name)) throw new AwkError(`attempt to use array \`${name}' in a scalar context`)
+    this.scalars.set(name, value)
+    // Changing NF drops fields or adds empty ones, and rebuilds $0
+    if (name === 'NF') {
+      const count = Math.max(0, Math.trunc(toNumber(value)))
+      this.fields = Array.from({ length: count }, (_, index) => this.fields[index] ?? '')
+      this.rebuildRecord()
+    }
+  }
+
+  private array(name: string): AwkArray {
+    if (this.scalars.get(name) !== undefined) throw new AwkError(`attempt to use scalar \`${name}' as an array`)
+    let array = this.arrays.get(name)
+    if (!array) {
+      array = new Map()
+      this.arrays.set(name, array)
+    }
+    return array
+  }
+
+  private fieldIndex(expr: Expr): number {
+    const index = Math.trunc(toNumber(this.evaluate(expr)))
+    if (index < 0) throw new AwkError(`attempt to access field ${index}`)
+    return index
+  }
+
+  private getField(index: number): Value {
+    if (index === 0) return new StrNum(this.record)
+    return index <= this.fields.length ? new StrNum(this.fields[index - 1]) : undefined
+  }
+
+  private setField(index: number, text: string): void {
+    if (index === 0) {
+      this.setRecord(text)
+      return
+    }
+    while (this.fields.length < index) this.fields.push('')
+    this.fields[index - 1] = text
+    this.scalars.set('NF', this.fields.length)
+    this.rebuildRecord()
+  }
+
+  private setRecord(text: string): void {
+    this.record = text
+    this.fields = this.split(text, toText(this.scalars.get('FS')))
+    this.scalars.set('NF', this.fields.length)
+  }
+
+  private rebuildRecord(): void {
+    this.record = this.fields.join(toText(this.scalars.get('OFS')))
+  }
+}
+
+function arithmetic(op: string, a: number, b: number): number {
+  switch (op) {
+    case '+': return a + b
+    case '-': return a - b
+    case '*': return a * b
+    case '^':
+    case '**': return Math.pow(a, b)
+  }
+  if (b === 0) throw new AwkError(op === '/' ? 'division by zero attempted' : "division by zero attempted in `%'")
+  return op === '/' ? a / b : a % b
+}
+
+const USAGE = "Usage: awk [-F fs] [-v var=value] ['program' | -f progfile] [file ...]"
+
+/**
+ * awk [-F FS] [-v VAR=VALUE]... {'program' | -f PROGFILE} [FILE | VAR=VALUE]...
+ */
+function awkCommand(invocation: CommandInvocation): CommandResult {
+  const { options, context, fs } = invocation
+  const operands = [...options.args]
+
+  // The program comes from -f files, or else the first operand
+  let program: string | undefined
+  let sourceName = 'cmd. line'
+  const programFiles = options.values.get('f') ?? []
+  if (programFiles.length > 0) {
+    const sources: string[] = []
+    for (const file of programFiles) {
+      const { inputs, errors } = readInputs({ ...invocation, options: { ...options, args: [file] } })
+      if (errors.length > 0) {
+        return { stdout: '', stderr: `awk: fatal: can't open source file \`${file}' for reading: ${errors[0].split(': ').pop()}`, exitCode: 2 }
+      }
+      sources.push(inputs[0].content)
+    }
+    program = sources.join('\n')
+    sourceName = programFiles[0]
+  } else {
+    program = operands.shift()
+  }
+  if (program === undefined) {
+    return { stdout: '', stderr: USAGE, exitCode: 2 }
+  }
+
+  const { rules, error } = parseAwk(program, sourceName)
+  if (error) {
+    return { stdout: '', stderr: error, exitCode: 1 }
+  }
+
+  const awk = new Interpreter(rules)
+  const separator = options.namedArgs.get('F')
+  // -Ft is a tab, as in POSIX awk
+  if (separator !== undefined) awk.assignVariable('FS', separator === 't' ? '\t' : separator)
+  for (const assignment of options.values.get('v') ?? []) {
+    const match = assignment.match(/^([A-Za-z_]\w*)=(.*)$/)
+    if (!match) {
+      return { stdout: '', stderr: `awk: \`${assignment}' argument to \`-v' not in \`var=value' form\n${USAGE}`, exitCode: 2 }
+    }
+    awk.assignVariable(match[1], match[2])
+  }
+
+  let status: number | undefined
+  let fatal = ''
+  // Run a stage of the program; exit and fatal errors end it
+  const run = (stage: () => void) => {
+    try {
+      stage()
+    } catch (error) {
+      if (error instanceof ExitProgram) status = error.code ?? status
+      else if (error instanceof AwkError) fatal = `awk: fatal: ${error.message}`
+      else throw error
+    }
+  }
+
+  run(() => {
+    awk.begin()
+    if (!awk.readsInput()) return
+    // VAR=VALUE operands are assigned when reached, before the files that follow them
+    const isAssignment = (operand: string) => /^[A-Za-z_]\w*=/.test(operand)
+    const inputs = operands.some(operand => !isAssignment(operand)) ? operands : [...operands, '-']
+    for (const operand of inputs) {
+      if (isAssignment(operand)) {
+        const eq = operand.indexOf('=')
+        awk.assignVariable(operand.slice(0, eq), operand.slice(eq + 1))
+        continue
+      }
+      const { inputs: [input], errors } = readInputs({ ...invocation, options: { ...options, args: [operand] } })
+      if (errors.length > 0) {
+        throw new AwkError(`cannot open file \`${operand}' for reading: ${errors[0].split(': ').pop()}`)
+      }
+      awk.readLines(operand === '-' ? '' : operand, splitLines(input.content))
+    }
+  })
+  // END runs after exit too, but not after a fatal error
+  if (!fatal) run(() => awk.end())
+
+  const errors = [awk.errors.replace(/\n$/, ''), fatal].filter(Boolean)
+  let failed = fatal !== ''
+  awk.redirects.forEach((file, target) => {
+    const path = resolvePath(context.currentPath, target, context.username)
+    const writeError = writeOutput(fs, path, file.text.replace(/\n$/, ''), file.append, context.isSudo)
+    if (writeError) {
+      errors.push(`awk: fatal: can't redirect to \`${target}' (${writeError})`)
+      failed = true
+    }
+  })
+
+  return {
+    stdout: awk.output.replace(/\n$/, ''),
+    stderr: errors.join('\n'),
+    exitCode: failed ? 2 : status ?? 0,
+  }
+}
+
+commandRegistry.registerAll([
+  {
+    name: 'awk',
+    aliases: ['gawk'],
+    summary: 'pattern scanning and text processing language',
+    usage: "awk [-F fs] [-v var=value] ['program' | -f progfile] [file ...]",
+    manPage:
+      'Run the program on each line (record) of the files, or standard input. The program is a list of\n' +
+      'pattern { action } rules: BEGIN and END run before and after the input, /regex/ or an expression\n' +
+      'selects records, and a missing action prints the record.\n' +
+      'Each record is split on FS (blanks by default, -F to change) into fields $1 to $NF; $0 is the whole\n' +
+      'line and NR its number. print joins its arguments with OFS; printf formats like C.\n' +
+      'Variables and arrays (count[$1]++) need no declaring. Functions: length, substr, index, split,\n' +
+      'sub, gsub, match, sprintf, tolower, toupper, int, sqrt, exp, log, sin, cos and atan2.',
+    options: [
+      { flags: ['-F', '--field-separator'], value: 'fs', description: 'use fs for the input field separator (the value of FS)' },
+      { flags: ['-v', '--assign'], value: 'var=val', repeatable: true, description: 'assign the value val to the variable var before the program runs' },
+      { flags: ['-f', '--file'], value: 'progfile', repeatable: true, description: 'read the program from the file progfile' },
+    ],
+    usageStatus: 2,
+    readsStdin: true,
+    examples: [
+      "awk '{print $1}' /logs/access.log | sort | uniq -c",
+      "awk -F: '$3 >= 1000 {print $1}' /etc/passwd",
+      "awk -F'|' '/CONNECTION/ {print $3}' network_log.txt",
+      "awk '{bytes[$1] += $NF} END {for (ip in bytes) print ip, bytes[ip]}' access.log",
+    ],
+    run: awkCommand,
+  },
+])
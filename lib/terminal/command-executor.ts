@@ -4,11 +4,37 @@
  */
 
 import { MEMFS } from './memfs'
+import { parseShell, getSinglePipeline, wordToString, formatRedirect } from './shell-parser'
+import { expandWords, expandAssignmentValue, findCommandSubstitutions, ExpansionContext } from './word-expansion'
+import { ShellInterpreter, SHELL_BUILTINS } from './shell-interpreter'
+import { evaluateTest } from './test-expression'
+import { parseMode } from './file-mode'
+import { parseFindExpression, evaluateFind, runFindBatches } from './find-expression'
+import type { FindActions } from './find-expression'
+import { commandRegistry, formatCommandHelp, formatUsage } from './command-registry'
+import type { CommandSpec, CommandInvocation } from './command-registry'
+import { parseOptions, operandsOnly } from './option-parser'
+import type { OptionParseResult, OptionSpec, ParsedArgs } from './option-parser'
+import { jobTable, findSignal, SIGNALS } from './job-control'
+import type { JobProcess } from './job-control'
+import { processTable, processName, processMemory, MEMORY_KB } from './process-table'
+import type { Process } from './process-table'
+import './text-tools'
+import './grep'
+import './sed'
+import './awk'
+import './ls'
+import type { EnvSimulator } from './env-simulator'
+import type { NetworkSimulator } from './network-simulator'
 
 export interface ExecutionContext {
   currentPath: string
   username: string
   isSudo: boolean
+  env?: EnvSimulator // Shell environment for $VAR expansion, cd -, etc.
+  columns?: number // Width of the terminal stdout is shown on; unset when it is piped, redirected or captured
+  substitutions?: Map<string, string> // $(...) output recorded while the command line was checked, used once
+  network?: NetworkSimulator // The terminal's hosts, for network commands run as jobs
 }
 
 export interface CommandResult {
@@ -20,41 +46,6 @@ export interface CommandResult {
   pendingCommand?: string // The command waiting for password
 }
 
-/**
- * Parse command string into command and arguments
- */
-function parseCommand(command: string): string[] {
-  const args: string[] = []
-  let current = ''
-  let inQuotes = false
-  let quoteChar = ''
-
-  for (let i = 0; i < command.length; i++) {
-    const char = command[i]
-
-    if ((char === '"' || char === "'") && !inQuotes) {
-      inQuotes = true
-      quoteChar = char
-    } else if (char === quoteChar && inQuotes) {
-      inQuotes = false
-      quoteChar = ''
-    } else if (char === ' ' && !inQuotes) {
-      if (current) {
-        args.push(current)
-        current = ''
-      }
-    } else {
-      current += char
-    }
-  }
-
-  if (current) {
-    args.push(current)
-  }
-
-  return args
-}
-
 /**
  * Resolve path (handle relative paths, .., ~, etc.)
  */
@@ -103,1050 +94,1977 @@ function basename(path: string): string {
 }
 
 /**
- * Parse flags and arguments from command arguments
- * Returns flags as a Set and non-flag arguments as an array
+ * Shells that scripts can name in their shebang
  */
-interface ParsedArgs {
-  flags: Set<string>
-  args: string[]
-  namedArgs: Map<string, string> // For args like -n 10, --name value
-}
+const SCRIPT_SHELLS = ['sh', 'bash', 'dash']
 
-function parseArgs(args: string[], namedOptions: string[] = []): ParsedArgs {
-  const flags = new Set<string>()
-  const nonFlagArgs: string[] = []
-  const namedArgs = new Map<string, string>()
-  
-  let i = 0
-  while (i < args.length) {
-    const arg = args[i]
-    
-    if (arg.startsWith('--')) {
-      // Long option like --name
-      const optName = arg.substring(2)
-      const nextArg = i + 1 < args.length ? args[i + 1] : null
-      if (nextArg && !nextArg.startsWith('-')) {
-        namedArgs.set(optName, nextArg)
-        i += 2
-      } else {
-        flags.add(optName)
-        i++
-      }
-    } else if (arg.startsWith('-') && arg.length > 1) {
-      // Check if this is a named option that expects a value
-      const firstChar = arg.substring(1)
-      
-      // Check if it's a number like -10 or -20 (for head/tail)
-      const numValue = parseInt(firstChar)
-      if (!isNaN(numValue) && firstChar === numValue.toString()) {
-        // It's a numeric flag like -10
-        flags.add(firstChar)
-        i++
-        continue
-      }
-      
-      // Check if it's in the named options list (e.g., 'n', 'name', 'type')
-      if (namedOptions.includes(firstChar) && i + 1 < args.length && !args[i + 1].startsWith('-')) {
-        namedArgs.set(firstChar, args[i + 1])
-        i += 2
-        continue
-      }
-      
-      // For single-char flags followed by a value (could be either flag or named arg)
-      if (arg.length === 2 && i + 1 < args.length && !args[i + 1].startsWith('-')) {
-        // If next arg looks like a value, treat as named arg
-        // Otherwise, treat as flag
-        const nextArg = args[i + 1]
-        if (namedOptions.includes(firstChar) || /^\d+$/.test(nextArg)) {
-          namedArgs.set(firstChar, nextArg)
-          i += 2
-          continue
-        }
-      }
-      
-      // Short flags like -rf or -la
-      for (let j = 1; j < arg.length; j++) {
-        flags.add(arg[j])
-      }
-      i++
-    } else {
-      // Not a flag, regular argument
-      nonFlagArgs.push(arg)
-      i++
-    }
-  }
-  
-  return { flags, args: nonFlagArgs, namedArgs }
-}
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
 
 /**
- * Format file permissions for ls -l
+ * Format a date like `date` (UTC), e.g. "Mon Oct 19 14:03:12 UTC 2026"
  */
-function formatPermissions(mode: number, isDir: boolean): string {
-  const type = isDir ? 'd' : '-'
-  const perms = mode & 0o777
-  
-  let result = type
-  // Owner
-  result += (perms & 0o400) ? 'r' : '-'
-  result += (perms & 0o200) ? 'w' : '-'
-  result += (perms & 0o100) ? 'x' : '-'
-  // Group
-  result += (perms & 0o040) ? 'r' : '-'
-  result += (perms & 0o020) ? 'w' : '-'
-  result += (perms & 0o010) ? 'x' : '-'
-  // Other
-  result += (perms & 0o004) ? 'r' : '-'
-  result += (perms & 0o002) ? 'w' : '-'
-  result += (perms & 0o001) ? 'x' : '-'
-  
-  return result
+function formatDate(date: Date, format = '%a %b %e %H:%M:%S %Z %Y'): string {
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0')
+  const fields: Record<string, () => string> = {
+    a: () => DAY_NAMES[date.getUTCDay()],
+    b: () => MONTH_NAMES[date.getUTCMonth()],
+    d: () => pad(date.getUTCDate()),
+    e: () => String(date.getUTCDate()).padStart(2, ' '),
+    m: () => pad(date.getUTCMonth() + 1),
+    y: () => pad(date.getUTCFullYear() % 100),
+    Y: () => String(date.getUTCFullYear()),
+    H: () => pad(date.getUTCHours()),
+    M: () => pad(date.getUTCMinutes()),
+    S: () => pad(date.getUTCSeconds()),
+    F: () => `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`,
+    T: () => `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`,
+    s: () => String(Math.floor(date.getTime() / 1000)),
+    Z: () => 'UTC',
+    n: () => '\n',
+    t: () => '\t',
+    '%': () => '%',
+  }
+
+  return format.replace(/%(.)/g, (match, field: string) => (fields[field] ? fields[field]() : match))
 }
 
 /**
- * Format file size
+ * Directory part of a path, like dirname(1)
  */
-function formatSize(size: number): string {
-  return size.toString().padStart(8)
+function dirname(path: string): string {
+  const trimmed = path.replace(/\/+$/, '')
+  if (trimmed === '') return path.startsWith('/') ? '/' : '.'
+  const slash = trimmed.lastIndexOf('/')
+  if (slash === -1) return '.'
+  return trimmed.slice(0, slash).replace(/\/+$/, '') || '/'
 }
 
 /**
  * Execute a command
+ * When `stdin` is provided (e.g. the previous stage of a pipeline), text
+ * commands read it instead of a file if no file operand is given
  */
 export function executeCommand(
   command: string,
   context: ExecutionContext,
-  fs: MEMFS
+  fs: MEMFS,
+  stdin?: string
 ): CommandResult {
-  const parts = parseCommand(command.trim())
+  const { ast, error } = parseShell(command)
+  if (error) {
+    return { stdout: '', stderr: error, exitCode: 2 }
+  }
+
+  if (!ast || ast.items.length === 0) {
+    return { stdout: '', stderr: '', exitCode: 0 }
+  }
+
+  // Lists, compound commands, functions and shell builtins need the interpreter
+  const pipeline = getSinglePipeline(ast)
+  const simple = pipeline && !pipeline.negated && pipeline.commands.length === 1 ? pipeline.commands[0] : null
+  if (!simple || simple.type !== 'simple') {
+    return executeShell(command, context, fs, stdin)
+  }
+  const name = simple.words.length > 0 ? wordToString(simple.words[0]) : ''
+  if (SHELL_BUILTINS.has(name) || context.env?.getFunction(name)) {
+    return executeShell(command, context, fs, stdin)
+  }
+  // The interpreter applies redirections (2>/dev/null, 2>&1, < file ...);
+  // sudo keeps them in the command it runs once authenticated
+  if (simple.redirects.length > 0 && name !== 'sudo') {
+    return executeShell(command, context, fs, stdin)
+  }
+
+  // Expansion happens once here, so every command sees expanded operands
+  const expansion = getExpansionContext(context, fs)
+  let parts: string[]
+  try {
+    // Bare assignments (NAME=value) set shell variables
+    if (simple.words.length === 0) {
+      for (const assignment of simple.assignments) {
+        context.env?.setVariable(assignment.name, expandAssignmentValue(assignment.value, expansion))
+      }
+      return { stdout: '', stderr: '', exitCode: 0 }
+    }
+
+    parts = expandWords(simple.words, expansion)
+  } catch (error) {
+    return { stdout: '', stderr: `bash: ${error instanceof Error ? error.message : error}`, exitCode: 1 }
+  } finally {
+    // Recorded $(...) output stands in for one run only
+    for (const inner of simple.words.flatMap(findCommandSubstitutions)) context.substitutions?.delete(inner)
+  }
+
   if (parts.length === 0) {
     return { stdout: '', stderr: '', exitCode: 0 }
   }
 
+  if (parts[0] === 'sudo') {
+    if (parts.length === 1) {
+      return { stdout: '', stderr: 'sudo: a command must be specified', exitCode: 1 }
+    }
+    // Request password authentication
+    return {
+      stdout: '',
+      stderr: '',
+      exitCode: 0,
+      requiresPassword: true,
+      // Keep the original quoting so the command re-parses identically
+      pendingCommand: [
+        ...simple.words.slice(1).map(word => word.raw),
+        ...simple.redirects.map(formatRedirect),
+      ].join(' ')
+    }
+  }
+
+  return runCommand(parts, context, fs, stdin)
+}
+
+/**
+ * Run a command that has already been expanded into argv
+ */
+function runCommand(
+  parts: string[],
+  context: ExecutionContext,
+  fs: MEMFS,
+  stdin?: string
+): CommandResult {
   const [cmd, ...args] = parts
-  const { currentPath, username, isSudo } = context
+  const spec = commandRegistry.get(cmd)
 
-  try {
-    switch (cmd) {
-      case 'sudo':
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'sudo: a command must be specified', exitCode: 1 }
-        }
-        // Request password authentication
-        return {
-          stdout: '',
-          stderr: '',
-          exitCode: 0,
-          requiresPassword: true,
-          pendingCommand: args.join(' ')
-        }
+  if (!spec?.run) {
+    // A path runs the file itself (./script.sh)
+    if (cmd.includes('/')) {
+      return executeFile(cmd, args, context, fs, stdin)
+    }
+    return {
+      stdout: '',
+      stderr: `bash: ${cmd}: command not found`,
+      exitCode: 127,
+    }
+  }
 
-      case 'pwd':
-        return { stdout: currentPath, stderr: '', exitCode: 0 }
+  if (spec.requiresSudo && !context.isSudo) {
+    return { stdout: '', stderr: `${cmd}: Permission denied`, exitCode: 1 }
+  }
 
-      case 'cd': {
-        const target = args[0] || `/home/${username}`
-        const newPath = resolvePath(currentPath, target, username)
+  const parsed = parseCommandArgs(cmd, args, spec)
+  if (parsed.error) {
+    return { stdout: '', stderr: parsed.error, exitCode: spec.usageStatus ?? 1 }
+  }
+  if (parsed.help) {
+    return { stdout: formatUsage(spec), stderr: '', exitCode: 0 }
+  }
 
-        if (!fs.exists(newPath)) {
-          return {
-            stdout: '',
-            stderr: `cd: ${target}: No such file or directory`,
-            exitCode: 1,
-          }
-        }
+  try {
+    return spec.run({ name: cmd, args, options: parsed.options, context, fs, stdin })
+  } catch (error) {
+    return {
+      stdout: '',
+      stderr: error instanceof Error ? error.message : String(error),
+      exitCode: 1,
+    }
+  }
+}
 
-        const stat = fs.stat(newPath)
-        if (!stat.isDirectory()) {
-          return {
-            stdout: '',
-            stderr: `cd: ${target}: Not a directory`,
-            exitCode: 1,
-          }
-        }
+/**
+ * The long-running form of a command typed at the prompt (sleep, tail -f,
+ * ping without -c), to run as a job. Undefined means it runs normally,
+ * which also reports any usage error.
+ */
+export function spawnCommand(parts: string[], context: ExecutionContext, fs: MEMFS): JobProcess | undefined {
+  const [cmd, ...args] = parts
+  const spec = commandRegistry.get(cmd)
+  if (!spec?.spawn || (spec.requiresSudo && !context.isSudo)) return undefined
 
-        return { stdout: '', stderr: '', exitCode: 0, newPath }
-      }
+  const parsed = parseCommandArgs(cmd, args, spec)
+  if (parsed.error || parsed.help) return undefined
+  return spec.spawn({ name: cmd, args, options: parsed.options, context, fs })
+}
 
-      case 'ls': {
-        const parsed = parseArgs(args)
-        const longFormat = parsed.flags.has('l')
-        const showAll = parsed.flags.has('a') || parsed.flags.has('A')
-        const paths = parsed.args.length > 0 ? parsed.args : [currentPath]
+// Parse args with the command's option spec (all operands if it has none)
+function parseCommandArgs(cmd: string, args: string[], spec: CommandSpec): OptionParseResult {
+  return spec.options
+    ? parseOptions(cmd, args, { options: spec.options, numericOption: spec.numericOption })
+    : { options: operandsOnly(args), help: false }
+}
 
-        const output: string[] = []
+// Command handlers: argv is already expanded and parsed with the command's option spec
 
-        for (const path of paths) {
-          const fullPath = resolvePath(currentPath, path, username)
+function pwdCommand({ context }: CommandInvocation): CommandResult {
+  const { currentPath } = context
+  return { stdout: currentPath, stderr: '', exitCode: 0 }
+}
 
-          // Check permissions
-          if (!fs.exists(fullPath)) {
-            return {
-              stdout: '',
-              stderr: `ls: cannot access '${path}': No such file or directory`,
-              exitCode: 2,
-            }
-          }
+function cdCommand({ args, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username } = context
 
-          const stat = fs.stat(fullPath)
+  const home = context.env?.getVariable('HOME') || `/home/${username}`
+  let target = args[0] || home
 
-          // Check if we need root access
-          if (stat.owner === 'root' && !isSudo) {
-            return {
-              stdout: '',
-              stderr: `ls: cannot open directory '${path}': Permission denied`,
-              exitCode: 1,
-            }
-          }
+  // cd - returns to the previous directory and prints it
+  const previous = target === '-'
+  if (previous) {
+    const oldPwd = context.env?.getVariable('OLDPWD')
+    if (!oldPwd) {
+      return { stdout: '', stderr: 'cd: OLDPWD not set', exitCode: 1 }
+    }
+    target = oldPwd
+  }
 
-          if (!stat.isDirectory()) {
-            // List single file
-            if (longFormat) {
-              const perms = formatPermissions(stat.mode, false)
-              output.push(`${perms}  1 ${stat.owner} ${stat.owner} ${formatSize(stat.size)} Oct 15 14:30 ${basename(path)}`)
-            } else {
-              output.push(basename(path))
-            }
-            continue
-          }
+  const newPath = resolvePath(currentPath, target, username)
 
-          // List directory
-          const files = fs.readdir(fullPath)
-          const filtered = showAll ? files : files.filter(f => !f.startsWith('.'))
-
-          if (longFormat) {
-            if (paths.length > 1) output.push(`${fullPath}:`)
-            output.push(`total ${filtered.length}`)
-
-            for (const file of filtered) {
-              const filePath = fullPath === '/' ? `/${file}` : `${fullPath}/${file}`
-              try {
-                const fileStat = fs.stat(filePath)
-                const perms = formatPermissions(fileStat.mode, fileStat.isDirectory())
-                const size = fileStat.isDirectory() ? 4096 : fileStat.size
-                output.push(`${perms}  1 ${fileStat.owner} ${fileStat.owner} ${formatSize(size)} Oct 15 14:30 ${file}`)
-              } catch (e) {
-                output.push(`?????????? ?? ${username} ${username}     ???? ??? ?? ??:?? ${file}`)
-              }
-            }
-          } else {
-            if (paths.length > 1) output.push(`${fullPath}:`)
-            output.push(filtered.join('  '))
-          }
+  if (!fs.exists(newPath)) {
+    return {
+      stdout: '',
+      stderr: `cd: ${target}: No such file or directory`,
+      exitCode: 1,
+    }
+  }
 
-          if (paths.length > 1) output.push('')
-        }
+  const stat = fs.stat(newPath)
+  if (!stat.isDirectory()) {
+    return {
+      stdout: '',
+      stderr: `cd: ${target}: Not a directory`,
+      exitCode: 1,
+    }
+  }
 
-        return { stdout: output.join('\n'), stderr: '', exitCode: 0 }
-      }
+  return { stdout: previous ? newPath : '', stderr: '', exitCode: 0, newPath }
+}
 
-      case 'cat': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'cat: missing operand', exitCode: 1 }
-        }
+function catCommand({ options, context, fs, stdin }: CommandInvocation): CommandResult {
+  const { currentPath, username, isSudo } = context
 
-        const output: string[] = []
+  if (options.args.length === 0) {
+    if (stdin !== undefined) {
+      return { stdout: stdin, stderr: '', exitCode: 0 }
+    }
+    return { stdout: '', stderr: 'cat: missing operand', exitCode: 1 }
+  }
 
-        for (const arg of args) {
-          const fullPath = resolvePath(currentPath, arg, username)
+  const output: string[] = []
 
-          if (!fs.exists(fullPath)) {
-            return {
-              stdout: output.join('\n'),
-              stderr: `cat: ${arg}: No such file or directory`,
-              exitCode: 1,
-            }
-          }
+  for (const arg of options.args) {
+    // "-" reads standard input
+    if (arg === '-' && stdin !== undefined) {
+      output.push(stdin)
+      continue
+    }
 
-          const stat = fs.stat(fullPath)
+    const fullPath = resolvePath(currentPath, arg, username)
 
-          // Check permissions
-          if (stat.owner === 'root' && !isSudo) {
-            return {
-              stdout: '',
-              stderr: `cat: ${arg}: Permission denied`,
-              exitCode: 1,
-            }
-          }
+    if (!fs.exists(fullPath)) {
+      return {
+        stdout: output.join('\n'),
+        stderr: `cat: ${arg}: No such file or directory`,
+        exitCode: 1,
+      }
+    }
 
-          if (stat.isDirectory()) {
-            return {
-              stdout: output.join('\n'),
-              stderr: `cat: ${arg}: Is a directory`,
-              exitCode: 1,
-            }
-          }
+    const stat = fs.stat(fullPath)
 
-          const content = fs.readFile(fullPath, { encoding: 'utf8' }) as string
-          output.push(content)
-        }
+    // Check permissions
+    if (stat.owner === 'root' && !isSudo) {
+      return {
+        stdout: '',
+        stderr: `cat: ${arg}: Permission denied`,
+        exitCode: 1,
+      }
+    }
 
-        return { stdout: output.join('\n'), stderr: '', exitCode: 0 }
+    if (stat.isDirectory()) {
+      return {
+        stdout: output.join('\n'),
+        stderr: `cat: ${arg}: Is a directory`,
+        exitCode: 1,
       }
+    }
 
-      case 'grep': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'grep: missing operand', exitCode: 2 }
-        }
+    const content = fs.readFile(fullPath, { encoding: 'utf8' }) as string
+    output.push(content)
+  }
 
-        const parsed = parseArgs(args)
-        const recursive = parsed.flags.has('r') || parsed.flags.has('R')
-        const ignoreCase = parsed.flags.has('i')
-        const invertMatch = parsed.flags.has('v')
-        const lineNumber = parsed.flags.has('n')
-        
-        if (parsed.args.length === 0) {
-          return { stdout: '', stderr: 'grep: missing pattern', exitCode: 2 }
-        }
-        
-        const pattern = parsed.args[0]
-        let files = parsed.args.slice(1)
+  return { stdout: output.join('\n'), stderr: '', exitCode: 0 }
+}
 
-        // If no files specified and not recursive, read from stdin (not supported here)
-        if (files.length === 0 && !recursive) {
-          return { stdout: '', stderr: 'grep: no files specified', exitCode: 2 }
-        }
+function mkdirCommand({ args, options, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username } = context
 
-        // Handle * glob pattern
-        if (files.length === 1 && files[0] === '*') {
-          try {
-            files = fs.readdir(currentPath).filter(f => {
-              const fullPath = currentPath === '/' ? `/${f}` : `${currentPath}/${f}`
-              const stat = fs.stat(fullPath)
-              return !stat.isDirectory()
-            })
-          } catch (e) {
-            return { stdout: '', stderr: `grep: ${e instanceof Error ? e.message : 'Error'}`, exitCode: 2 }
-          }
-        }
+  if (args.length === 0) {
+    return { stdout: '', stderr: 'mkdir: missing operand', exitCode: 1 }
+  }
 
-        const output: string[] = []
-        let matchFound = false
-        const regex = new RegExp(pattern, ignoreCase ? 'i' : '')
+  const parents = options.flags.has('p')
 
-        for (const file of files) {
-          const fullPath = resolvePath(currentPath, file, username)
+  if (options.args.length === 0) {
+    return { stdout: '', stderr: 'mkdir: missing operand', exitCode: 1 }
+  }
 
-          if (!fs.exists(fullPath)) {
-            output.push(`grep: ${file}: No such file or directory`)
-            continue
+  for (const dir of options.args) {
+    const fullPath = resolvePath(currentPath, dir, username)
+
+    try {
+      if (parents) {
+        // Create parent directories if needed
+        const parts = fullPath.split('/').filter(Boolean)
+        let currentDir = '/'
+        for (const part of parts) {
+          currentDir = `${currentDir}${part}/`.replace(/\/+/g, '/')
+          if (!fs.exists(currentDir)) {
+            fs.mkdir(currentDir)
           }
+        }
+      } else {
+        fs.mkdir(fullPath)
+      }
+    } catch (e) {
+      return {
+        stdout: '',
+        stderr: `mkdir: cannot create directory '${dir}': ${e instanceof Error ? e.message : 'Error'}`,
+        exitCode: 1,
+      }
+    }
+  }
 
-          const stat = fs.stat(fullPath)
+  return { stdout: '', stderr: '', exitCode: 0 }
+}
 
-          // Check permissions
-          if (stat.owner === 'root' && !isSudo) {
-            output.push(`grep: ${file}: Permission denied`)
-            continue
-          }
+function touchCommand({ options, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username } = context
 
-          if (stat.isDirectory()) {
-            if (!recursive) {
-              output.push(`grep: ${file}: Is a directory`)
-              continue
-            }
-            // Recursive not fully implemented
-            continue
-          }
+  if (options.args.length === 0) {
+    return { stdout: '', stderr: 'touch: missing file operand', exitCode: 1 }
+  }
 
-          try {
-            const content = fs.readFile(fullPath, { encoding: 'utf8' }) as string
-            const lines = content.split('\n')
-
-            lines.forEach((line, index) => {
-              const matches = regex.test(line)
-              const shouldOutput = invertMatch ? !matches : matches
-
-              if (shouldOutput) {
-                matchFound = true
-                let prefix = files.length > 1 ? `${file}:` : ''
-                if (lineNumber) {
-                  prefix += `${index + 1}:`
-                }
-                output.push(prefix + line)
-              }
-            })
-          } catch (e) {
-            output.push(`grep: ${file}: ${e instanceof Error ? e.message : 'Error'}`)
-          }
-        }
+  for (const arg of options.args) {
+    const fullPath = resolvePath(currentPath, arg, username)
 
-        return { 
-          stdout: output.join('\n'), 
-          stderr: '', 
-          exitCode: matchFound ? 0 : 1 
+    try {
+      if (fs.exists(fullPath)) {
+        // Update timestamp
+        const stat = fs.stat(fullPath)
+        if (stat.isDirectory()) {
+          return {
+            stdout: '',
+            stderr: `touch: cannot touch '${arg}': Is a directory`,
+            exitCode: 1,
+          }
         }
+        // File exists, just touch it (we don't update timestamps in our simple impl)
+      } else {
+        // Create empty file
+        fs.writeFile(fullPath, '')
+      }
+    } catch (e) {
+      return {
+        stdout: '',
+        stderr: `touch: cannot touch '${arg}': ${e instanceof Error ? e.message : 'Error'}`,
+        exitCode: 1,
       }
+    }
+  }
 
-      case 'mkdir': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'mkdir: missing operand', exitCode: 1 }
-        }
+  return { stdout: '', stderr: '', exitCode: 0 }
+}
 
-        const parsed = parseArgs(args)
-        const parents = parsed.flags.has('p')
-        
-        if (parsed.args.length === 0) {
-          return { stdout: '', stderr: 'mkdir: missing operand', exitCode: 1 }
-        }
+function rmCommand({ args, options, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username } = context
 
-        for (const dir of parsed.args) {
-          const fullPath = resolvePath(currentPath, dir, username)
-
-          try {
-            if (parents) {
-              // Create parent directories if needed
-              const parts = fullPath.split('/').filter(Boolean)
-              let currentDir = '/'
-              for (const part of parts) {
-                currentDir = `${currentDir}${part}/`.replace(/\/+/g, '/')
-                if (!fs.exists(currentDir)) {
-                  fs.mkdir(currentDir)
-                }
-              }
-            } else {
-              fs.mkdir(fullPath)
-            }
-          } catch (e) {
-            return {
-              stdout: '',
-              stderr: `mkdir: cannot create directory '${dir}': ${e instanceof Error ? e.message : 'Error'}`,
-              exitCode: 1,
-            }
-          }
-        }
+  if (args.length === 0) {
+    return { stdout: '', stderr: 'rm: missing operand', exitCode: 1 }
+  }
 
-        return { stdout: '', stderr: '', exitCode: 0 }
-      }
+  const recursive = options.flags.has('r')
+  const force = options.flags.has('f')
 
-      case 'touch': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'touch: missing file operand', exitCode: 1 }
-        }
+  if (options.args.length === 0) {
+    return { stdout: '', stderr: 'rm: missing operand', exitCode: 1 }
+  }
 
-        for (const arg of args) {
-          const fullPath = resolvePath(currentPath, arg, username)
-
-          try {
-            if (fs.exists(fullPath)) {
-              // Update timestamp
-              const stat = fs.stat(fullPath)
-              if (stat.isDirectory()) {
-                return {
-                  stdout: '',
-                  stderr: `touch: cannot touch '${arg}': Is a directory`,
-                  exitCode: 1,
-                }
-              }
-              // File exists, just touch it (we don't update timestamps in our simple impl)
-            } else {
-              // Create empty file
-              fs.writeFile(fullPath, '')
-            }
-          } catch (e) {
-            return {
-              stdout: '',
-              stderr: `touch: cannot touch '${arg}': ${e instanceof Error ? e.message : 'Error'}`,
-              exitCode: 1,
-            }
+  for (const target of options.args) {
+    const fullPath = resolvePath(currentPath, target, username)
+
+    try {
+      if (!fs.exists(fullPath)) {
+        if (!force) {
+          return {
+            stdout: '',
+            stderr: `rm: cannot remove '${target}': No such file or directory`,
+            exitCode: 1,
           }
         }
-
-        return { stdout: '', stderr: '', exitCode: 0 }
+        continue
       }
-
-      case 'rm': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'rm: missing operand', exitCode: 1 }
-        }
-
-        const parsed = parseArgs(args)
-        const recursive = parsed.flags.has('r') || parsed.flags.has('R')
-        const force = parsed.flags.has('f')
-        
-        if (parsed.args.length === 0) {
-          return { stdout: '', stderr: 'rm: missing operand', exitCode: 1 }
+      
+      const stat = fs.stat(fullPath)
+      
+      if (stat.isDirectory()) {
+        if (!recursive) {
+          return {
+            stdout: '',
+            stderr: `rm: cannot remove '${target}': Is a directory`,
+            exitCode: 1,
+          }
         }
-
-        for (const target of parsed.args) {
-          const fullPath = resolvePath(currentPath, target, username)
-
-          try {
-            if (!fs.exists(fullPath)) {
-              if (!force) {
-                return {
-                  stdout: '',
-                  stderr: `rm: cannot remove '${target}': No such file or directory`,
-                  exitCode: 1,
-                }
-              }
-              continue
-            }
+        // Recursive directory removal
+        const removeDir = (dirPath: string) => {
+          const entries = fs.readdir(dirPath)
+          for (const entry of entries) {
+            const entryPath = dirPath === '/' ? `/${entry}` : `${dirPath}/${entry}`
+            const entryStat = fs.stat(entryPath)
             
-            const stat = fs.stat(fullPath)
-            
-            if (stat.isDirectory()) {
-              if (!recursive) {
-                return {
-                  stdout: '',
-                  stderr: `rm: cannot remove '${target}': Is a directory`,
-                  exitCode: 1,
-                }
-              }
-              // Recursive directory removal
-              const removeDir = (dirPath: string) => {
-                const entries = fs.readdir(dirPath)
-                for (const entry of entries) {
-                  const entryPath = dirPath === '/' ? `/${entry}` : `${dirPath}/${entry}`
-                  const entryStat = fs.stat(entryPath)
-                  
-                  if (entryStat.isDirectory()) {
-                    removeDir(entryPath)
-                  } else {
-                    fs.unlink(entryPath)
-                  }
-                }
-                fs.rmdir(dirPath)
-              }
-              
-              removeDir(fullPath)
-              
-              // Verify removal succeeded
-              if (fs.exists(fullPath)) {
-                throw new Error('Failed to remove directory')
-              }
+            if (entryStat.isDirectory()) {
+              removeDir(entryPath)
             } else {
-              fs.unlink(fullPath)
-              
-              // Verify removal succeeded
-              if (fs.exists(fullPath)) {
-                throw new Error('Failed to remove file')
-              }
-            }
-          } catch (e) {
-            if (!force) {
-              return {
-                stdout: '',
-                stderr: `rm: cannot remove '${target}': ${e instanceof Error ? e.message : 'Error'}`,
-                exitCode: 1,
-              }
+              fs.unlink(entryPath)
             }
           }
+          fs.rmdir(dirPath)
         }
-
-        return { stdout: '', stderr: '', exitCode: 0 }
-      }
-
-      case 'rmdir': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'rmdir: missing operand', exitCode: 1 }
-        }
-
-        const parsed = parseArgs(args)
-        const parents = parsed.flags.has('p')
         
-        if (parsed.args.length === 0) {
-          return { stdout: '', stderr: 'rmdir: missing operand', exitCode: 1 }
+        removeDir(fullPath)
+        
+        // Verify removal succeeded
+        if (fs.exists(fullPath)) {
+          throw new Error('Failed to remove directory')
         }
-
-        for (const target of parsed.args) {
-          const fullPath = resolvePath(currentPath, target, username)
-
-          try {
-            if (!fs.exists(fullPath)) {
-              return {
-                stdout: '',
-                stderr: `rmdir: failed to remove '${target}': No such file or directory`,
-                exitCode: 1,
-              }
-            }
-            
-            const stat = fs.stat(fullPath)
-            if (!stat.isDirectory()) {
-              return {
-                stdout: '',
-                stderr: `rmdir: failed to remove '${target}': Not a directory`,
-                exitCode: 1,
-              }
-            }
-            
-            fs.rmdir(fullPath)
-          } catch (e) {
-            return {
-              stdout: '',
-              stderr: `rmdir: failed to remove '${target}': ${e instanceof Error ? e.message : 'Error'}`,
-              exitCode: 1,
-            }
-          }
+      } else {
+        fs.unlink(fullPath)
+        
+        // Verify removal succeeded
+        if (fs.exists(fullPath)) {
+          throw new Error('Failed to remove file')
         }
-
-        return { stdout: '', stderr: '', exitCode: 0 }
       }
-
-      case 'cp': {
-        if (args.length < 2) {
-          return { stdout: '', stderr: 'cp: missing file operand', exitCode: 1 }
+    } catch (e) {
+      if (!force) {
+        return {
+          stdout: '',
+          stderr: `rm: cannot remove '${target}': ${e instanceof Error ? e.message : 'Error'}`,
+          exitCode: 1,
         }
+      }
+    }
+  }
 
-        const parsed = parseArgs(args)
-        const recursive = parsed.flags.has('r') || parsed.flags.has('R')
-        
-        if (parsed.args.length < 2) {
-          return { stdout: '', stderr: 'cp: missing destination file operand', exitCode: 1 }
-        }
+  return { stdout: '', stderr: '', exitCode: 0 }
+}
 
-        const sources = parsed.args.slice(0, -1)
-        let dest = resolvePath(currentPath, parsed.args[parsed.args.length - 1], username)
+function rmdirCommand({ args, options, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username } = context
 
-        for (const src of sources) {
-          const source = resolvePath(currentPath, src, username)
+  if (args.length === 0) {
+    return { stdout: '', stderr: 'rmdir: missing operand', exitCode: 1 }
+  }
 
-          try {
-            if (!fs.exists(source)) {
-              return {
-                stdout: '',
-                stderr: `cp: cannot stat '${src}': No such file or directory`,
-                exitCode: 1,
-              }
-            }
+  const parents = options.flags.has('p')
 
-            const sourceStat = fs.stat(source)
-            
-            if (sourceStat.isDirectory() && !recursive) {
-              return {
-                stdout: '',
-                stderr: `cp: -r not specified; omitting directory '${src}'`,
-                exitCode: 1,
-              }
-            }
+  if (options.args.length === 0) {
+    return { stdout: '', stderr: 'rmdir: missing operand', exitCode: 1 }
+  }
 
-            // If destination is a directory, append the source filename
-            let targetPath = dest
-            if (fs.exists(dest)) {
-              const destStat = fs.stat(dest)
-              if (destStat.isDirectory()) {
-                const sourceFilename = basename(source)
-                targetPath = dest === '/' ? `/${sourceFilename}` : `${dest}/${sourceFilename}`
-              }
-            }
+  for (const target of options.args) {
+    const fullPath = resolvePath(currentPath, target, username)
 
-            if (sourceStat.isDirectory()) {
-              // Recursive copy - simplified version
-              const copyDir = (srcPath: string, dstPath: string) => {
-                if (!fs.exists(dstPath)) {
-                  fs.mkdir(dstPath)
-                }
-                
-                const entries = fs.readdir(srcPath)
-                for (const entry of entries) {
-                  const srcEntry = srcPath === '/' ? `/${entry}` : `${srcPath}/${entry}`
-                  const dstEntry = dstPath === '/' ? `/${entry}` : `${dstPath}/${entry}`
-                  
-                  const entryStat = fs.stat(srcEntry)
-                  if (entryStat.isDirectory()) {
-                    copyDir(srcEntry, dstEntry)
-                  } else {
-                    const content = fs.readFile(srcEntry) as Uint8Array
-                    fs.writeFile(dstEntry, content)
-                  }
-                }
-              }
-              
-              copyDir(source, targetPath)
-            } else {
-              const content = fs.readFile(source) as Uint8Array
-              fs.writeFile(targetPath, content)
-            }
-          } catch (e) {
-            return {
-              stdout: '',
-              stderr: `cp: ${e instanceof Error ? e.message : 'Error'}`,
-              exitCode: 1,
-            }
-          }
+    try {
+      if (!fs.exists(fullPath)) {
+        return {
+          stdout: '',
+          stderr: `rmdir: failed to remove '${target}': No such file or directory`,
+          exitCode: 1,
         }
-
-        return { stdout: '', stderr: '', exitCode: 0 }
       }
-
-      case 'mv': {
-        if (args.length < 2) {
-          return { stdout: '', stderr: 'mv: missing file operand', exitCode: 1 }
-        }
-
-        const parsed = parseArgs(args)
-        const force = parsed.flags.has('f')
-        
-        if (parsed.args.length < 2) {
-          return { stdout: '', stderr: 'mv: missing destination file operand', exitCode: 1 }
+      
+      const stat = fs.stat(fullPath)
+      if (!stat.isDirectory()) {
+        return {
+          stdout: '',
+          stderr: `rmdir: failed to remove '${target}': Not a directory`,
+          exitCode: 1,
         }
+      }
+      
+      fs.rmdir(fullPath)
+    } catch (e) {
+      return {
+        stdout: '',
+        stderr: `rmdir: failed to remove '${target}': ${e instanceof Error ? e.message : 'Error'}`,
+        exitCode: 1,
+      }
+    }
+  }
 
-        const sources = parsed.args.slice(0, -1)
-        let dest = resolvePath(currentPath, parsed.args[parsed.args.length - 1], username)
-
-        for (const src of sources) {
-          const source = resolvePath(currentPath, src, username)
-
-          try {
-            if (!fs.exists(source)) {
-              if (!force) {
-                return {
-                  stdout: '',
-                  stderr: `mv: cannot stat '${src}': No such file or directory`,
-                  exitCode: 1,
-                }
-              }
-              continue
-            }
-            
-            // If destination is a directory, append the source filename
-            let targetPath = dest
-            if (fs.exists(dest)) {
-              const destStat = fs.stat(dest)
-              if (destStat.isDirectory()) {
-                const sourceFilename = basename(source)
-                targetPath = dest === '/' ? `/${sourceFilename}` : `${dest}/${sourceFilename}`
-              }
-            }
+  return { stdout: '', stderr: '', exitCode: 0 }
+}
 
-            fs.rename(source, targetPath)
-          } catch (e) {
-            if (!force) {
-              return {
-                stdout: '',
-                stderr: `mv: ${e instanceof Error ? e.message : 'Error'}`,
-                exitCode: 1,
-              }
-            }
-          }
-        }
+function cpCommand({ args, options, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username } = context
 
-        return { stdout: '', stderr: '', exitCode: 0 }
+  if (args.length < 2) {
+    return { stdout: '', stderr: 'cp: missing file operand', exitCode: 1 }
+  }
+
+  const recursive = options.flags.has('r')
+
+  if (options.args.length < 2) {
+    return { stdout: '', stderr: 'cp: missing destination file operand', exitCode: 1 }
+  }
+
+  const sources = options.args.slice(0, -1)
+  let dest = resolvePath(currentPath, options.args[options.args.length - 1], username)
+  const errors: string[] = []
+
+  // Like GNU cp, a bad source is reported and the rest are still copied
+  for (const src of sources) {
+    const source = resolvePath(currentPath, src, username)
+
+    try {
+      if (!fs.exists(source)) {
+        errors.push(`cp: cannot stat '${src}': No such file or directory`)
+        continue
       }
 
-      case 'echo': {
-        return { stdout: args.join(' '), stderr: '', exitCode: 0 }
+      const sourceStat = fs.stat(source)
+      
+      if (sourceStat.isDirectory() && !recursive) {
+        errors.push(`cp: -r not specified; omitting directory '${src}'`)
+        continue
       }
 
-      case 'head': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'head: missing operand', exitCode: 1 }
+      // If destination is a directory, append the source filename
+      let targetPath = dest
+      if (fs.exists(dest)) {
+        const destStat = fs.stat(dest)
+        if (destStat.isDirectory()) {
+          const sourceFilename = basename(source)
+          targetPath = dest === '/' ? `/${sourceFilename}` : `${dest}/${sourceFilename}`
         }
+      }
 
-        const parsed = parseArgs(args, ['n'])
-        let numLines = 10 // Default to 10 lines
-        
-        // Check for -n flag
-        if (parsed.namedArgs.has('n')) {
-          const value = parsed.namedArgs.get('n')!
-          numLines = parseInt(value)
-          if (isNaN(numLines) || numLines < 0) {
-            return {
-              stdout: '',
-              stderr: 'head: invalid number of lines',
-              exitCode: 1,
-            }
+      if (sourceStat.isDirectory()) {
+        // Recursive copy - simplified version
+        const copyDir = (srcPath: string, dstPath: string) => {
+          if (!fs.exists(dstPath)) {
+            fs.mkdir(dstPath)
           }
-        }
-        
-        // Check for shorthand -10 format
-        for (const flag of parsed.flags) {
-          const num = parseInt(flag)
-          if (!isNaN(num) && num > 0) {
-            numLines = num
-            break
+          
+          const entries = fs.readdir(srcPath)
+          for (const entry of entries) {
+            const srcEntry = srcPath === '/' ? `/${entry}` : `${srcPath}/${entry}`
+            const dstEntry = dstPath === '/' ? `/${entry}` : `${dstPath}/${entry}`
+            
+            const entryStat = fs.stat(srcEntry)
+            if (entryStat.isDirectory()) {
+              copyDir(srcEntry, dstEntry)
+            } else {
+              const content = fs.readFile(srcEntry) as Uint8Array
+              fs.writeFile(dstEntry, content)
+            }
           }
         }
         
-        if (parsed.args.length === 0) {
-          return { stdout: '', stderr: 'head: missing file operand', exitCode: 1 }
-        }
+        copyDir(source, targetPath)
+      } else {
+        const content = fs.readFile(source) as Uint8Array
+        fs.writeFile(targetPath, content)
+      }
+    } catch (e) {
+      errors.push(`cp: ${e instanceof Error ? e.message : 'Error'}`)
+    }
+  }
 
-        const filePath = parsed.args[0]
-        const fullPath = resolvePath(currentPath, filePath, username)
+  return { stdout: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 }
+}
 
-        if (!fs.exists(fullPath)) {
-          return {
-            stdout: '',
-            stderr: `head: cannot open '${filePath}' for reading: No such file or directory`,
-            exitCode: 1,
-          }
-        }
+function mvCommand({ args, options, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username } = context
 
-        const stat = fs.stat(fullPath)
+  if (args.length < 2) {
+    return { stdout: '', stderr: 'mv: missing file operand', exitCode: 1 }
+  }
 
-        // Check permissions
-        if (stat.owner === 'root' && !isSudo) {
-          return {
-            stdout: '',
-            stderr: `head: cannot open '${filePath}' for reading: Permission denied`,
-            exitCode: 1,
-          }
-        }
+  const force = options.flags.has('f')
 
-        if (stat.isDirectory()) {
-          return {
-            stdout: '',
-            stderr: `head: error reading '${filePath}': Is a directory`,
-            exitCode: 1,
-          }
-        }
+  if (options.args.length < 2) {
+    return { stdout: '', stderr: 'mv: missing destination file operand', exitCode: 1 }
+  }
 
-        try {
-          const content = fs.readFile(fullPath, { encoding: 'utf8' }) as string
-          const lines = content.split('\n')
-          const output = lines.slice(0, numLines).join('\n')
-          return { stdout: output, stderr: '', exitCode: 0 }
-        } catch (e) {
+  const sources = options.args.slice(0, -1)
+  let dest = resolvePath(currentPath, options.args[options.args.length - 1], username)
+
+  for (const src of sources) {
+    const source = resolvePath(currentPath, src, username)
+
+    try {
+      if (!fs.exists(source)) {
+        if (!force) {
           return {
             stdout: '',
-            stderr: `head: ${e instanceof Error ? e.message : 'Error'}`,
+            stderr: `mv: cannot stat '${src}': No such file or directory`,
             exitCode: 1,
           }
         }
+        continue
       }
-
-      case 'tail': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'tail: missing operand', exitCode: 1 }
+      
+      // If destination is a directory, append the source filename
+      let targetPath = dest
+      if (fs.exists(dest)) {
+        const destStat = fs.stat(dest)
+        if (destStat.isDirectory()) {
+          const sourceFilename = basename(source)
+          targetPath = dest === '/' ? `/${sourceFilename}` : `${dest}/${sourceFilename}`
         }
+      }
 
-        const parsed = parseArgs(args, ['n'])
-        let numLines = 10 // Default to 10 lines
-        
-        // Check for -n flag
-        if (parsed.namedArgs.has('n')) {
-          const value = parsed.namedArgs.get('n')!
-          numLines = parseInt(value)
-          if (isNaN(numLines) || numLines < 0) {
-            return {
-              stdout: '',
-              stderr: 'tail: invalid number of lines',
-              exitCode: 1,
-            }
-          }
-        }
-        
-        // Check for shorthand -20 format
-        for (const flag of parsed.flags) {
-          const num = parseInt(flag)
-          if (!isNaN(num) && num > 0) {
-            numLines = num
-            break
-          }
-        }
-        
-        if (parsed.args.length === 0) {
-          return { stdout: '', stderr: 'tail: missing file operand', exitCode: 1 }
+      fs.rename(source, targetPath)
+    } catch (e) {
+      if (!force) {
+        return {
+          stdout: '',
+          stderr: `mv: ${e instanceof Error ? e.message : 'Error'}`,
+          exitCode: 1,
         }
+      }
+    }
+  }
 
-        const filePath = parsed.args[0]
-        const fullPath = resolvePath(currentPath, filePath, username)
+  return { stdout: '', stderr: '', exitCode: 0 }
+}
 
-        if (!fs.exists(fullPath)) {
-          return {
-            stdout: '',
-            stderr: `tail: cannot open '${filePath}' for reading: No such file or directory`,
-            exitCode: 1,
-          }
-        }
+function echoCommand({ args }: CommandInvocation): CommandResult {
+  return { stdout: args.join(' '), stderr: '', exitCode: 0 }
+}
 
-        const stat = fs.stat(fullPath)
+/**
+ * Line count for head/tail -n: digits with an optional sign
+ */
+function isLineCount(value: string): boolean {
+  return /^[+-]?\d+$/.test(value)
+}
 
-        // Check permissions
-        if (stat.owner === 'root' && !isSudo) {
-          return {
-            stdout: '',
-            stderr: `tail: cannot open '${filePath}' for reading: Permission denied`,
-            exitCode: 1,
-          }
-        }
+/**
+ * Split text into lines; a final newline ends the last line rather than
+ * starting an empty one
+ */
+function splitLines(text: string): string[] {
+  return (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n')
+}
 
-        if (stat.isDirectory()) {
-          return {
-            stdout: '',
-            stderr: `tail: error reading '${filePath}': Is a directory`,
-            exitCode: 1,
-          }
-        }
+function headCommand({ args, options, context, fs, stdin }: CommandInvocation): CommandResult {
+  const { currentPath, username, isSudo } = context
 
-        try {
-          const content = fs.readFile(fullPath, { encoding: 'utf8' }) as string
-          const lines = content.split('\n')
-          const startIndex = Math.max(0, lines.length - numLines)
-          const output = lines.slice(startIndex).join('\n')
-          return { stdout: output, stderr: '', exitCode: 0 }
-        } catch (e) {
-          return {
-            stdout: '',
-            stderr: `tail: ${e instanceof Error ? e.message : 'Error'}`,
-            exitCode: 1,
-          }
-        }
+  if (args.length === 0 && stdin === undefined) {
+    return { stdout: '', stderr: 'head: missing operand', exitCode: 1 }
+  }
+
+  let numLines = 10 // Default to 10 lines
+  let allButLast = false
+
+  // -n NUM (or -NUM); -n -NUM prints all but the last NUM lines
+  if (options.namedArgs.has('n')) {
+    const value = options.namedArgs.get('n')!
+    if (!isLineCount(value)) {
+      return {
+        stdout: '',
+        stderr: `head: invalid number of lines: '${value}'`,
+        exitCode: 1,
       }
+    }
+    numLines = Math.abs(parseInt(value, 10))
+    allButLast = value.startsWith('-')
+  }
 
-      case 'find': {
-        if (args.length === 0) {
-          return { stdout: '', stderr: 'find: missing operand', exitCode: 1 }
-        }
+  const selectLines = (lines: string[]) =>
+    lines.slice(0, allButLast ? Math.max(0, lines.length - numLines) : numLines)
 
-        const parsed = parseArgs(args, ['name', 'type', 'maxdepth', 'mindepth', 'mtime'])
-        let searchPath = currentPath
-        let namePattern: string | null = null
-        let typeFilter: string | null = null
-        let maxDepth: number | null = null
-        let minDepth: number | null = null
+  if (options.args.length === 0) {
+    if (stdin === undefined) {
+      return { stdout: '', stderr: 'head: missing file operand', exitCode: 1 }
+    }
+    return { stdout: selectLines(splitLines(stdin)).join('\n'), stderr: '', exitCode: 0 }
+  }
 
-        // Get named arguments
-        if (parsed.namedArgs.has('name')) {
-          namePattern = parsed.namedArgs.get('name')!
-        }
-        if (parsed.namedArgs.has('type')) {
-          typeFilter = parsed.namedArgs.get('type')!
-        }
-        if (parsed.namedArgs.has('maxdepth')) {
-          maxDepth = parseInt(parsed.namedArgs.get('maxdepth')!)
-        }
-        if (parsed.namedArgs.has('mindepth')) {
-          minDepth = parseInt(parsed.namedArgs.get('mindepth')!)
-        }
-        
-        // First non-flag argument is the search path
-        if (parsed.args.length > 0) {
-          searchPath = resolvePath(currentPath, parsed.args[0], username)
-        }
+  const filePath = options.args[0]
+  const fullPath = resolvePath(currentPath, filePath, username)
 
-        // Check if path exists
-        if (!fs.exists(searchPath)) {
-          return {
-            stdout: '',
-            stderr: `find: '${searchPath}': No such file or directory`,
-            exitCode: 1,
-          }
-        }
+  if (!fs.exists(fullPath)) {
+    return {
+      stdout: '',
+      stderr: `head: cannot open '${filePath}' for reading: No such file or directory`,
+      exitCode: 1,
+    }
+  }
 
-        // Check permissions
-        const pathStat = fs.stat(searchPath)
-        if (pathStat.owner === 'root' && !isSudo) {
-          return {
-            stdout: '',
-            stderr: `find: '${searchPath}': Permission denied`,
-            exitCode: 1,
-          }
-        }
+  const stat = fs.stat(fullPath)
 
-        const results: string[] = []
-
-        // Recursive search function
-        const search = (path: string, depth: number = 0) => {
-          try {
-            const stat = fs.stat(path)
-
-            // Check depth constraints
-            if (maxDepth !== null && depth > maxDepth) return
-            if (minDepth !== null && depth < minDepth) {
-              // Don't add to results yet, but continue searching
-              if (stat.isDirectory()) {
-                const entries = fs.readdir(path)
-                for (const entry of entries) {
-                  const fullPath = path === '/' ? `/${entry}` : `${path}/${entry}`
-                  search(fullPath, depth + 1)
-                }
-              }
-              return
-            }
+  // Check permissions
+  if (stat.owner === 'root' && !isSudo) {
+    return {
+      stdout: '',
+      stderr: `head: cannot open '${filePath}' for reading: Permission denied`,
+      exitCode: 1,
+    }
+  }
 
-            // Check type filter
-            if (typeFilter) {
-              if (typeFilter === 'f' && !stat.isDirectory()) {
-                // File
-              } else if (typeFilter === 'd' && stat.isDirectory()) {
-                // Directory
-              } else {
-                // Type doesn't match, but continue searching if directory
-                if (stat.isDirectory()) {
-                  const entries = fs.readdir(path)
-                  for (const entry of entries) {
-                    const fullPath = path === '/' ? `/${entry}` : `${path}/${entry}`
-                    search(fullPath, depth + 1)
-                  }
-                }
-                return
-              }
-            }
+  if (stat.isDirectory()) {
+    return {
+      stdout: '',
+      stderr: `head: error reading '${filePath}': Is a directory`,
+      exitCode: 1,
+    }
+  }
 
-            // Check name pattern
-            if (namePattern) {
-              const fileName = basename(path)
-              const pattern = namePattern
-                .replace(/\./g, '\\.')
-                .replace(/\*/g, '.*')
-                .replace(/\?/g, '.')
-              const regex = new RegExp(`^${pattern}$`)
-              
-              if (regex.test(fileName)) {
-                results.push(path)
-              }
-            } else {
-              // No name filter, add all matching items
-              results.push(path)
-            }
+  try {
+    const content = fs.readFile(fullPath, { encoding: 'utf8' }) as string
+    const output = selectLines(splitLines(content)).join('\n')
+    return { stdout: output, stderr: '', exitCode: 0 }
+  } catch (e) {
+    return {
+      stdout: '',
+      stderr: `head: ${e instanceof Error ? e.message : 'Error'}`,
+      exitCode: 1,
+    }
+  }
+}
 
-            // Recurse into directories
-            if (stat.isDirectory()) {
-              try {
-                const entries = fs.readdir(path)
-                for (const entry of entries) {
-                  const fullPath = path === '/' ? `/${entry}` : `${path}/${entry}`
-                  try {
-                    search(fullPath, depth + 1)
-                  } catch (e) {
-                    // Permission denied or other error, skip this entry
-                  }
-                }
-              } catch (e) {
-                // Can't read directory, skip
-              }
-            }
-          } catch (e) {
-            // Permission denied or other error, skip this path
-          }
-        }
+function tailCommand({ args, options, context, fs, stdin }: CommandInvocation): CommandResult {
+  const { currentPath, username, isSudo } = context
 
-        search(searchPath)
+  if (args.length === 0 && stdin === undefined) {
+    return { stdout: '', stderr: 'tail: missing operand', exitCode: 1 }
+  }
 
-        return { 
-          stdout: results.join('\n'), 
-          stderr: '', 
-          exitCode: results.length > 0 ? 0 : 1 
-        }
+  let numLines = 10 // Default to 10 lines
+  let fromLine = false
+
+  // -n NUM (or -NUM); -n +NUM starts output at line NUM
+  if (options.namedArgs.has('n')) {
+    const value = options.namedArgs.get('n')!
+    if (!isLineCount(value)) {
+      return {
+        stdout: '',
+        stderr: `tail: invalid number of lines: '${value}'`,
+        exitCode: 1,
       }
+    }
+    numLines = Math.abs(parseInt(value, 10))
+    fromLine = value.startsWith('+')
+  }
 
-      case 'clear':
-        return { stdout: '\x1b[2J\x1b[H', stderr: '', exitCode: 0 }
+  const selectLines = (lines: string[]) =>
+    lines.slice(fromLine ? Math.max(0, numLines - 1) : Math.max(0, lines.length - numLines))
 
-      case 'konami':
-        // Secret command to skip mission/task - outputs special marker for mission layer
-        return { 
-          stdout: '🎮 CHEAT_CODE_ACTIVATED:SKIP_MISSION 🎮', 
-          stderr: '', 
-          exitCode: 0 
-        }
+  if (options.args.length === 0) {
+    if (stdin === undefined) {
+      return { stdout: '', stderr: 'tail: missing file operand', exitCode: 1 }
+    }
+    return { stdout: selectLines(splitLines(stdin)).join('\n'), stderr: '', exitCode: 0 }
+  }
 
-      default:
-        return {
-          stdout: '',
-          stderr: `bash: ${cmd}: command not found`,
-          exitCode: 127,
-        }
+  const filePath = options.args[0]
+  const fullPath = resolvePath(currentPath, filePath, username)
+
+  if (!fs.exists(fullPath)) {
+    return {
+      stdout: '',
+      stderr: `tail: cannot open '${filePath}' for reading: No such file or directory`,
+      exitCode: 1,
     }
-  } catch (error) {
+  }
+
+  const stat = fs.stat(fullPath)
+
+  // Check permissions
+  if (stat.owner === 'root' && !isSudo) {
     return {
       stdout: '',
-      stderr: error instanceof Error ? error.message : String(error),
+      stderr: `tail: cannot open '${filePath}' for reading: Permission denied`,
+      exitCode: 1,
+    }
+  }
+
+  if (stat.isDirectory()) {
+    return {
+      stdout: '',
+      stderr: `tail: error reading '${filePath}': Is a directory`,
       exitCode: 1,
     }
   }
+
+  try {
+    const content = fs.readFile(fullPath, { encoding: 'utf8' }) as string
+    const output = selectLines(splitLines(content)).join('\n')
+    return { stdout: output, stderr: '', exitCode: 0 }
+  } catch (e) {
+    return {
+      stdout: '',
+      stderr: `tail: ${e instanceof Error ? e.message : 'Error'}`,
+      exitCode: 1,
+    }
+  }
+}
+
+function findCommand({ args, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username, isSudo } = context
+
+  // find [path...] [expression]: paths come before the first expression word
+  const first = args.findIndex(arg => (arg.startsWith('-') && arg !== '-') || arg === '!' || arg === '(')
+  const paths = first === -1 ? args : args.slice(0, first)
+  const { program, error } = parseFindExpression(first === -1 ? [] : args.slice(first))
+  if (!program) {
+    return { stdout: '', stderr: `find: ${error}`, exitCode: 1 }
+  }
+
+  const output: string[] = []
+  const errors: string[] = []
+
+  const actions: FindActions = {
+    print: file => output.push(file.display),
+    exec: argv => {
+      const result = runCommand(argv, context, fs)
+      if (result.exitCode === 127) {
+        errors.push(`find: '${argv[0]}': No such file or directory`)
+        return false
+      }
+      if (result.stdout) output.push(result.stdout)
+      if (result.stderr) errors.push(result.stderr)
+      return result.exitCode === 0
+    },
+    delete: file => {
+      // Starting points of . are left alone, as GNU find does
+      if (file.display === '.') return true
+      if (file.stat.owner === 'root' && !isSudo) {
+        errors.push(`find: cannot delete '${file.display}': Permission denied`)
+        return false
+      }
+      try {
+        if (file.stat.isDirectory()) fs.rmdir(file.path)
+        else fs.unlink(file.path)
+        return true
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e)
+        const reason = message.startsWith('ENOTEMPTY') ? 'Directory not empty'
+          : message.startsWith('EROFS') ? 'Read-only file system'
+          : message
+        errors.push(`find: cannot delete '${file.display}': ${reason}`)
+        return false
+      }
+    },
+  }
+
+  const visit = (display: string, path: string, depth: number) => {
+    const file = { display, path, depth, stat: fs.stat(path) }
+    const matches = depth >= program.minDepth
+
+    if (matches && !program.depthFirst) evaluateFind(program.expression, file, actions)
+    if (file.stat.isDirectory() && depth < program.maxDepth) {
+      // Root-owned directories can't be read without sudo
+      if (file.stat.owner === 'root' && !isSudo) {
+        errors.push(`find: '${display}': Permission denied`)
+      } else {
+        for (const entry of fs.readdir(path)) {
+          visit(display.endsWith('/') ? display + entry : `${display}/${entry}`, path === '/' ? `/${entry}` : `${path}/${entry}`, depth + 1)
+        }
+      }
+    }
+    if (matches && program.depthFirst) evaluateFind(program.expression, file, actions)
+  }
+
+  for (const start of paths.length > 0 ? paths : ['.']) {
+    const path = resolvePath(currentPath, start, username)
+    if (!fs.exists(path)) {
+      errors.push(`find: '${start}': No such file or directory`)
+      continue
+    }
+    visit(start, path, 0)
+  }
+  runFindBatches(program, actions)
+
+  return {
+    stdout: output.join('\n'),
+    stderr: errors.join('\n'),
+    exitCode: errors.length > 0 ? 1 : 0,
+  }
+}
+
+function dateCommand({ args }: CommandInvocation): CommandResult {
+  const format = args.find(arg => arg.startsWith('+'))
+  return { stdout: formatDate(new Date(), format?.substring(1)), stderr: '', exitCode: 0 }
+}
+
+function dirnameCommand({ args }: CommandInvocation): CommandResult {
+  if (args.length === 0) {
+    return { stdout: '', stderr: 'dirname: missing operand', exitCode: 1 }
+  }
+  return { stdout: args.map(dirname).join('\n'), stderr: '', exitCode: 0 }
+}
+
+function basenameCommand({ args }: CommandInvocation): CommandResult {
+  if (args.length === 0) {
+    return { stdout: '', stderr: 'basename: missing operand', exitCode: 1 }
+  }
+  // basename NAME [SUFFIX]
+  const [name, suffix] = args
+  let base = basename(name)
+  if (suffix && base !== suffix && base.endsWith(suffix)) {
+    base = base.slice(0, -suffix.length)
+  }
+  return { stdout: base, stderr: '', exitCode: 0 }
+}
+
+function chmodCommand({ args, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username, isSudo } = context
+
+  if (args.length < 2) {
+    return { stdout: '', stderr: 'chmod: missing operand', exitCode: 1 }
+  }
+
+  const [mode, ...files] = args
+  const errors: string[] = []
+
+  for (const file of files) {
+    const fullPath = resolvePath(currentPath, file, username)
+    if (!fs.exists(fullPath)) {
+      errors.push(`chmod: cannot access '${file}': No such file or directory`)
+      continue
+    }
+
+    const stat = fs.stat(fullPath)
+    if (stat.owner === 'root' && !isSudo) {
+      errors.push(`chmod: changing permissions of '${file}': Operation not permitted`)
+      continue
+    }
+
+    const newMode = parseMode(mode, stat.mode & 0o777)
+    if (newMode === null) {
+      return { stdout: '', stderr: `chmod: invalid mode: '${mode}'`, exitCode: 1 }
+    }
+    fs.chmod(fullPath, newMode)
+  }
+
+  return { stdout: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 }
+}
+
+function testCommand({ name, args, context, fs }: CommandInvocation): CommandResult {
+  const result = evaluateTest(name, args, fs, context)
+  return { stdout: '', stderr: result.stderr, exitCode: result.exitCode }
+}
+
+function trueCommand(): CommandResult {
+  return { stdout: '', stderr: '', exitCode: 0 }
+}
+
+function falseCommand(): CommandResult {
+  return { stdout: '', stderr: '', exitCode: 1 }
+}
+
+function shCommand({ name, args, context, fs, stdin }: CommandInvocation): CommandResult {
+  // sh -c 'command' [name [args...]]
+  if (args[0] === '-c') {
+    if (args.length < 2) {
+      return { stdout: '', stderr: `${name}: -c: option requires an argument`, exitCode: 2 }
+    }
+    const [, script, scriptName, ...scriptArgs] = args
+    const childContext = { ...context, env: context.env?.clone() }
+    const result = createInterpreter(childContext, fs, scriptName ?? name, scriptArgs).run(script, stdin)
+    return { ...result, newPath: undefined }
+  }
+
+  const [script, ...scriptArgs] = args.filter(arg => !/^-[ex]+$/.test(arg))
+  if (!script) {
+    // Commands piped in: echo 'ls' | sh
+    if (stdin === undefined) return { stdout: '', stderr: '', exitCode: 0 }
+    const result = createInterpreter({ ...context, env: context.env?.clone() }, fs, name).run(stdin)
+    return { ...result, newPath: undefined }
+  }
+  return runScript(script, scriptArgs, context, fs, stdin, false)
+}
+
+function sourceCommand({ name, args, context, fs, stdin }: CommandInvocation): CommandResult {
+  if (args.length === 0) {
+    return { stdout: '', stderr: `bash: ${name}: filename argument required`, exitCode: 2 }
+  }
+  return runScript(args[0], args.slice(1), context, fs, stdin, true)
+}
+
+/**
+ * tail -f FILE: print the last lines, then whatever is appended until killed
+ */
+function tailFollowProcess(invocation: CommandInvocation): JobProcess | undefined {
+  const { options, context, fs } = invocation
+  if (!options.flags.has('f') || options.args.length !== 1) return undefined
+
+  const initial = tailCommand(invocation)
+  if (initial.exitCode !== 0) return undefined
+
+  const name = options.args[0]
+  const fullPath = resolvePath(context.currentPath, name, context.username)
+  const read = () => (fs.exists(fullPath) ? (fs.readFile(fullPath, { encoding: 'utf8' }) as string) : '')
+  let seen = read()
+
+  return {
+    interval: 1000,
+    start: () => initial.stdout,
+    tick: () => {
+      const content = read()
+      if (content.length < seen.length) {
+        seen = content
+        return { output: `tail: ${name}: file truncated\n${content}` }
+      }
+      const appended = content.slice(seen.length).replace(/^\n/, '').replace(/\n$/, '')
+      seen = content
+      return { output: appended }
+    },
+  }
+}
+
+// Seconds per sleep suffix
+const SLEEP_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 }
+
+/**
+ * Total of sleep's NUMBER[SUFFIX] operands in seconds, or a usage error
+ */
+function sleepSeconds(args: string[]): number | string {
+  if (args.length === 0) {
+    return "sleep: missing operand\nTry 'sleep --help' for more information."
+  }
+
+  let total = 0
+  for (const arg of args) {
+    const match = arg.match(/^(\d+(?:\.\d*)?|\.\d+)([smhd]?)$/)
+    if (!match) {
+      return `sleep: invalid time interval '${arg}'\nTry 'sleep --help' for more information.`
+    }
+    total += parseFloat(match[1]) * SLEEP_UNITS[match[2] || 's']
+  }
+  return total
+}
+
+function sleepCommand({ options }: CommandInvocation): CommandResult {
+  // Scripts and lists don't wait; at the prompt sleep runs as a job
+  const seconds = sleepSeconds(options.args)
+  if (typeof seconds === 'string') {
+    return { stdout: '', stderr: seconds, exitCode: 1 }
+  }
+  return { stdout: '', stderr: '', exitCode: 0 }
+}
+
+function sleepProcess({ options }: CommandInvocation): JobProcess | undefined {
+  const seconds = sleepSeconds(options.args)
+  if (typeof seconds === 'string') return undefined
+
+  const interval = 100
+  let remaining = seconds * 1000
+  return {
+    interval,
+    tick: () => {
+      remaining -= interval
+      return remaining <= 0 ? { exitCode: 0 } : {}
+    },
+  }
+}
+
+function jobsCommand({ options }: CommandInvocation): CommandResult {
+  const errors: string[] = []
+  const jobs = options.args.length === 0
+    ? jobTable.getJobs()
+    : options.args.flatMap(spec => {
+        const job = jobTable.resolve(spec)
+        if (!job) errors.push(`bash: jobs: ${spec}: no such job`)
+        return job ? [job] : []
+      })
+
+  const stdout = options.flags.has('p')
+    ? jobs.map(job => String(job.pid)).join('\n')
+    : jobs.map(job => jobTable.format(job, undefined, options.flags.has('l'))).join('\n')
+  return { stdout, stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 }
+}
+
+function fgCommand({ args }: CommandInvocation): CommandResult {
+  const job = jobTable.resolve(args[0])
+  if (!job) {
+    return { stdout: '', stderr: `bash: fg: ${args[0] ?? 'current'}: no such job`, exitCode: 1 }
+  }
+  // The job now holds the prompt until it ends or is stopped
+  jobTable.resume(job.id, false)
+  return { stdout: job.command, stderr: '', exitCode: 0 }
+}
+
+function bgCommand({ args }: CommandInvocation): CommandResult {
+  const job = jobTable.resolve(args[0])
+  if (!job) {
+    return { stdout: '', stderr: `bash: bg: ${args[0] ?? 'current'}: no such job`, exitCode: 1 }
+  }
+  if (job.state === 'running') {
+    return { stdout: '', stderr: `bash: bg: job ${job.id} already in background`, exitCode: 0 }
+  }
+  jobTable.resume(job.id, true)
+  const marker = jobTable.resolve()?.id === job.id ? '+' : '-'
+  return { stdout: `[${job.id}]${marker} ${job.command} &`, stderr: '', exitCode: 0 }
+}
+
+const KILL_USAGE = 'kill: usage: kill [-s sigspec | -n signum | -sigspec] pid | jobspec ... or kill -l [sigspec]'
+
+function killCommand({ args, context }: CommandInvocation): CommandResult {
+  // kill -l [sigspec]: list signals, or translate one between name and number
+  if (args[0] === '-l' || args[0] === '-L') {
+    if (args.length === 1) {
+      return { stdout: SIGNALS.map(signal => `${signal.number}) SIG${signal.name}`).join('\n'), stderr: '', exitCode: 0 }
+    }
+    const signal = findSignal(args[1])
+    if (!signal) {
+      return { stdout: '', stderr: `bash: kill: ${args[1]}: invalid signal specification`, exitCode: 1 }
+    }
+    return { stdout: /^\d+$/.test(args[1]) ? signal.name : String(signal.number), stderr: '', exitCode: 0 }
+  }
+
+  let signalSpec = 'TERM'
+  let targets = args
+  if (args[0] === '-s' || args[0] === '-n') {
+    signalSpec = args[1] ?? ''
+    targets = args.slice(2)
+  } else if (args[0]?.startsWith('-') && args[0] !== '--') {
+    signalSpec = args[0].slice(1)
+    targets = args.slice(1)
+  } else if (args[0] === '--') {
+    targets = args.slice(1)
+  }
+
+  const signal = findSignal(signalSpec)
+  if (!signal) {
+    return { stdout: '', stderr: `bash: kill: ${signalSpec}: invalid signal specification`, exitCode: 1 }
+  }
+  if (targets.length === 0) {
+    return { stdout: '', stderr: KILL_USAGE, exitCode: 2 }
+  }
+
+  const errors: string[] = []
+  for (const target of targets) {
+    let job = null
+    if (target.startsWith('%')) {
+      job = jobTable.resolve(target)
+      if (!job) errors.push(`bash: kill: ${target}: no such job`)
+    } else if (/^\d+$/.test(target)) {
+      // Jobs and daemons alike are in the process table
+      const error = processTable.signal(parseInt(target, 10), signal, context.username, context.isSudo)
+      if (error) errors.push(`bash: kill: (${target}) - ${error}`)
+    } else {
+      errors.push(`bash: kill: ${target}: arguments must be process or job IDs`)
+    }
+    if (job) jobTable.kill(job.id, signal)
+  }
+
+  return { stdout: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 }
+}
+
+// CPU seconds a process has used, from its %CPU
+function cpuSeconds(process: Process): number {
+  return Math.floor(process.cpu * 60)
+}
+
+// ps START/STIME: the time today, otherwise the date (Oct16)
+function startTime(process: Process): string {
+  const started = process.started
+  if (Date.now() - started.getTime() < 86400000) {
+    return `${String(started.getHours()).padStart(2, '0')}:${String(started.getMinutes()).padStart(2, '0')}`
+  }
+  return `${MONTH_NAMES[started.getMonth()]}${String(started.getDate()).padStart(2, '0')}`
+}
+
+// [[hh:]mm:ss, as ps -f shows TIME
+function clockTime(seconds: number): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`
+}
+
+/**
+ * ps [-ef] [-u user] | ps aux: the default shows the shell's own processes
+ */
+function psCommand({ options, context }: CommandInvocation): CommandResult {
+  // BSD-style letters without a dash: a (every terminal), u (user format), x (no terminal too)
+  const bsd = options.args.join('')
+  if (bsd && !/^[aux]+$/.test(bsd)) {
+    return { stdout: '', stderr: `error: unsupported option (BSD syntax)\n\nUsage:\n ps [options]`, exitCode: 1 }
+  }
+  const user = options.namedArgs.get('u')
+  const everyone = options.flags.has('e') || (bsd.includes('a') && bsd.includes('x'))
+
+  const processes = processTable.list().filter(process => {
+    if (user) return process.user === user
+    if (everyone) return true
+    if (bsd.includes('a')) return process.tty !== '?'
+    if (bsd.includes('x')) return process.user === context.username
+    return process.tty !== '?' && process.user === context.username
+  })
+
+  let lines: string[]
+  if (bsd.includes('u')) {
+    const row = (cells: string[]) =>
+      `${cells[0].padEnd(8)} ${cells[1].padStart(7)} ${cells[2].padStart(4)} ${cells[3].padStart(4)} ` +
+      `${cells[4].padStart(6)} ${cells[5].padStart(5)} ${cells[6].padEnd(8)} ${cells[7].padEnd(4)} ` +
+      `${cells[8].padEnd(5)} ${cells[9].padStart(6)} ${cells[10]}`
+    lines = [
+      row(['USER', 'PID', '%CPU', '%MEM', 'VSZ', 'RSS', 'TTY', 'STAT', 'START', 'TIME', 'COMMAND']),
+      ...processes.map(process => {
+        const { rss, vsz } = processMemory(process)
+        const seconds = cpuSeconds(process)
+        return row([
+          process.user, String(process.pid), process.cpu.toFixed(1), process.mem.toFixed(1), String(vsz), String(rss),
+          process.tty, process.state, startTime(process), `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`,
+          process.command,
+        ])
+      }),
+    ]
+  } else if (options.flags.has('f')) {
+    const row = (cells: string[]) =>
+      `${cells[0].padEnd(8)} ${cells[1].padStart(7)} ${cells[2].padStart(7)} ${cells[3].padStart(2)} ` +
+      `${cells[4].padEnd(5)} ${cells[5].padEnd(8)} ${cells[6].padStart(8)} ${cells[7]}`
+    lines = [
+      row(['UID', 'PID', 'PPID', 'C', 'STIME', 'TTY', 'TIME', 'CMD']),
+      ...processes.map(process => row([
+        process.user, String(process.pid), String(process.ppid), String(Math.floor(process.cpu)),
+        startTime(process), process.tty, clockTime(cpuSeconds(process)), process.command,
+      ])),
+    ]
+  } else {
+    const row = (cells: string[]) => `${cells[0].padStart(7)} ${cells[1].padEnd(8)} ${cells[2].padStart(8)} ${cells[3]}`
+    lines = [
+      row(['PID', 'TTY', 'TIME', 'CMD']),
+      ...processes.map(process => row([String(process.pid), process.tty, clockTime(cpuSeconds(process)), processName(process)])),
+    ]
+  }
+
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 }
+}
+
+// Cursor home and clear screen, before each frame of top
+const TOP_CLEAR = '\x1b[H\x1b[2J'
+
+/**
+ * One screen of top. %CPU wanders from frame to frame around each
+ * process's usual load.
+ */
+function topFrame(frame: number, now = new Date()): string {
+  const processes = processTable.list().map(process => {
+    const wobble = ((process.pid * 7919 + frame * 104729) % 1000) / 1000
+    return { ...process, cpu: Math.round(process.cpu * (0.5 + wobble) * 10) / 10 }
+  })
+  processes.sort((a, b) => b.cpu - a.cpu || a.pid - b.pid)
+
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const uptime = Math.floor((now.getTime() - processTable.getBootTime().getTime()) / 60000)
+  const days = Math.floor(uptime / 1440)
+  const load = processes.reduce((total, process) => total + process.cpu, 0) / 100
+  const count = (state: string) => processes.filter(process => process.state === state).length
+  const used = processes.reduce((total, process) => total + processMemory(process).rss, 0) / 1024 + 1200
+  const total = MEMORY_KB / 1024
+  const user = Math.min(load * 25, 100)
+
+  const row = (cells: string[]) =>
+    `${cells[0].padStart(7)} ${cells[1].padEnd(9)} ${cells[2].padStart(2)} ${cells[3].padStart(3)} ` +
+    `${cells[4].padStart(7)} ${cells[5].padStart(6)} ${cells[6]} ${cells[7].padStart(5)} ${cells[8].padStart(5)} ` +
+    `${cells[9].padStart(9)} ${cells[10]}`
+
+  return [
+    `top - ${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())} up ${days} days, ` +
+      `${String(Math.floor(uptime / 60) % 24).padStart(2)}:${pad(uptime % 60)},  1 user,  ` +
+      `load average: ${load.toFixed(2)}, ${(load * 0.9).toFixed(2)}, ${(load * 0.8).toFixed(2)}`,
+    `Tasks: ${String(processes.length).padStart(3)} total, ${String(count('R')).padStart(3)} running, ` +
+      `${String(count('S')).padStart(3)} sleeping, ${String(count('T')).padStart(3)} stopped,   0 zombie`,
+    `%Cpu(s): ${user.toFixed(1).padStart(4)} us, ${(user / 5).toFixed(1).padStart(4)} sy,  0.0 ni, ` +
+      `${(100 - user * 1.2).toFixed(1).padStart(4)} id,  0.0 wa,  0.0 hi,  0.0 si,  0.0 st`,
+    `MiB Mem : ${total.toFixed(1).padStart(8)} total, ${(total - used - 1207.5).toFixed(1).padStart(8)} free, ` +
+      `${used.toFixed(1).padStart(8)} used,   1207.5 buff/cache`,
+    '',
+    `\x1b[7m${row(['PID', 'USER', 'PR', 'NI', 'VIRT', 'RES', 'S', '%CPU', '%MEM', 'TIME+', 'COMMAND'])}\x1b[0m`,
+    ...processes.map(process => {
+      const { rss, vsz } = processMemory(process)
+      const seconds = cpuSeconds(process)
+      return row([
+        String(process.pid), process.user.slice(0, 9), '20', '0', String(vsz), String(rss), process.state,
+        process.cpu.toFixed(1), process.mem.toFixed(1), `${Math.floor(seconds / 60)}:${pad(seconds % 60)}.00`,
+        processName(process),
+      ])
+    }),
+  ].join('\n')
+}
+
+// top -n: how many frames to show, if limited
+function topIterations(options: ParsedArgs): number | string | undefined {
+  const value = options.namedArgs.get('n')
+  if (value === undefined) return undefined
+  return /^\d+$/.test(value) && parseInt(value, 10) > 0 ? parseInt(value, 10) : `top: bad iterations argument '${value}'`
+}
+
+function topCommand({ options }: CommandInvocation): CommandResult {
+  // Outside a job (scripts, pipes, -b) top prints its frames one after another
+  const iterations = topIterations(options)
+  if (typeof iterations === 'string') {
+    return { stdout: '', stderr: iterations, exitCode: 1 }
+  }
+  const frames = Array.from({ length: iterations ?? 1 }, (_, frame) => topFrame(frame))
+  return { stdout: frames.join('\n\n'), stderr: '', exitCode: 0 }
+}
+
+function topProcess({ options }: CommandInvocation): JobProcess | undefined {
+  const iterations = topIterations(options)
+  const delay = parseFloat(options.namedArgs.get('d') ?? '1')
+  if (options.flags.has('b') || typeof iterations === 'string' || !(delay > 0)) return undefined
+
+  let frame = 0
+  return {
+    interval: delay * 1000,
+    start: () => TOP_CLEAR + topFrame(frame),
+    tick: () => {
+      frame++
+      if (iterations !== undefined && frame >= iterations) return { exitCode: 0 }
+      return { output: TOP_CLEAR + topFrame(frame) }
+    },
+    input: key => (key === 'q' ? { exitCode: 0 } : {}),
+  }
+}
+
+const PGREP_OPTIONS: OptionSpec[] = [
+  { flags: ['-f', '--full'], description: 'match against the full command line' },
+  { flags: ['-l', '--list-name'], description: 'list the process name as well as the ID' },
+  { flags: ['-a', '--list-full'], description: 'list the full command line as well as the ID' },
+  { flags: ['-x', '--exact'], description: 'match the whole name exactly' },
+  { flags: ['-i', '--ignore-case'], description: 'match case-insensitively' },
+  { flags: ['-c', '--count'], description: 'print the number of matching processes' },
+  { flags: ['-u', '--euid'], value: 'USER', description: 'match only processes of USER' },
+]
+
+/**
+ * Processes pgrep and pkill select: PATTERN (an extended regex) against the
+ * process name, or the full command line with -f
+ */
+function matchProcesses(cmd: string, options: ParsedArgs): Process[] | CommandResult {
+  if (options.args.length !== 1) {
+    const message = options.args.length === 0 ? 'no matching criteria specified' : 'only one pattern can be provided'
+    return { stdout: '', stderr: `${cmd}: ${message}\nTry \`${cmd} --help' for more information.`, exitCode: 2 }
+  }
+
+  let pattern: RegExp
+  try {
+    const source = options.flags.has('x') ? `^(?:${options.args[0]})$` : options.args[0]
+    pattern = new RegExp(source, options.flags.has('i') ? 'i' : '')
+  } catch {
+    return { stdout: '', stderr: `${cmd}: invalid regular expression: ${options.args[0]}`, exitCode: 2 }
+  }
+
+  const user = options.namedArgs.get('u')
+  return processTable.list().filter(process =>
+    pattern.test(options.flags.has('f') ? process.command : processName(process)) && (!user || process.user === user)
+  )
+}
+
+function pgrepCommand({ options }: CommandInvocation): CommandResult {
+  const processes = matchProcesses('pgrep', options)
+  if (!Array.isArray(processes)) return processes
+
+  const stdout = options.flags.has('c')
+    ? String(processes.length)
+    : processes.map(process => {
+        if (options.flags.has('a')) return `${process.pid} ${process.command}`
+        if (options.flags.has('l')) return `${process.pid} ${processName(process)}`
+        return String(process.pid)
+      }).join('\n')
+  return { stdout, stderr: '', exitCode: processes.length > 0 ? 0 : 1 }
+}
+
+function pkillCommand({ options, context }: CommandInvocation): CommandResult {
+  const signalSpec = options.namedArgs.get('signal') ?? 'TERM'
+  const signal = findSignal(signalSpec)
+  if (!signal) {
+    return { stdout: '', stderr: `pkill: Unknown signal "${signalSpec}".`, exitCode: 2 }
+  }
+
+  const processes = matchProcesses('pkill', options)
+  if (!Array.isArray(processes)) return processes
+
+  const errors: string[] = []
+  for (const process of processes) {
+    const error = processTable.signal(process.pid, signal, context.username, context.isSudo)
+    if (error) errors.push(`pkill: killing pid ${process.pid} failed: ${error}`)
+  }
+  const stdout = options.flags.has('c') ? String(processes.length) : ''
+  return { stdout, stderr: errors.join('\n'), exitCode: processes.length > errors.length ? 0 : 1 }
+}
+
+function clearCommand(): CommandResult {
+  return { stdout: '\x1b[2J\x1b[H', stderr: '', exitCode: 0 }
+}
+
+function konamiCommand(): CommandResult {
+  // Secret command to skip mission/task - outputs special marker for mission layer
+  return { 
+    stdout: '🎮 CHEAT_CODE_ACTIVATED:SKIP_MISSION 🎮', 
+    stderr: '', 
+    exitCode: 0 
+  }
+}
+
+const HELP_TOPICS = `I/O Redirection:
+  > file    - redirect output to file (overwrite)
+  >> file   - redirect output to file (append)
+  2> file   - redirect errors (2>/dev/null discards them)
+  2>&1      - send errors wherever output goes
+  &> file   - redirect output and errors together
+  <<EOF     - heredoc input (multi-line)
+  <<< text  - here-string input
+  a | b     - pipe output of a into b
+
+Command Lists:
+  a && b    - run b only if a succeeds
+  a || b    - run b only if a fails
+  a ; b     - run a, then b
+  a &       - run a in the background (jobs, fg, bg, kill %1)
+  $(cmd)    - substitute the output of cmd (also \`cmd\`)
+
+Scripting:
+  if/then/elif/else/fi, for/while/until ... do/done, case ... esac
+  name() { ...; }  - define a function
+  $((i + 1))       - integer arithmetic (+ - * / % << >>, comparisons)
+  sh script.sh     - run a script (or ./script.sh after chmod +x)`
+
+// Width of the wrapped command list printed by help
+const HELP_WIDTH = 72
+
+function helpCommand({ args }: CommandInvocation): CommandResult {
+  if (args.length > 0) {
+    const spec = commandRegistry.get(args[0])
+    if (!spec) {
+      return {
+        stdout: '',
+        stderr: `bash: help: no help topics match \`${args[0]}'.  Try \`help help' or \`man ${args[0]}'.`,
+        exitCode: 1,
+      }
+    }
+    return { stdout: formatCommandHelp(spec), stderr: '', exitCode: 0 }
+  }
+
+  const rows: string[] = []
+  let row = ''
+  for (const name of commandRegistry.getCommands().map(spec => spec.name)) {
+    if (row && row.length + name.length + 2 > HELP_WIDTH) {
+      rows.push(`  ${row},`)
+      row = ''
+    }
+    row = row ? `${row}, ${name}` : name
+  }
+  rows.push(`  ${row}`)
+
+  const stdout = [
+    'Available commands:',
+    ...rows,
+    '',
+    "Type 'help name' for a command's usage, or 'man name' for its manual page.",
+    '',
+    HELP_TOPICS,
+  ].join('\n')
+  return { stdout, stderr: '', exitCode: 0 }
+}
+
+/**
+ * Commands the executor runs itself
+ */
+const BUILTIN_COMMANDS: CommandSpec[] = [
+  {
+    name: 'pwd',
+    summary: 'print name of current/working directory',
+    usage: 'pwd',
+    manPage: 'Print the full path of the current working directory.',
+    run: pwdCommand,
+  },
+  {
+    name: 'cd',
+    summary: 'change the working directory',
+    usage: 'cd [dir]',
+    manPage: 'Change the current directory to DIR. With no DIR, go to $HOME.\n`cd -` returns to the previous directory and prints it.',
+    examples: ['cd /var/log', 'cd ..', 'cd -'],
+    run: cdCommand,
+  },
+  {
+    name: 'cat',
+    summary: 'concatenate files and print on the standard output',
+    usage: 'cat [OPTION]... [FILE]...',
+    manPage: 'Concatenate FILE(s) to standard output.\nWith no FILE, or when FILE is -, read standard input.',
+    options: [],
+    examples: ['cat notes.txt', 'cat part1 part2 > whole.txt'],
+    readsStdin: true,
+    run: catCommand,
+  },
+  {
+    name: 'mkdir',
+    summary: 'make directories',
+    usage: 'mkdir [OPTION]... DIRECTORY...',
+    manPage: 'Create the DIRECTORY(ies), if they do not already exist.',
+    options: [
+      { flags: ['-p', '--parents'], description: 'no error if existing, make parent directories as needed' },
+    ],
+    run: mkdirCommand,
+  },
+  {
+    name: 'touch',
+    summary: 'change file timestamps',
+    usage: 'touch [OPTION]... FILE...',
+    manPage: 'Update the modification time of each FILE, creating it empty if it does not exist.',
+    options: [],
+    run: touchCommand,
+  },
+  {
+    name: 'rm',
+    summary: 'remove files or directories',
+    usage: 'rm [OPTION]... FILE...',
+    manPage: 'Remove (unlink) the FILE(s). Removed files cannot be recovered.',
+    options: [
+      { flags: ['-f', '--force'], description: 'ignore nonexistent files and arguments, never prompt' },
+      { flags: ['-r', '-R', '--recursive'], description: 'remove directories and their contents recursively' },
+    ],
+    destructive: true,
+    run: rmCommand,
+  },
+  {
+    name: 'rmdir',
+    summary: 'remove empty directories',
+    usage: 'rmdir [OPTION]... DIRECTORY...',
+    manPage: 'Remove the DIRECTORY(ies), if they are empty.',
+    options: [
+      { flags: ['-p', '--parents'], description: "remove DIRECTORY and its ancestors; e.g., 'rmdir -p a/b' is similar to 'rmdir a/b a'" },
+    ],
+    destructive: true,
+    run: rmdirCommand,
+  },
+  {
+    name: 'cp',
+    summary: 'copy files and directories',
+    usage: 'cp [OPTION]... SOURCE... DEST',
+    manPage: 'Copy SOURCE to DEST, or multiple SOURCE(s) to DIRECTORY.',
+    options: [
+      { flags: ['-r', '-R', '--recursive'], description: 'copy directories recursively' },
+    ],
+    run: cpCommand,
+  },
+  {
+    name: 'mv',
+    summary: 'move (rename) files',
+    usage: 'mv [OPTION]... SOURCE... DEST',
+    manPage: 'Rename SOURCE to DEST, or move SOURCE(s) to DIRECTORY. An existing DEST file is overwritten.',
+    options: [
+      { flags: ['-f', '--force'], description: 'do not prompt before overwriting' },
+    ],
+    destructive: true,
+    run: mvCommand,
+  },
+  {
+    name: 'echo',
+    summary: 'display a line of text',
+    usage: 'echo [string...]',
+    manPage: 'Print the STRINGs separated by spaces.',
+    run: echoCommand,
+  },
+  {
+    name: 'head',
+    summary: 'output the first part of files',
+    usage: 'head [OPTION]... [FILE]',
+    manPage: 'Print the first 10 lines of FILE to standard output.\nWith no FILE, read standard input.',
+    options: [
+      {
+        flags: ['-n', '--lines'],
+        value: 'NUM',
+        description: "print the first NUM lines instead of the first 10; with a leading '-', all but the last NUM lines",
+      },
+    ],
+    numericOption: 'n',
+    readsStdin: true,
+    run: headCommand,
+  },
+  {
+    name: 'tail',
+    summary: 'output the last part of files',
+    usage: 'tail [OPTION]... [FILE]',
+    manPage: 'Print the last 10 lines of FILE to standard output.\nWith no FILE, read standard input.',
+    options: [
+      { flags: ['-f', '--follow'], description: 'output appended data as the file grows' },
+      {
+        flags: ['-n', '--lines'],
+        value: 'NUM',
+        description: 'output the last NUM lines, instead of the last 10; or use -n +NUM to output starting with line NUM',
+      },
+    ],
+    numericOption: 'n',
+    readsStdin: true,
+    run: tailCommand,
+    spawn: tailFollowProcess,
+  },
+  {
+    name: 'find',
+    summary: 'search for files in a directory hierarchy',
+    usage: 'find [path...] [expression]',
+    manPage:
+      'Walk the directory tree rooted at each PATH (the current directory by default) and evaluate the\n' +
+      'expression for every file, printing those it is true for unless it has an action.\n' +
+      'Tests: -name and -iname PATTERN, -path PATTERN, -type f|d, -size [+-]N[cwbkMG], -mtime [+-]DAYS,\n' +
+      '-mmin [+-]MINUTES, -user NAME, -perm [-/]MODE (octal or symbolic,\n' +
+      'as in -perm -u+x). +N means more than N, -N less than N.\n' +
+      'Options: -maxdepth N, -mindepth N, -depth. Actions: -print, -delete, -exec COMMAND ; (once per\n' +
+      'file, with {} standing for it) and -exec COMMAND {} + (once with all of them).\n' +
+      'Operators: ( EXPR ), ! EXPR, EXPR -a EXPR (also implied by juxtaposition) and EXPR -o EXPR.\n' +
+      '-delete and -exec rm are confirmed before they run, like rm.',
+    examples: [
+      'find / -name "*.txt"',
+      'find /home -type f -name "evidence*"',
+      'find . -mtime -7',
+      "find /var/log -name '*.log' -size +1k",
+      "find . \\( -name '*.tmp' -o -name '*.bak' \\) -delete",
+      'find /home -user root -exec ls -l {} +',
+    ],
+    run: findCommand,
+  },
+  {
+    name: 'date',
+    summary: 'print the system date and time',
+    usage: 'date [+format]',
+    manPage: 'Print the current date and time, optionally in a strftime-style FORMAT such as +%Y-%m-%d.',
+    run: dateCommand,
+  },
+  {
+    name: 'dirname',
+    summary: 'strip last component from file name',
+    usage: 'dirname name...',
+    run: dirnameCommand,
+  },
+  {
+    name: 'basename',
+    summary: 'strip directory and suffix from filenames',
+    usage: 'basename name [suffix]',
+    run: basenameCommand,
+  },
+  {
+    name: 'chmod',
+    summary: 'change file mode bits',
+    usage: 'chmod mode file...',
+    manPage: 'Change the permissions of each FILE. MODE is octal (755) or symbolic (u+x, go-w, a=r).',
+    examples: ['chmod +x script.sh', 'chmod 600 secrets.txt'],
+    run: chmodCommand,
+  },
+  {
+    name: 'test',
+    aliases: ['['],
+    summary: 'check file types and compare values',
+    usage: 'test expression',
+    manPage: 'Exit with status 0 if EXPRESSION is true and 1 if it is false.\n-e, -f, -d FILE  file exists, is a regular file, is a directory\n-z, -n STRING    string is empty, is not empty\nA = B, A != B    string comparison\nA -eq B, -lt ... integer comparison',
+    examples: ['test -f notes.txt && echo found', '[ "$USER" = agent ]'],
+    run: testCommand,
+  },
+  {
+    name: 'true',
+    aliases: [':'],
+    summary: 'do nothing, successfully',
+    run: trueCommand,
+  },
+  {
+    name: 'false',
+    summary: 'do nothing, unsuccessfully',
+    run: falseCommand,
+  },
+  {
+    name: 'sh',
+    aliases: ['bash'],
+    summary: 'run a shell script or command string',
+    usage: 'sh [-c command] [script [args...]]',
+    manPage: 'Run SCRIPT in a child shell, so it cannot change the caller\'s directory or variables. -c runs COMMAND instead. With neither, commands are read from standard input.',
+    examples: ['sh setup.sh', "sh -c 'echo $0' name"],
+    readsStdin: true,
+    run: shCommand,
+  },
+  {
+    name: 'source',
+    aliases: ['.'],
+    summary: 'run a script in the current shell',
+    usage: 'source file [args...]',
+    manPage: 'Run the commands in FILE in the current shell, so its variables, functions and cd persist.',
+    readsStdin: true,
+    run: sourceCommand,
+  },
+  {
+    name: 'sudo',
+    summary: 'execute a command as the superuser',
+    usage: 'sudo command [args...]',
+    manPage: 'Run COMMAND with root privileges after asking for your password.',
+    examples: ['sudo ls /restricted', 'sudo cat /root/secret.txt', 'sudo rm /protected/file.txt'],
+  },
+  {
+    name: 'sleep',
+    summary: 'delay for a specified amount of time',
+    usage: 'sleep NUMBER[SUFFIX]...',
+    manPage: "Pause for NUMBER seconds; SUFFIX may be 's' for seconds, 'm' for minutes, 'h' for hours or 'd' for days. Typed at the prompt it runs as a job: press Ctrl+Z to stop it, or end the line with & to run it in the background.",
+    options: [],
+    examples: ['sleep 30 &', 'sleep 1m'],
+    run: sleepCommand,
+    spawn: sleepProcess,
+  },
+  {
+    name: 'jobs',
+    summary: 'display status of jobs',
+    usage: 'jobs [-lp] [jobspec ...]',
+    options: [
+      { flags: ['-l'], description: 'list process IDs in addition to the normal information' },
+      { flags: ['-p'], description: 'list process IDs only' },
+    ],
+    examples: ['jobs', 'jobs -l'],
+    run: jobsCommand,
+  },
+  {
+    name: 'fg',
+    summary: 'move a job to the foreground',
+    usage: 'fg [job_spec]',
+    manPage: 'Continue JOB_SPEC (the current job by default) in the foreground. Jobs are named %1, %2, ..., %+ (current), %- (previous), %name or %?text.',
+    examples: ['fg', 'fg %2'],
+    run: fgCommand,
+  },
+  {
+    name: 'bg',
+    summary: 'move a stopped job to the background',
+    usage: 'bg [job_spec]',
+    examples: ['bg %1'],
+    run: bgCommand,
+  },
+  {
+    name: 'kill',
+    summary: 'send a signal to a job or process',
+    usage: 'kill [-s sigspec | -n signum | -sigspec] pid | jobspec ... or kill -l [sigspec]',
+    manPage: "Send the TERM signal (or SIGSPEC) to each job or process ID. kill -l lists the signal names. Only root may signal another user's processes.",
+    examples: ['kill %1', 'kill -9 %2', 'kill -STOP %1', 'sudo kill 4242'],
+    run: killCommand,
+  },
+  {
+    name: 'ps',
+    summary: 'report a snapshot of the current processes',
+    usage: 'ps [-ef] [-u user] | ps aux',
+    manPage: 'List processes. With no options, show the processes of this terminal; -e (or BSD-style ax) shows every process, -f and u show more columns.',
+    options: [
+      { flags: ['-e', '-A'], description: 'select all processes' },
+      { flags: ['-f'], description: 'do full-format listing' },
+      { flags: ['-u', '--user'], value: 'USER', description: 'select processes of USER' },
+    ],
+    examples: ['ps', 'ps aux', 'ps -ef | grep omega'],
+    run: psCommand,
+  },
+  {
+    name: 'top',
+    aliases: ['htop'],
+    summary: 'display processes',
+    usage: 'top [-b] [-n iterations] [-d delay]',
+    manPage: 'Show the busiest processes, updated every second. Press q or Ctrl+C to quit.',
+    options: [
+      { flags: ['-b', '--batch'], description: 'print frames one after another instead of redrawing' },
+      { flags: ['-n', '--iterations'], value: 'NUM', description: 'exit after NUM frames' },
+      { flags: ['-d', '--delay'], value: 'SECS', description: 'seconds between frames' },
+    ],
+    examples: ['top', 'top -b -n 1 | head'],
+    run: topCommand,
+    spawn: topProcess,
+  },
+  {
+    name: 'pgrep',
+    summary: 'look up processes by name',
+    usage: 'pgrep [-flaxic] [-u user] pattern',
+    manPage: 'Print the ID of each process whose name matches PATTERN, an extended regular expression.',
+    options: PGREP_OPTIONS,
+    usageStatus: 2,
+    examples: ['pgrep omega', 'pgrep -a -u root surveil'],
+    run: pgrepCommand,
+  },
+  {
+    name: 'pkill',
+    summary: 'signal processes by name',
+    usage: 'pkill [-signal] [-fxic] [-u user] pattern',
+    manPage: 'Send the TERM signal (or SIGNAL) to each process whose name matches PATTERN. -9 sends KILL.',
+    options: [
+      { flags: ['--signal'], value: 'SIG', description: 'signal to send (name or number)' },
+      ...PGREP_OPTIONS.filter(option => option.flags[0] !== '-l' && option.flags[0] !== '-a'),
+    ],
+    numericOption: 'signal',
+    usageStatus: 2,
+    examples: ['pkill sleep', 'sudo pkill -9 omega_surveill'],
+    run: pkillCommand,
+  },
+  {
+    name: 'clear',
+    summary: 'clear the terminal screen',
+    run: clearCommand,
+  },
+  {
+    name: 'help',
+    summary: 'list available commands, or describe one',
+    usage: 'help [command]',
+    run: helpCommand,
+  },
+  {
+    name: 'konami',
+    summary: 'skip the current mission',
+    hidden: true,
+    run: konamiCommand,
+  },
+]
+
+commandRegistry.registerAll(BUILTIN_COMMANDS)
+
+/**
+ * Execute a full command line (lists, pipelines, compound commands) with the
+ * shell interpreter. Changes to variables and functions stay in context.env.
+ */
+export function executeShell(
+  command: string,
+  context: ExecutionContext,
+  fs: MEMFS,
+  stdin?: string
+): CommandResult {
+  return createInterpreter(context, fs).run(command, stdin)
+}
+
+/**
+ * Files a login shell sources, in order (~ is the user's home)
+ */
+export const STARTUP_FILES = ['/etc/profile', '~/.profile', '~/.bashrc']
+
+/**
+ * Source the startup files that exist, in the current shell, so their
+ * variables, aliases, functions and cd apply to the session. `root` is
+ * prepended to each path for sessions on a remote filesystem.
+ */
+export function runStartupFiles(context: ExecutionContext, fs: MEMFS, root = ''): CommandResult {
+  const stdout: string[] = []
+  const stderr: string[] = []
+  let currentPath = context.currentPath
+  let newPath: string | undefined
+  let exitCode = 0
+
+  for (const file of STARTUP_FILES) {
+    const fullPath = `${root}${file.replace(/^~/, `/home/${context.username}`)}`
+    if (!fs.exists(fullPath) || fs.stat(fullPath).isDirectory()) continue
+
+    const source = fs.readFile(fullPath, { encoding: 'utf8' }) as string
+    const result = createInterpreter({ ...context, currentPath }, fs).run(source)
+    if (result.stdout) stdout.push(result.stdout)
+    if (result.stderr) stderr.push(result.stderr)
+    if (result.newPath) currentPath = newPath = result.newPath
+    exitCode = result.exitCode
+  }
+
+  return { stdout: stdout.join('\n'), stderr: stderr.join('\n'), exitCode, newPath }
+}
+
+function createInterpreter(context: ExecutionContext, fs: MEMFS, scriptName?: string, args?: string[]): ShellInterpreter {
+  return new ShellInterpreter({
+    fs,
+    context,
+    runCommand: (argv, commandContext, input) => runCommand(argv, commandContext, fs, input),
+    scriptName,
+    args,
+  })
+}
+
+/**
+ * Run a script file: in a child shell for sh/bash/./script, or in the
+ * current shell for source (so variables, functions and cd persist)
+ */
+function runScript(
+  name: string,
+  args: string[],
+  context: ExecutionContext,
+  fs: MEMFS,
+  stdin: string | undefined,
+  sourced: boolean
+): CommandResult {
+  const fullPath = resolvePath(context.currentPath, name, context.username)
+
+  if (!fs.exists(fullPath)) {
+    return { stdout: '', stderr: `bash: ${name}: No such file or directory`, exitCode: 127 }
+  }
+  const stat = fs.stat(fullPath)
+  if (stat.isDirectory()) {
+    return { stdout: '', stderr: `bash: ${name}: Is a directory`, exitCode: 126 }
+  }
+  if (stat.owner === 'root' && !context.isSudo) {
+    return { stdout: '', stderr: `bash: ${name}: Permission denied`, exitCode: 126 }
+  }
+
+  const source = fs.readFile(fullPath, { encoding: 'utf8' }) as string
+
+  if (sourced) {
+    return createInterpreter(context, fs, undefined, args.length > 0 ? args : undefined).run(source, stdin)
+  }
+
+  // A script can't change the caller's directory or variables
+  const childContext = { ...context, env: context.env?.clone() }
+  const result = createInterpreter(childContext, fs, name, args).run(source, stdin)
+  return { ...result, newPath: undefined }
+}
+
+/**
+ * Run an executable file (./script.sh): needs the x bit and a shell shebang
+ */
+function executeFile(
+  name: string,
+  args: string[],
+  context: ExecutionContext,
+  fs: MEMFS,
+  stdin?: string
+): CommandResult {
+  const fullPath = resolvePath(context.currentPath, name, context.username)
+
+  if (!fs.exists(fullPath)) {
+    return { stdout: '', stderr: `bash: ${name}: No such file or directory`, exitCode: 127 }
+  }
+  const stat = fs.stat(fullPath)
+  if (stat.isDirectory()) {
+    return { stdout: '', stderr: `bash: ${name}: Is a directory`, exitCode: 126 }
+  }
+  if ((stat.mode & 0o111) === 0 || (stat.owner === 'root' && !context.isSudo)) {
+    return { stdout: '', stderr: `bash: ${name}: Permission denied`, exitCode: 126 }
+  }
+
+  // Scripts without a shebang run in sh, like bash does
+  const source = fs.readFile(fullPath, { encoding: 'utf8' }) as string
+  const shebang = source.match(/^#!\s*(\S+)(?:\s+(\S+))?/)
+  if (shebang) {
+    const program = basename(shebang[1]) === 'env' && shebang[2] ? shebang[2] : basename(shebang[1])
+    if (!SCRIPT_SHELLS.includes(program)) {
+      return {
+        stdout: '',
+        stderr: `bash: ${name}: ${shebang[1]}: bad interpreter: No such file or directory`,
+        exitCode: 126,
+      }
+    }
+  }
+
+  return runScript(name, args, context, fs, stdin, false)
+}
+
+/**
+ * Word expansion context for a command
+ * $(...) and `...` run through executeShell in the same session
+ */
+export function getExpansionContext(context: ExecutionContext, fs: MEMFS): ExpansionContext {
+  return {
+    ...context,
+    fs,
+    // $(...) runs in a subshell, so assignments inside it don't leak out.
+    // Its output is recorded so that running the line doesn't run it again.
+    substitute: command => {
+      const recorded = context.substitutions?.get(command)
+      if (recorded !== undefined) return recorded
+      const output = executeShell(command, { ...context, env: context.env?.clone(), columns: undefined }, fs).stdout
+      context.substitutions?.set(command, output)
+      return output
+    },
+  }
 }
 
 /**
@@ -1156,7 +2074,8 @@ export function executeSudoCommand(
   command: string,
   password: string,
   context: ExecutionContext,
-  fs: MEMFS
+  fs: MEMFS,
+  stdin?: string
 ): CommandResult {
   const correctPassword = 'P@ssw0rd!'
   
@@ -1172,6 +2091,7 @@ export function executeSudoCommand(
   return executeCommand(
     command,
     { ...context, isSudo: true },
-    fs
+    fs,
+    stdin
   )
 }
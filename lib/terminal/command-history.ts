@@ -0,0 +1,260 @@
+/**
+ * Command History
+ * Per-session history for Up/Down recall, the `history` builtin and
+ * !-style expansion, persisted to $HISTFILE in MEMFS
+ */
+
+import { MEMFS } from './memfs'
+import { EnvSimulator } from './env-simulator'
+
+export interface CommandHistoryOptions {
+  fs: MEMFS
+  env?: EnvSimulator // Supplies $HISTFILE
+  username?: string
+  maxSize?: number
+}
+
+export interface HistoryExpansion {
+  command: string
+  expanded: boolean // The line contained a history reference and should be echoed
+  error?: string
+}
+
+const DEFAULT_MAX_SIZE = 1000
+
+// Characters after ! that leave it literal, as in `[ ! -f x ]` or `a != b`
+const LITERAL_AFTER_BANG = /[\s=("]/
+
+/**
+ * History Manager
+ */
+export class CommandHistory {
+  private entries: string[] = []
+  private fs: MEMFS
+  private env?: EnvSimulator
+  private username: string
+  private maxSize: number
+
+  // Up/Down navigation: index into entries (entries.length is the line being typed)
+  private cursor = 0
+  private draft = ''
+
+  constructor(options: CommandHistoryOptions) {
+    this.fs = options.fs
+    this.env = options.env
+    this.username = options.username || 'agent'
+    this.maxSize = options.maxSize || DEFAULT_MAX_SIZE
+  }
+
+  /**
+   * Load entries from $HISTFILE, replacing the current session's
+   */
+  load(): void {
+    this.entries = []
+    const path = this.getHistFile()
+    if (path && this.fs.exists(path) && this.fs.stat(path).isFile()) {
+      const content = this.fs.readFile(path, { encoding: 'utf8' }) as string
+      this.entries = content.split('\n').filter(line => line.trim()).slice(-this.maxSize)
+    }
+    this.resetCursor()
+  }
+
+  /**
+   * Record a command; consecutive duplicates are kept once
+   */
+  add(command: string): void {
+    const line = command.trim()
+    if (!line) return
+
+    if (this.entries[this.entries.length - 1] !== line) {
+      this.entries.push(line)
+      if (this.entries.length > this.maxSize) {
+        this.entries.splice(0, this.entries.length - this.maxSize)
+      }
+      this.save()
+    }
+    this.resetCursor()
+  }
+
+  getEntries(): string[] {
+    return [...this.entries]
+  }
+
+  /**
+   * Clear the history and its file
+   */
+  clear(): void {
+    this.entries = []
+    this.resetCursor()
+    this.save()
+  }
+
+  /**
+   * Recall the previous entry (Up); `current` is the line being edited
+   * Returns null when there is nothing older
+   */
+  previous(current: string): string | null {
+    if (this.cursor === 0) return null
+    if (this.cursor === this.entries.length) this.draft = current
+    this.cursor--
+    return this.entries[this.cursor]
+  }
+
+  /**
+   * Recall the next entry (Down), ending at the line that was being typed
+   */
+  next(): string | null {
+    if (this.cursor >= this.entries.length) return null
+    this.cursor++
+    return this.cursor === this.entries.length ? this.draft : this.entries[this.cursor]
+  }
+
+  resetCursor(): void {
+    this.cursor = this.entries.length
+    this.draft = ''
+  }
+
+  /**
+   * Find the latest entry before index `before` that contains `query`
+   * (Ctrl+R reverse search)
+   */
+  search(query: string, before = this.entries.length): { index: number; line: string } | null {
+    for (let i = Math.min(before, this.entries.length) - 1; i >= 0; i--) {
+      if (this.entries[i].includes(query)) return { index: i, line: this.entries[i] }
+    }
+    return null
+  }
+
+  /**
+   * Expand history references: !!, !n, !-n, !prefix and a leading ^old^new
+   * Nothing inside single quotes or after a backslash is expanded
+   */
+  expand(line: string): HistoryExpansion {
+    if (line.startsWith('^')) {
+      return this.quickSubstitution(line)
+    }
+
+    let command = ''
+    let expanded = false
+    let quote: "'" | '"' | null = null
+
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i]
+
+      if (ch === '\\' && quote !== "'") {
+        command += ch + (line[i + 1] ?? '')
+        i++
+        continue
+      }
+      if (ch === "'" && quote !== '"') quote = quote ? null : "'"
+      else if (ch === '"' && quote !== "'") quote = quote ? null : '"'
+
+      const nextChar = line[i + 1]
+      if (ch !== '!' || quote === "'" || nextChar === undefined || LITERAL_AFTER_BANG.test(nextChar)) {
+        command += ch
+        continue
+      }
+
+      const match = /^!(!|-?\d+|[^\s;&|<>()"'`]+)/.exec(line.slice(i))
+      if (!match) {
+        command += ch
+        continue
+      }
+
+      const event = this.findEvent(match[1])
+      if (event === null) {
+        return { command: line, expanded: false, error: `bash: ${match[0]}: event not found` }
+      }
+      command += event
+      expanded = true
+      i += match[0].length - 1
+    }
+
+    return { command, expanded }
+  }
+
+  /**
+   * Run the `history` builtin
+   */
+  executeHistoryCommand(args: string[]): { output: string; error?: string } {
+    if (args[0] === '-c') {
+      this.clear()
+      return { output: '' }
+    }
+
+    if (args[0] === '-d') {
+      const offset = parseInt(args[1], 10)
+      if (!/^-?\d+$/.test(args[1] ?? '') || !this.entries[this.toIndex(offset)]) {
+        return { output: '', error: `bash: history: ${args[1] ?? '-d'}: history position out of range` }
+      }
+      this.entries.splice(this.toIndex(offset), 1)
+      this.resetCursor()
+      this.save()
+      return { output: '' }
+    }
+
+    if (args[0] !== undefined && !/^\d+$/.test(args[0])) {
+      return { output: '', error: `bash: history: ${args[0]}: numeric argument required` }
+    }
+
+    const count = args[0] !== undefined ? parseInt(args[0], 10) : this.entries.length
+    const start = Math.max(0, this.entries.length - count)
+    const output = this.entries
+      .slice(start)
+      .map((entry, index) => `${String(start + index + 1).padStart(5)}  ${entry}`)
+      .join('\n')
+    return { output }
+  }
+
+  /**
+   * Resolve an event designator to a previous command
+   */
+  private findEvent(designator: string): string | null {
+    if (designator === '!') {
+      return this.entries[this.entries.length - 1] ?? null
+    }
+    if (/^-?\d+$/.test(designator)) {
+      return this.entries[this.toIndex(parseInt(designator, 10))] ?? null
+    }
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      if (this.entries[i].startsWith(designator)) return this.entries[i]
+    }
+    return null
+  }
+
+  /**
+   * ^old^new[^] repeats the last command with the first `old` replaced
+   */
+  private quickSubstitution(line: string): HistoryExpansion {
+    const [, oldText = '', newText = '', rest = ''] = line.split('^')
+    const last = this.entries[this.entries.length - 1]
+
+    if (last === undefined) {
+      return { command: line, expanded: false, error: `bash: ${line}: event not found` }
+    }
+    if (!oldText || !last.includes(oldText)) {
+      return { command: line, expanded: false, error: `bash: :s^${oldText}^${newText}: substitution failed` }
+    }
+    return { command: last.replace(oldText, newText) + rest, expanded: true }
+  }
+
+  // History numbers start at 1; negative numbers count back from the end
+  private toIndex(offset: number): number {
+    return offset < 0 ? this.entries.length + offset : offset - 1
+  }
+
+  private getHistFile(): string | null {
+    const path = this.env ? this.env.getVariable('HISTFILE') : `/home/${this.username}/.bash_history`
+    return path || null
+  }
+
+  private save(): void {
+    const path = this.getHistFile()
+    if (!path) return
+    try {
+      this.fs.writeFile(path, this.entries.join('\n'))
+    } catch {
+      // A missing home directory just means history isn't persisted
+    }
+  }
+}
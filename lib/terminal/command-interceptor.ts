@@ -1,10 +1,15 @@
 /**
  * Command Interceptor
  * Routes special commands that need frontend simulation
- * Handles: sudo, ssh, less, env, and other commands that can't run in BusyBox
+ * Handles: sudo, ssh, less, man, env, history, and other commands that can't run in BusyBox
  */
 
 import { MEMFS } from './memfs'
+import { expandArgv } from './word-expansion'
+import { getExpansionContext } from './command-executor'
+import { EnvSimulator } from './env-simulator'
+import { CommandHistory } from './command-history'
+import { commandRegistry, formatManPage } from './command-registry'
 
 export interface InterceptResult {
   intercepted: boolean
@@ -30,22 +35,82 @@ export interface ExecutionContext {
 export interface CommandInterceptorOptions {
   fs: MEMFS
   context: ExecutionContext
+  env?: EnvSimulator // Shell environment for env/export and $VAR expansion
+  history?: CommandHistory // Session history for the history builtin
   onModalOpen?: (type: string, data: any) => void
   onContextChange?: (context: Partial<ExecutionContext>) => void
 }
 
+commandRegistry.registerAll([
+  {
+    name: 'scp',
+    summary: 'securely copy files to/from remote servers',
+    usage: 'scp source destination',
+    manPage: 'Copy a file between this machine and a host you can ssh into. One of SOURCE and DESTINATION is [user@]host:path.',
+    examples: [
+      'scp file.txt omega_agent@remote-server:/home/omega/incoming/',
+      'scp omega_agent@remote-server:/path/file.txt ./',
+    ],
+    intercepted: true,
+  },
+  {
+    name: 'less',
+    aliases: ['more'],
+    summary: 'view file contents with pagination',
+    usage: 'less file',
+    manPage: 'Show FILE, or piped input, one screen at a time. Press q to quit.',
+    examples: ['less /var/log/system.log', 'cat large_file.txt | less'],
+    readsStdin: true,
+    intercepted: true,
+  },
+  {
+    name: 'man',
+    summary: 'an interface to the system reference manuals',
+    usage: 'man command',
+    manPage: 'Show the manual page for COMMAND in the pager.',
+    examples: ['man grep'],
+    intercepted: true,
+  },
+  {
+    name: 'env',
+    summary: 'display or set environment variables',
+    usage: 'env',
+    examples: ['env', 'env | grep PATH', 'export VAR=value'],
+    intercepted: true,
+  },
+  {
+    name: 'history',
+    summary: 'display or manipulate the history list',
+    usage: 'history [n] | history -c | history -d offset',
+    manPage: 'List previous commands with their numbers. Rerun one with !n, !! or !prefix.\n-c         clear the history\n-d offset  delete the entry at OFFSET',
+    intercepted: true,
+  },
+  {
+    name: 'nano',
+    aliases: ['vi', 'vim'],
+    summary: 'edit a file',
+    usage: 'nano file',
+    manPage: 'Open FILE in the editor, creating it when saved if it does not exist.',
+    intercepted: true,
+  },
+])
+
 /**
  * Main command interceptor class
  */
 export class CommandInterceptor {
   private fs: MEMFS
   private context: ExecutionContext
+  private env?: EnvSimulator
+  private history?: CommandHistory
   private onModalOpen?: (type: string, data: any) => void
   private onContextChange?: (context: Partial<ExecutionContext>) => void
 
   constructor(options: CommandInterceptorOptions) {
     this.fs = options.fs
     this.context = options.context
+    this.env = options.env
+    this.history = options.history
     this.onModalOpen = options.onModalOpen
     this.onContextChange = options.onContextChange
   }
@@ -54,21 +119,11 @@ export class CommandInterceptor {
    * Check if command should be intercepted
    */
   shouldIntercept(command: string): boolean {
-    const cmd = this.parseCommand(command)
-    const interceptedCommands = [
-      // 'ssh', // Let SSH go through network simulator for proper validation
-      'scp',
-      'less',
-      'more',
-      'env',
-      'export',
-      'nano',
-      'vi',
-      'vim',
-    ]
+    // Only the name is needed here, so $(...) isn't run yet
+    const [base = ''] = expandArgv(command, { fs: this.fs, ...this.context, env: this.env })
 
     // Check if base command is intercepted
-    if (interceptedCommands.includes(cmd.base)) {
+    if (commandRegistry.get(base)?.intercepted) {
       return true
     }
 
@@ -80,8 +135,9 @@ export class CommandInterceptor {
 
   /**
    * Intercept and handle special commands
+   * `stdin` carries piped input for commands that can read it (less/more)
    */
-  async intercept(command: string): Promise<InterceptResult> {
+  async intercept(command: string, stdin?: string): Promise<InterceptResult> {
     const cmd = this.parseCommand(command)
 
     // Note: sudo is not intercepted anymore - it goes to command executor for password prompt
@@ -94,7 +150,12 @@ export class CommandInterceptor {
 
     // Handle less/more
     if (cmd.base === 'less' || cmd.base === 'more') {
-      return this.handleLess(cmd.args)
+      return this.handleLess(cmd.args, stdin)
+    }
+
+    // Handle man
+    if (cmd.base === 'man') {
+      return this.handleMan(cmd.args)
     }
 
     // Handle env
@@ -102,6 +163,16 @@ export class CommandInterceptor {
       return this.handleEnv(cmd.args)
     }
 
+    // Handle export
+    if (cmd.base === 'export') {
+      return this.handleExport(cmd.args)
+    }
+
+    // Handle history
+    if (cmd.base === 'history') {
+      return this.handleHistory(cmd.args)
+    }
+
     // Handle nano/vi/vim
     if (['nano', 'vi', 'vim'].includes(cmd.base)) {
       return this.handleEditor(cmd.base, cmd.args)
@@ -224,7 +295,22 @@ export class CommandInterceptor {
   /**
    * Handle less/more command
    */
-  private handleLess(args: string[]): InterceptResult {
+  private handleLess(args: string[], stdin?: string): InterceptResult {
+    if (args.length === 0 && stdin !== undefined) {
+      // Page piped input (e.g. cat file | less)
+      return {
+        intercepted: true,
+        handled: true,
+        action: 'openModal',
+        modalType: 'less',
+        modalData: {
+          filename: '(standard input)',
+          content: stdin,
+        },
+        output: stdin,
+      }
+    }
+
     if (args.length === 0) {
       return {
         intercepted: true,
@@ -278,10 +364,53 @@ export class CommandInterceptor {
     }
   }
 
+  /**
+   * Handle man command: show a command's manual page in the pager
+   */
+  private handleMan(args: string[]): InterceptResult {
+    if (args.length === 0) {
+      return {
+        intercepted: true,
+        handled: true,
+        error: "What manual page do you want?\nFor example, try 'man man'.",
+      }
+    }
+
+    const spec = commandRegistry.get(args[0])
+    if (!spec) {
+      return {
+        intercepted: true,
+        handled: true,
+        error: `No manual entry for ${args[0]}`,
+      }
+    }
+
+    const content = formatManPage(spec)
+    return {
+      intercepted: true,
+      handled: true,
+      action: 'openModal',
+      modalType: 'less',
+      modalData: {
+        filename: `man ${spec.name}`,
+        content,
+      },
+      output: content,
+    }
+  }
+
   /**
    * Handle env command
    */
   private handleEnv(args: string[]): InterceptResult {
+    if (this.env) {
+      return {
+        intercepted: true,
+        handled: true,
+        output: this.env.executeEnvCommand(args),
+      }
+    }
+
     // Generate simulated environment variables
     const envVars = this.generateEnvVars()
 
@@ -297,6 +426,50 @@ export class CommandInterceptor {
     }
   }
 
+  /**
+   * Handle export command
+   */
+  private handleExport(args: string[]): InterceptResult {
+    if (!this.env) {
+      return {
+        intercepted: true,
+        handled: true,
+        error: 'export: environment not available',
+      }
+    }
+
+    const output = this.env.executeExportCommand(args)
+    const listing = args.length === 0 || args.includes('-p')
+
+    return {
+      intercepted: true,
+      handled: true,
+      output: listing ? output : undefined,
+      error: listing ? undefined : output || undefined,
+    }
+  }
+
+  /**
+   * Handle history command
+   */
+  private handleHistory(args: string[]): InterceptResult {
+    if (!this.history) {
+      return {
+        intercepted: true,
+        handled: true,
+        error: 'history: history not available',
+      }
+    }
+
+    const result = this.history.executeHistoryCommand(args)
+    return {
+      intercepted: true,
+      handled: true,
+      output: result.output || undefined,
+      error: result.error,
+    }
+  }
+
   /**
    * Handle editor commands (nano/vi/vim)
    */
@@ -487,11 +660,8 @@ export class CommandInterceptor {
    * Parse command into base and args
    */
   private parseCommand(command: string): { base: string; args: string[] } {
-    const parts = command.trim().split(/\s+/)
-    return {
-      base: parts[0],
-      args: parts.slice(1),
-    }
+    const [base = '', ...args] = expandArgv(command, getExpansionContext({ ...this.context, env: this.env }, this.fs))
+    return { base, args }
   }
 
   /**
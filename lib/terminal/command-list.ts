@@ -0,0 +1,103 @@
+/**
+ * Command Lists
+ * Runs `;`, `&&` and `||` lists pipeline by pipeline, short-circuiting on
+ * exit codes like bash
+ */
+
+import { CommandResult } from './command-executor'
+import { CommandList, Pipeline, formatShell } from './shell-parser'
+
+/**
+ * Runs a single pipeline of the list. `index` counts pipelines run so far.
+ */
+export type ListPipelineRunner<T extends CommandResult = CommandResult> = (
+  pipeline: string,
+  index: number
+) => Promise<T>
+
+export interface CommandListResult<T extends CommandResult = CommandResult> extends CommandResult {
+  results: T[] // Results of the pipelines that actually ran
+}
+
+/**
+ * Check if a parsed command line has more than one pipeline to run
+ */
+export function isCommandList(ast: CommandList): boolean {
+  return ast.items.length > 1 || ast.items.some(item => item.command.rest.length > 0)
+}
+
+/**
+ * Execute a command list
+ * stdout/stderr are the combined output of every pipeline that ran and the
+ * exit code is the last one's. A pipeline waiting for a sudo password halts
+ * the list; `pendingCommand` is then the rest of the list starting with it.
+ */
+export async function executeCommandList<T extends CommandResult>(
+  ast: CommandList,
+  runPipeline: ListPipelineRunner<T>
+): Promise<CommandListResult<T>> {
+  const results: T[] = []
+  let exitCode = 0
+
+  for (let i = 0; i < ast.items.length; i++) {
+    const { command } = ast.items[i]
+    const pipelines = [command.first, ...command.rest.map(r => r.pipeline)]
+
+    for (let j = 0; j < pipelines.length; j++) {
+      // `a && b` runs b only on success, `a || b` only on failure
+      if (j > 0 && (command.rest[j - 1].op === '&&') !== (exitCode === 0)) {
+        continue
+      }
+
+      const pipeline = pipelines[j]
+      const result = await runPipeline(formatShell({ ...pipeline, negated: false }), results.length)
+      results.push(result)
+
+      if (result.requiresPassword) {
+        return {
+          ...combine(results),
+          exitCode: result.exitCode,
+          requiresPassword: true,
+          pendingCommand: formatRemaining(ast, i, j),
+          results,
+        }
+      }
+
+      exitCode = pipeline.negated ? (result.exitCode === 0 ? 1 : 0) : result.exitCode
+    }
+  }
+
+  return { ...combine(results), exitCode, results }
+}
+
+/**
+ * Join the output of every pipeline that ran
+ */
+function combine(results: CommandResult[]): { stdout: string; stderr: string } {
+  const join = (parts: string[]) => parts.filter(Boolean).join('\n')
+  return {
+    stdout: join(results.map(r => r.stdout)),
+    stderr: join(results.map(r => r.stderr)),
+  }
+}
+
+/**
+ * Format the list from pipeline `j` of item `i` onwards
+ */
+function formatRemaining(ast: CommandList, i: number, j: number): string {
+  const { command, separator } = ast.items[i]
+  const pipelines: Pipeline[] = [command.first, ...command.rest.map(r => r.pipeline)]
+
+  const remaining: CommandList = {
+    type: 'list',
+    items: [
+      {
+        command: { type: 'andOr', first: pipelines[j], rest: command.rest.slice(j) },
+        separator,
+      },
+      ...ast.items.slice(i + 1),
+    ],
+  }
+
+  return formatShell(remaining)
+}
@@ -0,0 +1,211 @@
+/**
+ * Command Registry
+ * The single list of commands: each declares its name, aliases, options,
+ * help text, man page and behaviour. The executor runs the handlers, and
+ * help, man, tab completion and error recovery all read from here.
+ */
+
+import type { MEMFS } from './memfs'
+import type { ExecutionContext, CommandResult } from './command-executor'
+import type { AdventureCommand } from './types'
+import { formatOptions } from './option-parser'
+import type { OptionSpec, ParsedArgs } from './option-parser'
+import type { JobProcess } from './job-control'
+
+export interface CommandInvocation {
+  name: string        // Name the command was run as (may be an alias)
+  args: string[]
+  options: ParsedArgs // args parsed with the command's option spec (all operands if it has none)
+  context: ExecutionContext
+  fs: MEMFS
+  stdin?: string
+}
+
+export type CommandHandler = (invocation: CommandInvocation) => CommandResult
+
+// Long-running form of a command, or undefined when it should just run
+export type CommandSpawner = (invocation: CommandInvocation) => JobProcess | undefined
+
+export interface CommandSpec {
+  name: string
+  aliases?: string[]
+  summary: string          // One line, shown by help
+  usage?: string           // Synopsis, e.g. "head [-n lines] [file]"
+  manPage?: string         // Description shown by man
+  examples?: string[]
+  options?: OptionSpec[]   // Parsed getopt-style, with --help; commands without them get raw operands
+  numericOption?: string   // Option that -NUM sets, as in head -20
+  usageStatus?: number     // Exit status for option errors (default 1; ls and grep use 2)
+  readsStdin?: boolean     // Reads piped input; other commands leave it for the next reader
+  requiresSudo?: boolean   // Refuses to run without sudo
+  destructive?: boolean    // Can delete or overwrite data, so it is confirmed before running
+  hidden?: boolean         // Left out of help and completion
+  intercepted?: boolean    // Typed at the prompt, runs in the command interceptor (pagers, editors, env)
+  run?: CommandHandler     // Commands without one run in the interceptor, network simulator or terminal
+  spawn?: CommandSpawner   // Typed at the prompt, runs as a job instead (sleep, tail -f, ping)
+}
+
+// Furthest a typo can be from a command name and still be suggested
+const MAX_SUGGESTION_DISTANCE = 2
+
+/**
+ * Command Registry
+ */
+export class CommandRegistry {
+  private commands = new Map<string, CommandSpec>()
+  private aliases = new Map<string, string>() // alias -> command name
+
+  /**
+   * Add a command, replacing any command of the same name
+   */
+  register(spec: CommandSpec): void {
+    this.unregister(spec.name)
+    this.commands.set(spec.name, spec)
+    spec.aliases?.forEach(alias => this.aliases.set(alias, spec.name))
+  }
+
+  registerAll(specs: CommandSpec[]): void {
+    specs.forEach(spec => this.register(spec))
+  }
+
+  unregister(name: string): void {
+    const spec = this.commands.get(name)
+    if (!spec) return
+    spec.aliases?.forEach(alias => {
+      if (this.aliases.get(alias) === name) this.aliases.delete(alias)
+    })
+    this.commands.delete(name)
+  }
+
+  /**
+   * Look up a command by name or alias
+   */
+  get(name: string): CommandSpec | undefined {
+    return this.commands.get(name) ?? this.commands.get(this.aliases.get(name) ?? '')
+  }
+
+  has(name: string): boolean {
+    return this.get(name) !== undefined
+  }
+
+  /**
+   * Visible commands, sorted by name
+   */
+  getCommands(): CommandSpec[] {
+    return Array.from(this.commands.values())
+      .filter(spec => !spec.hidden)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Names and aliases of the visible commands
+   */
+  getNames(): string[] {
+    return this.getCommands().flatMap(spec => [spec.name, ...(spec.aliases ?? [])])
+  }
+
+  /**
+   * The visible command closest to a mistyped name, if any is close enough
+   */
+  suggest(name: string): string | null {
+    if (!name) return null
+    let best: string | null = null
+    let bestDistance = MAX_SUGGESTION_DISTANCE + 1
+    for (const candidate of this.getNames()) {
+      const distance = editDistance(name, candidate)
+      if (distance > 0 && distance < bestDistance) {
+        best = candidate
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+}
+
+/**
+ * The registry shared by the executor, interceptor, network simulator and terminal
+ */
+export const commandRegistry = new CommandRegistry()
+
+/**
+ * `help name` output: synopsis, summary, aliases and examples
+ */
+export function formatCommandHelp(spec: CommandSpec): string {
+  const lines = [`${spec.usage ?? spec.name}`, `    ${spec.summary}`]
+  if (spec.aliases?.length) {
+    lines.push('', `    Also available as: ${spec.aliases.join(', ')}`)
+  }
+  if (spec.examples?.length) {
+    lines.push('', '    Examples:', ...spec.examples.map(example => `      ${example}`))
+  }
+  return lines.join('\n')
+}
+
+/**
+ * `name --help` output, coreutils style
+ */
+export function formatUsage(spec: CommandSpec): string {
+  const description = spec.manPage ?? `${spec.summary.charAt(0).toUpperCase()}${spec.summary.slice(1)}.`
+  return [`Usage: ${spec.usage ?? spec.name}`, description, '', formatOptions(spec.options ?? [])].join('\n')
+}
+
+/**
+ * A man page in the usual NAME/SYNOPSIS/DESCRIPTION layout
+ */
+export function formatManPage(spec: CommandSpec): string {
+  const title = `${spec.name.toUpperCase()}(1)`
+  const indent = (text: string) => text.split('\n').map(line => (line ? `       ${line}` : '')).join('\n')
+
+  const sections = [
+    `${title.padEnd(30)}User Commands${title.padStart(30)}`,
+    `NAME\n${indent(`${spec.name} - ${spec.summary}`)}`,
+    `SYNOPSIS\n${indent(spec.usage ?? spec.name)}`,
+  ]
+  if (spec.manPage) {
+    sections.push(`DESCRIPTION\n${indent(spec.manPage)}`)
+  }
+  if (spec.options) {
+    sections.push(`OPTIONS\n${formatOptions(spec.options).split('\n').map(line => `     ${line}`).join('\n')}`)
+  }
+  if (spec.aliases?.length) {
+    sections.push(`ALIASES\n${indent(spec.aliases.join(', '))}`)
+  }
+  if (spec.examples?.length) {
+    sections.push(`EXAMPLES\n${indent(spec.examples.join('\n'))}`)
+  }
+  return sections.join('\n\n')
+}
+
+/**
+ * Spec for a command an adventure declares: it prints fixed output, or
+ * fails with its error message
+ */
+export function adventureCommandSpec(command: AdventureCommand): CommandSpec {
+  return {
+    name: command.name,
+    aliases: command.aliases,
+    summary: command.summary,
+    usage: command.usage,
+    manPage: command.manPage,
+    examples: command.examples,
+    requiresSudo: command.requiresSudo,
+    destructive: command.destructive,
+    run: () => command.error
+      ? { stdout: command.output ?? '', stderr: command.error, exitCode: 1 }
+      : { stdout: command.output ?? '', stderr: '', exitCode: 0 },
+  }
+}
+
+// Levenshtein distance between two names
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
@@ -3,6 +3,19 @@
  * Detects potentially destructive commands and determines warning levels
  */
 
+import {
+  parseShell,
+  collectSimpleCommands,
+  collectRedirects,
+  collectLoopVariables,
+  commandArgv,
+  wordToString,
+  CommandList,
+  SimpleCommand,
+} from './shell-parser'
+import { expandWord, findCommandSubstitutions, findParameterNames, ExpansionContext } from './word-expansion'
+import { commandRegistry } from './command-registry'
+
 export interface DestructiveCommandResult {
   isDestructive: boolean
   warningLevel: 'warning' | 'danger' | 'critical'
@@ -11,6 +24,10 @@ export interface DestructiveCommandResult {
   canRecover: boolean
 }
 
+export interface DetectionOptions {
+  expansion?: ExpansionContext // Check operands as the shell will expand them
+}
+
 /**
  * Protected paths that should never be deleted
  */
@@ -50,19 +67,248 @@ const IMPORTANT_PATTERNS = [
   /data/i,
   /backup/i,
   /mission/i,
+  /(^|\/)\.(bashrc|bash_profile|profile)$/,
+]
+
+/**
+ * Commands whose operands are checked, besides those registered as destructive
+ */
+const CHECKED_COMMANDS = ['rm', 'rmdir', 'mv', 'dd', 'mkfs', 'fdisk']
+
+/**
+ * find actions that delete files or run commands
+ */
+const FIND_ACTIONS = ['-delete', '-exec']
+
+/**
+ * Commands that only read, which $(...) may run while a line is checked
+ */
+const READ_ONLY_COMMANDS = [
+  'cat', 'echo', 'printf', 'ls', 'pwd', 'find', 'grep', 'egrep', 'fgrep', 'head', 'tail', 'wc',
+  'sort', 'uniq', 'cut', 'tr', 'nl', 'rev', 'tac', 'basename', 'dirname', 'whoami', 'date',
+  'true', 'false', 'test', '[',
 ]
 
+const INPUT_REDIRECTS = ['<', '<<', '<<-', '<<<']
+
+/**
+ * Shells that run a script from standard input when not given a file
+ */
+const SHELLS = ['sh', 'bash', 'dash']
+
+/**
+ * Builtins whose operands are NAME=VALUE assignments
+ */
+const DECLARATION_BUILTINS = ['export', 'local', 'declare', 'typeset', 'readonly']
+
+function isCheckedCommand(name: string): boolean {
+  return CHECKED_COMMANDS.includes(name) || commandRegistry.get(name)?.destructive === true
+}
+
+/**
+ * Stands in for operands that can't be known before the command runs
+ */
+const UNKNOWN_OPERAND = '<unknown operand>'
+
+const SEVERITY: Record<DestructiveCommandResult['warningLevel'], number> = {
+  warning: 1,
+  danger: 2,
+  critical: 3,
+}
+
 /**
  * Detect if a command is destructive
+ * Every simple command in the line is checked (including pipeline stages,
+ * `&&`/`;` lists, subshells and $(...) substitutions) and the most severe
+ * result is returned
  */
-export function detectDestructiveCommand(command: string): DestructiveCommandResult | null {
-  const trimmed = command.trim()
-  
-  // Parse command and arguments
-  const parts = trimmed.split(/\s+/)
-  const cmd = parts[0]
-  const args = parts.slice(1)
-  
+export function detectDestructiveCommand(
+  command: string | CommandList,
+  options: DetectionOptions = {}
+): DestructiveCommandResult | null {
+  return detectInLine(command, options, new Set())
+}
+
+/**
+ * Check a line, or a script it runs, given the variables that the
+ * enclosing lines set (and so have no known value yet)
+ */
+function detectInLine(
+  command: string | CommandList,
+  options: DetectionOptions,
+  outerAssigned: Set<string>
+): DestructiveCommandResult | null {
+  const ast = typeof command === 'string' ? parseShell(command).ast : command
+  if (!ast) return null
+
+  const assigned = new Set([...outerAssigned, ...assignedNames(ast)])
+  const results: Array<DestructiveCommandResult | null> = []
+
+  for (const simple of collectSimpleCommands(ast)) {
+    const substitutions = [...simple.words, ...simple.redirects.map(r => r.target)]
+      .flatMap(findCommandSubstitutions)
+    for (const inner of substitutions) {
+      results.push(detectInLine(inner, options, assigned))
+    }
+
+    // eval and sh -c run their operand as a command line
+    const script = evaluatedScript(simple)
+    if (script !== null) results.push(detectInLine(script, options, assigned))
+
+    results.push(detectSimpleCommand(checkedArgv(simple, substitutions, options, assigned)))
+  }
+
+  // Heredocs and here-strings in a line that feeds a shell are scripts it runs
+  if (collectSimpleCommands(ast).some(readsScriptFromStdin)) {
+    for (const redirect of collectRedirects(ast)) {
+      const script = redirect.heredoc?.body ?? (redirect.op === '<<<' ? wordToString(redirect.target) : undefined)
+      if (script) results.push(detectInLine(script, options, assigned))
+    }
+  }
+
+  // Detect truncation redirections
+  for (const redirect of collectRedirects(ast)) {
+    if (redirect.op === '>' || redirect.op === '>|' || redirect.op === '&>') {
+      results.push(detectRedirectionCommand(wordToString(redirect.target)))
+    }
+  }
+
+  return mostSevere(results)
+}
+
+function mostSevere(results: Array<DestructiveCommandResult | null>): DestructiveCommandResult | null {
+  return results.reduce<DestructiveCommandResult | null>((worst, result) => {
+    if (!result) return worst
+    return !worst || rank(result) > rank(worst) ? result : worst
+  }, null)
+}
+
+function rank(result: DestructiveCommandResult): number {
+  return result.isDestructive ? SEVERITY[result.warningLevel] : 0
+}
+
+/**
+ * Variables the line itself sets: assignments, declarations, loop
+ * variables and those `read` fills. Their values are only known once the
+ * line runs.
+ */
+function assignedNames(ast: CommandList): string[] {
+  const names = collectLoopVariables(ast)
+  for (const simple of collectSimpleCommands(ast)) {
+    names.push(...simple.assignments.map(assignment => assignment.name))
+    const [name, ...args] = commandArgv(simple)
+    if (DECLARATION_BUILTINS.includes(name)) {
+      names.push(...args.map(arg => arg.match(/^([A-Za-z_]\w*)=/)?.[1]).filter((n): n is string => !!n))
+    }
+    if (name === 'read') names.push(...args.filter(arg => !arg.startsWith('-')))
+  }
+  return names
+}
+
+/**
+ * The command line run by `eval ARGS` or `sh -c SCRIPT`, if this is one
+ */
+function evaluatedScript(simple: SimpleCommand): string | null {
+  let argv = commandArgv(simple)
+  if (argv[0] === 'sudo') argv = argv.slice(1)
+  if (argv[0] === 'eval') return argv.slice(1).join(' ')
+
+  if (!SHELLS.includes(argv[0])) return null
+  const options = argv.slice(1).filter(arg => arg.startsWith('-'))
+  if (!options.some(option => /^-[a-z]*c[a-z]*$/.test(option))) return null
+  return argv.slice(1).find(arg => !arg.startsWith('-')) ?? null
+}
+
+function readsScriptFromStdin(simple: SimpleCommand): boolean {
+  let argv = commandArgv(simple)
+  if (argv[0] === 'sudo') argv = argv.slice(1)
+  return SHELLS.includes(argv[0]) && argv.slice(1).every(arg => arg.startsWith('-'))
+}
+
+/**
+ * Argv of a simple command as it should be checked
+ * Operands of checked commands are expanded when possible, which runs any
+ * $(...) in them. That only happens if the substituted commands only read;
+ * otherwise the operands are unknown. The expansion context records their
+ * output, which the command then uses instead of running them again.
+ * Operands using a variable the line sets, or one that is empty now (and
+ * likely set by the time the command runs), are unknown too.
+ */
+function checkedArgv(
+  simple: SimpleCommand,
+  substitutions: string[],
+  options: DetectionOptions,
+  assigned: Set<string>
+): string[] {
+  let argv = commandArgv(simple)
+  // sudo runs the same command with more privileges
+  if (argv[0] === 'sudo') argv = argv.slice(1)
+  if (!isCheckedCommand(argv[0])) return argv
+
+  if (simple.words.some(word => findParameterNames(word).some(name => assigned.has(name)))) {
+    return [argv[0], UNKNOWN_OPERAND]
+  }
+
+  const { expansion } = options
+  if (!expansion || !substitutions.every(inner => isSafeToRun(inner, expansion))) {
+    return substitutions.length > 0 ? [argv[0], UNKNOWN_OPERAND] : argv
+  }
+
+  try {
+    const fields = simple.words.map(word => expandWord(word, expansion))
+    if (simple.words.some((word, i) => fields[i].length === 0 && findParameterNames(word).length > 0)) {
+      return [argv[0], UNKNOWN_OPERAND]
+    }
+    const expanded = fields.flat()
+    return expanded[0] === 'sudo' ? expanded.slice(1) : expanded
+  } catch {
+    return [argv[0], UNKNOWN_OPERAND]
+  }
+}
+
+/**
+ * Check that a substituted command only reads: no assignments, no output
+ * redirections and nothing but read-only commands (not shadowed by a
+ * function or alias), so running it while checking changes nothing
+ */
+function isSafeToRun(command: string, expansion: ExpansionContext): boolean {
+  const ast = parseShell(command).ast
+  if (!ast) return false
+  if (collectRedirects(ast).some(redirect => !INPUT_REDIRECTS.includes(redirect.op))) return false
+
+  return collectSimpleCommands(ast).every(simple => {
+    if (simple.assignments.length > 0) return false
+    let argv = commandArgv(simple)
+    if (argv[0] === 'sudo') argv = argv.slice(1)
+    if (argv.length === 0) return true
+
+    const [name] = argv
+    if (!READ_ONLY_COMMANDS.includes(name)) return false
+    if (expansion.env?.getFunction(name) || expansion.env?.getAlias(name) !== undefined) return false
+    if (name === 'find' && argv.some(arg => FIND_ACTIONS.includes(arg))) return false
+    return [...simple.words, ...simple.redirects.map(r => r.target)]
+      .flatMap(findCommandSubstitutions)
+      .every(inner => isSafeToRun(inner, expansion))
+  })
+}
+
+/**
+ * Detect destructiveness of a single command's argv
+ */
+function detectSimpleCommand(argv: string[]): DestructiveCommandResult | null {
+  const [cmd, ...args] = argv
+
+  // Operands computed as the line runs, by $(...) or variables it sets
+  if (args.includes(UNKNOWN_OPERAND) && ['rm', 'rmdir', 'mv'].includes(cmd)) {
+    return {
+      isDestructive: true,
+      warningLevel: 'warning',
+      reason: `The ${cmd} operands are computed as the line runs and can't be checked before running.`,
+      affectedPaths: [],
+      canRecover: false,
+    }
+  }
+
   // Detect rm commands
   if (cmd === 'rm') {
     return detectRmCommand(args)
@@ -77,10 +323,10 @@ export function detectDestructiveCommand(command: string): DestructiveCommandRes
   if (cmd === 'mv') {
     return detectMvCommand(args)
   }
-  
-  // Detect truncation redirections
-  if (trimmed.includes('>') && !trimmed.includes('>>')) {
-    return detectRedirectionCommand(trimmed)
+
+  // Detect find -delete and -exec
+  if (cmd === 'find') {
+    return detectFindCommand(args)
   }
   
   // Detect format/wipe commands (if implemented)
@@ -93,7 +339,18 @@ export function detectDestructiveCommand(command: string): DestructiveCommandRes
       canRecover: false,
     }
   }
-  
+
+  // Anything else registered as destructive, such as an adventure's commands
+  if (commandRegistry.get(cmd)?.destructive) {
+    return {
+      isDestructive: true,
+      warningLevel: 'warning',
+      reason: `${cmd} can delete or overwrite data.`,
+      affectedPaths: args,
+      canRecover: false,
+    }
+  }
+
   return null
 }
 
@@ -271,15 +528,71 @@ function detectMvCommand(args: string[]): DestructiveCommandResult | null {
   return null
 }
 
+/**
+ * Detect find commands that delete what they find or run commands on it
+ */
+function detectFindCommand(args: string[]): DestructiveCommandResult | null {
+  const first = args.findIndex(arg => arg.startsWith('-') || arg === '!' || arg === '(')
+  const paths = first === -1 ? args : args.slice(0, first)
+  const roots = paths.length > 0 ? paths : ['.']
+  const results: Array<DestructiveCommandResult | null> = []
+
+  // Commands run by -exec, checked with {} standing for each starting point
+  args.forEach((arg, i) => {
+    if (arg !== '-exec') return
+    const end = args.findIndex((next, j) => j > i && (next === ';' || (next === '+' && args[j - 1] === '{}')))
+    const argv = args.slice(i + 1, end === -1 ? args.length : end)
+    if (argv.length === 0) return
+
+    for (const root of roots) {
+      const result = detectSimpleCommand(argv.map(word => word.split('{}').join(root)))
+      results.push(result?.isDestructive || !isCheckedCommand(argv[0]) ? result : {
+        isDestructive: true,
+        warningLevel: 'warning',
+        reason: `find runs ${argv[0]} on every file it finds under: ${roots.join(', ')}`,
+        affectedPaths: roots,
+        canRecover: false,
+      })
+    }
+  })
+
+  if (args.includes('-delete')) {
+    for (const root of roots) {
+      const path = root.length > 1 ? root.replace(/\/+$/, '') : root
+      if (PROTECTED_PATHS.includes(path)) {
+        results.push({
+          isDestructive: true,
+          warningLevel: 'critical',
+          reason: `Attempting to delete files in protected system directory: ${root}`,
+          affectedPaths: [root],
+          canRecover: false,
+        })
+      } else if (CRITICAL_PATHS.some(critical => path.startsWith(critical) || critical.startsWith(path))) {
+        results.push({
+          isDestructive: true,
+          warningLevel: 'critical',
+          reason: `Attempting to delete files in mission-critical directory: ${root}`,
+          affectedPaths: roots,
+          canRecover: false,
+        })
+      }
+    }
+    results.push({
+      isDestructive: true,
+      warningLevel: 'warning',
+      reason: `find -delete removes every file that matches under: ${roots.join(', ')}`,
+      affectedPaths: roots,
+      canRecover: false,
+    })
+  }
+
+  return mostSevere(results)
+}
+
 /**
  * Detect output redirection that might overwrite files
  */
-function detectRedirectionCommand(command: string): DestructiveCommandResult | null {
-  const redirectMatch = command.match(/>\s*(\S+)/)
-  if (!redirectMatch) return null
-  
-  const targetFile = redirectMatch[1]
-  
+function detectRedirectionCommand(targetFile: string): DestructiveCommandResult | null {
   // Check if redirecting to important file
   const isImportant = IMPORTANT_PATTERNS.some(pattern => pattern.test(targetFile)) ||
                       CRITICAL_PATHS.some(path => targetFile.startsWith(path))
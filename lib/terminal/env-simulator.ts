@@ -3,6 +3,10 @@
  * Manages shell environment variables for terminal session
  */
 
+import { expandParameters } from './word-expansion'
+import type { FunctionDefinition } from './shell-parser'
+import { DEFAULT_PS1, DEFAULT_PS2 } from './prompt'
+
 export interface EnvVariable {
   name: string
   value: string
@@ -10,16 +14,28 @@ export interface EnvVariable {
   description?: string
 }
 
+export interface EnvSimulatorOptions {
+  username?: string
+  currentPath?: string
+  hostname?: string
+  pid?: number // Value of $$
+}
+
 /**
  * Environment Manager
  */
 export class EnvSimulator {
   private variables: Map<string, EnvVariable>
   private exportedVars: Set<string>
+  private options: EnvSimulatorOptions
+  private exitStatus = 0
+  private functions: Map<string, FunctionDefinition> = new Map()
+  private aliases: Map<string, string> = new Map()
 
-  constructor() {
+  constructor(options: EnvSimulatorOptions = {}) {
     this.variables = new Map()
     this.exportedVars = new Set()
+    this.options = options
     this.initializeDefaults()
   }
 
@@ -27,16 +43,24 @@ export class EnvSimulator {
    * Initialize default environment variables
    */
   private initializeDefaults(): void {
+    const user = this.options.username || 'agent'
+    const home = `/home/${user}`
+    const cwd = this.options.currentPath || home
+
     // Standard Unix/Linux environment variables
-    this.setVariable('USER', 'agent', true, 'Current user')
-    this.setVariable('HOME', '/home/agent', true, 'Home directory')
-    this.setVariable('PWD', '/home/agent', false, 'Current working directory')
-    this.setVariable('OLDPWD', '/home/agent', false, 'Previous working directory')
+    this.setVariable('USER', user, true, 'Current user')
+    this.setVariable('HOME', home, true, 'Home directory')
+    this.setVariable('PWD', cwd, false, 'Current working directory')
+    this.setVariable('OLDPWD', cwd, false, 'Previous working directory')
     this.setVariable('SHELL', '/bin/sh', true, 'Current shell')
     this.setVariable('PATH', '/usr/local/bin:/usr/bin:/bin', false, 'Executable search path')
     this.setVariable('TERM', 'xterm-256color', false, 'Terminal type')
     this.setVariable('LANG', 'en_US.UTF-8', false, 'Language locale')
     this.setVariable('LC_ALL', 'en_US.UTF-8', false, 'Locale override')
+    this.setVariable('HISTFILE', `${home}/.bash_history`, false, 'Command history file')
+    this.setVariable('HOSTNAME', this.options.hostname || 'terminal', false, 'Host name')
+    this.setVariable('PS1', DEFAULT_PS1, false, 'Primary prompt')
+    this.setVariable('PS2', DEFAULT_PS2, false, 'Continuation prompt')
     
     // Mission-specific variables
     this.setVariable('MISSION_ID', '', false, 'Current mission identifier')
@@ -80,6 +104,50 @@ export class EnvSimulator {
     return this.variables.get(name)?.value
   }
 
+  /**
+   * Get a shell parameter: special parameters ($?, $$, $#, $0, ...) or a variable
+   */
+  getParameter(name: string): string | undefined {
+    switch (name) {
+      case '?':
+        return String(this.exitStatus)
+      case '$':
+        return String(this.options.pid ?? 1000)
+      case '#':
+        return '0'
+      case '0':
+        return 'bash'
+      case '@':
+      case '*':
+      case '-':
+      case '!':
+        return ''
+    }
+    if (/^[0-9]$/.test(name)) return undefined
+    return this.getVariable(name)
+  }
+
+  /**
+   * Record the exit status of the last command ($?)
+   */
+  setExitStatus(code: number): void {
+    this.exitStatus = code
+  }
+
+  /**
+   * Get the exit status of the last command
+   */
+  getExitStatus(): number {
+    return this.exitStatus
+  }
+
+  /**
+   * Get all variables as a name -> value record
+   */
+  toRecord(): Record<string, string> {
+    return Object.fromEntries(Array.from(this.variables.values()).map(v => [v.name, v.value]))
+  }
+
   /**
    * Get all variables
    */
@@ -122,11 +190,77 @@ export class EnvSimulator {
     return this.exportedVars.has(name)
   }
 
+  /**
+   * Define a shell function (name() { ... })
+   */
+  defineFunction(definition: FunctionDefinition): void {
+    this.functions.set(definition.name, definition)
+  }
+
+  /**
+   * Get the names of all shell functions
+   */
+  getFunctionNames(): string[] {
+    return Array.from(this.functions.keys())
+  }
+
+  /**
+   * Get a shell function by name
+   */
+  getFunction(name: string): FunctionDefinition | undefined {
+    return this.functions.get(name)
+  }
+
+  /**
+   * Remove a shell function, returning whether it existed
+   */
+  unsetFunction(name: string): boolean {
+    return this.functions.delete(name)
+  }
+
+  /**
+   * Define an alias (alias ll='ls -l')
+   */
+  setAlias(name: string, value: string): void {
+    this.aliases.set(name, value)
+  }
+
+  /**
+   * Get an alias's replacement text
+   */
+  getAlias(name: string): string | undefined {
+    return this.aliases.get(name)
+  }
+
+  /**
+   * Get the names of all aliases, sorted
+   */
+  getAliasNames(): string[] {
+    return Array.from(this.aliases.keys()).sort()
+  }
+
+  /**
+   * Remove an alias, returning whether it existed
+   */
+  unsetAlias(name: string): boolean {
+    return this.aliases.delete(name)
+  }
+
+  /**
+   * Remove every alias (unalias -a)
+   */
+  clearAliases(): void {
+    this.aliases.clear()
+  }
+
   /**
    * Update PWD (called when directory changes)
    */
   updatePWD(newPath: string): void {
     const oldPwd = this.getVariable('PWD')
+    if (oldPwd === newPath) {
+      return
+    }
     if (oldPwd) {
       this.setVariable('OLDPWD', oldPwd)
     }
@@ -135,20 +269,10 @@ export class EnvSimulator {
 
   /**
    * Expand variables in string (e.g., "$HOME/file" -> "/home/agent/file")
+   * Supports $VAR, ${VAR}, ${VAR:-default} and friends, and special parameters
    */
   expandVariables(input: string): string {
-    let result = input
-
-    // Handle $VAR and ${VAR} syntax
-    result = result.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (match, name) => {
-      return this.getVariable(name) ?? match
-    })
-
-    result = result.replace(/\$([A-Za-z_][A-Za-z0-9_]*)/g, (match, name) => {
-      return this.getVariable(name) ?? match
-    })
-
-    return result
+    return expandParameters(input, this)
   }
 
   /**
@@ -285,17 +409,15 @@ export class EnvSimulator {
   }
 
   /**
-   * Clear all non-readonly variables
+   * Restore the default environment
    */
   reset(): void {
-    const toDelete: string[] = []
-    for (const [name, variable] of this.variables.entries()) {
-      if (!variable.readonly) {
-        toDelete.push(name)
-      }
-    }
-    toDelete.forEach((name) => this.variables.delete(name))
+    // Readonly defaults are recreated too, so clear everything first
+    this.variables.clear()
     this.exportedVars.clear()
+    this.functions.clear()
+    this.aliases.clear()
+    this.exitStatus = 0
     this.initializeDefaults()
   }
 
@@ -303,9 +425,12 @@ export class EnvSimulator {
    * Clone environment (useful for creating new contexts)
    */
   clone(): EnvSimulator {
-    const cloned = new EnvSimulator()
+    const cloned = new EnvSimulator(this.options)
+    cloned.exitStatus = this.exitStatus
     cloned.variables = new Map(this.variables)
     cloned.exportedVars = new Set(this.exportedVars)
+    cloned.functions = new Map(this.functions)
+    cloned.aliases = new Map(this.aliases)
     return cloned
   }
 }
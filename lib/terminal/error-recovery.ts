@@ -3,6 +3,8 @@
  * Provides contextual error messages with suggestions and fixes
  */
 
+import { commandRegistry } from './command-registry'
+
 export interface ErrorSuggestion {
   error: string
   reason: string
@@ -70,8 +72,9 @@ const ERROR_PATTERNS: Array<{
       }
       
       const suggestions = ['Check if the command is spelled correctly']
-      if (commonTypos[cmd]) {
-        suggestions.unshift(`Did you mean: ${commonTypos[cmd]}?`)
+      const correction = commonTypos[cmd] ?? commandRegistry.suggest(cmd)
+      if (correction) {
+        suggestions.unshift(`Did you mean: ${correction}?`)
       }
       suggestions.push('Use "help" to see available commands')
       suggestions.push('Try searching: type -a ' + cmd)
@@ -254,65 +257,6 @@ const ERROR_PATTERNS: Array<{
   },
 ]
 
-/**
- * Command-specific help messages
- */
-const COMMAND_HELP: Record<string, { description: string; examples: string[] }> = {
-  sudo: {
-    description: 'Execute commands with elevated privileges',
-    examples: [
-      'sudo ls /restricted',
-      'sudo cat /root/secret.txt',
-      'sudo rm /protected/file.txt',
-    ],
-  },
-  ssh: {
-    description: 'Connect to remote servers',
-    examples: [
-      'ssh omega_agent@remote-server',
-      'ssh user@agency.local',
-    ],
-  },
-  scp: {
-    description: 'Securely copy files to/from remote servers',
-    examples: [
-      'scp file.txt omega_agent@remote-server:/home/omega/incoming/',
-      'scp omega_agent@remote-server:/path/file.txt ./',
-    ],
-  },
-  less: {
-    description: 'View file contents with pagination',
-    examples: [
-      'less /var/log/system.log',
-      'less large_file.txt',
-    ],
-  },
-  grep: {
-    description: 'Search for patterns in files',
-    examples: [
-      'grep "pattern" file.txt',
-      'grep -r "search" /directory/',
-      'grep -i "case-insensitive" file.txt',
-    ],
-  },
-  find: {
-    description: 'Search for files and directories',
-    examples: [
-      'find / -name "*.txt"',
-      'find /home -type f -name "evidence*"',
-      'find . -mtime -7',
-    ],
-  },
-  env: {
-    description: 'Display or set environment variables',
-    examples: [
-      'env',
-      'env | grep PATH',
-      'export VAR=value',
-    ],
-  },
-}
-
 /**
  * Analyze error and provide suggestions
  */
@@ -352,8 +296,8 @@ export function analyzeError(
  * Get command-specific help
  */
 export function getCommandHelp(command: string): { description: string; examples: string[] } | null {
-  const cmd = command.split(' ')[0]
-  return COMMAND_HELP[cmd] || null
+  const spec = commandRegistry.get(command.split(' ')[0])
+  return spec ? { description: spec.summary, examples: spec.examples ?? [] } : null
 }
 
 /**
@@ -430,7 +374,7 @@ export function suggestCommandCorrection(command: string): string[] {
   }
   
   const cmd = command.split(' ')[0]
-  const correction = commands[cmd as keyof typeof commands]
+  const correction = commands[cmd as keyof typeof commands] ?? commandRegistry.suggest(cmd)
   
   if (correction) {
     return [correction + command.slice(cmd.length)]
@@ -0,0 +1,42 @@
+/**
+ * File Modes
+ * Octal and symbolic permission modes, shared by chmod and find -perm
+ */
+
+/**
+ * Apply an octal (755) or symbolic (u+x,go-w) chmod mode
+ * Returns null for an invalid mode
+ */
+export function parseMode(mode: string, current: number): number | null {
+  if (/^[0-7]{1,4}$/.test(mode)) {
+    return parseInt(mode, 8) & 0o777
+  }
+
+  let result = current
+  for (const clause of mode.split(',')) {
+    const match = clause.match(/^([ugoa]*)([-+=])([rwx]*)$/)
+    if (!match) return null
+
+    const [, who, op, perms] = match
+    const classes = who === '' || who.includes('a') ? 'ugo' : who
+    let bits = 0
+    for (const c of classes) {
+      const shift = c === 'u' ? 6 : c === 'g' ? 3 : 0
+      for (const p of perms) {
+        bits |= (p === 'r' ? 4 : p === 'w' ? 2 : 1) << shift
+      }
+    }
+
+    if (op === '+') {
+      result |= bits
+    } else if (op === '-') {
+      result &= ~bits
+    } else {
+      let mask = 0
+      for (const c of classes) mask |= 7 << (c === 'u' ? 6 : c === 'g' ? 3 : 0)
+      result = (result & ~mask) | bits
+    }
+  }
+
+  return result
+}
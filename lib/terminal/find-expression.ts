@@ -0,0 +1,343 @@
+/**
+ * Find Expressions
+ * Parses the expression of `find` into a tree of tests on MEMFS metadata
+ * (-name, -type, -size, -mtime, -user, -perm, ...), actions (-print, -exec,
+ * -delete) and the operators !, -a, -o and parentheses, and evaluates it
+ * for each file the walk reaches
+ */
+
+import type { FSStats } from './memfs'
+import { globToRegExp } from './glob'
+import { parseMode } from './file-mode'
+import { listedSize } from './ls'
+
+export interface FoundFile {
+  display: string // Path as printed: the starting point, then the path below it
+  path: string    // Absolute path in MEMFS
+  depth: number   // 0 for a starting point
+  stat: FSStats
+}
+
+/**
+ * How actions take effect; find supplies these so that -exec runs
+ * commands and -delete removes files
+ */
+export interface FindActions {
+  print(file: FoundFile): void
+  exec(argv: string[]): boolean // True when the command succeeds
+  delete(file: FoundFile): boolean
+}
+
+export type FindExpression =
+  | { type: 'and' | 'or'; left: FindExpression; right: FindExpression }
+  | { type: 'not'; operand: FindExpression }
+  | { type: 'test'; test: (file: FoundFile) => boolean }
+  | { type: 'print' }
+  | { type: 'delete' }
+  | { type: 'exec'; argv: string[]; batch: string[] | null } // batch: -exec ... {} + collects paths
+
+export interface FindProgram {
+  expression: FindExpression
+  maxDepth: number
+  minDepth: number
+  depthFirst: boolean // -depth or -delete: a directory's contents come before it
+  batches: Array<{ argv: string[]; batch: string[] }> // -exec ... {} +, run after the walk
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// -size suffixes; without one the unit is 512-byte blocks
+const SIZE_UNITS: Record<string, number> = {
+  c: 1,
+  w: 2,
+  b: 512,
+  k: 1024,
+  M: 1024 * 1024,
+  G: 1024 * 1024 * 1024,
+}
+
+const FILE_TYPES = ['f', 'd', 'l', 'b', 'c', 'p', 's']
+
+// Tests and options that take one argument
+const VALUE_PRIMARIES = [
+  '-name', '-iname', '-path', '-ipath', '-type', '-size', '-mtime', '-mmin',
+  '-user', '-perm', '-maxdepth', '-mindepth',
+]
+
+class FindError extends Error {}
+
+/**
+ * Parse the expression part of `find` arguments (everything after the paths).
+ * An expression without an action prints every file it is true for.
+ */
+export function parseFindExpression(args: string[], now = Date.now()): { program: FindProgram | null; error?: string } {
+  try {
+    const parser = new FindParser(args, now)
+    return { program: parser.parse() }
+  } catch (error) {
+    if (!(error instanceof FindError)) throw error
+    return { program: null, error: error.message }
+  }
+}
+
+/**
+ * Evaluate the expression for one file, running its actions
+ */
+export function evaluateFind(expression: FindExpression, file: FoundFile, actions: FindActions): boolean {
+  switch (expression.type) {
+    case 'and':
+      return evaluateFind(expression.left, file, actions) && evaluateFind(expression.right, file, actions)
+    case 'or':
+      return evaluateFind(expression.left, file, actions) || evaluateFind(expression.right, file, actions)
+    case 'not':
+      return !evaluateFind(expression.operand, file, actions)
+    case 'test':
+      return expression.test(file)
+    case 'print':
+      actions.print(file)
+      return true
+    case 'delete':
+      return actions.delete(file)
+    case 'exec':
+      if (expression.batch) {
+        expression.batch.push(file.display)
+        return true
+      }
+      return actions.exec(expression.argv.map(arg => arg.split('{}').join(file.display)))
+  }
+}
+
+/**
+ * Run each -exec ... {} + once with every path it collected
+ */
+export function runFindBatches(program: FindProgram, actions: FindActions): void {
+  for (const { argv, batch } of program.batches) {
+    if (batch.length === 0) continue
+    actions.exec([...argv.slice(0, -1), ...batch])
+  }
+}
+
+/**
+ * Recursive descent over the arguments:
+ *   or      := and (('-o' | '-or') and)*
+ *   and     := not (['-a' | '-and'] not)*
+ *   not     := ('!' | '-not') not | primary
+ *   primary := '(' or ')' | test | action | option
+ */
+class FindParser {
+  private pos = 0
+  private hasAction = false
+  private program: FindProgram = {
+    expression: { type: 'print' },
+    maxDepth: Infinity,
+    minDepth: 0,
+    depthFirst: false,
+    batches: [],
+  }
+
+  constructor(private args: string[], private now: number) {}
+
+  parse(): FindProgram {
+    if (this.args.length > 0) {
+      const expression = this.parseOr()
+      if (this.pos < this.args.length) {
+        throw new FindError(this.args[this.pos] === ')'
+          ? "invalid expression; you have too many ')'"
+          : `paths must precede expression: '${this.args[this.pos]}'`)
+      }
+      this.program.expression = this.hasAction ? expression : { type: 'and', left: expression, right: { type: 'print' } }
+    }
+    return this.program
+  }
+
+  private parseOr(): FindExpression {
+    let left = this.parseAnd()
+    while (this.peek() === '-o' || this.peek() === '-or') {
+      const operator = this.args[this.pos++]
+      if (this.atEnd()) throw new FindError(`expected an expression after '${operator}'`)
+      left = { type: 'or', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): FindExpression {
+    let left = this.parseNot()
+    for (;;) {
+      const next = this.peek()
+      if (next === '-a' || next === '-and') {
+        this.pos++
+        if (this.atEnd()) throw new FindError(`expected an expression after '${next}'`)
+      } else if (this.atEnd()) {
+        return left
+      }
+      left = { type: 'and', left, right: this.parseNot() }
+    }
+  }
+
+  private parseNot(): FindExpression {
+    const next = this.peek()
+    if (next === '!' || next === '-not') {
+      this.pos++
+      if (this.atEnd()) throw new FindError(`expected an expression after '${next}'`)
+      return { type: 'not', operand: this.parseNot() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): FindExpression {
+    const arg = this.args[this.pos++]
+
+    if (arg === '(') {
+      if (this.peek() === ')') throw new FindError('invalid expression; empty parentheses are not allowed.')
+      const expression = this.parseOr()
+      if (this.args[this.pos++] !== ')') {
+        throw new FindError("invalid expression; I was expecting to find a ')' somewhere but did not see one.")
+      }
+      return expression
+    }
+    if (arg === ')') {
+      throw new FindError("invalid expression; you have too many ')'")
+    }
+    if (['-o', '-or', '-a', '-and'].includes(arg)) {
+      throw new FindError(`invalid expression; you have used a binary operator '${arg}' with nothing before it.`)
+    }
+    if (!arg.startsWith('-')) {
+      throw new FindError(`paths must precede expression: '${arg}'`)
+    }
+
+    switch (arg) {
+      case '-print':
+        this.hasAction = true
+        return { type: 'print' }
+      case '-delete':
+        this.hasAction = true
+        this.program.depthFirst = true
+        return { type: 'delete' }
+      case '-exec':
+        this.hasAction = true
+        return this.parseExec(arg)
+      case '-depth':
+        this.program.depthFirst = true
+        return { type: 'test', test: () => true }
+      case '-true':
+        return { type: 'test', test: () => true }
+      case '-false':
+        return { type: 'test', test: () => false }
+    }
+
+    if (!VALUE_PRIMARIES.includes(arg)) throw new FindError(`unknown predicate '${arg}'`)
+    const value = this.args[this.pos++]
+    if (value === undefined) throw new FindError(`missing argument to '${arg}'`)
+    return { type: 'test', test: this.parseTest(arg, value) }
+  }
+
+  private parseTest(primary: string, value: string): (file: FoundFile) => boolean {
+    switch (primary) {
+      case '-name':
+      case '-iname': {
+        const regex = globToRegExp(value, primary === '-iname')
+        return file => regex.test(baseName(file.display))
+      }
+
+      case '-path':
+      case '-ipath': {
+        const regex = globToRegExp(value, primary === '-ipath')
+        return file => regex.test(file.display)
+      }
+
+      case '-type': {
+        const types = value.split(',')
+        const unknown = types.find(type => !FILE_TYPES.includes(type))
+        if (unknown !== undefined) throw new FindError(`Unknown argument to -type: ${unknown}`)
+        return file => types.some(type => (type === 'd' ? file.stat.isDirectory() : type === 'f' && file.stat.isFile()))
+      }
+
+      case '-size': {
+        const match = value.match(/^([+-]?\d+)([cwbkMG]?)$/)
+        const compare = match && numberComparison(match[1])
+        if (!match || !compare) throw new FindError(`invalid argument '${value}' to '-size'`)
+        const unit = SIZE_UNITS[match[2] || 'b']
+        // Sizes are rounded up to whole units, so -size -1M only matches empty files
+        return file => compare(Math.ceil(listedSize(file.stat) / unit))
+      }
+
+      case '-mtime':
+      case '-mmin': {
+        const compare = numberComparison(value)
+        if (!compare) throw new FindError(`invalid argument '${value}' to '${primary}'`)
+        const period = primary === '-mtime' ? DAY_MS : 60 * 1000
+        return file => compare(Math.floor((this.now - file.stat.timestamp) / period))
+      }
+
+      case '-user':
+        return file => file.stat.owner === value
+
+      case '-perm': {
+        // Octal (644) or symbolic (u+x,go=r), the latter applied to no bits
+        const [, prefix, spec] = value.match(/^([-/]?)(.*)$/)!
+        const mode = /^[0-7]{1,4}$/.test(spec) ? parseInt(spec, 8) : parseMode(spec, 0)
+        if (mode === null) throw new FindError(`invalid mode '${value}'`)
+        // -MODE: all of these bits set, /MODE: any of them, MODE: exactly these
+        if (prefix === '-') return file => (file.stat.mode & mode) === mode
+        if (prefix === '/') return file => mode === 0 || (file.stat.mode & mode) !== 0
+        return file => (file.stat.mode & 0o7777) === mode
+      }
+
+      default: {
+        // -maxdepth and -mindepth apply to the whole walk
+        if (!/^\d+$/.test(value)) {
+          throw new FindError(`Expected a positive decimal integer argument to ${primary}, but got '${value}'`)
+        }
+        const depth = parseInt(value, 10)
+        if (primary === '-maxdepth') this.program.maxDepth = depth
+        else this.program.minDepth = depth
+        return () => true
+      }
+    }
+  }
+
+  // -exec COMMAND ; runs once per file, -exec COMMAND {} + once for all of them
+  private parseExec(primary: string): FindExpression {
+    const start = this.pos
+    for (; this.pos < this.args.length; this.pos++) {
+      const arg = this.args[this.pos]
+      const batched = arg === '+' && this.args[this.pos - 1] === '{}' && this.pos - 1 > start
+      if (arg !== ';' && !batched) continue
+
+      const argv = this.args.slice(start, this.pos++)
+      if (argv.length === 0) break
+      if (!batched) return { type: 'exec', argv, batch: null }
+      const batch: string[] = []
+      this.program.batches.push({ argv, batch })
+      return { type: 'exec', argv, batch }
+    }
+    throw new FindError(`missing argument to '${primary}'`)
+  }
+
+  private peek(): string | undefined {
+    return this.args[this.pos]
+  }
+
+  // No more operands for the current (sub)expression
+  private atEnd(): boolean {
+    const next = this.peek()
+    return next === undefined || next === ')' || next === '-o' || next === '-or'
+  }
+}
+
+/**
+ * Comparison for a numeric argument: +N more than N, -N less than N, N exactly N
+ */
+function numberComparison(value: string): ((n: number) => boolean) | null {
+  const match = value.match(/^([+-]?)(\d+)$/)
+  if (!match) return null
+  const n = parseInt(match[2], 10)
+  if (match[1] === '+') return x => x > n
+  if (match[1] === '-') return x => x < n
+  return x => x === n
+}
+
+function baseName(path: string): string {
+  const parts = path.split('/').filter(Boolean)
+  return parts[parts.length - 1] ?? '/'
+}
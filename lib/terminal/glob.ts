@@ -0,0 +1,287 @@
+/**
+ * Glob Expansion
+ * Pathname expansion (*, ?, [...], **) against MEMFS, performed by the shell
+ * before a command runs so every command receives expanded operands
+ */
+
+import { MEMFS } from './memfs'
+import { WordPart } from './shell-parser'
+
+export interface GlobOptions {
+  currentPath: string
+  isSudo?: boolean // Root-owned directories are only readable with sudo
+}
+
+interface Candidate {
+  display: string // Path as it will appear in argv
+  path: string    // Absolute path in MEMFS
+}
+
+const POSIX_CLASSES: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  digit: '0-9',
+  alnum: 'a-zA-Z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: ' \\t\\n\\r\\f\\v',
+  punct: '!-\\/:-@\\[-`{-~',
+  xdigit: '0-9A-Fa-f',
+}
+
+/**
+ * Check if the unquoted parts of a word contain glob characters
+ */
+export function hasGlob(parts: WordPart[]): boolean {
+  return parts.some(part => part.quote === 'none' && /[*?[]/.test(part.value))
+}
+
+/**
+ * Expand a word into the sorted list of matching paths
+ * Like bash without nullglob, a pattern with no matches is left as-is.
+ * Quoted characters never act as glob characters.
+ */
+export function expandGlob(parts: WordPart[], fs: MEMFS, options: GlobOptions): string[] {
+  const literal = parts.map(part => part.value).join('')
+  if (!hasGlob(parts)) return [literal]
+
+  const pattern = parts
+    .map(part => (part.quote === 'none' ? part.value : escapeGlob(part.value)))
+    .join('')
+
+  const matches = matchPattern(pattern, fs, options)
+  return matches.length > 0 ? matches : [literal]
+}
+
+/**
+ * Check if text matches a pattern word (case patterns)
+ * Unlike pathname expansion, * also matches / and leading dots.
+ */
+export function matchesGlob(parts: WordPart[], text: string): boolean {
+  const pattern = parts
+    .map(part => (part.quote === 'none' ? part.value : escapeGlob(part.value)))
+    .join('')
+  return segmentToRegExp(pattern).test(text)
+}
+
+/**
+ * Anchored regex for a pattern string (find -name and -path)
+ * As in case patterns, * also matches / and leading dots.
+ */
+export function globToRegExp(pattern: string, ignoreCase = false): RegExp {
+  return segmentToRegExp(pattern, ignoreCase)
+}
+
+/**
+ * Match a glob pattern against the filesystem
+ */
+function matchPattern(pattern: string, fs: MEMFS, options: GlobOptions): string[] {
+  const absolute = pattern.startsWith('/')
+  const dirsOnly = pattern.endsWith('/')
+  const segments = pattern.split('/').filter(Boolean)
+
+  let candidates: Candidate[] = [
+    absolute ? { display: '/', path: '/' } : { display: '', path: options.currentPath },
+  ]
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]
+    const last = i === segments.length - 1
+    const next: Candidate[] = []
+
+    for (const candidate of candidates) {
+      if (segment === '**') {
+        // globstar: zero or more directories, or everything below when last
+        if (!last) next.push(candidate)
+        next.push(...descendants(fs, candidate, options, !last))
+        continue
+      }
+
+      if (!isGlobSegment(segment)) {
+        const name = unescapeGlob(segment)
+        const child = childOf(candidate, name)
+        if (fs.exists(child.path)) next.push(child)
+        continue
+      }
+
+      const regex = segmentToRegExp(segment)
+      const matchDotfiles = segment.startsWith('.') || segment.startsWith('\\.')
+
+      for (const name of listDir(fs, candidate.path, options)) {
+        if (name.startsWith('.') && !matchDotfiles) continue
+        if (regex.test(name)) next.push(childOf(candidate, name))
+      }
+    }
+
+    // Every segment but the last has to name a directory
+    candidates = last && !dirsOnly ? next : next.filter(c => isDirectory(fs, c.path))
+  }
+
+  return candidates
+    .map(c => (dirsOnly ? `${c.display}/` : c.display))
+    .filter(display => display.length > 0)
+    .sort()
+}
+
+/**
+ * Non-hidden entries below a directory, depth first
+ */
+function descendants(fs: MEMFS, root: Candidate, options: GlobOptions, dirsOnly: boolean): Candidate[] {
+  const results: Candidate[] = []
+
+  for (const name of listDir(fs, root.path, options)) {
+    if (name.startsWith('.')) continue
+    const child = childOf(root, name)
+    const isDir = isDirectory(fs, child.path)
+
+    if (isDir || !dirsOnly) results.push(child)
+    if (isDir) results.push(...descendants(fs, child, options, dirsOnly))
+  }
+
+  return results
+}
+
+/**
+ * Directory entries, or nothing if the directory can't be read
+ */
+function listDir(fs: MEMFS, path: string, options: GlobOptions): string[] {
+  try {
+    const stat = fs.stat(path)
+    if (!stat.isDirectory()) return []
+    if (stat.owner === 'root' && !options.isSudo) return []
+    return fs.readdir(path)
+  } catch {
+    return []
+  }
+}
+
+function isDirectory(fs: MEMFS, path: string): boolean {
+  try {
+    return fs.stat(path).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+function childOf(parent: Candidate, name: string): Candidate {
+  let path: string
+  if (name === '.') {
+    path = parent.path
+  } else if (name === '..') {
+    path = parent.path.substring(0, parent.path.lastIndexOf('/')) || '/'
+  } else {
+    path = parent.path === '/' ? `/${name}` : `${parent.path}/${name}`
+  }
+
+  let display: string
+  if (parent.display === '') display = name
+  else if (parent.display.endsWith('/')) display = parent.display + name
+  else display = `${parent.display}/${name}`
+
+  return { display, path }
+}
+
+/**
+ * Escape glob characters so they match literally
+ */
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&')
+}
+
+function unescapeGlob(text: string): string {
+  return text.replace(/\\(.)/g, '$1')
+}
+
+/**
+ * Check for an unescaped glob character in one path segment
+ */
+function isGlobSegment(segment: string): boolean {
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i]
+    if (char === '\\') {
+      i++
+    } else if (char === '*' || char === '?') {
+      return true
+    } else if (char === '[' && findBracketEnd(segment, i) !== -1) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Find the `]` closing a bracket expression that starts at `start`
+ */
+function findBracketEnd(segment: string, start: number): number {
+  let i = start + 1
+  if (segment[i] === '!' || segment[i] === '^') i++
+  if (segment[i] === ']') i++ // A leading ] is literal
+
+  for (; i < segment.length; i++) {
+    if (segment[i] === '[' && segment[i + 1] === ':') {
+      const end = segment.indexOf(':]', i + 2)
+      if (end !== -1) {
+        i = end + 1
+        continue
+      }
+    }
+    if (segment[i] === ']') return i
+  }
+  return -1
+}
+
+/**
+ * Convert one glob path segment to an anchored regular expression
+ */
+function segmentToRegExp(segment: string, ignoreCase = false): RegExp {
+  let source = ''
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i]
+
+    if (char === '\\' && i + 1 < segment.length) {
+      source += escapeRegExp(segment[++i])
+    } else if (char === '*') {
+      source += '.*'
+    } else if (char === '?') {
+      source += '.'
+    } else if (char === '[' && findBracketEnd(segment, i) !== -1) {
+      const end = findBracketEnd(segment, i)
+      source += bracketToRegExp(segment.slice(i + 1, end))
+      i = end
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '')
+}
+
+/**
+ * Convert the inside of a bracket expression ([!a-z], [[:digit:]], ...)
+ */
+function bracketToRegExp(body: string): string {
+  let negate = false
+  if (body[0] === '!' || body[0] === '^') {
+    negate = true
+    body = body.slice(1)
+  }
+
+  let set = ''
+  for (let i = 0; i < body.length; i++) {
+    const classMatch = body.slice(i).match(/^\[:([a-z]+):\]/)
+    if (classMatch && POSIX_CLASSES[classMatch[1]]) {
+      set += POSIX_CLASSES[classMatch[1]]
+      i += classMatch[0].length - 1
+    } else if (body[i] === '-' && i > 0 && i < body.length - 1) {
+      set += '-'
+    } else {
+      set += body[i].replace(/[\\\]^-]/, '\\$&')
+    }
+  }
+
+  return `[${negate ? '^' : ''}${set}]`
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
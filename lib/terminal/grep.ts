@@ -0,0 +1,315 @@
+/**
+ * Grep
+ * Prints the lines of files, or standard input, that match a pattern:
+ * basic (BRE), extended (-E) or fixed-string (-F) patterns, whole-word and
+ * whole-line matching, counts, file lists, context lines with -- between
+ * groups, and GNU's colours for --color. egrep and fgrep are grep -E and -F.
+ */
+
+import type { CommandResult } from './command-executor'
+import { commandRegistry } from './command-registry'
+import type { CommandInvocation } from './command-registry'
+import { compileRegex } from './posix-regex'
+import { resolvePath, splitLines } from './text-tools'
+import type { Input } from './text-tools'
+
+type Syntax = 'basic' | 'extended' | 'fixed'
+
+// SGR codes of GNU grep's default GREP_COLORS (ms=01;31:fn=35:ln=32:se=36)
+const COLORS = {
+  match: '01;31',
+  file: '35',
+  line: '32',
+  separator: '36',
+}
+
+const COLOR_WHEN: Record<string, boolean> = {
+  '': true, always: true, yes: true, force: true,
+  auto: true, tty: true, 'if-tty': true,
+  never: false, no: false, none: false,
+}
+
+const STDIN_LABEL = '(standard input)'
+
+const USAGE = "Usage: grep [OPTION]... PATTERNS [FILE]...\nTry 'grep --help' for more information."
+
+function usageError(message?: string): CommandResult {
+  return { stdout: '', stderr: message ? `grep: ${message}\n${USAGE}` : USAGE, exitCode: 2 }
+}
+
+/**
+ * One regex for all the patterns, global so it can find every match in a line
+ */
+function buildRegex(patterns: string[], syntax: Syntax, ignoreCase: boolean, word: boolean, line: boolean): RegExp {
+  const sources = patterns.map(pattern => syntax === 'fixed'
+    ? pattern.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&')
+    : compileRegex(pattern, { extended: syntax === 'extended', ignoreCase }).source)
+
+  let source = sources.map(part => `(?:${part})`).join('|')
+  if (line) {
+    source = `^(?:${source})$`
+  } else if (word) {
+    source = `(?<!\\w)(?:${source})(?!\\w)`
+  }
+  return new RegExp(source, ignoreCase ? 'gi' : 'g')
+}
+
+// Non-empty matches in a line, in order
+function findMatches(regex: RegExp, line: string): Array<{ start: number; end: number }> {
+  const found: Array<{ start: number; end: number }> = []
+  regex.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(line)) !== null) {
+    if (match[0] === '') {
+      regex.lastIndex++
+      continue
+    }
+    found.push({ start: match.index, end: match.index + match[0].length })
+  }
+  return found
+}
+
+function matches(regex: RegExp, line: string): boolean {
+  regex.lastIndex = 0
+  return regex.test(line)
+}
+
+/**
+ * Parse a context length (-A, -B, -C), or null if it isn't one
+ */
+function contextLength(value: string | undefined): number | null {
+  if (value === undefined) return 0
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null
+}
+
+/**
+ * Files to search: the operands, with directories walked when recursive.
+ * Names are as grep prints them; `walked` is set once a directory is searched.
+ */
+function collectInputs(
+  { context, fs, stdin }: CommandInvocation,
+  operands: string[],
+  recursive: boolean
+): { inputs: Input[]; errors: string[]; walked: boolean } {
+  const inputs: Input[] = []
+  const errors: string[] = []
+  let walked = false
+
+  // `prefix` is what names inside a directory start with ('' for grep -r with no operands)
+  const visit = (name: string, path: string, prefix: string) => {
+    if (!fs.exists(path)) {
+      errors.push(`grep: ${name}: No such file or directory`)
+      return
+    }
+    const stat = fs.stat(path)
+    if (stat.owner === 'root' && !context.isSudo) {
+      errors.push(`grep: ${name}: Permission denied`)
+    } else if (!stat.isDirectory()) {
+      inputs.push({ name, content: fs.readFile(path, { encoding: 'utf8' }) as string })
+    } else if (!recursive) {
+      errors.push(`grep: ${name}: Is a directory`)
+    } else {
+      walked = true
+      for (const entry of fs.readdir(path).sort()) {
+        const child = `${prefix}${entry}`
+        visit(child, path === '/' ? `/${entry}` : `${path}/${entry}`, `${child}/`)
+      }
+    }
+  }
+
+  if (operands.length === 0 && recursive) {
+    visit('.', context.currentPath, '')
+  }
+  for (const operand of operands.length > 0 || recursive ? operands : ['-']) {
+    if (operand === '-') {
+      inputs.push({ name: STDIN_LABEL, content: stdin ?? '' })
+    } else {
+      const path = resolvePath(context.currentPath, operand, context.username)
+      visit(operand, path, `${operand.replace(/\/+$/, '')}/`)
+    }
+  }
+
+  return { inputs, errors, walked }
+}
+
+function grepCommand(invocation: CommandInvocation): CommandResult {
+  const { name, options } = invocation
+  const operands = [...options.args]
+
+  const patterns = options.values.get('e') ?? operands.splice(0, 1)
+  if (patterns.length === 0) return usageError()
+
+  const syntax: Syntax = name === 'fgrep' || options.flags.has('F') ? 'fixed'
+    : name === 'egrep' || options.flags.has('E') ? 'extended'
+    : 'basic'
+  const invert = options.flags.has('v')
+  const onlyMatching = options.flags.has('o')
+  const lineNumber = options.flags.has('n')
+  const countOnly = options.flags.has('c')
+  const listMatching = options.flags.has('l')
+  const listMissing = options.flags.has('L')
+  const quiet = options.flags.has('q')
+  const recursive = options.flags.has('r')
+
+  const around = contextLength(options.namedArgs.get('C'))
+  const before = options.namedArgs.has('B') ? contextLength(options.namedArgs.get('B')) : around
+  const after = options.namedArgs.has('A') ? contextLength(options.namedArgs.get('A')) : around
+  if (around === null || before === null || after === null) {
+    const value = ['A', 'B', 'C'].map(key => options.namedArgs.get(key)).find(value => contextLength(value) === null)
+    return { stdout: '', stderr: `grep: ${value}: invalid context length argument`, exitCode: 2 }
+  }
+
+  const maxCountValue = options.namedArgs.get('m')
+  if (maxCountValue !== undefined && !/^\d+$/.test(maxCountValue)) {
+    return { stdout: '', stderr: 'grep: invalid max count', exitCode: 2 }
+  }
+  const maxCount = maxCountValue === undefined ? Infinity : parseInt(maxCountValue, 10)
+
+  const when = options.namedArgs.get('color') ?? 'never'
+  if (!(when in COLOR_WHEN)) {
+    return usageError(`invalid argument '${when}' for '--color'\nValid arguments are:\n  - 'always', 'yes', 'force'\n  - 'never', 'no', 'none'\n  - 'auto', 'tty', 'if-tty'`)
+  }
+  const color = COLOR_WHEN[when]
+  const paint = (text: string, code: string) => (color ? `\x1b[${code}m\x1b[K${text}\x1b[m\x1b[K` : text)
+
+  let regex: RegExp
+  try {
+    // A pattern argument holds one pattern per line
+    const split = patterns.flatMap(pattern => pattern.split('\n'))
+    regex = buildRegex(split, syntax, options.flags.has('i'), options.flags.has('w'), options.flags.has('x'))
+  } catch (error) {
+    return { stdout: '', stderr: `grep: ${error instanceof Error ? error.message : String(error)}`, exitCode: 2 }
+  }
+
+  const { inputs, errors, walked } = collectInputs(invocation, operands, recursive)
+  const showName = options.flags.has('H') || (!options.flags.has('h') && (operands.length > 1 || walked))
+  const printLines = !countOnly && !listMatching && !listMissing && !quiet
+  const hasContext = printLines && !onlyMatching && (before > 0 || after > 0)
+  const messages = options.flags.has('s') ? [] : errors
+
+  const output: string[] = []
+  let selectedAny = false
+  let listedAny = false
+
+  for (const input of inputs) {
+    const lines = splitLines(input.content)
+    const prefix = (index: number, separator: string) =>
+      (showName ? paint(input.name, COLORS.file) + paint(separator, COLORS.separator) : '') +
+      (lineNumber ? paint(String(index + 1), COLORS.line) + paint(separator, COLORS.separator) : '')
+    const highlight = (line: string) => {
+      if (!color || invert) return line
+      let text = ''
+      let position = 0
+      for (const { start, end } of findMatches(regex, line)) {
+        text += line.slice(position, start) + paint(line.slice(start, end), COLORS.match)
+        position = end
+      }
+      return text + line.slice(position)
+    }
+
+    let count = 0
+    let lastPrinted: number | null = null
+    let afterLeft = 0
+
+    for (let i = 0; i < lines.length; i++) {
+      if (count < maxCount && matches(regex, lines[i]) !== invert) {
+        count++
+        if (quiet) return { stdout: '', stderr: messages.join('\n'), exitCode: 0 }
+        if (listMatching || listMissing) break
+        if (!printLines) continue
+
+        if (onlyMatching) {
+          for (const { start, end } of findMatches(regex, lines[i])) {
+            output.push(prefix(i, ':') + paint(lines[i].slice(start, end), COLORS.match))
+          }
+          continue
+        }
+
+        const from = lastPrinted === null ? Math.max(0, i - before) : Math.max(i - before, lastPrinted + 1)
+        if (hasContext && output.length > 0 && (lastPrinted === null || from > lastPrinted + 1)) {
+          output.push(paint('--', COLORS.separator))
+        }
+        for (let j = from; j < i; j++) output.push(prefix(j, '-') + lines[j])
+        output.push(prefix(i, ':') + highlight(lines[i]))
+        lastPrinted = i
+        afterLeft = after
+      } else if (printLines && afterLeft > 0) {
+        output.push(prefix(i, '-') + highlight(lines[i]))
+        lastPrinted = i
+        afterLeft--
+      } else if (count >= maxCount) {
+        break
+      }
+    }
+
+    if (count > 0) selectedAny = true
+    if (countOnly) {
+      output.push((showName ? paint(input.name, COLORS.file) + paint(':', COLORS.separator) : '') + count)
+    }
+    if ((listMatching && count > 0) || (listMissing && count === 0)) {
+      output.push(paint(input.name, COLORS.file))
+      listedAny = true
+    }
+  }
+
+  const found = listMissing ? listedAny : selectedAny
+  return {
+    stdout: output.join('\n'),
+    stderr: messages.join('\n'),
+    exitCode: errors.length > 0 ? 2 : found ? 0 : 1,
+  }
+}
+
+commandRegistry.registerAll([
+  {
+    name: 'grep',
+    aliases: ['egrep', 'fgrep'],
+    summary: 'print lines that match patterns',
+    usage: 'grep [OPTION]... PATTERNS [FILE]...',
+    manPage:
+      'Search for PATTERNS in each FILE, or in standard input when there is none (or for "-").\n' +
+      'PATTERNS is one or more patterns separated by newlines. They are basic regular expressions\n' +
+      '(BRE, where \\( \\) \\{ \\} \\+ \\? \\| are operators) unless -E makes them extended or -F fixed\n' +
+      'strings. -r searches directories, and the current one when no FILE is given.\n' +
+      'egrep is grep -E and fgrep is grep -F. --color marks matches, file names and line numbers in\n' +
+      'the colours of GNU grep; auto colours too, since the simulated terminal is always a tty.\n' +
+      'Exit status is 0 if a line is selected, 1 if none is, and 2 if an error occurred.',
+    options: [
+      { flags: ['-E', '--extended-regexp'], description: 'PATTERNS are extended regular expressions' },
+      { flags: ['-F', '--fixed-strings'], description: 'PATTERNS are strings' },
+      { flags: ['-G', '--basic-regexp'], description: 'PATTERNS are basic regular expressions' },
+      { flags: ['-e', '--regexp'], value: 'PATTERNS', repeatable: true, description: 'use PATTERNS for matching' },
+      { flags: ['-i', '--ignore-case'], description: 'ignore case distinctions in patterns and data' },
+      { flags: ['-w', '--word-regexp'], description: 'match only whole words' },
+      { flags: ['-x', '--line-regexp'], description: 'match only whole lines' },
+      { flags: ['-v', '--invert-match'], description: 'select non-matching lines' },
+      { flags: ['-m', '--max-count'], value: 'NUM', description: 'stop after NUM selected lines' },
+      { flags: ['-n', '--line-number'], description: 'print line number with output lines' },
+      { flags: ['-H', '--with-filename'], description: 'print file name with output lines' },
+      { flags: ['-h', '--no-filename'], description: 'suppress the file name prefix on output' },
+      { flags: ['-o', '--only-matching'], description: 'show only nonempty parts of lines that match' },
+      { flags: ['-q', '--quiet', '--silent'], description: 'suppress all normal output' },
+      { flags: ['-s', '--no-messages'], description: 'suppress error messages' },
+      { flags: ['-r', '-R', '--recursive'], description: 'search directories recursively' },
+      { flags: ['-L', '--files-without-match'], description: 'print only names of FILEs with no selected lines' },
+      { flags: ['-l', '--files-with-matches'], description: 'print only names of FILEs with selected lines' },
+      { flags: ['-c', '--count'], description: 'print only a count of selected lines per FILE' },
+      { flags: ['-B', '--before-context'], value: 'NUM', description: 'print NUM lines of leading context' },
+      { flags: ['-A', '--after-context'], value: 'NUM', description: 'print NUM lines of trailing context' },
+      { flags: ['-C', '--context'], value: 'NUM', description: 'print NUM lines of output context' },
+      { flags: ['--color', '--colour'], value: 'WHEN', optionalValue: true, description: "use markers to highlight the matching strings; WHEN is 'always', 'never', or 'auto'" },
+    ],
+    numericOption: 'C',
+    usageStatus: 2,
+    readsStdin: true,
+    examples: [
+      'grep "pattern" file.txt',
+      'grep -r "search" /directory/',
+      'grep -i "case-insensitive" file.txt',
+      "grep -E 'ERROR|WARN' -C 2 /logs/sys.log",
+      'grep -c 404 /logs/access.log',
+      "ps aux | grep -w omega",
+    ],
+    run: grepCommand,
+  },
+])
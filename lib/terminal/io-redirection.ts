@@ -1,91 +1,128 @@
 /**
  * I/O Redirection Handler
- * Handles >, >>, <, and <<EOF (heredoc) redirection patterns
+ * Handles >, >>, <<EOF (heredoc) and fd-aware stream redirection
+ * (2>, 2>&1, &>, /dev/null, /dev/stdout and /dev/stderr). Input
+ * redirection (<) stays in the command for the shell to apply.
  */
 
 import { MEMFS } from './memfs'
+import { parseShell, formatShell, wordToString, collectRedirects, Redirect, SimpleCommand } from './shell-parser'
 
 export interface RedirectionResult {
   hasRedirection: boolean
   command: string // Command without redirection
-  type: 'output' | 'append' | 'input' | 'heredoc' | 'none'
-  target?: string // Target file path
+  type: 'output' | 'append' | 'heredoc' | 'none' // 'none' when only stderr is redirected
+  target?: string // Target file path (for output, the file stdout ends up in)
+  streams?: StreamRedirect[] // stdout/stderr redirections in the order they apply
   heredocMarker?: string // Marker for heredoc (e.g., "EOF")
   error?: string
 }
 
+/**
+ * One stdout/stderr redirection
+ */
+export interface StreamRedirect {
+  fd: number | null // 1 or 2; null for &>, &>> and `>& file`, which take both streams
+  op: '>' | '>>' | '>&'
+  target: string    // File name, or the fd being duplicated for >&
+}
+
+export interface CommandStreams {
+  stdout: string
+  stderr: string
+}
+
 export interface RedirectionExecutionResult {
   success: boolean
   output?: string
+  stdout?: string  // Output still bound for the terminal after redirection
+  stderr?: string  // Errors still bound for the terminal after redirection
+  files?: string[] // Files that received output
   error?: string
   needsHeredocInput?: boolean
   heredocMarker?: string
 }
 
+// Where an output fd currently points
+type Destination =
+  | { kind: 'stdout' }
+  | { kind: 'stderr' }
+  | { kind: 'null' }
+  | { kind: 'file'; path: string; name: string }
+
+const OUTPUT_OPS = new Set(['>', '>>', '>|', '>&', '&>', '&>>'])
+
 /**
  * Parse command for I/O redirection patterns
+ * Uses the shell AST so quoted `>` characters and fd-numbered redirects
+ * (e.g. 2>) are never mistaken for stdout redirection
  */
 export function parseRedirection(command: string): RedirectionResult {
   const trimmed = command.trim()
+  const { ast } = parseShell(trimmed)
 
-  // Check for heredoc (<<MARKER or <<'MARKER')
-  const heredocMatch = trimmed.match(/<<\s*['"]?(\w+)['"]?\s*(.*)$/)
-  if (heredocMatch) {
-    const marker = heredocMatch[1]
-    const rest = heredocMatch[2].trim()
-    
-    // Extract command before <<
-    const beforeHeredoc = trimmed.substring(0, trimmed.indexOf('<<')).trim()
-    
-    // Extract target file if using >> before heredoc
-    let targetMatch = beforeHeredoc.match(/>>\s+(\S+)$/)
-    if (!targetMatch) {
-      targetMatch = beforeHeredoc.match(/>\s+(\S+)$/)
-    }
-    
-    const baseCommand = targetMatch 
-      ? beforeHeredoc.substring(0, beforeHeredoc.lastIndexOf('>')).trim()
-      : beforeHeredoc
-
+  if (!ast) {
     return {
-      hasRedirection: true,
-      command: baseCommand || 'cat',
-      type: 'heredoc',
-      target: targetMatch ? targetMatch[1] : undefined,
-      heredocMarker: marker,
+      hasRedirection: false,
+      command: trimmed,
+      type: 'none',
     }
   }
 
-  // Check for append (>>)
-  const appendMatch = trimmed.match(/^(.+?)\s+>>\s+(\S+)$/)
-  if (appendMatch) {
-    return {
-      hasRedirection: true,
-      command: appendMatch[1].trim(),
-      type: 'append',
-      target: appendMatch[2],
+  // Redirections attached to top-level simple commands
+  // Earlier pipeline stages keep their stream redirections, which the stage
+  // itself applies (as in `find / 2>/dev/null | grep log`)
+  const owners = new Map<Redirect, SimpleCommand>()
+  for (const item of ast.items) {
+    const pipelines = [item.command.first, ...item.command.rest.map(r => r.pipeline)]
+    for (const pipeline of pipelines) {
+      pipeline.commands.forEach((cmd, index) => {
+        if (cmd.type !== 'simple') return
+        const last = index === pipeline.commands.length - 1
+        cmd.redirects
+          .filter(redirect => last || !OUTPUT_OPS.has(redirect.op))
+          .forEach(redirect => owners.set(redirect, cmd))
+      })
+    }
+  }
+  const redirects = Array.from(owners.keys())
+
+  const isStdout = (r: Redirect) => r.fd === null || r.fd === 1
+  const remove = (...targets: Array<Redirect | undefined>) => {
+    for (const target of targets) {
+      if (!target) continue
+      const owner = owners.get(target)!
+      owner.redirects = owner.redirects.filter(r => r !== target)
     }
   }
 
-  // Check for output redirection (>)
-  const outputMatch = trimmed.match(/^(.+?)\s+>\s+(\S+)$/)
-  if (outputMatch) {
+  // Heredoc (<<MARKER or <<'MARKER'), optionally combined with > or >>
+  const heredoc = redirects.find(r => (r.op === '<<' || r.op === '<<-') && r.heredoc)
+  if (heredoc) {
+    const output = [...redirects].reverse().find(r => (r.op === '>' || r.op === '>>') && isStdout(r))
+    remove(heredoc, output)
+
     return {
       hasRedirection: true,
-      command: outputMatch[1].trim(),
-      type: 'output',
-      target: outputMatch[2],
+      command: formatShell(ast) || 'cat',
+      type: 'heredoc',
+      target: output ? wordToString(output.target) : undefined,
+      heredocMarker: heredoc.heredoc!.delimiter,
     }
   }
 
-  // Check for input redirection (<)
-  const inputMatch = trimmed.match(/^(.+?)\s+<\s+(\S+)$/)
-  if (inputMatch) {
+  // Output (>, >>, 2>, 2>&1, &> ...), applied left to right like bash
+  const outputs = redirects.filter(r => OUTPUT_OPS.has(r.op))
+  if (outputs.length > 0) {
+    remove(...outputs)
+    const streams = outputs.map(toStreamRedirect)
+    const stdout = findStdoutFile(streams)
     return {
       hasRedirection: true,
-      command: inputMatch[1].trim(),
-      type: 'input',
-      target: inputMatch[2],
+      command: formatShell(ast),
+      type: stdout ? (stdout.op === '>>' ? 'append' : 'output') : 'none',
+      target: stdout?.target,
+      streams,
     }
   }
 
@@ -96,21 +133,55 @@ export function parseRedirection(command: string): RedirectionResult {
   }
 }
 
+function toStreamRedirect(redirect: Redirect): StreamRedirect {
+  const target = wordToString(redirect.target)
+  switch (redirect.op) {
+    case '&>':
+      return { fd: null, op: '>', target }
+    case '&>>':
+      return { fd: null, op: '>>', target }
+    case '>&':
+      // `>& file` is &>; `N>&M` duplicates fd M
+      if (!/^\d+$/.test(target) && target !== '-') return { fd: null, op: '>', target }
+      return { fd: redirect.fd ?? 1, op: '>&', target }
+    default:
+      return { fd: redirect.fd ?? 1, op: redirect.op === '>>' ? '>>' : '>', target }
+  }
+}
+
+// The last redirection sending stdout to a real file
+function findStdoutFile(streams: StreamRedirect[]): StreamRedirect | undefined {
+  return [...streams].reverse().find(
+    r => (r.fd === null || r.fd === 1) && r.op !== '>&' && !r.target.startsWith('/dev/')
+  )
+}
+
 /**
  * Execute command with redirection
+ * Output redirection takes the command's stdout and stderr and returns
+ * whatever is still bound for the terminal in `stdout` and `stderr`
  */
 export async function executeWithRedirection(
   redirection: RedirectionResult,
-  commandOutput: string,
+  commandOutput: string | CommandStreams,
   fs: MEMFS,
   currentPath: string,
   heredocLines?: string[]
 ): Promise<RedirectionExecutionResult> {
-  
+  const streams = typeof commandOutput === 'string'
+    ? { stdout: commandOutput, stderr: '' }
+    : commandOutput
+
+  if (redirection.streams && redirection.streams.length > 0) {
+    return handleStreamRedirection(fs, currentPath, redirection.streams, streams)
+  }
+
   if (!redirection.hasRedirection || redirection.type === 'none') {
     return {
       success: true,
-      output: commandOutput,
+      output: streams.stdout,
+      stdout: streams.stdout,
+      stderr: streams.stderr,
     }
   }
 
@@ -120,15 +191,11 @@ export async function executeWithRedirection(
     switch (redirection.type) {
       case 'output':
         // Overwrite file with command output
-        return handleOutputRedirection(fs, targetPath, commandOutput, false)
+        return handleStreamRedirection(fs, currentPath, [{ fd: 1, op: '>', target: targetPath }], streams)
 
       case 'append':
         // Append command output to file
-        return handleOutputRedirection(fs, targetPath, commandOutput, true)
-
-      case 'input':
-        // Input redirection (< file)
-        return handleInputRedirection(fs, targetPath)
+        return handleStreamRedirection(fs, currentPath, [{ fd: 1, op: '>>', target: targetPath }], streams)
 
       case 'heredoc':
         // Heredoc (<<EOF)
@@ -149,35 +216,79 @@ export async function executeWithRedirection(
 }
 
 /**
- * Handle > and >> redirection
+ * Handle >, >>, 2>, N>&M and &> redirection
+ * Files are opened (and truncated) in order even when nothing is written,
+ * then each stream is delivered to wherever its fd ends up
  */
-function handleOutputRedirection(
+function handleStreamRedirection(
   fs: MEMFS,
-  targetPath: string,
-  content: string,
-  append: boolean
+  currentPath: string,
+  redirects: StreamRedirect[],
+  streams: CommandStreams
 ): RedirectionExecutionResult {
+  const fds: Record<1 | 2, Destination> = { 1: { kind: 'stdout' }, 2: { kind: 'stderr' } }
+  const files: string[] = []
+
   try {
-    // Create parent directory if needed
-    const parentDir = targetPath.substring(0, targetPath.lastIndexOf('/'))
-    if (parentDir && !fs.exists(parentDir)) {
-      fs.mkdirTree(parentDir)
+    for (const redirect of redirects) {
+      let destination: Destination
+
+      if (redirect.op === '>&') {
+        if (redirect.target === '-') {
+          destination = { kind: 'null' } // N>&- closes the fd
+        } else if (redirect.target === '1' || redirect.target === '2') {
+          destination = fds[redirect.target === '1' ? 1 : 2]
+        } else {
+          return { success: false, error: `bash: ${redirect.target}: Bad file descriptor` }
+        }
+      } else {
+        const opened = openOutput(fs, currentPath, redirect.target, redirect.op === '>>', fds)
+        if (typeof opened === 'string') {
+          return { success: false, error: opened }
+        }
+        destination = opened
+      }
+
+      if (redirect.fd === null) {
+        fds[1] = destination
+        fds[2] = destination
+      } else if (redirect.fd === 1 || redirect.fd === 2) {
+        fds[redirect.fd] = destination
+      }
     }
 
-    // Get existing content if appending
-    let finalContent = content
-    if (append && fs.exists(targetPath)) {
-      const existing = fs.readFile(targetPath, { encoding: 'utf8' }) as string
-      finalContent = existing + '\n' + content
+    const result: RedirectionExecutionResult = { success: true, stdout: '', stderr: '', files }
+    const deliver = (text: string, destination: Destination) => {
+      if (!text) return
+      switch (destination.kind) {
+        case 'stdout':
+          result.stdout = result.stdout ? `${result.stdout}\n${text}` : text
+          break
+        case 'stderr':
+          result.stderr = result.stderr ? `${result.stderr}\n${text}` : text
+          break
+        case 'file': {
+          const existing = fs.readFile(destination.path, { encoding: 'utf8' }) as string
+          fs.writeFile(destination.path, existing ? `${existing}\n${text}` : text)
+          if (!files.includes(destination.name)) files.push(destination.name)
+          break
+        }
+      }
     }
 
-    // Write to file
-    fs.writeFile(targetPath, finalContent)
+    if (fds[1] === fds[2]) {
+      deliver([streams.stdout, streams.stderr].filter(Boolean).join('\n'), fds[1])
+    } else {
+      deliver(streams.stdout, fds[1])
+      deliver(streams.stderr, fds[2])
+    }
 
-    return {
-      success: true,
-      output: '', // Redirection is silent
+    // A file named in the command counts as written even when left empty
+    for (const destination of [fds[1], fds[2]]) {
+      if (destination.kind === 'file' && !files.includes(destination.name)) files.push(destination.name)
     }
+
+    return result
   } catch (error) {
     return {
       success: false,
@@ -187,32 +298,36 @@ function handleOutputRedirection(
 }
 
 /**
- * Handle < input redirection
+ * Open an output target, truncating it unless appending
+ * Returns an error message when the file can't be written
  */
-function handleInputRedirection(
+function openOutput(
   fs: MEMFS,
-  sourcePath: string
-): RedirectionExecutionResult {
-  try {
-    if (!fs.exists(sourcePath)) {
-      return {
-        success: false,
-        error: `${sourcePath}: No such file or directory`,
-      }
-    }
-
-    const content = fs.readFile(sourcePath, { encoding: 'utf8' }) as string
+  currentPath: string,
+  name: string,
+  append: boolean,
+  fds: Record<1 | 2, Destination>
+): Destination | string {
+  const path = resolvePath(name, currentPath)
+
+  // Special files: the bit bucket and the current stdout/stderr
+  if (path === '/dev/null') return { kind: 'null' }
+  if (path === '/dev/stdout') return fds[1]
+  if (path === '/dev/stderr') return fds[2]
+
+  // Create parent directory if needed
+  const parentDir = path.substring(0, path.lastIndexOf('/'))
+  if (parentDir && !fs.exists(parentDir)) {
+    fs.mkdirTree(parentDir)
+  }
 
-    return {
-      success: true,
-      output: content,
-    }
-  } catch (error) {
-    return {
-      success: false,
-      error: `Input redirection error: ${error instanceof Error ? error.message : 'Read failed'}`,
-    }
+  const exists = fs.exists(path)
+  if (exists && fs.stat(path).isDirectory()) {
+    return `bash: ${name}: Is a directory`
   }
+  if (!append || !exists) fs.writeFile(path, '')
+
+  return { kind: 'file', path, name }
 }
 
 /**
@@ -289,6 +404,23 @@ function resolvePath(path: string, currentPath: string): string {
   return `${currentPath}/${path}`.replace(/\/+/g, '/')
 }
 
+/**
+ * Input a command line feeds its commands through heredocs and here-strings,
+ * as typed (before expansion)
+ */
+export function collectHeredocInput(command: string): string {
+  const { ast } = parseShell(command)
+  if (!ast) return ''
+
+  return collectRedirects(ast)
+    .map(redirect => {
+      if (redirect.heredoc) return redirect.heredoc.body ?? ''
+      if (redirect.op === '<<<') return wordToString(redirect.target) + '\n'
+      return ''
+    })
+    .join('')
+}
+
 /**
  * Check if line is heredoc terminator
  */
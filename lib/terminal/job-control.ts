@@ -0,0 +1,286 @@
+/**
+ * Job Control
+ * Simulated jobs for the interactive shell. Long-running programs (sleep,
+ * ping without -c, tail -f) advance on timers and can run in the foreground
+ * or background, be stopped with Ctrl+Z, resumed with fg/bg and killed with
+ * kill %n. Background jobs that end are reported at the next prompt.
+ */
+
+/**
+ * A simulated long-running program
+ */
+export interface JobProcess {
+  interval: number           // Milliseconds between ticks
+  start?: () => string       // Output as soon as it starts (tail -f prints the last lines)
+  tick: () => JobTick
+  interrupt?: () => string   // Output when interrupted with Ctrl+C (ping prints statistics)
+  input?: (key: string) => JobTick // A key typed while it holds the terminal (q quits top)
+}
+
+export interface JobTick {
+  output?: string
+  exitCode?: number // Set when the program has finished
+}
+
+export type JobState = 'running' | 'stopped'
+
+export interface Job {
+  id: number
+  pid: number
+  command: string
+  state: JobState
+  background: boolean
+}
+
+export interface JobListener {
+  onOutput?: (job: Job, output: string) => void
+  onExit?: (job: Job, exitCode: number) => void // A foreground job finished, was stopped or killed
+}
+
+export interface Signal {
+  name: string
+  number: number
+  description: string // Shown when a job is killed by it ("Terminated")
+}
+
+export const SIGNALS: Signal[] = [
+  { name: 'HUP', number: 1, description: 'Hangup' },
+  { name: 'INT', number: 2, description: 'Interrupt' },
+  { name: 'QUIT', number: 3, description: 'Quit' },
+  { name: 'KILL', number: 9, description: 'Killed' },
+  { name: 'TERM', number: 15, description: 'Terminated' },
+  { name: 'CONT', number: 18, description: 'Continued' },
+  { name: 'STOP', number: 19, description: 'Stopped (signal)' },
+  { name: 'TSTP', number: 20, description: 'Stopped' },
+]
+
+/**
+ * Look a signal up by name (TERM, SIGTERM, term) or number
+ */
+export function findSignal(spec: string): Signal | undefined {
+  const name = spec.toUpperCase().replace(/^SIG/, '')
+  return SIGNALS.find(signal => signal.name === name || String(signal.number) === spec)
+}
+
+interface JobEntry {
+  job: Job
+  process: JobProcess
+  timer?: ReturnType<typeof setInterval>
+}
+
+// First pid handed to a job
+const FIRST_PID = 2000
+
+/**
+ * Job Table
+ */
+export class JobTable {
+  private entries = new Map<number, JobEntry>()
+  private recent: number[] = [] // Job ids, most recently started or stopped last (%+ then %-)
+  private notices: string[] = []
+  private foregroundId: number | null = null
+  private nextPid = FIRST_PID
+  private listener: JobListener = {}
+
+  setListener(listener: JobListener): void {
+    this.listener = listener
+  }
+
+  /**
+   * Start a program as a job
+   */
+  start(command: string, process: JobProcess, background: boolean): Job {
+    const id = Math.max(0, ...Array.from(this.entries.keys())) + 1
+    const job: Job = { id, pid: this.nextPid++, command, state: 'running', background }
+    this.entries.set(id, { job, process })
+    this.touch(id)
+    if (!background) this.foregroundId = id
+
+    const output = process.start?.()
+    if (output) this.listener.onOutput?.({ ...job }, output)
+    this.schedule(id)
+    return { ...job }
+  }
+
+  /**
+   * Jobs in the table, by id
+   */
+  getJobs(): Job[] {
+    return Array.from(this.entries.values()).map(entry => ({ ...entry.job }))
+  }
+
+  /**
+   * The job running in the foreground, which holds the prompt
+   */
+  getForeground(): Job | null {
+    return this.foregroundId === null ? null : this.get(this.foregroundId)
+  }
+
+  get(id: number): Job | null {
+    const entry = this.entries.get(id)
+    return entry ? { ...entry.job } : null
+  }
+
+  /**
+   * Resolve a job spec: %n, %%, %+, %-, %prefix, %?text (the current job if omitted)
+   */
+  resolve(spec?: string): Job | null {
+    const current = this.recent[this.recent.length - 1]
+    if (spec === undefined || spec === '%%' || spec === '%+' || spec === '%') {
+      return current === undefined ? null : this.get(current)
+    }
+    if (spec === '%-') {
+      const previous = this.recent[this.recent.length - 2]
+      return previous === undefined ? null : this.get(previous)
+    }
+
+    const text = spec.replace(/^%/, '')
+    if (/^\d+$/.test(text)) return this.get(parseInt(text, 10))
+
+    const matches = this.getJobs().filter(job =>
+      text.startsWith('?') ? job.command.includes(text.slice(1)) : job.command.startsWith(text)
+    )
+    return matches.length === 1 ? matches[0] : null
+  }
+
+  /**
+   * Find a job by process id
+   */
+  findByPid(pid: number): Job | null {
+    return this.getJobs().find(job => job.pid === pid) ?? null
+  }
+
+  /**
+   * Stop a job (Ctrl+Z, kill -STOP)
+   */
+  stop(id: number): Job | null {
+    const entry = this.entries.get(id)
+    if (!entry) return null
+    this.clearTimer(entry)
+    entry.job.state = 'stopped'
+    entry.job.background = true
+    this.touch(id)
+    this.releaseForeground(entry, 148)
+    return { ...entry.job }
+  }
+
+  /**
+   * Continue a job in the foreground (fg) or background (bg, kill -CONT)
+   */
+  resume(id: number, background: boolean): Job | null {
+    const entry = this.entries.get(id)
+    if (!entry) return null
+    entry.job.background = background
+    if (!background) this.foregroundId = id
+    if (entry.job.state === 'stopped') {
+      entry.job.state = 'running'
+      this.schedule(id)
+    }
+    return { ...entry.job }
+  }
+
+  /**
+   * End a job with a signal. Ctrl+C (INT) on the foreground job prints what
+   * the program prints when interrupted; background jobs are reported at the
+   * next prompt.
+   */
+  kill(id: number, signal: Signal = findSignal('TERM')!): Job | null {
+    const entry = this.entries.get(id)
+    if (!entry) return null
+
+    if (signal.name === 'STOP' || signal.name === 'TSTP') return this.stop(id)
+    if (signal.name === 'CONT') return this.resume(id, entry.job.background)
+
+    const output = signal.name === 'INT' ? entry.process.interrupt?.() : undefined
+    if (output) this.listener.onOutput?.({ ...entry.job }, output)
+    this.remove(entry, 128 + signal.number, signal.description)
+    return { ...entry.job }
+  }
+
+  /**
+   * Pass a key typed at the terminal to a job
+   */
+  input(id: number, key: string): void {
+    const entry = this.entries.get(id)
+    const tick = entry?.process.input?.(key)
+    if (entry && tick) this.handleTick(entry, tick)
+  }
+
+  /**
+   * Notices about background jobs that ended, to print before the next prompt
+   */
+  takeNotices(): string[] {
+    const notices = this.notices
+    this.notices = []
+    return notices
+  }
+
+  /**
+   * `jobs` line: [1]+  Running                 sleep 100 &
+   */
+  format(job: Job, status?: string, showPid = false): string {
+    const marker = this.marker(job.id)
+    const state = status ?? (job.state === 'running' ? 'Running' : 'Stopped')
+    const command = job.state === 'running' && job.background && !status ? `${job.command} &` : job.command
+    return `[${job.id}]${marker}${showPid ? ` ${job.pid}` : ' '} ${state.padEnd(24)}${command}`
+  }
+
+  /**
+   * Stop every timer and forget all jobs (session reset)
+   */
+  clear(): void {
+    this.entries.forEach(entry => this.clearTimer(entry))
+    this.entries.clear()
+    this.recent = []
+    this.notices = []
+    this.foregroundId = null
+  }
+
+  private marker(id: number): string {
+    if (id === this.recent[this.recent.length - 1]) return '+'
+    if (id === this.recent[this.recent.length - 2]) return '-'
+    return ' '
+  }
+
+  private touch(id: number): void {
+    this.recent = [...this.recent.filter(other => other !== id), id]
+  }
+
+  private schedule(id: number): void {
+    const entry = this.entries.get(id)
+    if (!entry) return
+    this.clearTimer(entry)
+    entry.timer = setInterval(() => this.handleTick(entry, entry.process.tick()), entry.process.interval)
+  }
+
+  private handleTick(entry: JobEntry, { output, exitCode }: JobTick): void {
+    if (output) this.listener.onOutput?.({ ...entry.job }, output)
+    if (exitCode !== undefined) this.remove(entry, exitCode, exitCode === 0 ? 'Done' : `Exit ${exitCode}`)
+  }
+
+  private remove(entry: JobEntry, exitCode: number, status: string): void {
+    this.clearTimer(entry)
+    if (entry.job.background) {
+      this.notices.push(this.format(entry.job, status))
+    }
+    this.entries.delete(entry.job.id)
+    this.recent = this.recent.filter(id => id !== entry.job.id)
+    this.releaseForeground(entry, exitCode)
+  }
+
+  private releaseForeground(entry: JobEntry, exitCode: number): void {
+    if (this.foregroundId !== entry.job.id) return
+    this.foregroundId = null
+    this.listener.onExit?.({ ...entry.job }, exitCode)
+  }
+
+  private clearTimer(entry: JobEntry): void {
+    if (entry.timer !== undefined) clearInterval(entry.timer)
+    entry.timer = undefined
+  }
+}
+
+/**
+ * The job table of the interactive shell
+ */
+export const jobTable = new JobTable()
@@ -0,0 +1,398 @@
+/**
+ * Line Editor
+ * Readline-style editing of the input line: cursor and word motions,
+ * kill/yank, reverse history search, and redraws that stay correct when the
+ * line wraps
+ */
+
+export interface HistoryMatch {
+  index: number // Position in the history, passed back to find older matches
+  line: string
+}
+
+export interface LineEditorOptions {
+  getColumns: () => number // Current terminal width
+  // Latest history entry before `before` containing `query`
+  searchHistory?: (query: string, before: number) => HistoryMatch | null
+}
+
+interface SearchState {
+  query: string
+  index: number // Index of the shown match (Infinity before the first one)
+  failed: boolean
+  original: string // Line to restore on Ctrl+G
+}
+
+/**
+ * Keys the editor hands back to the terminal
+ */
+export type EditorCommand =
+  | 'submit'   // Enter
+  | 'cancel'   // Ctrl+C
+  | 'eof'      // Ctrl+D on an empty line
+  | 'clear'    // Ctrl+L
+  | 'complete' // Tab
+  | 'previous' // Up, Ctrl+P
+  | 'next'     // Down, Ctrl+N
+
+export interface KeyResult {
+  output: string // Escape sequences to write to the terminal
+  command?: EditorCommand
+}
+
+// Escape sequences for keys with more than one common encoding
+const KEY_ALIASES: Record<string, string> = {
+  '\x1b[A': 'up', '\x1bOA': 'up', '\x10': 'up',
+  '\x1b[B': 'down', '\x1bOB': 'down', '\x0e': 'down',
+  '\x1b[C': 'right', '\x1bOC': 'right', '\x06': 'right',
+  '\x1b[D': 'left', '\x1bOD': 'left', '\x02': 'left',
+  '\x1b[H': 'home', '\x1bOH': 'home', '\x1b[1~': 'home', '\x01': 'home',
+  '\x1b[F': 'end', '\x1bOF': 'end', '\x1b[4~': 'end', '\x05': 'end',
+  '\x1bb': 'word-left', '\x1b[1;5D': 'word-left', '\x1b[1;3D': 'word-left',
+  '\x1bf': 'word-right', '\x1b[1;5C': 'word-right', '\x1b[1;3C': 'word-right',
+  '\x1b[3~': 'delete',
+  '\x7f': 'backspace', '\x08': 'backspace',
+  '\x1bd': 'kill-word', '\x1b\x7f': 'backward-kill-word',
+  '\x0b': 'kill-line', '\x15': 'unix-line-discard', '\x17': 'unix-word-rubout', '\x19': 'yank',
+  '\r': 'enter', '\n': 'enter', '\t': 'tab',
+  '\x03': 'ctrl-c', '\x04': 'ctrl-d', '\x0c': 'ctrl-l', '\x12': 'ctrl-r', '\x07': 'ctrl-g',
+}
+
+/**
+ * Split terminal input into keys: escape sequences, control characters and
+ * runs of printable text (a paste arrives as one chunk)
+ */
+export function splitKeys(data: string): string[] {
+  const keys: string[] = []
+  let i = 0
+
+  while (i < data.length) {
+    const ch = data[i]
+
+    if (ch === '\x1b') {
+      const csi = /^\x1b\[[0-9;]*[~A-Za-z]/.exec(data.slice(i))
+      const length = csi ? csi[0].length : data[i + 1] === 'O' ? 3 : Math.min(2, data.length - i)
+      keys.push(data.slice(i, i + length))
+      i += length
+    } else if (ch === '\r' && data[i + 1] === '\n') {
+      keys.push('\r')
+      i += 2
+    } else if (ch < ' ' || ch === '\x7f') {
+      keys.push(ch)
+      i++
+    } else {
+      let end = i
+      while (end < data.length && data[end] >= ' ' && data[end] !== '\x7f') end++
+      keys.push(data.slice(i, end))
+      i = end
+    }
+  }
+  return keys
+}
+
+/**
+ * Width of text on screen, ignoring color codes
+ */
+export function visibleWidth(text: string): number {
+  return text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '').length
+}
+
+/**
+ * Editable input line
+ */
+export class LineEditor {
+  private buffer = ''
+  private cursor = 0
+  private prompt = ''
+  private promptWidth = 0
+  private renderedCursor = 0 // Where the terminal cursor is, as an index into buffer
+  private killRing = ''
+  private lastWasKill = false
+  private search: SearchState | null = null
+  private getColumns: () => number
+  private searchHistory?: (query: string, before: number) => HistoryMatch | null
+
+  constructor(options: LineEditorOptions) {
+    this.getColumns = options.getColumns
+    this.searchHistory = options.searchHistory
+  }
+
+  /**
+   * Start a new, empty line after a prompt the terminal has just written
+   */
+  reset(prompt: string): void {
+    this.buffer = ''
+    this.cursor = 0
+    this.renderedCursor = 0
+    // Only the last line of a multi-line prompt is redrawn with the input
+    this.prompt = prompt.slice(prompt.lastIndexOf('\n') + 1)
+    this.promptWidth = visibleWidth(this.prompt)
+    this.search = null
+  }
+
+  isSearching(): boolean {
+    return this.search !== null
+  }
+
+  getLine(): string {
+    return this.buffer
+  }
+
+  getCursor(): number {
+    return this.cursor
+  }
+
+  /**
+   * Replace the whole line (history recall, completion), by default with the
+   * cursor at its end
+   */
+  setLine(text: string, cursor = text.length): string {
+    this.buffer = text
+    this.cursor = cursor
+    return this.redraw()
+  }
+
+  /**
+   * Move the terminal cursor past the end of the line, e.g. before output
+   */
+  moveToEnd(): string {
+    this.cursor = this.buffer.length
+    return this.redraw()
+  }
+
+  /**
+   * Redraw the prompt and line from scratch, e.g. after clearing the screen
+   */
+  render(): string {
+    this.renderedCursor = 0
+    return this.currentPrompt() + this.redraw()
+  }
+
+  /**
+   * Apply one key from splitKeys()
+   */
+  handleKey(key: string): KeyResult {
+    const action = KEY_ALIASES[key] ?? (key >= ' ' && !key.startsWith('\x1b') ? 'insert' : 'ignore')
+    if (this.search) return this.handleSearchKey(key, action)
+
+    const wasKill = this.lastWasKill
+    this.lastWasKill = false
+
+    switch (action) {
+      case 'insert':
+        this.buffer = this.buffer.slice(0, this.cursor) + key + this.buffer.slice(this.cursor)
+        this.cursor += key.length
+        break
+      case 'left':
+        this.cursor = Math.max(0, this.cursor - 1)
+        break
+      case 'right':
+        this.cursor = Math.min(this.buffer.length, this.cursor + 1)
+        break
+      case 'home':
+        this.cursor = 0
+        break
+      case 'end':
+        this.cursor = this.buffer.length
+        break
+      case 'word-left':
+        this.cursor = this.wordStart(this.cursor)
+        break
+      case 'word-right':
+        this.cursor = this.wordEnd(this.cursor)
+        break
+      case 'backspace':
+        if (this.cursor === 0) return { output: '' }
+        this.buffer = this.buffer.slice(0, this.cursor - 1) + this.buffer.slice(this.cursor)
+        this.cursor--
+        break
+      case 'delete':
+        this.buffer = this.buffer.slice(0, this.cursor) + this.buffer.slice(this.cursor + 1)
+        break
+      case 'kill-line':
+        this.kill(this.cursor, this.buffer.length, wasKill, false)
+        break
+      case 'unix-line-discard':
+        this.kill(0, this.cursor, wasKill, true)
+        break
+      case 'unix-word-rubout': {
+        // Ctrl+W stops at whitespace, unlike Alt+Backspace
+        let start = this.cursor
+        while (start > 0 && /\s/.test(this.buffer[start - 1])) start--
+        while (start > 0 && !/\s/.test(this.buffer[start - 1])) start--
+        this.kill(start, this.cursor, wasKill, true)
+        break
+      }
+      case 'backward-kill-word':
+        this.kill(this.wordStart(this.cursor), this.cursor, wasKill, true)
+        break
+      case 'kill-word':
+        this.kill(this.cursor, this.wordEnd(this.cursor), wasKill, false)
+        break
+      case 'yank':
+        this.buffer = this.buffer.slice(0, this.cursor) + this.killRing + this.buffer.slice(this.cursor)
+        this.cursor += this.killRing.length
+        break
+      case 'ctrl-d':
+        if (this.buffer.length === 0) return { output: '', command: 'eof' }
+        this.buffer = this.buffer.slice(0, this.cursor) + this.buffer.slice(this.cursor + 1)
+        break
+      case 'enter':
+        return { output: this.moveToEnd(), command: 'submit' }
+      case 'ctrl-c':
+        return { output: this.moveToEnd(), command: 'cancel' }
+      case 'ctrl-l':
+        return { output: '', command: 'clear' }
+      case 'ctrl-r':
+        if (!this.searchHistory) return { output: '' }
+        this.search = { query: '', index: Infinity, failed: false, original: this.buffer }
+        return { output: this.redraw(true) }
+      case 'tab':
+        return { output: '', command: 'complete' }
+      case 'up':
+        return { output: '', command: 'previous' }
+      case 'down':
+        return { output: '', command: 'next' }
+      default:
+        return { output: '' }
+    }
+
+    return { output: this.redraw() }
+  }
+
+  /**
+   * Keys in (reverse-i-search) mode: typing narrows the search, Ctrl+R finds
+   * an older match, Ctrl+G restores the line; other keys accept the match
+   * and then act as usual
+   */
+  private handleSearchKey(key: string, action: string): KeyResult {
+    const search = this.search!
+
+    switch (action) {
+      case 'insert':
+        search.query += key
+        this.findMatch(search.index === Infinity ? Infinity : search.index + 1)
+        return { output: this.redraw(true) }
+      case 'backspace':
+        search.query = search.query.slice(0, -1)
+        search.index = Infinity
+        if (search.query) {
+          this.findMatch(Infinity)
+        } else {
+          search.failed = false
+          this.buffer = search.original
+          this.cursor = this.buffer.length
+        }
+        return { output: this.redraw(true) }
+      case 'ctrl-r':
+        if (search.query) this.findMatch(search.index)
+        return { output: this.redraw(true) }
+      case 'ctrl-g':
+        this.buffer = search.original
+        this.cursor = this.buffer.length
+        this.search = null
+        return { output: this.redraw(true) }
+    }
+
+    this.search = null
+    const accepted = this.redraw(true)
+    if (key === '\x1b') return { output: accepted }
+
+    const result = this.handleKey(key)
+    return { output: accepted + result.output, command: result.command }
+  }
+
+  private findMatch(before: number): void {
+    const search = this.search!
+    const match = this.searchHistory?.(search.query, before) ?? null
+
+    search.failed = match === null
+    if (match) {
+      search.index = match.index
+      this.buffer = match.line
+      this.cursor = match.line.lastIndexOf(search.query)
+    }
+  }
+
+  private currentPrompt(): string {
+    if (!this.search) return this.prompt
+    return `(${this.search.failed ? 'failed ' : ''}reverse-i-search)\`${this.search.query}': `
+  }
+
+  // Alt+B/Alt+F words are runs of letters and digits
+  private wordStart(from: number): number {
+    let i = from
+    while (i > 0 && !/[A-Za-z0-9]/.test(this.buffer[i - 1])) i--
+    while (i > 0 && /[A-Za-z0-9]/.test(this.buffer[i - 1])) i--
+    return i
+  }
+
+  private wordEnd(from: number): number {
+    let i = from
+    while (i < this.buffer.length && !/[A-Za-z0-9]/.test(this.buffer[i])) i++
+    while (i < this.buffer.length && /[A-Za-z0-9]/.test(this.buffer[i])) i++
+    return i
+  }
+
+  /**
+   * Remove buffer[start, end) into the kill ring; consecutive kills accumulate
+   */
+  private kill(start: number, end: number, append: boolean, backward: boolean): void {
+    const text = this.buffer.slice(start, end)
+    if (append) {
+      this.killRing = backward ? text + this.killRing : this.killRing + text
+    } else {
+      this.killRing = text
+    }
+    this.lastWasKill = true
+    this.buffer = this.buffer.slice(0, start) + this.buffer.slice(end)
+    this.cursor = start
+  }
+
+  /**
+   * Rewrite the line from the start of the input (or of the prompt, when it
+   * changes) and put the cursor back
+   * Positions are computed in screen rows so wrapped lines redraw in place
+   */
+  private redraw(withPrompt = false): string {
+    const from = this.position(this.renderedCursor)
+    let output: string
+
+    if (withPrompt) {
+      const prompt = this.currentPrompt()
+      output = moveRows(-from.row) + '\r' + prompt
+      this.promptWidth = visibleWidth(prompt)
+    } else {
+      const start = this.position(0)
+      output = moveRows(start.row - from.row) + '\r' + moveRight(start.col)
+    }
+
+    const end = this.position(this.buffer.length)
+    const target = this.position(this.cursor)
+    output += this.buffer
+    // At an exact multiple of the width the terminal holds the cursor on the
+    // last column; print and erase a space so it moves to the next row
+    if (end.col === 0 && this.buffer.length > 0) output += ' \r'
+    output += '\x1b[J'
+    output += moveRows(target.row - end.row) + '\r' + moveRight(target.col)
+
+    this.renderedCursor = this.cursor
+    return output
+  }
+
+  private position(index: number): { row: number; col: number } {
+    const columns = Math.max(1, this.getColumns())
+    const offset = this.promptWidth + index
+    return { row: Math.floor(offset / columns), col: offset % columns }
+  }
+}
+
+function moveRows(rows: number): string {
+  if (rows < 0) return `\x1b[${-rows}A`
+  if (rows > 0) return `\x1b[${rows}B`
+  return ''
+}
+
+function moveRight(columns: number): string {
+  return columns > 0 ? `\x1b[${columns}C` : ''
+}
@@ -0,0 +1,436 @@
+/**
+ * Ls
+ * Lists directory contents: names in columns that fit the terminal, or one
+ * per line; the long format with link counts, dates and block totals;
+ * sorting by name, time or size; recursion, type indicators, inode numbers
+ * and GNU's LS_COLORS colours.
+ */
+
+import type { CommandResult } from './command-executor'
+import { commandRegistry } from './command-registry'
+import type { CommandInvocation } from './command-registry'
+import type { FSStats, MEMFS } from './memfs'
+import { resolvePath } from './text-tools'
+
+interface Entry {
+  name: string // As listed: the operand, or the name within its directory
+  path: string // Absolute path in MEMFS
+  stat: FSStats
+}
+
+interface ListOptions {
+  long: boolean
+  human: boolean
+  inode: boolean
+  classify: boolean
+  all: boolean
+  almostAll: boolean
+  recursive: boolean
+  reverse: boolean
+  sort: 'name' | 'time' | 'size'
+  colors: ColorTable | null
+  columns?: number // Lay names out in columns this wide; one per line when unset
+}
+
+interface ColorTable {
+  types: Map<string, string>      // di, ex, fi, ...
+  extensions: Map<string, string> // Suffixes from *.ext entries, lower-cased
+}
+
+// A cell of the short format: text may hold colour codes, width is what shows
+interface Cell {
+  text: string
+  width: number
+}
+
+// Used when LS_COLORS is unset: a subset of GNU dircolors' database
+const DEFAULT_LS_COLORS = [
+  'di=01;34', 'ex=01;32',
+  '*.tar=01;31', '*.tgz=01;31', '*.gz=01;31', '*.bz2=01;31', '*.xz=01;31', '*.zip=01;31', '*.deb=01;31',
+  '*.jpg=01;35', '*.jpeg=01;35', '*.gif=01;35', '*.png=01;35', '*.svg=01;35',
+].join(':')
+
+const COLOR_WHEN: Record<string, boolean | null> = {
+  '': true, always: true, yes: true, force: true,
+  never: false, no: false, none: false,
+  auto: null, tty: null, 'if-tty': null,
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Older (or newer) timestamps show the year instead of the time
+const SIX_MONTHS_MS = (365.2425 / 2) * 24 * 60 * 60 * 1000
+
+const BLOCK_SIZE = 4096
+const DIRECTORY_SIZE = 4096
+
+/**
+ * Whether a directory's names can be listed; root-owned directories need
+ * sudo, except / which everyone can traverse
+ */
+export function canListDirectory(path: string, stat: FSStats, isSudo: boolean): boolean {
+  return path === '/' || stat.owner !== 'root' || isSudo
+}
+
+/**
+ * Size a file is listed with; a directory takes one block, as on ext4
+ */
+export function listedSize(stat: FSStats): number {
+  return stat.isDirectory() ? DIRECTORY_SIZE : stat.size
+}
+
+/**
+ * Format file permissions for ls -l
+ */
+function formatPermissions(mode: number, isDir: boolean): string {
+  const type = isDir ? 'd' : '-'
+  const perms = mode & 0o777
+
+  let result = type
+  // Owner
+  result += (perms & 0o400) ? 'r' : '-'
+  result += (perms & 0o200) ? 'w' : '-'
+  result += (perms & 0o100) ? 'x' : '-'
+  // Group
+  result += (perms & 0o040) ? 'r' : '-'
+  result += (perms & 0o020) ? 'w' : '-'
+  result += (perms & 0o010) ? 'x' : '-'
+  // Other
+  result += (perms & 0o004) ? 'r' : '-'
+  result += (perms & 0o002) ? 'w' : '-'
+  result += (perms & 0o001) ? 'x' : '-'
+
+  return result
+}
+
+/**
+ * Format file size
+ */
+function formatSize(size: number, human: boolean): string {
+  if (!human || size < 1024) return size.toString()
+
+  // ls -h: one decimal below 10, rounded up like coreutils
+  let value = size
+  let unit = ''
+  for (const next of ['K', 'M', 'G', 'T']) {
+    if (value < 1024) break
+    value /= 1024
+    unit = next
+  }
+  const text = value < 10 ? (Math.ceil(value * 10) / 10).toFixed(1) : String(Math.ceil(value))
+  return `${text}${unit}`
+}
+
+/**
+ * Modification time as ls -l shows it: "Oct 19 14:30", or "Oct 19  2025"
+ * when it is more than six months away
+ */
+function formatDate(timestamp: number, now: number): string {
+  const date = new Date(timestamp)
+  const day = String(date.getDate()).padStart(2)
+  const recent = timestamp <= now && now - timestamp < SIX_MONTHS_MS
+  const time = recent
+    ? `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+    : ` ${date.getFullYear()}`
+  return `${MONTHS[date.getMonth()]} ${day} ${time}`
+}
+
+function parseLsColors(spec: string): ColorTable {
+  const table: ColorTable = { types: new Map(), extensions: new Map() }
+  for (const item of spec.split(':')) {
+    const eq = item.indexOf('=')
+    if (eq <= 0) continue
+    const key = item.slice(0, eq)
+    const code = item.slice(eq + 1)
+    if (key.startsWith('*')) table.extensions.set(key.slice(1).toLowerCase(), code)
+    else table.types.set(key, code)
+  }
+  return table
+}
+
+function isExecutable(stat: FSStats): boolean {
+  return stat.isFile() && (stat.mode & 0o111) !== 0
+}
+
+/**
+ * SGR code for an entry: its type, then (for plain files) its suffix
+ */
+function colorCode(entry: Entry, table: ColorTable): string | undefined {
+  if (entry.stat.isDirectory()) return table.types.get('di')
+  if (isExecutable(entry.stat) && table.types.has('ex')) return table.types.get('ex')
+
+  const name = entry.name.toLowerCase()
+  for (const [suffix, code] of table.extensions) {
+    if (name.endsWith(suffix)) return code
+  }
+  return table.types.get('fi')
+}
+
+/**
+ * The name as shown, coloured and with its -F indicator
+ */
+function nameCell(entry: Entry, options: ListOptions): Cell {
+  const code = options.colors ? colorCode(entry, options.colors) : undefined
+  let text = code && code !== '0' ? `\x1b[${code}m${entry.name}\x1b[0m` : entry.name
+  let width = entry.name.length
+
+  if (options.classify) {
+    const indicator = entry.stat.isDirectory() ? '/' : isExecutable(entry.stat) ? '*' : ''
+    text += indicator
+    width += indicator.length
+  }
+  return { text, width }
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir === '/' ? `/${name}` : `${dir}/${name}`
+}
+
+function parentPath(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index <= 0 ? '/' : path.slice(0, index)
+}
+
+function sortEntries(entries: Entry[], options: ListOptions): Entry[] {
+  const size = (entry: Entry) => listedSize(entry.stat)
+  const sorted = [...entries].sort((a, b) => {
+    let order = 0
+    if (options.sort === 'time') order = b.stat.timestamp - a.stat.timestamp
+    if (options.sort === 'size') order = size(b) - size(a)
+    return order || a.name.localeCompare(b.name)
+  })
+  return options.reverse ? sorted.reverse() : sorted
+}
+
+/**
+ * Entries of a directory that the options show, sorted
+ */
+function readEntries(fs: MEMFS, dir: string, options: ListOptions): Entry[] {
+  const names = fs.readdir(dir).filter(name => options.all || options.almostAll || !name.startsWith('.'))
+  const entries = names.map(name => {
+    const path = joinPath(dir, name)
+    return { name, path, stat: fs.stat(path) }
+  })
+
+  if (options.all) {
+    entries.push(
+      { name: '.', path: dir, stat: fs.stat(dir) },
+      { name: '..', path: parentPath(dir), stat: fs.stat(parentPath(dir)) }
+    )
+  }
+  return sortEntries(entries, options)
+}
+
+/**
+ * Directories have a link from their parent, from . and from each subdirectory's ..
+ */
+function linkCount(fs: MEMFS, entry: Entry): number {
+  if (!entry.stat.isDirectory()) return 1
+  const subdirectories = fs.readdir(entry.path).filter(name => fs.stat(joinPath(entry.path, name)).isDirectory())
+  return 2 + subdirectories.length
+}
+
+function longFormat(fs: MEMFS, entries: Entry[], options: ListOptions): string[] {
+  const now = Date.now()
+  const rows = entries.map(entry => {
+    const { stat } = entry
+    const fields = [
+      formatPermissions(stat.mode, stat.isDirectory()),
+      String(linkCount(fs, entry)),
+      stat.owner,
+      stat.owner,
+      formatSize(listedSize(stat), options.human),
+      formatDate(stat.timestamp, now),
+    ]
+    return options.inode ? [String(stat.ino), ...fields] : fields
+  })
+
+  // Numbers are right-aligned, owner and group left-aligned
+  const leftAligned = options.inode ? [3, 4] : [2, 3]
+  const widths = rows.length > 0 ? rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length))) : []
+  return rows.map((row, index) => {
+    const fields = row.map((field, column) =>
+      leftAligned.includes(column) ? field.padEnd(widths[column]) : field.padStart(widths[column]))
+    return `${fields.join(' ')} ${nameCell(entries[index], options).text}`
+  })
+}
+
+/**
+ * Lay cells out in columns filled top to bottom, using the fewest rows
+ * whose lines fit within `width`, as GNU ls does
+ */
+function columnLayout(cells: Cell[], width: number): string[] {
+  for (let rows = 1; rows <= cells.length; rows++) {
+    const columns = Math.ceil(cells.length / rows)
+    const widths: number[] = []
+    for (let column = 0; column < columns; column++) {
+      const inColumn = cells.slice(column * rows, (column + 1) * rows)
+      widths.push(Math.max(...inColumn.map(cell => cell.width)))
+    }
+
+    const lineWidth = widths.reduce((sum, w) => sum + w, 0) + 2 * (columns - 1)
+    if (lineWidth >= width && rows < cells.length) continue
+
+    const lines: string[] = []
+    for (let row = 0; row < rows; row++) {
+      let line = ''
+      for (let column = 0; column < columns; column++) {
+        const cell = cells[column * rows + row]
+        if (!cell) break
+        const next = cells[(column + 1) * rows + row]
+        line += next ? cell.text + ' '.repeat(widths[column] - cell.width + 2) : cell.text
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+  return []
+}
+
+function shortFormat(entries: Entry[], options: ListOptions): string[] {
+  const inodeWidth = Math.max(0, ...entries.map(entry => String(entry.stat.ino).length))
+  const cells = entries.map(entry => {
+    const cell = nameCell(entry, options)
+    if (!options.inode) return cell
+    const inode = String(entry.stat.ino).padStart(inodeWidth)
+    return { text: `${inode} ${cell.text}`, width: inodeWidth + 1 + cell.width }
+  })
+
+  return options.columns ? columnLayout(cells, options.columns) : cells.map(cell => cell.text)
+}
+
+function formatEntries(fs: MEMFS, entries: Entry[], options: ListOptions): string[] {
+  return options.long ? longFormat(fs, entries, options) : shortFormat(entries, options)
+}
+
+/**
+ * Kilobytes the entries take up on disk, in whole blocks
+ */
+function totalBlocks(entries: Entry[]): number {
+  return entries.reduce((sum, { stat }) => {
+    return sum + Math.ceil(listedSize(stat) / BLOCK_SIZE) * (BLOCK_SIZE / 1024)
+  }, 0)
+}
+
+function lsCommand({ options: parsed, context, fs }: CommandInvocation): CommandResult {
+  const { currentPath, username, isSudo } = context
+  const { flags } = parsed
+
+  const when = parsed.namedArgs.get('color') ?? 'auto'
+  if (!(when in COLOR_WHEN)) {
+    return {
+      stdout: '',
+      stderr:
+        `ls: invalid argument '${when}' for '--color'\n` +
+        "Valid arguments are:\n  - 'always', 'yes', 'force'\n  - 'never', 'no', 'none'\n  - 'auto', 'tty', 'if-tty'\n" +
+        "Try 'ls --help' for more information.",
+      exitCode: 2,
+    }
+  }
+  // auto colours only what is shown on the terminal
+  const color = COLOR_WHEN[when] ?? context.columns !== undefined
+
+  const long = flags.has('l')
+  const options: ListOptions = {
+    long,
+    human: flags.has('h'),
+    inode: flags.has('i'),
+    classify: flags.has('F'),
+    all: flags.has('a'),
+    almostAll: flags.has('A'),
+    recursive: flags.has('R'),
+    reverse: flags.has('r'),
+    sort: flags.has('S') ? 'size' : flags.has('t') ? 'time' : 'name',
+    colors: color ? parseLsColors(context.env?.getVariable('LS_COLORS') ?? DEFAULT_LS_COLORS) : null,
+    columns: long || flags.has('1') ? undefined : context.columns,
+  }
+  const listDirectories = !flags.has('d')
+
+  const operands = parsed.args.length > 0 ? parsed.args : ['.']
+  const errors: string[] = []
+  let exitCode = 0
+
+  const files: Entry[] = []
+  const directories: Entry[] = []
+  for (const operand of operands) {
+    const path = resolvePath(currentPath, operand, username)
+    if (!fs.exists(path)) {
+      errors.push(`ls: cannot access '${operand}': No such file or directory`)
+      exitCode = 2
+      continue
+    }
+    const entry = { name: operand, path, stat: fs.stat(path) }
+    if (listDirectories && entry.stat.isDirectory()) directories.push(entry)
+    else files.push(entry)
+  }
+
+  const blocks: string[] = []
+  if (files.length > 0) blocks.push(formatEntries(fs, sortEntries(files, options), options).join('\n'))
+
+  const showHeaders = operands.length > 1 || options.recursive
+  const listDirectory = (display: string, path: string) => {
+    const lines = showHeaders ? [`${display}:`] : []
+
+    if (!canListDirectory(path, fs.stat(path), isSudo)) {
+      errors.push(`ls: cannot open directory '${display}': Permission denied`)
+      exitCode = Math.max(exitCode, 1)
+      if (showHeaders) blocks.push(lines.join('\n'))
+      return
+    }
+
+    const entries = readEntries(fs, path, options)
+    if (options.long) {
+      const total = totalBlocks(entries)
+      lines.push(`total ${options.human ? formatSize(total * 1024, true) : total}`)
+    }
+    lines.push(...formatEntries(fs, entries, options))
+    blocks.push(lines.join('\n'))
+
+    if (!options.recursive) return
+    for (const entry of entries) {
+      if (entry.stat.isDirectory() && entry.name !== '.' && entry.name !== '..') {
+        listDirectory(display.endsWith('/') ? display + entry.name : `${display}/${entry.name}`, entry.path)
+      }
+    }
+  }
+
+  for (const directory of sortEntries(directories, options)) {
+    listDirectory(directory.name, directory.path)
+  }
+
+  return { stdout: blocks.join('\n\n'), stderr: errors.join('\n'), exitCode }
+}
+
+commandRegistry.registerAll([
+  {
+    name: 'ls',
+    summary: 'list directory contents',
+    usage: 'ls [OPTION]... [FILE]...',
+    manPage:
+      'List information about the FILEs (the current directory by default).\n' +
+      'Entries are sorted by name unless -t or -S is given. On the terminal, names are laid out in\n' +
+      'columns that fit its width and coloured by LS_COLORS (directories blue, executables green),\n' +
+      'as if ls were an alias for `ls --color=auto`; piped or redirected, they are one per line.\n' +
+      'The long format starts with the total disk space used, in 1K blocks.\n' +
+      'Exit status is 0 if OK, 1 for minor problems (a directory that cannot be opened) and 2 for\n' +
+      'serious trouble (a FILE that cannot be accessed).',
+    options: [
+      { flags: ['-a', '--all'], description: 'do not ignore entries starting with .' },
+      { flags: ['-A', '--almost-all'], description: 'do not list implied . and ..' },
+      { flags: ['--color', '--colour'], value: 'WHEN', optionalValue: true, description: "colorize the output; WHEN is 'always', 'auto', or 'never'" },
+      { flags: ['-d', '--directory'], description: 'list directories themselves, not their contents' },
+      { flags: ['-F', '--classify'], description: 'append indicator (one of */) to entries' },
+      { flags: ['-h', '--human-readable'], description: 'with -l, print sizes like 1K 234M 2G' },
+      { flags: ['-i', '--inode'], description: 'print the index number of each file' },
+      { flags: ['-l'], description: 'use a long listing format' },
+      { flags: ['-r', '--reverse'], description: 'reverse order while sorting' },
+      { flags: ['-R', '--recursive'], description: 'list subdirectories recursively' },
+      { flags: ['-S'], description: 'sort by file size, largest first' },
+      { flags: ['-t'], description: 'sort by time, newest first' },
+      { flags: ['-1'], description: 'list one file per line' },
+    ],
+    usageStatus: 2,
+    examples: ['ls -la', 'ls -lhS /var/log', 'ls -R', 'ls -F /etc'],
+    run: lsCommand,
+  },
+])
@@ -7,6 +7,7 @@
  */
 
 export interface FSNode {
+  ino: number           // Inode number (ls -i)
   mode: number          // File mode (type + permissions)
   timestamp: number     // Last modified timestamp
   parent: FSNode | null // Parent directory
@@ -20,9 +21,26 @@ export interface FSNode {
   
   // Metadata
   owner: string
+  device?: boolean // Special file: reads return nothing and writes are discarded
+  virtual?: boolean // Generated by a mounted provider (/proc); read-only
+}
+
+/**
+ * Read-only tree generated on demand and mounted at a path (/proc)
+ * Paths are relative to the mount point, '' being the mount point itself.
+ */
+export interface VirtualProvider {
+  readdir(path: string): string[] | null // null when the path is not a directory
+  readFile(path: string): VirtualFile | null
+}
+
+export interface VirtualFile {
+  content: string
+  owner?: string
 }
 
 export interface FSStats {
+  ino: number
   mode: number
   size: number
   timestamp: number
@@ -39,13 +57,26 @@ const S_IRWXU = 0o000700  // User RWX
 const S_IRWXG = 0o000070  // Group RWX
 const S_IRWXO = 0o000007  // Other RWX
 
+// Special files under /dev that redirections can target
+const DEVICE_FILES = ['null', 'stdout', 'stderr']
+
 export class MEMFS {
   private root: FSNode
   private nextInode: number = 1
+  private mounts = new Map<string, VirtualProvider>()
 
   constructor() {
     // Create root directory
     this.root = this.createNode(null, '/', S_IFDIR | 0o755, 'root')
+
+    // /dev/null, /dev/stdout and /dev/stderr
+    const dev = this.createNode(this.root, 'dev', S_IFDIR | 0o755)
+    this.root.entries!.set('dev', dev)
+    for (const name of DEVICE_FILES) {
+      const node = this.createNode(dev, name, S_IFREG | 0o666)
+      node.device = true
+      dev.entries!.set(name, node)
+    }
   }
 
   /**
@@ -53,6 +84,7 @@ export class MEMFS {
    */
   private createNode(parent: FSNode | null, name: string, mode: number, owner: string = 'student'): FSNode {
     const node: FSNode = {
+      ino: this.nextInode++,
       mode,
       timestamp: Date.now(),
       parent,
@@ -99,6 +131,11 @@ export class MEMFS {
     }
 
     const parts = this.splitPath(path)
+    const mounted = this.lookupVirtual(parts)
+    if (mounted !== undefined) {
+      return mounted
+    }
+
     let current = this.root
 
     for (let i = 0; i < parts.length; i++) {
@@ -123,6 +160,69 @@ export class MEMFS {
     return current
   }
 
+  /**
+   * Lookup a path below a mount point: undefined when it isn't below one
+   */
+  private lookupVirtual(parts: string[]): FSNode | null | undefined {
+    for (const [mountPoint, provider] of Array.from(this.mounts)) {
+      const base = this.splitPath(mountPoint)
+      if (parts.length < base.length || base.some((part, i) => parts[i] !== part)) continue
+
+      const parentPath = '/' + base.slice(0, -1).join('/')
+      const parent = this.lookupNodeIn(this.splitPath(parentPath))
+      return this.virtualNode(provider, parent, base[base.length - 1], parts.slice(base.length))
+    }
+    return undefined
+  }
+
+  /**
+   * Walk real directories only
+   */
+  private lookupNodeIn(parts: string[]): FSNode | null {
+    let current = this.root
+    for (const part of parts) {
+      const next = current.entries?.get(part)
+      if (!next) return null
+      current = next
+    }
+    return current
+  }
+
+  /**
+   * Build the node a provider generates for `rel` (with its entries one level deep)
+   */
+  private virtualNode(provider: VirtualProvider, parent: FSNode | null, name: string, rel: string[], depth = 0): FSNode | null {
+    const path = rel.join('/')
+    const children = provider.readdir(path)
+    let node: FSNode
+
+    if (children !== null) {
+      node = this.createNode(parent, name, S_IFDIR | 0o555)
+      if (depth === 0) {
+        for (const child of children) {
+          const childNode = this.virtualNode(provider, node, child, [...rel, child], depth + 1)
+          if (childNode) node.entries!.set(child, childNode)
+        }
+      }
+    } else {
+      const file = provider.readFile(path)
+      if (!file) return null
+      node = this.createNode(parent, name, S_IFREG | 0o444, file.owner)
+      node.contents = new TextEncoder().encode(file.content)
+    }
+
+    node.virtual = true
+    return node
+  }
+
+  /**
+   * Mount a read-only generated tree at `path` (created if missing)
+   */
+  mount(path: string, provider: VirtualProvider): void {
+    this.mkdirTree(path, 0o555)
+    this.mounts.set('/' + this.splitPath(path).join('/'), provider)
+  }
+
   /**
    * Get parent directory and name from path
    */
@@ -161,6 +261,10 @@ export class MEMFS {
       throw new Error(`EEXIST: file already exists: ${path}`)
     }
 
+    if (parent.virtual) {
+      throw new Error(`EROFS: read-only file system: ${path}`)
+    }
+
     // Apply umask (simplified - just use provided mode)
     const nodeMode = S_IFDIR | (mode & 0o777)
     const node = this.createNode(parent, name, nodeMode, parent.owner)
@@ -214,6 +318,14 @@ export class MEMFS {
 
     let node = parent.entries.get(name)
 
+    if (node?.device) {
+      return
+    }
+
+    if (parent.virtual) {
+      throw new Error(`EROFS: read-only file system: ${path}`)
+    }
+
     if (node) {
       // Update existing file
       if (!this.isFile(node.mode)) {
@@ -292,6 +404,7 @@ export class MEMFS {
       : 0
 
     return {
+      ino: node.ino,
       mode: node.mode,
       size,
       timestamp: node.timestamp,
@@ -328,6 +441,10 @@ export class MEMFS {
       throw new Error(`ENOENT: no such file or directory: ${path}`)
     }
 
+    if (node.virtual) {
+      throw new Error(`EROFS: read-only file system: ${path}`)
+    }
+
     if (this.isDir(node.mode)) {
       throw new Error(`EISDIR: is a directory: ${path}`)
     }
@@ -355,6 +472,10 @@ export class MEMFS {
       throw new Error(`ENOENT: no such file or directory: ${path}`)
     }
 
+    if (node.virtual) {
+      throw new Error(`EROFS: read-only file system: ${path}`)
+    }
+
     if (!this.isDir(node.mode)) {
       throw new Error(`ENOTDIR: not a directory: ${path}`)
     }
@@ -387,6 +508,10 @@ export class MEMFS {
       throw new Error(`ENOTDIR: parent has no entries`)
     }
 
+    if (oldNode.virtual || newParent.virtual) {
+      throw new Error(`EROFS: read-only file system: ${oldPath}`)
+    }
+
     // Remove from old location
     oldParent.entries.delete(oldName)
 
@@ -406,6 +531,10 @@ export class MEMFS {
       throw new Error(`ENOENT: no such file or directory: ${path}`)
     }
 
+    if (node.virtual) {
+      throw new Error(`EROFS: read-only file system: ${path}`)
+    }
+
     node.owner = owner
   }
 
@@ -419,6 +548,10 @@ export class MEMFS {
       throw new Error(`ENOENT: no such file or directory: ${path}`)
     }
 
+    if (node.virtual) {
+      throw new Error(`EROFS: read-only file system: ${path}`)
+    }
+
     // Preserve file type, only change permissions
     node.mode = (node.mode & S_IFMT) | (mode & 0o777)
   }
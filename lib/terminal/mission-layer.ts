@@ -11,6 +11,8 @@ import {
   advancedValidators,
   ValidationContext 
 } from "./validation-registry"
+import { parseShell } from "./shell-parser"
+import { EnvSimulator } from "./env-simulator"
 
 export interface MissionProgress {
   currentMissionIndex: number
@@ -26,6 +28,7 @@ export interface TaskValidationContext {
   command: string       // For logging/debugging only
   stdout: string        // Primary validation source
   stderr?: string
+  stdin?: string        // Heredoc bodies and here-strings fed to the command
   exitCode?: number
   fileSystem: any       // For custom validators
 }
@@ -33,6 +36,7 @@ export interface TaskValidationContext {
 export class MissionLayer {
   private adventure: Adventure
   private progress: MissionProgress
+  private env?: EnvSimulator
   private listeners: {
     onTaskComplete?: (taskId: string) => void
     onMissionComplete?: (missionId: string) => void
@@ -78,6 +82,13 @@ export class MissionLayer {
     if (event === 'progressUpdate') this.listeners.onProgressUpdate = callback as (progress: MissionProgress) => void
   }
 
+  /**
+   * Set the shell environment handed to validators
+   */
+  setEnvironment(env: EnvSimulator): void {
+    this.env = env
+  }
+
   /**
    * Validate task based on command output (pure output validation)
    */
@@ -143,10 +154,12 @@ export class MissionLayer {
     const validationContext: ValidationContext = {
       output: context.stdout || '',
       stderr: context.stderr || '',
+      stdin: context.stdin || '',
       exitCode: context.exitCode || 0,
       fs: context.fileSystem,
       command: context.command,
-      env: {} // TODO: Pass actual environment when available
+      ast: parseShell(context.command || '').ast || undefined,
+      env: this.env ? this.env.toRecord() : {}
     }
 
     let isComplete = false
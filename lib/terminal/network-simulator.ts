@@ -3,6 +3,10 @@
  * Simulates ssh, scp, ping, curl, wget and other network commands
  */
 
+import { commandRegistry } from './command-registry'
+import type { CommandSpec } from './command-registry'
+import type { JobProcess } from './job-control'
+
 export interface NetworkResponse {
   success: boolean
   output: string
@@ -18,17 +22,84 @@ export interface RemoteServer {
 
 type NetworkCommandHandler = (args: string[], context?: any) => NetworkResponse
 
+commandRegistry.registerAll([
+  {
+    name: 'ping',
+    summary: 'send ICMP ECHO_REQUEST to network hosts',
+    usage: 'ping [-c count] host',
+    manPage: 'Send one echo request per second until interrupted with Ctrl+C, or COUNT requests with -c.',
+    examples: ['ping -c 3 remote-server', 'ping agency.local &'],
+    spawn: ({ args, context }) => (context.network ?? new NetworkSimulator()).pingProcess(args),
+  },
+  {
+    name: 'curl',
+    summary: 'transfer a URL',
+    usage: 'curl url',
+    examples: ['curl http://agency.local/status'],
+  },
+  {
+    name: 'wget',
+    summary: 'download a file into the current directory',
+    usage: 'wget url',
+  },
+  {
+    name: 'ssh',
+    summary: 'connect to remote servers',
+    usage: 'ssh [user@]host',
+    manPage: 'Log in to HOST as USER (your own name by default). Type exit to come back.',
+    examples: ['ssh omega_agent@remote-server', 'ssh user@agency.local'],
+  },
+  { name: 'ifconfig', summary: 'show network interfaces', usage: 'ifconfig' },
+  { name: 'netstat', summary: 'print network connections', usage: 'netstat [-tulpn]' },
+  { name: 'dig', summary: 'DNS lookup utility', usage: 'dig host' },
+  { name: 'nslookup', summary: 'query Internet name servers', usage: 'nslookup host' },
+  { name: 'ip', summary: 'show network addresses', usage: 'ip addr [show]' },
+])
+
+/**
+ * Target and -c count of a ping command line
+ */
+function parsePingArgs(args: string[]): { target: string; count?: number } {
+  const cIndex = args.indexOf('-c')
+  const operands = args.filter((arg, i) => !arg.startsWith('-') && (cIndex === -1 || i !== cIndex + 1))
+  return {
+    target: operands[0] || 'localhost',
+    count: cIndex === -1 ? undefined : parseInt(args[cIndex + 1] ?? '', 10),
+  }
+}
+
+// Round-trip times (min, avg, max) in ms, slower for more distant hosts
+function pingTimes(target: string): [number, number, number] {
+  if (target === 'localhost' || target === '127.0.0.1') return [0.043, 0.053, 0.062]
+  if (target.includes('agency.local')) return [1.1, 1.25, 1.4]
+  if (target.includes('omega-corp')) return [2.3, 2.45, 2.6]
+  return [1.1, 1.23, 1.4]
+}
+
+function pingReply(server: RemoteServer, target: string, seq: number): string {
+  const [min, avg, max] = pingTimes(target)
+  const time = [min, max, avg, avg + 0.1][seq % 4]
+  return `64 bytes from ${server.ip}: icmp_seq=${seq} ttl=64 time=${time.toFixed(1)} ms`
+}
+
+function pingStatistics(server: RemoteServer, target: string, count: number): string {
+  const [min, avg, max] = pingTimes(target)
+  return `--- ${server.hostname} ping statistics ---
+${count} packets transmitted, ${count} packets received, 0.0% packet loss
+round-trip min/avg/max/stddev = ${min.toFixed(1)}/${avg.toFixed(2)}/${max.toFixed(1)}/${((max - min) / 2).toFixed(2)} ms`
+}
+
 /**
  * Network simulator for fake network commands
  */
 export class NetworkSimulator {
   private servers: Map<string, RemoteServer>
   private currentConnection: string | null = null
-  private commandRegistry: Map<string, NetworkCommandHandler>
+  private handlers: Map<string, NetworkCommandHandler>
 
   constructor() {
     this.servers = new Map()
-    this.commandRegistry = new Map()
+    this.handlers = new Map()
     this.initializeServers()
     this.registerCommands()
   }
@@ -37,40 +108,36 @@ export class NetworkSimulator {
    * Register all network commands
    */
   private registerCommands(): void {
-    this.commandRegistry.set('ping', (args) => {
-      // Parse flags like -c (count)
-      let target = args[0] || 'localhost'
-      if (args.includes('-c')) {
-        // Skip -c and its value, get the actual target
-        const cIndex = args.indexOf('-c')
-        const filtered = args.filter((_, i) => i !== cIndex && i !== cIndex + 1)
-        target = filtered[0] || 'localhost'
+    this.handlers.set('ping', (args) => {
+      const { target, count } = parsePingArgs(args)
+      if (count !== undefined && !(count > 0)) {
+        return { success: false, output: '', error: `ping: invalid count of packets to transmit: '${args[args.indexOf('-c') + 1] ?? ''}'` }
       }
-      return this.ping(target)
+      return this.ping(target, count)
     })
-    this.commandRegistry.set('curl', (args) => this.curl(args[0] || ''))
-    this.commandRegistry.set('wget', (args, context) => this.wget(args[0] || '', context?.fs, context?.currentPath))
-    this.commandRegistry.set('ssh', (args) => this.ssh(args[0] || ''))
-    this.commandRegistry.set('scp', (args, context) => this.scp(args[0] || '', args[1] || '', context?.fs, context?.currentPath))
-    this.commandRegistry.set('ifconfig', () => this.ifconfig())
-    this.commandRegistry.set('netstat', (args) => this.netstat(args))
-    this.commandRegistry.set('dig', (args) => this.dig(args))
-    this.commandRegistry.set('nslookup', (args) => this.nslookup(args[0] || ''))
-    this.commandRegistry.set('ip', (args) => this.ipAddr(args))
+    this.handlers.set('curl', (args) => this.curl(args[0] || ''))
+    this.handlers.set('wget', (args, context) => this.wget(args[0] || '', context?.fs, context?.currentPath))
+    this.handlers.set('ssh', (args) => this.ssh(args[0] || ''))
+    this.handlers.set('scp', (args, context) => this.scp(args[0] || '', args[1] || '', context?.fs, context?.currentPath))
+    this.handlers.set('ifconfig', () => this.ifconfig())
+    this.handlers.set('netstat', (args) => this.netstat(args))
+    this.handlers.set('dig', (args) => this.dig(args))
+    this.handlers.set('nslookup', (args) => this.nslookup(args[0] || ''))
+    this.handlers.set('ip', (args) => this.ipAddr(args))
   }
 
   /**
    * Check if a command is a network command
    */
   isNetworkCommand(command: string): boolean {
-    return this.commandRegistry.has(command)
+    return this.handlers.has(command)
   }
 
   /**
    * Execute a network command
    */
   execute(command: string, args: string[], context?: any): NetworkResponse {
-    const handler = this.commandRegistry.get(command)
+    const handler = this.handlers.get(command)
     if (!handler) {
       return {
         success: false,
@@ -83,16 +150,25 @@ export class NetworkSimulator {
 
   /**
    * Register a custom network command
+   * The spec's help text is shown by help and man, and its name is completed
    */
-  registerCommand(name: string, handler: NetworkCommandHandler): void {
-    this.commandRegistry.set(name, handler)
+  registerCommand(name: string, handler: NetworkCommandHandler, spec: Omit<CommandSpec, 'name' | 'run'> = { summary: 'network command' }): void {
+    this.handlers.set(name, handler)
+    commandRegistry.register({ ...spec, name })
   }
 
   /**
    * Get all registered network commands
    */
   getCommands(): string[] {
-    return Array.from(this.commandRegistry.keys())
+    return Array.from(this.handlers.keys())
+  }
+
+  /**
+   * Get all servers, keyed by the name or address they answer to
+   */
+  getServers(): Map<string, RemoteServer> {
+    return new Map(this.servers)
   }
 
   /**
@@ -163,7 +239,7 @@ export class NetworkSimulator {
   /**
    * Simulate ping command
    */
-  ping(target: string): NetworkResponse {
+  ping(target: string, count = 4): NetworkResponse {
     const server = this.findServer(target)
     
     if (!server) {
@@ -174,33 +250,33 @@ export class NetworkSimulator {
       }
     }
 
-    // Add more realistic RTT for different servers
-    let minRtt = 1.1, avgRtt = 1.23, maxRtt = 1.4
-    if (target === 'localhost' || target === '127.0.0.1') {
-      minRtt = 0.043
-      avgRtt = 0.053
-      maxRtt = 0.062
-    } else if (target.includes('agency.local')) {
-      minRtt = 1.1
-      avgRtt = 1.25
-      maxRtt = 1.4
-    } else if (target.includes('omega-corp')) {
-      minRtt = 2.3
-      avgRtt = 2.45
-      maxRtt = 2.6
-    }
+    const replies = Array.from({ length: count }, (_, seq) => pingReply(server, target, seq))
+    const output = [
+      `PING ${server.hostname} (${server.ip}): 56 data bytes`,
+      ...replies,
+      '',
+      pingStatistics(server, target, count),
+    ].join('\n')
 
-    const output = `PING ${server.hostname} (${server.ip}): 56 data bytes
-64 bytes from ${server.ip}: icmp_seq=0 ttl=64 time=${minRtt.toFixed(1)} ms
-64 bytes from ${server.ip}: icmp_seq=1 ttl=64 time=${maxRtt.toFixed(1)} ms
-64 bytes from ${server.ip}: icmp_seq=2 ttl=64 time=${avgRtt.toFixed(1)} ms
-64 bytes from ${server.ip}: icmp_seq=3 ttl=64 time=${(avgRtt + 0.1).toFixed(1)} ms
+    return { success: true, output }
+  }
 
---- ${server.hostname} ping statistics ---
-4 packets transmitted, 4 packets received, 0.0% packet loss
-round-trip min/avg/max/stddev = ${minRtt.toFixed(1)}/${avgRtt.toFixed(2)}/${maxRtt.toFixed(1)}/${((maxRtt - minRtt) / 2).toFixed(2)} ms`
+  /**
+   * ping without -c runs until interrupted, so at the prompt it is a job
+   * printing one reply a second
+   */
+  pingProcess(args: string[]): JobProcess | undefined {
+    const { target, count } = parsePingArgs(args)
+    const server = this.findServer(target)
+    if (count !== undefined || !server) return undefined
 
-    return { success: true, output }
+    let sent = 0
+    return {
+      interval: 1000,
+      start: () => `PING ${server.hostname} (${server.ip}): 56 data bytes\n${pingReply(server, target, sent++)}`,
+      tick: () => ({ output: pingReply(server, target, sent++) }),
+      interrupt: () => pingStatistics(server, target, sent),
+    }
   }
 
   /**
@@ -0,0 +1,189 @@
+/**
+ * Option Parser
+ * getopt_long-style parsing driven by each command's option spec: combined
+ * short flags (-la), attached values (-n5, --lines=5), unique prefixes of
+ * long options, -- to end options, and GNU-style errors and --help text
+ */
+
+export interface OptionSpec {
+  flags: string[]       // Spellings, e.g. ['-n', '--lines']; the first one names the option
+  value?: string        // Set when the option takes a value, named in --help (NUM, PATTERN)
+  optionalValue?: boolean // The value may only be attached (-i.bak, --in-place=.bak); '' when left out
+  repeatable?: boolean  // Every value is kept (grep -e a -e b); otherwise the last one wins
+  description: string
+}
+
+/**
+ * Arguments split into flags, option values and operands
+ * Options are keyed by their first spelling without dashes (-R and
+ * --recursive both set 'r' when declared as ['-r', '-R', '--recursive'])
+ */
+export interface ParsedArgs {
+  flags: Set<string>
+  args: string[]
+  namedArgs: Map<string, string>  // Last value of each option, e.g. n -> 10 for -n 10
+  values: Map<string, string[]>   // Every value of each option, in order
+}
+
+export interface OptionParseResult {
+  options: ParsedArgs
+  help: boolean   // --help was given
+  error?: string  // Usage error, with the "Try --help" line
+}
+
+export interface OptionParserConfig {
+  options: OptionSpec[]
+  numericOption?: string  // Option that -NUM sets, as in head -20
+}
+
+// Width of the option column in --help output
+const HELP_COLUMN = 29
+
+const HELP_OPTION: OptionSpec = { flags: ['--help'], description: 'display this help and exit' }
+
+/**
+ * Key an option is stored under: its first spelling without dashes
+ */
+export function optionKey(option: OptionSpec): string {
+  return option.flags[0].replace(/^--?/, '')
+}
+
+/**
+ * Arguments as operands only, for commands that take no options
+ */
+export function operandsOnly(args: string[]): ParsedArgs {
+  return { flags: new Set(), args: [...args], namedArgs: new Map(), values: new Map() }
+}
+
+/**
+ * Parse `args` for `command`. Options may follow operands, as with GNU tools.
+ */
+export function parseOptions(command: string, args: string[], config: OptionParserConfig): OptionParseResult {
+  const options = operandsOnly([])
+  let help = false
+
+  const fail = (message: string): OptionParseResult => ({
+    options,
+    help,
+    error: `${command}: ${message}\nTry '${command} --help' for more information.`,
+  })
+
+  const setValue = (option: OptionSpec, value: string) => {
+    const key = optionKey(option)
+    const previous = option.repeatable ? options.values.get(key) ?? [] : []
+    options.values.set(key, [...previous, value])
+    options.namedArgs.set(key, value)
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+
+    if (arg === '--') {
+      options.args.push(...args.slice(i + 1))
+      break
+    }
+    if (arg === '-' || !arg.startsWith('-')) {
+      options.args.push(arg)
+      continue
+    }
+
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=')
+      const name = eq === -1 ? arg : arg.slice(0, eq)
+      const attached = eq === -1 ? undefined : arg.slice(eq + 1)
+
+      const match = findLongOption(name, config.options)
+      if (match === 'ambiguous') {
+        const possibilities = longSpellings(config.options).filter(flag => flag.startsWith(name))
+        return fail(`option '${name}' is ambiguous; possibilities: ${possibilities.map(flag => `'${flag}'`).join(' ')}`)
+      }
+      if (!match) return fail(`unrecognized option '${arg}'`)
+
+      const spelling = match.flags.find(flag => flag.startsWith(name)) ?? name
+      if (match === HELP_OPTION) {
+        help = true
+      } else if (match.optionalValue) {
+        setValue(match, attached ?? '')
+      } else if (match.value) {
+        const value = attached ?? args[++i]
+        if (value === undefined) return fail(`option '${spelling}' requires an argument`)
+        setValue(match, value)
+      } else if (attached !== undefined) {
+        return fail(`option '${spelling}' doesn't allow an argument`)
+      } else {
+        options.flags.add(optionKey(match))
+      }
+      continue
+    }
+
+    // -NUM is shorthand for the numeric option (head -20 = head -n 20)
+    const numeric = config.numericOption && config.options.find(option => optionKey(option) === config.numericOption)
+    if (numeric && /^-\d+$/.test(arg)) {
+      setValue(numeric, arg.slice(1))
+      continue
+    }
+
+    // A cluster of short options: -la, -n5, -rn PATTERN
+    for (let j = 1; j < arg.length; j++) {
+      const letter = arg[j]
+      const option = config.options.find(candidate => candidate.flags.includes(`-${letter}`))
+      if (!option) return fail(`invalid option -- '${letter}'`)
+
+      if (!option.value) {
+        options.flags.add(optionKey(option))
+        continue
+      }
+      if (option.optionalValue) {
+        setValue(option, arg.slice(j + 1))
+        break
+      }
+      const value = j + 1 < arg.length ? arg.slice(j + 1) : args[++i]
+      if (value === undefined) return fail(`option requires an argument -- '${letter}'`)
+      setValue(option, value)
+      break
+    }
+  }
+
+  return { options, help }
+}
+
+/**
+ * Option lines for --help and man pages, coreutils style
+ */
+export function formatOptions(options: OptionSpec[], includeHelp = true): string {
+  return [...options, ...(includeHelp ? [HELP_OPTION] : [])]
+    .map(option => {
+      const shorts = option.flags.filter(flag => !flag.startsWith('--'))
+      const longs = option.flags.filter(flag => flag.startsWith('--'))
+      const value = option.value ?? ''
+
+      const spellings = option.optionalValue ? [
+        ...shorts.map(flag => `${flag}[${value}]`),
+        ...longs.map(flag => `${flag}[=${value}]`),
+      ].join(', ') : [
+        ...shorts.map(flag => (value && longs.length === 0 ? `${flag} ${value}` : flag)),
+        ...longs.map(flag => (value ? `${flag}=${value}` : flag)),
+      ].join(', ')
+      const column = `${shorts.length > 0 ? '  ' : '      '}${spellings}`
+
+      return column.length < HELP_COLUMN
+        ? `${column.padEnd(HELP_COLUMN)} ${option.description}`
+        : `${column}\n${' '.repeat(HELP_COLUMN + 1)}${option.description}`
+    })
+    .join('\n')
+}
+
+// Exact match first, then a unique prefix, as getopt_long does
+function findLongOption(name: string, options: OptionSpec[]): OptionSpec | 'ambiguous' | null {
+  const candidates = [...options, HELP_OPTION]
+  const exact = candidates.find(option => option.flags.includes(name))
+  if (exact) return exact
+
+  const matches = candidates.filter(option => option.flags.some(flag => flag.startsWith('--') && flag.startsWith(name)))
+  if (matches.length > 1) return 'ambiguous'
+  return matches[0] ?? null
+}
+
+function longSpellings(options: OptionSpec[]): string[] {
+  return [...options, HELP_OPTION].flatMap(option => option.flags.filter(flag => flag.startsWith('--')))
+}
@@ -0,0 +1,92 @@
+/**
+ * Pipeline Execution
+ * Splits command lines on `|` and feeds each stage's stdout into the next stage's stdin
+ */
+
+import { CommandResult } from './command-executor'
+import { parseShell, getSinglePipeline, formatShell } from './shell-parser'
+
+/**
+ * Runs a single pipeline stage. `stdin` is undefined for the first stage;
+ * `last` is set for the stage whose stdout is the pipeline's.
+ */
+export type PipelineStageRunner<T extends CommandResult = CommandResult> = (
+  command: string,
+  stdin: string | undefined,
+  last: boolean
+) => Promise<T>
+
+export interface PipelineResult<T extends CommandResult = CommandResult> extends CommandResult {
+  stages: string[]
+  stageResults: T[]
+}
+
+/**
+ * Split a command line into pipeline stages
+ * Anything that is not a single pipeline (lists, parse errors) is returned whole
+ */
+export function splitPipeline(command: string): string[] {
+  const { ast } = parseShell(command)
+  const pipeline = ast && getSinglePipeline(ast)
+
+  if (!pipeline || pipeline.negated) {
+    return [command.trim()]
+  }
+
+  return pipeline.commands.map(formatShell)
+}
+
+/**
+ * Check if a command line contains a pipe
+ */
+export function isPipeline(command: string): boolean {
+  return splitPipeline(command).length > 1
+}
+
+/**
+ * Execute pipeline stages in order, piping stdout to the next stage's stdin
+ * Like bash, stderr is not piped and the exit code is the last stage's
+ */
+export async function executePipeline<T extends CommandResult>(
+  stages: string[],
+  runStage: PipelineStageRunner<T>
+): Promise<PipelineResult<T>> {
+  if (stages.some(stage => stage.length === 0)) {
+    return {
+      stdout: '',
+      stderr: "bash: syntax error near unexpected token `|'",
+      exitCode: 2,
+      stages,
+      stageResults: [],
+    }
+  }
+
+  const stageResults: T[] = []
+  const errors: string[] = []
+  let stdin: string | undefined
+
+  for (const [index, stage] of stages.entries()) {
+    const result = await runStage(stage, stdin, index === stages.length - 1)
+    stageResults.push(result)
+
+    // A stage waiting for a sudo password halts the pipeline
+    if (result.requiresPassword) {
+      return { ...result, stages, stageResults }
+    }
+
+    if (result.stderr) {
+      errors.push(result.stderr)
+    }
+    stdin = result.stdout
+  }
+
+  const last = stageResults[stageResults.length - 1]
+
+  return {
+    stdout: last.stdout,
+    stderr: errors.join('\n'),
+    exitCode: last.exitCode,
+    stages,
+    stageResults,
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * POSIX Regular Expressions
+ * Translates basic (BRE) and extended (ERE) regular expressions, as sed,
+ * grep and awk take them, into JavaScript RegExp source. In a BRE \( \)
+ * \{ \} \+ \? \| are the operators and ( ) { } + ? | match themselves;
+ * bracket expressions may use classes like [[:digit:]].
+ */
+
+export interface RegexOptions {
+  extended?: boolean   // ERE (grep -E, sed -E, awk) rather than BRE
+  ignoreCase?: boolean
+  global?: boolean
+}
+
+// Bracket expression classes, as the contents of a JS character class
+const CLASSES: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  digit: '0-9',
+  alnum: 'a-zA-Z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: ' \\t\\n\\r\\f\\v',
+  blank: ' \\t',
+  punct: '!-\\/:-@\\[-`{-~',
+  xdigit: '0-9A-Fa-f',
+  print: ' -~',
+  graph: '!-~',
+  cntrl: '\\x00-\\x1f\\x7f',
+}
+
+// GNU escapes with a JS equivalent; \< and \> (word start and end) become \b
+const ESCAPES: Record<string, string> = {
+  n: '\\n',
+  t: '\\t',
+  '<': '\\b',
+  '>': '\\b',
+  w: '\\w',
+  W: '\\W',
+  s: '\\s',
+  S: '\\S',
+  b: '\\b',
+  B: '\\B',
+}
+
+/**
+ * JS RegExp source for a POSIX regular expression
+ * Throws a SyntaxError with GNU's message for a malformed expression.
+ */
+export function translateRegex(pattern: string, extended = false): string {
+  let source = ''
+  // Where * has nothing to repeat and so matches itself: the start of the
+  // expression, a group or an alternative, or just after a leading ^
+  let atStart = true
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    const startHere: boolean = atStart
+    atStart = false
+
+    if (char === '\\') {
+      const next = pattern[++i]
+      if (next === undefined) throw new SyntaxError('Trailing backslash')
+      if (!extended && (next === '(' || next === '|')) {
+        source += next
+        atStart = true
+      } else if (!extended && '){}+?'.includes(next)) {
+        source += next
+      } else if (/\d/.test(next)) {
+        source += `\\${next}`
+      } else {
+        source += ESCAPES[next] ?? escapeLiteral(next)
+      }
+      continue
+    }
+
+    if (char === '[') {
+      const bracket = translateBracket(pattern, i)
+      source += bracket.source
+      i = bracket.end
+      continue
+    }
+
+    if (char === '*' && startHere) {
+      source += '\\*'
+    } else if (char === '^') {
+      // A BRE anchors only at the start
+      source += extended || startHere ? '^' : '\\^'
+      atStart = startHere
+    } else if (char === '$') {
+      const atEnd = i === pattern.length - 1 || (!extended && /^\\[)|]/.test(pattern.slice(i + 1)))
+      source += extended || atEnd ? '$' : '\\$'
+    } else if (extended) {
+      source += char
+      atStart = char === '(' || char === '|'
+    } else {
+      source += '(){}+?|'.includes(char) ? `\\${char}` : char
+    }
+  }
+
+  return source
+}
+
+/**
+ * Compile a POSIX regular expression
+ * Throws a SyntaxError with GNU's message for a malformed expression.
+ */
+export function compileRegex(pattern: string, options: RegexOptions = {}): RegExp {
+  const source = translateRegex(pattern, options.extended)
+  try {
+    return new RegExp(source, `${options.global ? 'g' : ''}${options.ignoreCase ? 'i' : ''}`)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (/Unterminated group/.test(message)) throw new SyntaxError('Unmatched ( or \\(')
+    if (/Unmatched '\)'/.test(message)) throw new SyntaxError('Unmatched ) or \\)')
+    if (/Nothing to repeat/.test(message)) throw new SyntaxError('Invalid preceding regular expression')
+    throw new SyntaxError('Invalid regular expression')
+  }
+}
+
+/**
+ * Number of capture groups in a compiled expression
+ */
+export function groupCount(regex: RegExp): number {
+  return new RegExp(`${regex.source}|`).exec('')!.length - 1
+}
+
+// [...] starting at `start`: classes are expanded and backslashes match themselves
+function translateBracket(pattern: string, start: number): { source: string; end: number } {
+  let i = start + 1
+  let source = '['
+  if (pattern[i] === '^') {
+    source += '^'
+    i++
+  }
+  // A ] first in the list is a member, not the end
+  if (pattern[i] === ']') {
+    source += '\\]'
+    i++
+  }
+
+  while (i < pattern.length && pattern[i] !== ']') {
+    const cls = pattern.slice(i).match(/^\[:(\w+):\]/)
+    if (cls) {
+      if (!(cls[1] in CLASSES)) throw new SyntaxError('Invalid character class name')
+      source += CLASSES[cls[1]]
+      i += cls[0].length
+      continue
+    }
+    source += pattern[i] === '\\' || pattern[i] === '[' ? `\\${pattern[i]}` : pattern[i]
+    i++
+  }
+
+  if (i >= pattern.length) throw new SyntaxError('Unmatched [, [^, [:, [., or [=')
+  return { source: `${source}]`, end: i }
+}
+
+function escapeLiteral(char: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(char) ? `\\${char}` : char
+}
@@ -0,0 +1,232 @@
+/**
+ * Process Table
+ * Simulated processes for ps, top, pgrep, pkill and kill: a few system
+ * daemons, the login shell, whatever the adventure seeds (a rogue service
+ * for the player to find and stop) and the shell's jobs. /proc/<pid>
+ * exposes each one's cmdline, status and environ inside MEMFS.
+ */
+
+import { jobTable } from './job-control'
+import type { Signal } from './job-control'
+import type { AdventureProcess } from './types'
+import type { VirtualProvider, VirtualFile } from './memfs'
+
+export type ProcessState = 'R' | 'S' | 'T' // Running, sleeping, stopped
+
+export interface Process {
+  pid: number
+  ppid: number
+  user: string
+  command: string             // Full command line
+  state: ProcessState
+  cpu: number                 // %CPU
+  mem: number                 // %MEM
+  tty: string                 // '?' for daemons
+  started: Date
+  env: Record<string, string> // Shown in /proc/<pid>/environ
+}
+
+// Why kill(2) failed
+export type SignalError = 'No such process' | 'Operation not permitted'
+
+// Running on every machine, whatever the adventure
+const SYSTEM_PROCESSES: AdventureProcess[] = [
+  { pid: 1, command: '/sbin/init', mem: 0.1 },
+  { pid: 214, command: '/lib/systemd/systemd-journald', mem: 0.2 },
+  { pid: 398, command: '/usr/sbin/cron -f' },
+  { pid: 412, command: 'sshd: /usr/sbin/sshd -D [listener] 0 of 10-100 startups', mem: 0.1 },
+]
+
+const SHELL_PID = 1001
+const FIRST_SEED_PID = 500
+const DEFAULT_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin'
+
+// Processes that survive any signal: init and the interactive shell
+const UNKILLABLE = [1, SHELL_PID]
+
+/**
+ * Name of a process as ps -o comm shows it: the program's basename, at most 15 characters
+ */
+export function processName(process: Pick<Process, 'command'>): string {
+  const program = process.command.split(' ')[0].replace(/^-/, '').replace(/:$/, '')
+  return (program.split('/').pop() ?? program).slice(0, 15)
+}
+
+/**
+ * Process Table
+ */
+export class ProcessTable {
+  private processes = new Map<number, Process>()
+  private user = 'student'
+  private bootTime = new Date()
+
+  constructor() {
+    this.reset()
+  }
+
+  /**
+   * Start over with the system processes, the login shell and an adventure's processes
+   */
+  reset(seeds: AdventureProcess[] = [], user = this.user): void {
+    this.processes.clear()
+    this.user = user
+    const now = new Date()
+    this.bootTime = new Date(now.getTime() - 3 * 86400000 - 4 * 3600000)
+
+    SYSTEM_PROCESSES.forEach(seed => this.add(seed, this.bootTime))
+    this.add({ pid: SHELL_PID, ppid: 412, user, command: '-bash', tty: 'pts/0' }, now, {
+      HOME: `/home/${user}`,
+      USER: user,
+      SHELL: '/bin/bash',
+    })
+
+    let nextPid = FIRST_SEED_PID
+    for (const seed of seeds) {
+      const pid = seed.pid ?? nextPid
+      nextPid = Math.max(nextPid, pid) + 1
+      this.add({ ...seed, pid }, this.bootTime)
+    }
+  }
+
+  /**
+   * Every process, jobs included, by pid
+   */
+  list(): Process[] {
+    const shell = this.processes.get(SHELL_PID)
+    const jobs: Process[] = jobTable.getJobs().map(job => ({
+      pid: job.pid,
+      ppid: SHELL_PID,
+      user: this.user,
+      command: job.command,
+      state: job.state === 'stopped' ? 'T' : 'S',
+      cpu: 0,
+      mem: 0,
+      tty: 'pts/0',
+      started: new Date(),
+      env: shell?.env ?? {},
+    }))
+    return [...Array.from(this.processes.values()).map(process => ({ ...process })), ...jobs]
+      .sort((a, b) => a.pid - b.pid)
+  }
+
+  get(pid: number): Process | null {
+    return this.list().find(process => process.pid === pid) ?? null
+  }
+
+  /**
+   * The user the shell (and its jobs) run as
+   */
+  getUser(): string {
+    return this.user
+  }
+
+  getBootTime(): Date {
+    return this.bootTime
+  }
+
+  /**
+   * Send a signal to a process: jobs go through the job table, daemons stop,
+   * continue or exit. Only root may signal another user's processes.
+   */
+  signal(pid: number, signal: Signal, user: string, isSudo: boolean): SignalError | null {
+    const job = jobTable.findByPid(pid)
+    if (job) {
+      jobTable.kill(job.id, signal)
+      return null
+    }
+
+    const process = this.processes.get(pid)
+    if (!process) return 'No such process'
+    if (process.user !== user && !isSudo) return 'Operation not permitted'
+    if (UNKILLABLE.includes(pid)) return null
+
+    switch (signal.name) {
+      case 'STOP':
+      case 'TSTP':
+        process.state = 'T'
+        break
+      case 'CONT':
+        process.state = 'S'
+        break
+      case 'HUP': // Daemons reload their configuration
+        break
+      default:
+        this.processes.delete(pid)
+    }
+    return null
+  }
+
+  private add(seed: AdventureProcess, started: Date, env: Record<string, string> = {}): void {
+    const process: Process = {
+      pid: seed.pid ?? FIRST_SEED_PID,
+      ppid: seed.ppid ?? (seed.pid === 1 ? 0 : 1),
+      user: seed.user ?? 'root',
+      command: seed.command,
+      state: 'S',
+      cpu: seed.cpu ?? 0,
+      mem: seed.mem ?? 0,
+      tty: seed.tty ?? '?',
+      started,
+      env: { PATH: DEFAULT_PATH, ...env, ...seed.env },
+    }
+    this.processes.set(process.pid, process)
+  }
+}
+
+/**
+ * The process table of the simulated machine
+ */
+export const processTable = new ProcessTable()
+
+const STATE_NAMES: Record<ProcessState, string> = { R: 'R (running)', S: 'S (sleeping)', T: 'T (stopped)' }
+
+// Total memory of the simulated machine in kB, for %MEM
+export const MEMORY_KB = 8153497
+
+/**
+ * Resident and virtual size in kB, from %MEM
+ */
+export function processMemory(process: Process): { rss: number; vsz: number } {
+  const rss = Math.round((process.mem / 100) * MEMORY_KB) || 1024
+  return { rss, vsz: rss * 3 + 4096 }
+}
+
+/**
+ * /proc: one directory per process with cmdline, status and environ. Only
+ * root may read the environ of root's processes, as on Linux.
+ */
+export const procFilesystem: VirtualProvider = {
+  readdir(path: string): string[] | null {
+    if (path === '') return processTable.list().map(process => String(process.pid))
+    return /^\d+$/.test(path) && processTable.get(parseInt(path, 10)) ? ['cmdline', 'environ', 'status'] : null
+  },
+
+  readFile(path: string): VirtualFile | null {
+    const [pid, file] = path.split('/')
+    const process = /^\d+$/.test(pid) ? processTable.get(parseInt(pid, 10)) : null
+    if (!process) return null
+
+    switch (file) {
+      case 'cmdline':
+        return { content: process.command.split(' ').join('\0') }
+      case 'environ':
+        return {
+          content: Object.entries(process.env).map(([name, value]) => `${name}=${value}`).join('\0'),
+          owner: process.user,
+        }
+      case 'status':
+        return {
+          content: [
+            `Name:\t${processName(process)}`,
+            `State:\t${STATE_NAMES[process.state]}`,
+            `Pid:\t${process.pid}`,
+            `PPid:\t${process.ppid}`,
+            `Uid:\t${process.user === 'root' ? 0 : 1000}`,
+            `VmRSS:\t${String(processMemory(process).rss).padStart(8)} kB`,
+          ].join('\n'),
+        }
+      default:
+        return null
+    }
+  },
+}
@@ -0,0 +1,63 @@
+/**
+ * Prompt Rendering
+ * Expands the backslash escapes bash understands in PS1 and PS2:
+ *   \u user         \h host up to the first '.'   \H full host
+ *   \w cwd (~ for home)   \W last part of cwd     \$ '#' for root, else '$'
+ *   \t HH:MM:SS     \T hh:MM:SS (12-hour)   \A HH:MM   \d 'Tue May 26'
+ *   \! history number   \s shell name   \n newline   \\ backslash
+ *   \e, \033, \nnn (octal) and \a for ANSI escapes; \[ and \] are dropped
+ */
+
+export interface PromptInfo {
+  user: string
+  host: string
+  cwd: string
+  home: string
+  isRoot: boolean       // Running as root (sudo), so \$ shows '#'
+  historyNumber: number // History number of the command about to be typed
+  now?: Date
+}
+
+export const DEFAULT_PS1 = '\\[\\e[1;32m\\]\\u@\\h\\[\\e[0m\\]:\\[\\e[1;34m\\]\\w\\[\\e[0m\\]\\$ '
+export const DEFAULT_PS2 = '> '
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/**
+ * Render a PS1/PS2 template
+ */
+export function renderPrompt(template: string, info: PromptInfo): string {
+  const now = info.now ?? new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const hours12 = pad(now.getHours() % 12 || 12)
+  const tilde = info.cwd === info.home || info.cwd.startsWith(`${info.home}/`)
+    ? `~${info.cwd.slice(info.home.length)}`
+    : info.cwd
+
+  return template.replace(/\\([0-7]{3}|.)/g, (match, escape: string) => {
+    if (/^[0-7]{3}$/.test(escape)) return String.fromCharCode(parseInt(escape, 8))
+
+    switch (escape) {
+      case 'u': return info.user
+      case 'h': return info.host.split('.')[0]
+      case 'H': return info.host
+      case 'w': return tilde
+      case 'W': return info.cwd === info.home ? '~' : info.cwd.split('/').filter(Boolean).pop() ?? '/'
+      case '$': return info.isRoot ? '#' : '$'
+      case 't': return `${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`
+      case 'T': return `${hours12}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`
+      case 'A': return `${pad(now.getHours())}:${pad(now.getMinutes())}`
+      case 'd': return `${DAYS[now.getDay()]} ${MONTHS[now.getMonth()]} ${pad(now.getDate())}`
+      case '!': return String(info.historyNumber)
+      case 's': return 'bash'
+      case 'n': return '\n'
+      case 'e': return '\x1b'
+      case 'a': return '\x07'
+      case '\\': return '\\'
+      case '[':
+      case ']': return ''
+      default: return match
+    }
+  })
+}
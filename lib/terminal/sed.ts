@@ -0,0 +1,582 @@
+/**
+ * Sed
+ * A stream editor for scrubbing logs and patching config files: s/// with
+ * g, i, p and numbered occurrences, d, p, q, =, y, a, i, c and { } blocks,
+ * addressed by line number, $, /regex/ or a range of those. Takes -n,
+ * several -e scripts, -E and -i[SUFFIX] to edit MEMFS files in place.
+ */
+
+import type { CommandResult } from './command-executor'
+import { commandRegistry } from './command-registry'
+import type { CommandInvocation } from './command-registry'
+import { compileRegex, groupCount } from './posix-regex'
+import { readInputs, resolvePath, splitLines } from './text-tools'
+
+type Address =
+  | { type: 'line'; line: number }
+  | { type: 'last' }
+  | { type: 'regex'; regex: RegExp | null } // null: the last regex used
+
+interface SedCommand {
+  name: string          // s, y, d, p, q, =, a, i, c, or { for a block
+  start?: Address
+  end?: Address         // Set for a range
+  negate: boolean       // ADDR!command
+  regex?: RegExp | null // s: null reuses the last regex
+  replacement?: string
+  global?: boolean
+  occurrence?: number   // s/x/y/2 replaces the second match
+  print?: boolean       // s///p
+  from?: string[]       // y
+  to?: string[]
+  text?: string         // a, i, c
+  exitCode?: number     // q
+  block?: SedCommand[]
+}
+
+class ScriptError extends Error {}
+
+/**
+ * Parses one -e script:
+ *   script  := (command (';' | newline))*
+ *   command := [address [',' address]] ['!'] name arguments
+ *   address := NUMBER | '$' | '/' regex '/' ['I'] | '\' c regex c ['I']
+ * Errors read like GNU's: "-e expression #1, char 5: unterminated `s' command"
+ */
+class ScriptParser {
+  private pos = 0
+
+  constructor(private script: string, private expression: number, private extended: boolean) {}
+
+  parse(): SedCommand[] {
+    const commands = this.parseCommands()
+    if (!this.done()) {
+      this.pos++
+      throw this.error("unexpected `}'")
+    }
+    return commands
+  }
+
+  private parseCommands(): SedCommand[] {
+    const commands: SedCommand[] = []
+    for (;;) {
+      this.skip(/[\s;]/)
+      if (this.peek() === '#') {
+        while (!this.done() && this.peek() !== '\n') this.pos++
+        continue
+      }
+      if (this.done() || this.peek() === '}') return commands
+      commands.push(this.parseCommand())
+    }
+  }
+
+  private parseCommand(): SedCommand {
+    const command: SedCommand = { name: '', negate: false }
+    command.start = this.parseAddress()
+    if (command.start && this.peek() === ',') {
+      this.pos++
+      this.skip(/[ \t]/)
+      command.end = this.parseAddress()
+      if (!command.end) throw this.error("unexpected `,'")
+    }
+
+    this.skip(/[ \t]/)
+    if (this.peek() === '!') {
+      command.negate = true
+      this.pos++
+      this.skip(/[ \t]/)
+    }
+    if (this.done()) throw this.error('missing command')
+
+    command.name = this.script[this.pos++]
+    switch (command.name) {
+      case '{':
+        command.block = this.parseCommands()
+        if (this.done()) throw this.error("unmatched `{'")
+        this.pos++
+        return command
+      case 's':
+        this.parseSubstitute(command)
+        break
+      case 'y':
+        this.parseTransliterate(command)
+        break
+      case 'a':
+      case 'i':
+      case 'c':
+        command.text = this.parseText()
+        return command
+      case 'q': {
+        if (command.end) throw this.error('command only uses one address')
+        this.skip(/[ \t]/)
+        const digits = this.script.slice(this.pos).match(/^\d+/)?.[0] ?? ''
+        command.exitCode = digits ? parseInt(digits, 10) : 0
+        this.pos += digits.length
+        break
+      }
+      case 'd':
+      case 'p':
+      case '=':
+        break
+      default:
+        throw this.error(`unknown command: \`${command.name}'`)
+    }
+
+    this.skip(/[ \t]/)
+    if (!this.done() && !/[;\n}#]/.test(this.peek())) {
+      this.pos++
+      throw this.error('extra characters after command')
+    }
+    return command
+  }
+
+  private parseAddress(): Address | undefined {
+    const digits = this.script.slice(this.pos).match(/^\d+/)?.[0]
+    if (digits) {
+      this.pos += digits.length
+      const line = parseInt(digits, 10)
+      if (line === 0) throw this.error('invalid usage of line address 0')
+      return { type: 'line', line }
+    }
+
+    const char = this.peek()
+    if (char === '$') {
+      this.pos++
+      return { type: 'last' }
+    }
+    if (char !== '/' && char !== '\\') return undefined
+
+    this.pos++
+    // \cREGEXc uses c as the delimiter
+    const delimiter = char === '/' ? char : this.script[this.pos++]
+    const pattern = delimiter === undefined ? null : this.readDelimited(delimiter)
+    if (pattern === null) throw this.error('unterminated address regex')
+    const ignoreCase = this.peek() === 'I'
+    if (ignoreCase) this.pos++
+    return { type: 'regex', regex: this.compile(pattern, ignoreCase) }
+  }
+
+  // s/REGEX/REPLACEMENT/FLAGS
+  private parseSubstitute(command: SedCommand): void {
+    const delimiter = this.script[this.pos++]
+    const pattern = delimiter && !/[\n\\]/.test(delimiter) ? this.readDelimited(delimiter) : null
+    const replacement = pattern === null ? null : this.readDelimited(delimiter)
+    if (pattern === null || replacement === null) throw this.error("unterminated `s' command")
+
+    let ignoreCase = false
+    while (!this.done() && !/[\s;}#]/.test(this.peek())) {
+      const flag = this.script[this.pos++]
+      if (flag === 'g' || flag === 'p') {
+        const key = flag === 'g' ? 'global' : 'print'
+        if (command[key]) throw this.error(`multiple \`${flag}' options to \`s' command`)
+        command[key] = true
+      } else if (flag === 'i' || flag === 'I') {
+        ignoreCase = true
+      } else if (/\d/.test(flag)) {
+        if (command.occurrence !== undefined) throw this.error("multiple number options to `s' command")
+        const digits = flag + (this.script.slice(this.pos).match(/^\d*/)?.[0] ?? '')
+        this.pos += digits.length - 1
+        command.occurrence = parseInt(digits, 10)
+        if (command.occurrence === 0) throw this.error("number option to `s' command may not be zero")
+      } else {
+        throw this.error("unknown option to `s'")
+      }
+    }
+
+    command.regex = this.compile(pattern, ignoreCase)
+    command.replacement = replacement
+    const groups = command.regex ? groupCount(command.regex) : 9
+    for (const reference of replacement.match(/\\\d/g) ?? []) {
+      if (parseInt(reference[1], 10) > groups) {
+        throw this.error(`invalid reference ${reference} on \`s' command's RHS`)
+      }
+    }
+  }
+
+  // y/SOURCE/DEST/: both the same length
+  private parseTransliterate(command: SedCommand): void {
+    const delimiter = this.script[this.pos++]
+    const from = delimiter && !/[\n\\]/.test(delimiter) ? this.readDelimited(delimiter) : null
+    const to = from === null ? null : this.readDelimited(delimiter)
+    if (from === null || to === null) throw this.error("unterminated `y' command")
+
+    const unescape = (text: string) =>
+      Array.from(text.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char === 't' ? '\t' : char)))
+    command.from = unescape(from)
+    command.to = unescape(to)
+    if (command.from.length !== command.to.length) {
+      throw this.error("strings for `y' command are different lengths")
+    }
+  }
+
+  // The rest of the line: GNU's one-line `a text`, or `a\` and the text on the next line
+  private parseText(): string {
+    this.skip(/[ \t]/)
+    if (this.peek() === '\\') {
+      this.pos++
+      if (this.peek() === '\n') this.pos++
+    }
+
+    let text = ''
+    while (!this.done() && this.peek() !== '\n') {
+      const char = this.script[this.pos++]
+      if (char === '\\' && !this.done()) {
+        const next = this.script[this.pos++]
+        text += next === 't' ? '\t' : next
+      } else {
+        text += char
+      }
+    }
+    if (text === '') throw this.error("expected \\ after `a', `c' or `i'")
+    return text
+  }
+
+  // Text up to an unescaped delimiter, with \DELIM unescaped; null if there is none
+  private readDelimited(delimiter: string): string | null {
+    let text = ''
+    while (!this.done()) {
+      const char = this.script[this.pos++]
+      if (char === delimiter) return text
+      if (char === '\\' && !this.done()) {
+        const next = this.script[this.pos++]
+        text += next === delimiter ? next : char + next
+      } else {
+        text += char
+      }
+    }
+    return null
+  }
+
+  // An empty regex (s//x/) means the last one used, so it is left for the editor
+  private compile(pattern: string, ignoreCase: boolean): RegExp | null {
+    if (pattern === '') return null
+    try {
+      return compileRegex(pattern, { extended: this.extended, ignoreCase })
+    } catch (error) {
+      throw this.error(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  private skip(chars: RegExp): void {
+    while (!this.done() && chars.test(this.peek())) this.pos++
+  }
+
+  private peek(): string {
+    return this.script[this.pos] ?? ''
+  }
+
+  private done(): boolean {
+    return this.pos >= this.script.length
+  }
+
+  private error(message: string): ScriptError {
+    return new ScriptError(`-e expression #${this.expression}, char ${this.pos}: ${message}`)
+  }
+}
+
+// One line's trip through the script
+interface Cycle {
+  space: string       // Pattern space
+  line: number
+  last: boolean       // The last line of input, which $ addresses
+  deleted: boolean    // d or c: not printed at the end of the cycle
+  appended: string[]  // Text from a, printed after the line
+  quit?: number       // Exit status from q
+}
+
+/**
+ * Runs a parsed script over lines of input, collecting what it prints
+ */
+class Editor {
+  readonly output: string[] = []
+  private ranges = new Set<SedCommand>() // Commands whose range has started and not yet ended
+  private lastRegex: RegExp | null = null
+
+  constructor(private commands: SedCommand[], private quiet: boolean) {}
+
+  /**
+   * Edit every line; returns q's exit status if the script quit
+   */
+  run(lines: string[]): number | undefined {
+    for (let i = 0; i < lines.length; i++) {
+      const cycle: Cycle = { space: lines[i], line: i + 1, last: i === lines.length - 1, deleted: false, appended: [] }
+      this.execute(this.commands, cycle)
+      if (!cycle.deleted && !this.quiet) this.output.push(cycle.space)
+      this.output.push(...cycle.appended)
+      if (cycle.quit !== undefined) return cycle.quit
+    }
+    return undefined
+  }
+
+  // Run commands on the pattern space; false once d, c or q ends the cycle
+  private execute(commands: SedCommand[], cycle: Cycle): boolean {
+    for (const command of commands) {
+      if (!this.selects(command, cycle)) continue
+
+      switch (command.name) {
+        case '{':
+          if (!this.execute(command.block!, cycle)) return false
+          break
+        case 's':
+          this.substitute(command, cycle)
+          break
+        case 'y':
+          cycle.space = Array.from(cycle.space).map(char => {
+            const index = command.from!.indexOf(char)
+            return index === -1 ? char : command.to![index]
+          }).join('')
+          break
+        case 'p':
+          this.output.push(cycle.space)
+          break
+        case '=':
+          this.output.push(String(cycle.line))
+          break
+        case 'a':
+          cycle.appended.push(command.text!)
+          break
+        case 'i':
+          this.output.push(command.text!)
+          break
+        case 'c':
+          // A range is replaced as a whole, once its last line is reached
+          if (!this.ranges.has(command) || command.negate) this.output.push(command.text!)
+          cycle.deleted = true
+          return false
+        case 'd':
+          cycle.deleted = true
+          return false
+        case 'q':
+          cycle.quit = command.exitCode
+          return false
+      }
+    }
+    return true
+  }
+
+  private selects(command: SedCommand, cycle: Cycle): boolean {
+    const { start, end } = command
+    let selected = false
+
+    if (!start) {
+      selected = true
+    } else if (!end) {
+      selected = this.matches(start, cycle)
+    } else if (this.ranges.has(command)) {
+      selected = true
+      if (end.type === 'line' ? cycle.line >= end.line : this.matches(end, cycle)) this.ranges.delete(command)
+    } else if (this.matches(start, cycle)) {
+      // The end is looked for from the next line on; a line number already passed ends the range at once
+      selected = true
+      const ended = end.type === 'line' ? end.line <= cycle.line : end.type === 'last' && cycle.last
+      if (!ended) this.ranges.add(command)
+    }
+
+    return command.negate ? !selected : selected
+  }
+
+  private matches(address: Address, cycle: Cycle): boolean {
+    switch (address.type) {
+      case 'line':
+        return cycle.line === address.line
+      case 'last':
+        return cycle.last
+      case 'regex':
+        return cycle.space.search(this.regexFor(address.regex)) !== -1
+    }
+  }
+
+  private regexFor(regex: RegExp | null): RegExp {
+    if (regex) {
+      this.lastRegex = regex
+      return regex
+    }
+    if (!this.lastRegex) throw new ScriptError('no previous regular expression')
+    return this.lastRegex
+  }
+
+  private substitute(command: SedCommand, cycle: Cycle): void {
+    const base = this.regexFor(command.regex!)
+    const regex = new RegExp(base.source, `${base.flags}g`)
+    const occurrence = command.occurrence ?? 1
+
+    let result = ''
+    let copied = 0
+    let previousEnd = -1
+    let count = 0
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(cycle.space)) !== null) {
+      const end = match.index + match[0].length
+      if (match[0] === '') {
+        regex.lastIndex++
+        // No empty match right after a match: s/b*/-/g turns abc into -a-c-
+        if (match.index === previousEnd) continue
+      }
+      previousEnd = end
+      if (++count < occurrence) continue
+
+      result += cycle.space.slice(copied, match.index) + expandReplacement(command.replacement!, match)
+      copied = end
+      if (!command.global) break
+    }
+
+    if (count < occurrence) return
+    cycle.space = result + cycle.space.slice(copied)
+    if (command.print) this.output.push(cycle.space)
+  }
+}
+
+/**
+ * The replacement for one match: & is the match, \1-\9 its groups, \n a
+ * newline; \U and \L upper- or lowercase until \E, \u and \l the next character
+ */
+function expandReplacement(replacement: string, match: RegExpExecArray): string {
+  let result = ''
+  let caseMode = ''
+  let nextCase = ''
+
+  const append = (text: string) => {
+    let converted = caseMode === 'U' ? text.toUpperCase() : caseMode === 'L' ? text.toLowerCase() : text
+    if (nextCase && converted) {
+      converted = (nextCase === 'u' ? converted[0].toUpperCase() : converted[0].toLowerCase()) + converted.slice(1)
+      nextCase = ''
+    }
+    result += converted
+  }
+
+  for (let i = 0; i < replacement.length; i++) {
+    const char = replacement[i]
+    if (char === '&') {
+      append(match[0])
+    } else if (char !== '\\' || i + 1 === replacement.length) {
+      append(char)
+    } else {
+      const escaped = replacement[++i]
+      if (/\d/.test(escaped)) {
+        append(match[parseInt(escaped, 10)] ?? '')
+      } else if (escaped === 'U' || escaped === 'L' || escaped === 'E') {
+        caseMode = escaped === 'E' ? '' : escaped
+        nextCase = ''
+      } else if (escaped === 'u' || escaped === 'l') {
+        nextCase = escaped
+      } else {
+        append(escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped)
+      }
+    }
+  }
+  return result
+}
+
+// -i.bak keeps notes.txt.bak; a * in the suffix stands for the file name (-i'old_*')
+function backupPath(path: string, suffix: string): string {
+  if (!suffix.includes('*')) return path + suffix
+  const directory = path.substring(0, path.lastIndexOf('/'))
+  return `${directory}/${suffix.replace(/\*/g, path.split('/').pop()!)}`
+}
+
+const USAGE = 'Usage: sed [OPTION]... {script-only-if-no-other-script} [input-file]...'
+
+/**
+ * sed [-nE] [-i[SUFFIX]] {script | -e script...} [file...]
+ */
+function sedCommand(invocation: CommandInvocation): CommandResult {
+  const { options } = invocation
+  const operands = [...options.args]
+  // Without -e the first operand is the script
+  const scripts = options.values.get('e') ?? operands.splice(0, 1)
+  if (scripts.length === 0) {
+    return { stdout: '', stderr: USAGE, exitCode: 1 }
+  }
+
+  try {
+    const commands = scripts.flatMap((script, index) =>
+      new ScriptParser(script, index + 1, options.flags.has('E')).parse()
+    )
+    const suffix = options.namedArgs.get('i')
+    return suffix === undefined
+      ? editStream(invocation, operands, new Editor(commands, options.flags.has('n')))
+      : editInPlace(invocation, operands, commands, suffix)
+  } catch (error) {
+    if (!(error instanceof ScriptError)) throw error
+    return { stdout: '', stderr: `sed: ${error.message}`, exitCode: 1 }
+  }
+}
+
+// The inputs as one stream: line numbers run on from file to file and $ is the last line of the last one
+function editStream(invocation: CommandInvocation, operands: string[], editor: Editor): CommandResult {
+  const { inputs, errors } = readInputs({ ...invocation, options: { ...invocation.options, args: operands } })
+  const exitCode = editor.run(inputs.flatMap(input => splitLines(input.content)))
+  return {
+    stdout: editor.output.join('\n'),
+    stderr: errors.map(error => error.replace(/^sed: (.+): ([^:]+)$/, "sed: can't read $1: $2")).join('\n'),
+    exitCode: exitCode ?? (errors.length > 0 ? 2 : 0),
+  }
+}
+
+// Each file edited on its own and written back, after saving a backup if there is a suffix
+function editInPlace({ options, context, fs }: CommandInvocation, operands: string[], commands: SedCommand[], suffix: string): CommandResult {
+  if (operands.length === 0) {
+    return { stdout: '', stderr: 'sed: no input files', exitCode: 1 }
+  }
+
+  const errors: string[] = []
+  for (const operand of operands) {
+    const path = resolvePath(context.currentPath, operand, context.username)
+    if (!fs.exists(path)) {
+      errors.push(`sed: can't read ${operand}: No such file or directory`)
+      continue
+    }
+    const stat = fs.stat(path)
+    if (stat.isDirectory()) {
+      errors.push(`sed: couldn't edit ${operand}: not a regular file`)
+      continue
+    }
+    if (stat.owner === 'root' && !context.isSudo) {
+      errors.push(`sed: can't read ${operand}: Permission denied`)
+      continue
+    }
+
+    const content = fs.readFile(path, { encoding: 'utf8' }) as string
+    const editor = new Editor(commands, options.flags.has('n'))
+    const exitCode = editor.run(splitLines(content))
+    const edited = editor.output.join('\n')
+    try {
+      if (suffix) fs.writeFile(backupPath(path, suffix), content)
+      fs.writeFile(path, edited && content.endsWith('\n') ? `${edited}\n` : edited)
+    } catch (error) {
+      errors.push(`sed: couldn't edit ${operand}: ${error instanceof Error ? error.message : error}`)
+    }
+    if (exitCode !== undefined) return { stdout: '', stderr: errors.join('\n'), exitCode }
+  }
+
+  return { stdout: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 2 : 0 }
+}
+
+commandRegistry.registerAll([
+  {
+    name: 'sed',
+    summary: 'stream editor for filtering and transforming text',
+    usage: USAGE.replace(/^Usage: /, ''),
+    manPage:
+      'Apply the script to each line of the input files (or standard input) and print the result.\n' +
+      'Commands: s/REGEX/REPLACEMENT/FLAGS substitutes (flags: g all, N the Nth match, i ignore case, p print), ' +
+      'd deletes, p prints, q quits, = prints the line number, y/SOURCE/DEST/ transliterates, ' +
+      'a TEXT appends, i TEXT inserts, c TEXT changes and { } groups commands.\n' +
+      'Addresses: N (line N), $ (the last line), /REGEX/ (matching lines) or ADDR1,ADDR2 (a range); ADDR! negates.\n' +
+      'In REPLACEMENT, & is the whole match and \\1 to \\9 the text matched by \\( \\) groups.',
+    options: [
+      { flags: ['-n', '--quiet', '--silent'], description: 'suppress automatic printing of pattern space' },
+      { flags: ['-e', '--expression'], value: 'script', repeatable: true, description: 'add the script to the commands to be executed' },
+      { flags: ['-i', '--in-place'], value: 'SUFFIX', optionalValue: true, description: 'edit files in place (makes backup if SUFFIX supplied)' },
+      { flags: ['-E', '-r', '--regexp-extended'], description: 'use extended regular expressions in the script' },
+    ],
+    readsStdin: true,
+    examples: [
+      "sed 's/password=.*/password=REDACTED/' config.ini",
+      "sed -n '/ERROR/p' /logs/sys.log",
+      "sed -n '10,20p' access.log",
+      "sed -i.bak '/^#/d' settings.conf",
+    ],
+    run: sedCommand,
+  },
+])
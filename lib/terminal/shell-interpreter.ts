@@ -0,0 +1,957 @@
+/**
+ * Shell Interpreter
+ * Runs parsed shell programs against MEMFS: lists, pipelines, if/for/while/
+ * case, functions and redirections. Used for scripts (sh, source, ./file),
+ * compound commands typed at the prompt and command substitution.
+ */
+
+import { MEMFS } from './memfs'
+import {
+  parseShell,
+  AndOrList,
+  CaseClause,
+  CommandList,
+  CompoundCommand,
+  ForClause,
+  FunctionDefinition,
+  Pipeline,
+  Redirect,
+  ShellCommand,
+  SimpleCommand,
+  WhileClause,
+} from './shell-parser'
+import {
+  expandWord,
+  expandWords,
+  expandAssignmentValue,
+  expandParameters,
+  expandPattern,
+  ExpansionContext,
+  ParameterScope,
+} from './word-expansion'
+import { matchesGlob } from './glob'
+import { EnvSimulator } from './env-simulator'
+import { commandRegistry } from './command-registry'
+import type { CommandResult, ExecutionContext } from './command-executor'
+
+/**
+ * Runs a command that is neither a shell builtin nor a function
+ */
+export type CommandRunner = (argv: string[], context: ExecutionContext, stdin?: string) => CommandResult
+
+export interface ShellInterpreterOptions {
+  fs: MEMFS
+  context: ExecutionContext // The environment is shared; pass a clone for a child shell
+  runCommand: CommandRunner
+  scriptName?: string // $0
+  args?: string[]     // $1, $2, ...
+}
+
+/**
+ * Builtins that need the interpreter's own state
+ */
+export const SHELL_BUILTINS = new Set([
+  'exit', 'return', 'break', 'continue', 'local', 'shift', 'set', 'unset', 'export', 'readonly', 'read', 'eval',
+  'alias', 'unalias',
+])
+
+commandRegistry.registerAll([
+  { name: 'exit', summary: 'exit the shell', usage: 'exit [n]' },
+  { name: 'return', summary: 'return from a shell function', usage: 'return [n]' },
+  { name: 'break', summary: 'exit for, while or until loops', usage: 'break [n]' },
+  { name: 'continue', summary: 'resume the next iteration of a loop', usage: 'continue [n]' },
+  { name: 'local', summary: 'define local variables in a function', usage: 'local name[=value]...' },
+  { name: 'shift', summary: 'shift positional parameters', usage: 'shift [n]' },
+  { name: 'set', summary: 'list shell variables or set positional parameters', usage: 'set [-- arg...]' },
+  { name: 'unset', summary: 'unset values and attributes of variables and functions', usage: 'unset [-fv] name...' },
+  {
+    name: 'export',
+    summary: 'set export attribute for shell variables',
+    usage: 'export name[=value]...',
+    examples: ['export VAR=value', 'export PATH=$PATH:/opt/bin'],
+    intercepted: true,
+  },
+  { name: 'readonly', summary: 'mark shell variables as unchangeable', usage: 'readonly name[=value]...' },
+  {
+    name: 'read',
+    summary: 'read a line from the standard input',
+    usage: 'read [-r] name...',
+    examples: ['while read line; do echo "$line"; done < file.txt'],
+    readsStdin: true,
+  },
+  { name: 'eval', summary: 'execute arguments as a shell command', usage: 'eval [arg...]' },
+  {
+    name: 'alias',
+    summary: 'define or display aliases',
+    usage: 'alias [name[=value] ...]',
+    manPage: 'Without arguments, print every alias as alias NAME=VALUE. Otherwise define an alias for each NAME whose VALUE is given, or print the alias NAME. A typed command whose first word is an alias has it replaced by VALUE; if VALUE ends in a space, the next word is checked for an alias too.',
+    examples: ["alias ll='ls -l'", 'alias'],
+  },
+  { name: 'unalias', summary: 'remove each name from the list of defined aliases', usage: 'unalias [-a] name [name ...]' },
+])
+
+// Characters an alias name can't contain
+const INVALID_ALIAS_NAME = /[\s/$`='"\\|&;()<>]/
+
+// Scripts run synchronously in the browser, so runaway loops and recursion are cut off
+const MAX_LOOP_ITERATIONS = 10000
+const MAX_CALL_DEPTH = 100
+
+class ExitSignal {
+  constructor(public code: number) {}
+}
+
+class ReturnSignal {
+  constructor(public code: number) {}
+}
+
+class LoopSignal {
+  constructor(public kind: 'break' | 'continue', public levels: number) {}
+}
+
+/**
+ * Standard input shared by the commands of a compound command
+ * `read` consumes it line by line; other commands take the rest
+ */
+class InputStream {
+  private offset = 0
+
+  constructor(private text: string) {}
+
+  readLine(): string | null {
+    if (this.offset >= this.text.length) return null
+    let end = this.text.indexOf('\n', this.offset)
+    if (end === -1) end = this.text.length
+    const line = this.text.slice(this.offset, end)
+    this.offset = end + 1
+    return line
+  }
+
+  readAll(): string {
+    const rest = this.text.slice(this.offset)
+    this.offset = this.text.length
+    return rest
+  }
+}
+
+type OutputTarget =
+  | { kind: 'stdout' }
+  | { kind: 'stderr' }
+  | { kind: 'null' }
+  | { kind: 'file'; path: string }
+
+interface Output {
+  stdout: string[]
+  stderr: string[]
+}
+
+/**
+ * Interpreter for a POSIX sh subset
+ */
+export class ShellInterpreter implements ParameterScope {
+  private fs: MEMFS
+  private context: ExecutionContext
+  private env: EnvSimulator
+  private runCommand: CommandRunner
+  private scriptName: string
+  private positional: string[]
+  private output: Output = { stdout: [], stderr: [] }
+  private localFrames: Array<Map<string, string | undefined>> = []
+  private loopDepth = 0
+
+  constructor(options: ShellInterpreterOptions) {
+    const { context } = options
+    this.fs = options.fs
+    this.env = context.env ?? new EnvSimulator({ username: context.username, currentPath: context.currentPath })
+    this.context = { ...context, env: this.env }
+    this.runCommand = options.runCommand
+    this.scriptName = options.scriptName ?? this.env.getParameter('0') ?? 'bash'
+    this.positional = options.args ?? []
+  }
+
+  /**
+   * Parse and run a program
+   * `newPath` is set on the result when the program changed directory
+   */
+  run(source: string, stdin?: string): CommandResult {
+    const startPath = this.context.currentPath
+    this.output = { stdout: [], stderr: [] }
+
+    let exitCode: number
+    try {
+      exitCode = this.evaluate(source, stdin === undefined ? undefined : new InputStream(stdin))
+    } catch (signal) {
+      if (!(signal instanceof ExitSignal || signal instanceof ReturnSignal)) throw signal
+      exitCode = signal.code
+    }
+    this.env.setExitStatus(exitCode)
+
+    return {
+      stdout: this.output.stdout.join('\n'),
+      stderr: this.output.stderr.join('\n'),
+      exitCode,
+      newPath: this.context.currentPath !== startPath ? this.context.currentPath : undefined,
+    }
+  }
+
+  getParameter(name: string): string | undefined {
+    if (name === '0') return this.scriptName
+    if (/^[1-9]$/.test(name)) return this.positional[parseInt(name, 10) - 1]
+    if (name === '#') return String(this.positional.length)
+    if (name === '@' || name === '*') return this.positional.join(' ')
+    return this.env.getParameter(name)
+  }
+
+  setVariable(name: string, value: string): void {
+    this.env.setVariable(name, value)
+  }
+
+  getPositionalParameters(): string[] {
+    return [...this.positional]
+  }
+
+  private evaluate(source: string, stdin?: InputStream): number {
+    const { ast, error } = parseShell(source)
+    if (error || !ast) {
+      if (error) this.writeError(error)
+      return error ? 2 : 0
+    }
+    return this.execList(ast, stdin)
+  }
+
+  private write(text: string): void {
+    if (text) this.output.stdout.push(text)
+  }
+
+  private writeError(text: string): void {
+    if (text) this.output.stderr.push(text)
+  }
+
+  /**
+   * Run with stdout and/or stderr collected instead of written
+   */
+  private capture(run: () => number, streams: { stdout: boolean; stderr: boolean }): Output & { exitCode: number } {
+    const saved = this.output
+    this.output = {
+      stdout: streams.stdout ? [] : saved.stdout,
+      stderr: streams.stderr ? [] : saved.stderr,
+    }
+    // Captured stdout no longer goes to the terminal
+    const { columns } = this.context
+    if (streams.stdout) this.context = { ...this.context, columns: undefined }
+
+    try {
+      const exitCode = run()
+      return { ...this.output, exitCode }
+    } finally {
+      this.output = saved
+      this.context = { ...this.context, columns }
+    }
+  }
+
+  private expansion(): ExpansionContext {
+    return {
+      ...this.context,
+      fs: this.fs,
+      parameters: this,
+      substitute: command => this.substitute(command),
+    }
+  }
+
+  /**
+   * $(...) runs in a subshell; its errors still reach the terminal
+   */
+  private substitute(command: string): string {
+    // Output recorded when the line was checked stands in for the first run
+    const recorded = this.context.substitutions?.get(command)
+    if (recorded !== undefined) {
+      this.context.substitutions?.delete(command)
+      return recorded
+    }
+
+    const child = this.subshell()
+    child.context = { ...child.context, columns: undefined }
+    const result = child.run(command)
+    this.writeError(result.stderr)
+    return result.stdout
+  }
+
+  /**
+   * A child shell with copies of the variables, functions and directory
+   */
+  private subshell(): ShellInterpreter {
+    return new ShellInterpreter({
+      fs: this.fs,
+      context: { ...this.context, env: this.env.clone() },
+      runCommand: this.runCommand,
+      scriptName: this.scriptName,
+      args: this.positional,
+    })
+  }
+
+  private execList(list: CommandList, stdin?: InputStream): number {
+    let status = 0
+    for (const item of list.items) {
+      status = this.execAndOr(item.command, stdin)
+    }
+    return status
+  }
+
+  private execAndOr(andOr: AndOrList, stdin?: InputStream): number {
+    let status = this.execPipeline(andOr.first, stdin)
+    for (const { op, pipeline } of andOr.rest) {
+      // `a && b` runs b only on success, `a || b` only on failure
+      if ((op === '&&') === (status === 0)) {
+        status = this.execPipeline(pipeline, stdin)
+      }
+    }
+    return status
+  }
+
+  private execPipeline(pipeline: Pipeline, stdin?: InputStream): number {
+    let input = stdin
+    let status = 0
+
+    pipeline.commands.forEach((command, i) => {
+      if (i === pipeline.commands.length - 1) {
+        status = this.execCommand(command, input)
+        return
+      }
+      // Like bash, only stdout is piped
+      const captured = this.capture(() => this.execCommand(command, input), { stdout: true, stderr: false })
+      input = new InputStream(captured.stdout.join('\n'))
+    })
+
+    if (pipeline.negated) status = status === 0 ? 1 : 0
+    this.env.setExitStatus(status)
+    return status
+  }
+
+  private execCommand(command: ShellCommand, stdin?: InputStream): number {
+    switch (command.type) {
+      case 'simple':
+        return this.execSimple(command, stdin)
+      case 'function':
+        this.env.defineFunction(command)
+        return 0
+      default:
+        return this.withRedirects(command.redirects, stdin, input => this.execCompound(command, input))
+    }
+  }
+
+  private execCompound(command: CompoundCommand, stdin?: InputStream): number {
+    switch (command.type) {
+      case 'group':
+        return this.execList(command.body, stdin)
+
+      case 'subshell': {
+        const child = this.subshell()
+        child.output = this.output
+        try {
+          return child.execList(command.body, stdin)
+        } catch (signal) {
+          if (signal instanceof ExitSignal || signal instanceof ReturnSignal) return signal.code
+          throw signal
+        }
+      }
+
+      case 'if': {
+        for (const branch of command.branches) {
+          if (this.execList(branch.condition, stdin) === 0) {
+            return this.execList(branch.body, stdin)
+          }
+        }
+        return command.elseBody ? this.execList(command.elseBody, stdin) : 0
+      }
+
+      case 'for':
+        return this.execFor(command, stdin)
+      case 'while':
+        return this.execWhile(command, stdin)
+      case 'case':
+        return this.execCase(command, stdin)
+    }
+  }
+
+  private execFor(command: ForClause, stdin?: InputStream): number {
+    let values: string[]
+    try {
+      values = command.items ? expandWords(command.items, this.expansion()) : [...this.positional]
+    } catch (error) {
+      this.writeError(`bash: ${error instanceof Error ? error.message : error}`)
+      return 1
+    }
+
+    let status = 0
+    this.loopDepth++
+    try {
+      for (const value of values) {
+        this.env.setVariable(command.variable, value)
+        const result = this.execLoopBody(command.body, stdin)
+        if (result === null) break
+        status = result
+      }
+    } finally {
+      this.loopDepth--
+    }
+    return status
+  }
+
+  private execWhile(command: WhileClause, stdin?: InputStream): number {
+    let status = 0
+    let iterations = 0
+
+    this.loopDepth++
+    try {
+      while ((this.execList(command.condition, stdin) === 0) !== command.until) {
+        if (++iterations > MAX_LOOP_ITERATIONS) {
+          this.writeError(`bash: loop stopped after ${MAX_LOOP_ITERATIONS} iterations`)
+          return 1
+        }
+        const result = this.execLoopBody(command.body, stdin)
+        if (result === null) break
+        status = result
+      }
+    } finally {
+      this.loopDepth--
+    }
+    return status
+  }
+
+  /**
+   * Run one loop iteration, handling break and continue
+   * Returns null when the loop should stop
+   */
+  private execLoopBody(body: CommandList, stdin?: InputStream): number | null {
+    try {
+      return this.execList(body, stdin)
+    } catch (signal) {
+      if (!(signal instanceof LoopSignal)) throw signal
+      if (signal.levels > 1) throw new LoopSignal(signal.kind, signal.levels - 1)
+      return signal.kind === 'break' ? null : 0
+    }
+  }
+
+  private execCase(command: CaseClause, stdin?: InputStream): number {
+    const expansion = this.expansion()
+    const subject = expandAssignmentValue(command.word, expansion)
+
+    for (const item of command.items) {
+      if (item.patterns.some(pattern => matchesGlob(expandPattern(pattern, expansion), subject))) {
+        return this.execList(item.body, stdin)
+      }
+    }
+    return 0
+  }
+
+  private execSimple(command: SimpleCommand, stdin?: InputStream): number {
+    const expansion = this.expansion()
+    let argv: string[]
+
+    try {
+      // Bare assignments (NAME=value) set shell variables
+      if (command.words.length === 0) {
+        for (const assignment of command.assignments) {
+          this.env.setVariable(assignment.name, expandAssignmentValue(assignment.value, expansion))
+        }
+        return this.withRedirects(command.redirects, stdin, () => 0)
+      }
+
+      argv = expandWords(command.words, expansion)
+    } catch (error) {
+      this.writeError(`bash: ${error instanceof Error ? error.message : error}`)
+      return 1
+    }
+
+    if (argv.length === 0) return 0
+
+    // Assignments before a command (NAME=value cmd) only last for that command
+    const saved = command.assignments.map(a => ({ name: a.name, value: this.env.getVariable(a.name) }))
+    try {
+      for (const assignment of command.assignments) {
+        this.env.setVariable(assignment.name, expandAssignmentValue(assignment.value, expansion))
+      }
+      return this.withRedirects(command.redirects, stdin, input => this.invoke(argv, input))
+    } catch (error) {
+      if (error instanceof ExitSignal || error instanceof ReturnSignal || error instanceof LoopSignal) throw error
+      this.writeError(`bash: ${error instanceof Error ? error.message : error}`)
+      return 1
+    } finally {
+      for (const { name, value } of saved) {
+        this.restoreVariable(name, value)
+      }
+    }
+  }
+
+  private restoreVariable(name: string, value: string | undefined): void {
+    try {
+      if (value === undefined) this.env.unsetVariable(name)
+      else this.env.setVariable(name, value)
+    } catch {
+      // Readonly variables keep their value
+    }
+  }
+
+  /**
+   * Run a function, builtin or external command
+   */
+  private invoke(argv: string[], stdin?: InputStream): number {
+    const [name, ...args] = argv
+
+    const fn = this.env.getFunction(name)
+    if (fn) return this.callFunction(fn, args, stdin)
+
+    if (SHELL_BUILTINS.has(name)) return this.builtin(name, args, stdin)
+
+    if (name === 'sudo') {
+      // There is no terminal to ask for a password while a script runs
+      if (!this.context.isSudo) {
+        this.writeError('sudo: a terminal is required to read the password; run the script with sudo instead')
+        return 1
+      }
+      if (args.length === 0) {
+        this.writeError('sudo: a command must be specified')
+        return 1
+      }
+      return this.invoke(args, stdin)
+    }
+
+    // Commands that don't read standard input leave it for `while read`
+    const spec = commandRegistry.get(name)
+    const input = spec && !spec.readsStdin ? undefined : stdin?.readAll()
+    const result = this.runCommand(argv, this.context, input)
+    this.write(result.stdout)
+    this.writeError(result.stderr)
+
+    if (result.newPath) {
+      this.context = { ...this.context, currentPath: result.newPath }
+      this.env.updatePWD(result.newPath)
+    }
+    return result.exitCode
+  }
+
+  private callFunction(fn: FunctionDefinition, args: string[], stdin?: InputStream): number {
+    if (this.localFrames.length >= MAX_CALL_DEPTH) {
+      this.writeError(`bash: ${fn.name}: maximum function nesting level exceeded (${MAX_CALL_DEPTH})`)
+      return 1
+    }
+
+    const savedPositional = this.positional
+    const frame = new Map<string, string | undefined>()
+    this.positional = args
+    this.localFrames.push(frame)
+
+    try {
+      return this.execCommand(fn.body, stdin)
+    } catch (signal) {
+      if (signal instanceof ReturnSignal) return signal.code
+      throw signal
+    } finally {
+      this.localFrames.pop()
+      this.positional = savedPositional
+      frame.forEach((value, name) => this.restoreVariable(name, value))
+    }
+  }
+
+  private builtin(name: string, args: string[], stdin?: InputStream): number {
+    switch (name) {
+      case 'exit':
+      case 'return': {
+        const code = args.length > 0 ? parseInt(args[0], 10) : this.env.getExitStatus()
+        if (isNaN(code)) {
+          this.writeError(`bash: ${name}: ${args[0]}: numeric argument required`)
+          throw name === 'exit' ? new ExitSignal(2) : new ReturnSignal(2)
+        }
+        throw name === 'exit' ? new ExitSignal(code & 0xff) : new ReturnSignal(code & 0xff)
+      }
+
+      case 'break':
+      case 'continue': {
+        if (this.loopDepth === 0) {
+          this.writeError(`bash: ${name}: only meaningful in a \`for', \`while', or \`until' loop`)
+          return 0
+        }
+        const levels = args.length > 0 ? parseInt(args[0], 10) : 1
+        if (isNaN(levels) || levels < 1) {
+          this.writeError(`bash: ${name}: ${args[0]}: loop count out of range`)
+          return 1
+        }
+        throw new LoopSignal(name, Math.min(levels, this.loopDepth))
+      }
+
+      case 'local': {
+        const frame = this.localFrames[this.localFrames.length - 1]
+        if (!frame) {
+          this.writeError('bash: local: can only be used in a function')
+          return 1
+        }
+        for (const arg of args) {
+          const [varName, ...rest] = arg.split('=')
+          if (!frame.has(varName)) frame.set(varName, this.env.getVariable(varName))
+          if (rest.length > 0) this.env.setVariable(varName, rest.join('='))
+          else this.restoreVariable(varName, undefined)
+        }
+        return 0
+      }
+
+      case 'shift': {
+        const count = args.length > 0 ? parseInt(args[0], 10) : 1
+        if (isNaN(count) || count < 0 || count > this.positional.length) return 1
+        this.positional = this.positional.slice(count)
+        return 0
+      }
+
+      case 'set': {
+        if (args.length === 0) {
+          this.write(this.env.formatSetOutput())
+          return 0
+        }
+        // Options (-e, -x, ...) are accepted but have no effect
+        let i = 0
+        while (i < args.length && /^[-+]./.test(args[i]) && args[i] !== '--') i++
+        if (args[i] === '--') i++
+        if (i < args.length || args.includes('--')) this.positional = args.slice(i)
+        return 0
+      }
+
+      case 'unset': {
+        const functionsOnly = args[0] === '-f'
+        const names = args.filter(arg => arg !== '-f' && arg !== '-v')
+        let status = 0
+        for (const varName of names) {
+          if (!functionsOnly && this.env.getVariable(varName) !== undefined) {
+            try {
+              this.env.unsetVariable(varName)
+            } catch (error) {
+              this.writeError(`bash: unset: ${error instanceof Error ? error.message : error}`)
+              status = 1
+            }
+          } else {
+            this.env.unsetFunction(varName)
+          }
+        }
+        return status
+      }
+
+      case 'export': {
+        const output = this.env.executeExportCommand(args)
+        // Listing prints the variables; otherwise the output is only errors
+        if (args.length === 0 || args.includes('-p')) {
+          this.write(output)
+          return 0
+        }
+        this.writeError(output ? `bash: ${output}` : '')
+        return output ? 1 : 0
+      }
+
+      case 'readonly': {
+        if (args.length === 0 || args[0] === '-p') {
+          this.write(
+            this.env.getAllVariables()
+              .filter(v => v.readonly)
+              .map(v => `declare -r ${v.name}="${v.value}"`)
+              .join('\n')
+          )
+          return 0
+        }
+        for (const arg of args) {
+          const [varName, ...rest] = arg.split('=')
+          try {
+            const value = rest.length > 0 ? rest.join('=') : this.env.getVariable(varName) ?? ''
+            this.env.setVariable(varName, value, true)
+          } catch (error) {
+            this.writeError(`bash: readonly: ${error instanceof Error ? error.message : error}`)
+            return 1
+          }
+        }
+        return 0
+      }
+
+      case 'read':
+        return this.read(args, stdin)
+
+      case 'eval':
+        return this.evaluate(args.join(' '), stdin)
+
+      case 'alias':
+        return this.alias(args)
+
+      case 'unalias':
+        return this.unalias(args)
+    }
+
+    return 0
+  }
+
+  /**
+   * alias [name[=value] ...]: define aliases, or print them as alias name='value'
+   */
+  private alias(args: string[]): number {
+    const format = (name: string) => `alias ${name}='${this.env.getAlias(name)!.replace(/'/g, "'\\''")}'`
+    const names = args.filter(arg => arg !== '-p')
+    if (names.length === 0) {
+      this.write(this.env.getAliasNames().map(format).join('\n'))
+      return 0
+    }
+
+    let status = 0
+    for (const arg of names) {
+      const eq = arg.indexOf('=')
+      if (eq === -1) {
+        if (this.env.getAlias(arg) !== undefined) {
+          this.write(format(arg))
+        } else {
+          this.writeError(`bash: alias: ${arg}: not found`)
+          status = 1
+        }
+        continue
+      }
+
+      const name = arg.slice(0, eq)
+      if (!name || INVALID_ALIAS_NAME.test(name)) {
+        this.writeError(`bash: alias: \`${name}': invalid alias name`)
+        status = 1
+        continue
+      }
+      this.env.setAlias(name, arg.slice(eq + 1))
+    }
+    return status
+  }
+
+  /**
+   * unalias [-a] name...: remove aliases
+   */
+  private unalias(args: string[]): number {
+    if (args[0] === '-a') {
+      this.env.clearAliases()
+      return 0
+    }
+    if (args.length === 0) {
+      this.writeError('unalias: usage: unalias [-a] name [name ...]')
+      return 2
+    }
+
+    let status = 0
+    for (const name of args) {
+      if (!this.env.unsetAlias(name)) {
+        this.writeError(`bash: unalias: ${name}: not found`)
+        status = 1
+      }
+    }
+    return status
+  }
+
+  /**
+   * read [-r] [-p prompt] [name...]: split one line of input into variables
+   */
+  private read(args: string[], stdin?: InputStream): number {
+    let raw = false
+    const names: string[] = []
+
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === '-r') raw = true
+      else if (args[i] === '-p') i++ // No terminal to prompt on
+      else names.push(args[i])
+    }
+    if (names.length === 0) names.push('REPLY')
+
+    let line = stdin?.readLine() ?? null
+    if (line !== null && !raw) line = line.replace(/\\(.)/g, '$1')
+
+    // REPLY keeps the whole line; otherwise the last name takes the rest
+    const fields = names.length === 1 && names[0] === 'REPLY'
+      ? [line ?? '']
+      : splitFields(line ?? '', names.length)
+
+    names.forEach((varName, i) => this.env.setVariable(varName, fields[i] ?? ''))
+    return line === null ? 1 : 0
+  }
+
+  /**
+   * Apply redirections around a command
+   */
+  private withRedirects(
+    redirects: Redirect[],
+    stdin: InputStream | undefined,
+    run: (stdin?: InputStream) => number
+  ): number {
+    if (redirects.length === 0) return run(stdin)
+
+    const expansion = this.expansion()
+    let input = stdin
+    // Where each output fd ends up; fds pointing at the same target share it
+    const targets: Record<1 | 2, OutputTarget> = { 1: { kind: 'stdout' }, 2: { kind: 'stderr' } }
+
+    for (const redirect of redirects) {
+      const fd = redirect.fd ?? (redirect.op.startsWith('<') ? 0 : 1)
+
+      if (redirect.op === '<<' || redirect.op === '<<-') {
+        const heredoc = redirect.heredoc
+        let body = heredoc?.body ?? ''
+        if (heredoc && !heredoc.quoted) body = expandParameters(body, this, expansion.substitute)
+        input = new InputStream(body.replace(/\n$/, ''))
+        continue
+      }
+
+      const words = redirect.op === '<<<'
+        ? [expandAssignmentValue(redirect.target, expansion)]
+        : expandWord(redirect.target, expansion)
+      if (words.length !== 1) {
+        this.writeError(`bash: ${redirect.target.raw}: ambiguous redirect`)
+        return 1
+      }
+      const target = words[0]
+
+      if (redirect.op === '<<<') {
+        input = new InputStream(target)
+        continue
+      }
+
+      if (redirect.op === '<' || redirect.op === '<>') {
+        const content = this.readInput(target)
+        if (content === null) return 1
+        input = new InputStream(content)
+        continue
+      }
+
+      if (redirect.op === '>&' || redirect.op === '<&') {
+        if (target === '-') continue
+        if (/^\d+$/.test(target)) {
+          const source = parseInt(target, 10)
+          if (source !== 1 && source !== 2) {
+            this.writeError(`bash: ${target}: Bad file descriptor`)
+            return 1
+          }
+          if (fd === 1 || fd === 2) targets[fd] = targets[source]
+          continue
+        }
+      }
+
+      // >, >>, >|, &>, &>> and `>& file`
+      const append = redirect.op === '>>' || redirect.op === '&>>'
+      const output = this.openOutput(target, append)
+      if (!output) return 1
+
+      if (redirect.op === '&>' || redirect.op === '&>>' || (redirect.op === '>&' && redirect.fd === null)) {
+        targets[1] = output
+        targets[2] = output
+      } else if (fd === 1 || fd === 2) {
+        targets[fd] = output
+      }
+    }
+
+    if (targets[1].kind === 'stdout' && targets[2].kind === 'stderr') {
+      return run(input)
+    }
+
+    const captured = this.capture(() => run(input), { stdout: true, stderr: true })
+    const stdout = captured.stdout.join('\n')
+    const stderr = captured.stderr.join('\n')
+
+    if (targets[1] === targets[2]) {
+      this.deliver([stdout, stderr].filter(Boolean).join('\n'), targets[1])
+    } else {
+      this.deliver(stdout, targets[1])
+      this.deliver(stderr, targets[2])
+    }
+    return captured.exitCode
+  }
+
+  private deliver(text: string, target: OutputTarget): void {
+    if (!text) return
+    switch (target.kind) {
+      case 'stdout':
+        this.write(text)
+        break
+      case 'stderr':
+        this.writeError(text)
+        break
+      case 'file': {
+        const existing = this.fs.readFile(target.path, { encoding: 'utf8' }) as string
+        this.fs.writeFile(target.path, existing ? `${existing}\n${text}` : text)
+        break
+      }
+    }
+  }
+
+  /**
+   * Open a file for output, truncating it unless appending
+   */
+  private openOutput(name: string, append: boolean): OutputTarget | null {
+    if (name === '/dev/null') return { kind: 'null' }
+    if (name === '/dev/stdout') return { kind: 'stdout' }
+    if (name === '/dev/stderr') return { kind: 'stderr' }
+
+    const path = this.resolvePath(name)
+    const parent = path.substring(0, path.lastIndexOf('/')) || '/'
+
+    if (!this.fs.exists(parent)) {
+      this.writeError(`bash: ${name}: No such file or directory`)
+      return null
+    }
+
+    const exists = this.fs.exists(path)
+    if (exists && this.fs.stat(path).isDirectory()) {
+      this.writeError(`bash: ${name}: Is a directory`)
+      return null
+    }
+    if (this.fs.stat(exists ? path : parent).owner === 'root' && !this.context.isSudo) {
+      this.writeError(`bash: ${name}: Permission denied`)
+      return null
+    }
+
+    if (!append || !exists) this.fs.writeFile(path, '')
+    return { kind: 'file', path }
+  }
+
+  /**
+   * Read a file for input redirection, or null after reporting an error
+   */
+  private readInput(name: string): string | null {
+    const path = this.resolvePath(name)
+
+    if (!this.fs.exists(path)) {
+      this.writeError(`bash: ${name}: No such file or directory`)
+      return null
+    }
+    const stat = this.fs.stat(path)
+    if (stat.owner === 'root' && !this.context.isSudo) {
+      this.writeError(`bash: ${name}: Permission denied`)
+      return null
+    }
+    if (stat.isDirectory()) {
+      this.writeError(`bash: ${name}: Is a directory`)
+      return null
+    }
+
+    return this.fs.readFile(path, { encoding: 'utf8' }) as string
+  }
+
+  private resolvePath(path: string): string {
+    const absolute = path.startsWith('/') ? path : `${this.context.currentPath}/${path}`
+    const parts: string[] = []
+    for (const part of absolute.split('/')) {
+      if (part === '..') parts.pop()
+      else if (part && part !== '.') parts.push(part)
+    }
+    return '/' + parts.join('/')
+  }
+}
+
+/**
+ * Split a line on whitespace into at most `count` fields (for read)
+ */
+function splitFields(line: string, count: number): string[] {
+  const fields: string[] = []
+  let rest = line.trim()
+
+  while (fields.length < count - 1 && rest) {
+    const match = rest.match(/^(\S+)\s*/)!
+    fields.push(match[1])
+    rest = rest.slice(match[0].length)
+  }
+  if (rest) fields.push(rest)
+
+  return fields
+}
+
@@ -0,0 +1,1077 @@
+/**
+ * Shell Parser
+ * Tokenizes and parses command lines into an AST shared by the executor,
+ * interceptor, destructive command detector and mission validators
+ *
+ * Grammar (POSIX sh subset):
+ *   list     := andOr ((';' | '&' | NEWLINE) andOr)*
+ *   andOr    := pipeline (('&&' | '||') pipeline)*
+ *   pipeline := ['!'] command ('|' command)*
+ *   command  := simple | compound redirect* | function
+ *   compound := '(' list ')' | '{' list '}'
+ *             | 'if' list 'then' list ('elif' list 'then' list)* ['else' list] 'fi'
+ *             | 'for' name ['in' word*] ';' 'do' list 'done'
+ *             | ('while' | 'until') list 'do' list 'done'
+ *             | 'case' word 'in' (['('] word ('|' word)* ')' list ';;')* 'esac'
+ *   function := name '(' ')' compound | 'function' name ['(' ')'] compound
+ *   simple   := (assignment | word | redirect)+
+ *   redirect := [fd] op word
+ */
+
+/**
+ * How a piece of a word was quoted
+ * - none:   subject to expansion, word splitting and globbing
+ * - double: subject to expansion only
+ * - single: literal (also used for backslash-escaped characters)
+ */
+export type QuoteType = 'none' | 'single' | 'double'
+
+export interface WordPart {
+  value: string
+  quote: QuoteType
+}
+
+export interface Word {
+  raw: string // Source text, quotes included
+  parts: WordPart[]
+}
+
+export type RedirectOp =
+  | '>'    // Truncate
+  | '>>'   // Append
+  | '>|'   // Truncate (clobber)
+  | '<'    // Input
+  | '<>'   // Read/write
+  | '<<'   // Heredoc
+  | '<<-'  // Heredoc with leading tabs stripped
+  | '<<<'  // Here-string
+  | '>&'   // Duplicate output fd
+  | '<&'   // Duplicate input fd
+  | '&>'   // stdout and stderr
+  | '&>>'  // Append stdout and stderr
+
+export interface Heredoc {
+  delimiter: string
+  quoted: boolean     // Quoted delimiters disable expansion in the body
+  stripTabs: boolean  // <<- form
+  body?: string       // Undefined until the body lines have been read
+}
+
+export interface Redirect {
+  type: 'redirect'
+  fd: number | null // Explicit fd number (e.g. the 2 in 2>), null for the default
+  op: RedirectOp
+  target: Word
+  heredoc?: Heredoc
+}
+
+export interface Assignment {
+  name: string
+  value: Word
+}
+
+export interface SimpleCommand {
+  type: 'simple'
+  assignments: Assignment[]
+  words: Word[]
+  redirects: Redirect[]
+}
+
+export interface Subshell {
+  type: 'subshell'
+  body: CommandList
+  redirects: Redirect[]
+}
+
+export interface BraceGroup {
+  type: 'group'
+  body: CommandList
+  redirects: Redirect[]
+}
+
+export interface IfClause {
+  type: 'if'
+  branches: Array<{ condition: CommandList; body: CommandList }> // if, then each elif
+  elseBody: CommandList | null
+  redirects: Redirect[]
+}
+
+export interface ForClause {
+  type: 'for'
+  variable: string
+  items: Word[] | null // null without `in`: loop over "$@"
+  body: CommandList
+  redirects: Redirect[]
+}
+
+export interface WhileClause {
+  type: 'while'
+  until: boolean // `until` loops while the condition fails
+  condition: CommandList
+  body: CommandList
+  redirects: Redirect[]
+}
+
+export interface CaseItem {
+  patterns: Word[]
+  body: CommandList
+}
+
+export interface CaseClause {
+  type: 'case'
+  word: Word
+  items: CaseItem[]
+  redirects: Redirect[]
+}
+
+export type CompoundCommand = Subshell | BraceGroup | IfClause | ForClause | WhileClause | CaseClause
+
+export interface FunctionDefinition {
+  type: 'function'
+  name: string
+  body: CompoundCommand
+}
+
+export type ShellCommand = SimpleCommand | CompoundCommand | FunctionDefinition
+
+export interface Pipeline {
+  type: 'pipeline'
+  negated: boolean
+  commands: ShellCommand[]
+}
+
+export interface AndOrList {
+  type: 'andOr'
+  first: Pipeline
+  rest: Array<{ op: '&&' | '||'; pipeline: Pipeline }>
+}
+
+export interface ListItem {
+  command: AndOrList
+  separator: ';' | '&' | null
+}
+
+export interface CommandList {
+  type: 'list'
+  items: ListItem[]
+}
+
+export type ShellNode = CommandList | AndOrList | Pipeline | ShellCommand
+
+export interface ParseResult {
+  ast: CommandList | null
+  error?: string
+  incomplete?: boolean           // Input ended early (open quote, trailing |, ...)
+  pendingHeredocs: Heredoc[]     // Heredocs whose body has not been supplied yet
+}
+
+type TokenType = 'word' | 'op' | 'newline' | 'eof'
+
+interface Token {
+  type: TokenType
+  value: string // Operator text, or raw text for words
+  word?: Word
+  fd?: number   // IO number preceding a redirection operator
+  heredoc?: Heredoc
+}
+
+class ParseError extends Error {
+  constructor(message: string, public incomplete: boolean = false) {
+    super(message)
+  }
+}
+
+const OPERATORS = [
+  '&>>', '<<-', '<<<',
+  '&&', '||', ';;', '>>', '<<', '>&', '<&', '&>', '>|', '<>',
+  ';', '&', '|', '(', ')', '<', '>',
+]
+
+const REDIRECT_OPS = new Set<string>([
+  '>', '>>', '>|', '<', '<>', '<<', '<<-', '<<<', '>&', '<&', '&>', '&>>',
+])
+
+/**
+ * Reserved words that can only close or continue a compound command
+ */
+const CLOSING_WORDS = new Set(['then', 'elif', 'else', 'fi', 'do', 'done', 'esac', '}'])
+
+const METACHARS = new Set([' ', '\t', '\n', ';', '&', '|', '(', ')', '<', '>'])
+
+/**
+ * Lexer: turns a command line into words and operators
+ */
+class Lexer {
+  private pos = 0
+  private tokens: Token[] = []
+  private pendingHeredocs: Heredoc[] = []
+  private expectHeredocDelimiter: { stripTabs: boolean } | null = null
+
+  constructor(private input: string) {}
+
+  tokenize(): { tokens: Token[]; pendingHeredocs: Heredoc[] } {
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos]
+
+      if (char === ' ' || char === '\t') {
+        this.pos++
+        continue
+      }
+
+      // Line continuation
+      if (char === '\\' && this.input[this.pos + 1] === '\n') {
+        this.pos += 2
+        continue
+      }
+
+      if (char === '\n') {
+        this.pos++
+        this.tokens.push({ type: 'newline', value: '\n' })
+        this.readHeredocBodies()
+        continue
+      }
+
+      // Comments run to the end of the line
+      if (char === '#') {
+        while (this.pos < this.input.length && this.input[this.pos] !== '\n') {
+          this.pos++
+        }
+        continue
+      }
+
+      const op = OPERATORS.find(o => this.input.startsWith(o, this.pos))
+      if (op) {
+        this.pos += op.length
+        this.tokens.push({ type: 'op', value: op })
+        if (op === '<<' || op === '<<-') {
+          this.expectHeredocDelimiter = { stripTabs: op === '<<-' }
+        }
+        continue
+      }
+
+      this.readWord()
+    }
+
+    this.tokens.push({ type: 'eof', value: '' })
+    return { tokens: this.tokens, pendingHeredocs: this.pendingHeredocs }
+  }
+
+  private readWord(): void {
+    const start = this.pos
+    const parts: WordPart[] = []
+    const push = (value: string, quote: QuoteType) => {
+      const last = parts[parts.length - 1]
+      if (last && last.quote === quote) {
+        last.value += value
+      } else {
+        parts.push({ value, quote })
+      }
+    }
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos]
+
+      if (METACHARS.has(char)) break
+
+      if (char === '\\') {
+        if (this.pos + 1 >= this.input.length) {
+          this.pos++
+          break
+        }
+        const next = this.input[this.pos + 1]
+        this.pos += 2
+        if (next !== '\n') push(next, 'single')
+        continue
+      }
+
+      if (char === "'") {
+        const end = this.input.indexOf("'", this.pos + 1)
+        if (end === -1) {
+          throw new ParseError('unexpected EOF while looking for matching `\'\'', true)
+        }
+        push(this.input.slice(this.pos + 1, end), 'single')
+        // Keep empty quotes ('') as a part so the word still exists
+        if (end === this.pos + 1 && parts.length === 0) parts.push({ value: '', quote: 'single' })
+        this.pos = end + 1
+        continue
+      }
+
+      if (char === '"') {
+        this.readDoubleQuoted(push, parts)
+        continue
+      }
+
+      if (char === '$' || char === '`') {
+        const expansion = this.readExpansion()
+        if (expansion) {
+          push(expansion, 'none')
+          continue
+        }
+      }
+
+      push(char, 'none')
+      this.pos++
+    }
+
+    const raw = this.input.slice(start, this.pos)
+
+    // A number directly before a redirection operator is an fd (e.g. 2>)
+    if (/^\d+$/.test(raw) && (this.input[this.pos] === '>' || this.input[this.pos] === '<')) {
+      const op = OPERATORS.find(o => this.input.startsWith(o, this.pos))!
+      this.pos += op.length
+      this.tokens.push({ type: 'op', value: op, fd: parseInt(raw, 10) })
+      if (op === '<<' || op === '<<-') {
+        this.expectHeredocDelimiter = { stripTabs: op === '<<-' }
+      }
+      return
+    }
+
+    const token: Token = { type: 'word', value: raw, word: { raw, parts } }
+
+    if (this.expectHeredocDelimiter) {
+      const heredoc: Heredoc = {
+        delimiter: parts.map(p => p.value).join(''),
+        quoted: parts.some(p => p.quote !== 'none'),
+        stripTabs: this.expectHeredocDelimiter.stripTabs,
+      }
+      token.heredoc = heredoc
+      this.pendingHeredocs.push(heredoc)
+      this.expectHeredocDelimiter = null
+    }
+
+    this.tokens.push(token)
+  }
+
+  private readDoubleQuoted(push: (value: string, quote: QuoteType) => void, parts: WordPart[]): void {
+    this.pos++ // Opening quote
+    let sawContent = false
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos]
+
+      if (char === '"') {
+        this.pos++
+        if (!sawContent && parts.length === 0) parts.push({ value: '', quote: 'double' })
+        return
+      }
+
+      sawContent = true
+
+      if (char === '\\') {
+        const next = this.input[this.pos + 1]
+        if (next === '$' || next === '`' || next === '"' || next === '\\') {
+          push(next, 'single')
+          this.pos += 2
+          continue
+        }
+        if (next === '\n') {
+          this.pos += 2
+          continue
+        }
+        push(char, 'double')
+        this.pos++
+        continue
+      }
+
+      if (char === '$' || char === '`') {
+        const expansion = this.readExpansion()
+        if (expansion) {
+          push(expansion, 'double')
+          continue
+        }
+      }
+
+      push(char, 'double')
+      this.pos++
+    }
+
+    throw new ParseError('unexpected EOF while looking for matching `"\'', true)
+  }
+
+  /**
+   * Read $(...), $((...)), ${...} or `...` as opaque text so their
+   * contents never split the surrounding word
+   */
+  private readExpansion(): string | null {
+    const start = this.pos
+    const char = this.input[this.pos]
+
+    if (char === '`') {
+      let i = this.pos + 1
+      while (i < this.input.length && this.input[i] !== '`') {
+        if (this.input[i] === '\\') i++
+        i++
+      }
+      if (i >= this.input.length) {
+        throw new ParseError('unexpected EOF while looking for matching ``\'', true)
+      }
+      this.pos = i + 1
+      return this.input.slice(start, this.pos)
+    }
+
+    const next = this.input[this.pos + 1]
+    if (next !== '(' && next !== '{') return null
+
+    const close = next === '(' ? ')' : '}'
+    let depth = 0
+    let i = this.pos + 1
+    let quote = ''
+
+    for (; i < this.input.length; i++) {
+      const c = this.input[i]
+      if (quote) {
+        if (c === '\\' && quote === '"') i++
+        else if (c === quote) quote = ''
+        continue
+      }
+      if (c === '\\') {
+        i++
+      } else if (c === "'" || c === '"') {
+        quote = c
+      } else if (c === next) {
+        depth++
+      } else if (c === close) {
+        depth--
+        if (depth === 0) break
+      }
+    }
+
+    if (i >= this.input.length) {
+      throw new ParseError(`unexpected EOF while looking for matching \`${close}'`, true)
+    }
+
+    this.pos = i + 1
+    return this.input.slice(start, this.pos)
+  }
+
+  /**
+   * After a newline, consume the bodies of any heredocs started on that line
+   */
+  private readHeredocBodies(): void {
+    while (this.pendingHeredocs.length > 0) {
+      const heredoc = this.pendingHeredocs[0]
+      const lines: string[] = []
+      let terminated = false
+
+      while (this.pos < this.input.length) {
+        let end = this.input.indexOf('\n', this.pos)
+        if (end === -1) end = this.input.length
+        let line = this.input.slice(this.pos, end)
+        this.pos = Math.min(end + 1, this.input.length)
+
+        if (heredoc.stripTabs) line = line.replace(/^\t+/, '')
+        if (line === heredoc.delimiter) {
+          terminated = true
+          break
+        }
+        lines.push(line)
+      }
+
+      if (!terminated) {
+        // Body is still being typed; leave it pending
+        return
+      }
+
+      heredoc.body = lines.length > 0 ? lines.join('\n') + '\n' : ''
+      this.pendingHeredocs.shift()
+    }
+  }
+}
+
+/**
+ * Recursive descent parser over the lexer's tokens
+ */
+class Parser {
+  private pos = 0
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): CommandList {
+    this.skipNewlines()
+    const list = this.parseList([])
+    const token = this.peek()
+    if (token.type !== 'eof') {
+      throw this.unexpected(token)
+    }
+    return list
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos]
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++]
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek()
+    return token.type === 'op' && token.value === value
+  }
+
+  private isReserved(value: string): boolean {
+    const token = this.peek()
+    return token.type === 'word' && token.value === value
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().type === 'newline') this.pos++
+  }
+
+  private expectReserved(value: string): void {
+    if (!this.isReserved(value)) throw this.unexpected(this.peek())
+    this.pos++
+  }
+
+  private expectWord(): Token {
+    const token = this.next()
+    if (token.type !== 'word' || !token.word) throw this.unexpected(token)
+    return token
+  }
+
+  private unexpected(token: Token): ParseError {
+    if (token.type === 'eof') {
+      return new ParseError('syntax error: unexpected end of file', true)
+    }
+    const text = token.type === 'newline' ? 'newline' : token.value
+    return new ParseError(`syntax error near unexpected token \`${text}'`)
+  }
+
+  /**
+   * Parse a list until one of the terminators (e.g. ')' or '}') or EOF
+   * Only case items may have an empty list.
+   */
+  private parseList(terminators: string[], allowEmpty = false): CommandList {
+    const items: ListItem[] = []
+
+    while (true) {
+      this.skipNewlines()
+      const token = this.peek()
+      if (token.type === 'eof') break
+      if (token.type === 'op' && terminators.includes(token.value)) break
+      if (token.type === 'word' && terminators.includes(token.value)) break
+
+      const command = this.parseAndOr()
+      let separator: ListItem['separator'] = null
+
+      if (this.isOp(';') || this.isOp('&')) {
+        separator = this.next().value as ';' | '&'
+      } else if (this.peek().type === 'newline') {
+        separator = ';'
+        this.pos++
+      }
+
+      items.push({ command, separator })
+      if (separator === null) break
+    }
+
+    if (items.length === 0 && !allowEmpty && this.peek().type !== 'eof') {
+      throw this.unexpected(this.peek())
+    }
+
+    return { type: 'list', items }
+  }
+
+  private parseAndOr(): AndOrList {
+    const first = this.parsePipeline()
+    const rest: AndOrList['rest'] = []
+
+    while (this.isOp('&&') || this.isOp('||')) {
+      const op = this.next().value as '&&' | '||'
+      this.skipNewlines()
+      rest.push({ op, pipeline: this.parsePipeline() })
+    }
+
+    return { type: 'andOr', first, rest }
+  }
+
+  private parsePipeline(): Pipeline {
+    let negated = false
+    if (this.isReserved('!')) {
+      negated = true
+      this.pos++
+    }
+
+    const commands: ShellCommand[] = [this.parseCommand()]
+
+    while (this.isOp('|')) {
+      this.pos++
+      this.skipNewlines()
+      commands.push(this.parseCommand())
+    }
+
+    return { type: 'pipeline', negated, commands }
+  }
+
+  private parseCommand(): ShellCommand {
+    const token = this.peek()
+
+    if (token.type === 'word') {
+      if (CLOSING_WORDS.has(token.value)) throw this.unexpected(token)
+
+      if (token.value === 'function') {
+        this.pos++
+        const name = this.expectWord().value
+        if (this.isOp('(')) {
+          this.pos++
+          if (!this.isOp(')')) throw this.unexpected(this.peek())
+          this.pos++
+        }
+        return this.parseFunctionBody(name)
+      }
+
+      // name() compound-command
+      const after = this.tokens[this.pos + 1]
+      if (after?.type === 'op' && after.value === '(' && /^[A-Za-z_][\w.-]*$/.test(token.value)) {
+        this.pos += 2
+        if (!this.isOp(')')) throw this.unexpected(this.peek())
+        this.pos++
+        return this.parseFunctionBody(token.value)
+      }
+    }
+
+    const compound = this.parseCompound()
+    if (compound) {
+      compound.redirects = this.parseRedirects()
+      return compound
+    }
+
+    return this.parseSimpleCommand()
+  }
+
+  private parseFunctionBody(name: string): FunctionDefinition {
+    this.skipNewlines()
+    const body = this.parseCompound()
+    if (!body) throw this.unexpected(this.peek())
+    body.redirects = this.parseRedirects()
+    return { type: 'function', name, body }
+  }
+
+  /**
+   * Parse a compound command (without trailing redirects), if one starts here
+   */
+  private parseCompound(): CompoundCommand | null {
+    if (this.isOp('(')) {
+      this.pos++
+      const body = this.parseList([')'])
+      if (!this.isOp(')')) throw this.unexpected(this.peek())
+      this.pos++
+      return { type: 'subshell', body, redirects: [] }
+    }
+
+    const token = this.peek()
+    if (token.type !== 'word') return null
+
+    switch (token.value) {
+      case '{': {
+        this.pos++
+        const body = this.parseList(['}'])
+        this.expectReserved('}')
+        return { type: 'group', body, redirects: [] }
+      }
+      case 'if':
+        return this.parseIf()
+      case 'for':
+        return this.parseFor()
+      case 'while':
+      case 'until': {
+        this.pos++
+        const condition = this.parseList(['do'])
+        this.expectReserved('do')
+        const body = this.parseList(['done'])
+        this.expectReserved('done')
+        return { type: 'while', until: token.value === 'until', condition, body, redirects: [] }
+      }
+      case 'case':
+        return this.parseCase()
+    }
+
+    return null
+  }
+
+  private parseIf(): IfClause {
+    const branches: IfClause['branches'] = []
+    let elseBody: CommandList | null = null
+
+    do {
+      this.pos++ // if / elif
+      const condition = this.parseList(['then'])
+      this.expectReserved('then')
+      const body = this.parseList(['elif', 'else', 'fi'])
+      branches.push({ condition, body })
+    } while (this.isReserved('elif'))
+
+    if (this.isReserved('else')) {
+      this.pos++
+      elseBody = this.parseList(['fi'])
+    }
+    this.expectReserved('fi')
+
+    return { type: 'if', branches, elseBody, redirects: [] }
+  }
+
+  private parseFor(): ForClause {
+    this.pos++ // for
+    const variable = this.expectWord().value
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(variable)) {
+      throw new ParseError(`\`${variable}': not a valid identifier`)
+    }
+
+    let items: Word[] | null = null
+    this.skipNewlines()
+    if (this.isReserved('in')) {
+      this.pos++
+      items = []
+      while (this.peek().type === 'word') items.push(this.next().word!)
+    }
+
+    if (this.isOp(';')) this.pos++
+    this.skipNewlines()
+    this.expectReserved('do')
+    const body = this.parseList(['done'])
+    this.expectReserved('done')
+
+    return { type: 'for', variable, items, body, redirects: [] }
+  }
+
+  private parseCase(): CaseClause {
+    this.pos++ // case
+    const word = this.expectWord().word!
+    this.skipNewlines()
+    this.expectReserved('in')
+
+    const items: CaseItem[] = []
+    while (true) {
+      this.skipNewlines()
+      if (this.isReserved('esac')) break
+
+      if (this.isOp('(')) this.pos++
+      const patterns = [this.expectWord().word!]
+      while (this.isOp('|')) {
+        this.pos++
+        patterns.push(this.expectWord().word!)
+      }
+      if (!this.isOp(')')) throw this.unexpected(this.peek())
+      this.pos++
+
+      items.push({ patterns, body: this.parseList([';;', 'esac'], true) })
+      if (!this.isOp(';;')) break
+      this.pos++
+    }
+
+    this.skipNewlines()
+    this.expectReserved('esac')
+    return { type: 'case', word, items, redirects: [] }
+  }
+
+  private parseRedirects(): Redirect[] {
+    const redirects: Redirect[] = []
+    while (this.peek().type === 'op' && REDIRECT_OPS.has(this.peek().value)) {
+      redirects.push(this.parseRedirect())
+    }
+    return redirects
+  }
+
+  private parseRedirect(): Redirect {
+    const opToken = this.next()
+    const target = this.next()
+    if (target.type !== 'word' || !target.word) {
+      throw this.unexpected(target)
+    }
+    return {
+      type: 'redirect',
+      fd: opToken.fd ?? null,
+      op: opToken.value as RedirectOp,
+      target: target.word,
+      heredoc: target.heredoc,
+    }
+  }
+
+  private parseSimpleCommand(): SimpleCommand {
+    const command: SimpleCommand = { type: 'simple', assignments: [], words: [], redirects: [] }
+
+    while (true) {
+      const token = this.peek()
+
+      if (token.type === 'op' && REDIRECT_OPS.has(token.value)) {
+        command.redirects.push(this.parseRedirect())
+        continue
+      }
+
+      if (token.type !== 'word' || !token.word) break
+
+      const assignment = command.words.length === 0 ? toAssignment(token.word) : null
+      if (assignment) {
+        command.assignments.push(assignment)
+      } else {
+        command.words.push(token.word)
+      }
+      this.pos++
+    }
+
+    if (command.words.length === 0 && command.assignments.length === 0 && command.redirects.length === 0) {
+      throw this.unexpected(this.peek())
+    }
+
+    return command
+  }
+}
+
+/**
+ * Recognize NAME=value words
+ */
+function toAssignment(word: Word): Assignment | null {
+  const first = word.parts[0]
+  if (!first || first.quote !== 'none') return null
+
+  const match = first.value.match(/^([A-Za-z_][A-Za-z0-9_]*)=/)
+  if (!match) return null
+
+  const rest = first.value.slice(match[0].length)
+  const parts = rest ? [{ value: rest, quote: first.quote }, ...word.parts.slice(1)] : word.parts.slice(1)
+
+  return {
+    name: match[1],
+    value: { raw: word.raw.slice(match[0].length), parts },
+  }
+}
+
+/**
+ * Parse a command line into an AST
+ */
+export function parseShell(input: string): ParseResult {
+  try {
+    const { tokens, pendingHeredocs } = new Lexer(input).tokenize()
+    const ast = new Parser(tokens).parse()
+    return { ast, pendingHeredocs }
+  } catch (error) {
+    if (error instanceof ParseError) {
+      return {
+        ast: null,
+        error: `bash: ${error.message}`,
+        incomplete: error.incomplete,
+        pendingHeredocs: [],
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Quote removal without expansion
+ */
+export function wordToString(word: Word): string {
+  return word.parts.map(part => part.value).join('')
+}
+
+/**
+ * Get the argument vector of a simple command (quote removal only)
+ */
+export function commandArgv(command: SimpleCommand): string[] {
+  return command.words.map(wordToString)
+}
+
+/**
+ * Parse a single command string into its first simple command
+ * Returns null for empty input or parse errors
+ */
+export function parseSimpleCommand(input: string): SimpleCommand | null {
+  const { ast } = parseShell(input)
+  if (!ast || ast.items.length === 0) return null
+  const command = ast.items[0].command.first.commands[0]
+  return command.type === 'simple' ? command : null
+}
+
+/**
+ * Tokenize a command string into argv (replacement for ad-hoc whitespace splitting)
+ */
+export function parseArgv(input: string): string[] {
+  const command = parseSimpleCommand(input)
+  return command ? commandArgv(command) : []
+}
+
+/**
+ * If the AST is a single pipeline (no lists), return it
+ */
+export function getSinglePipeline(ast: CommandList): Pipeline | null {
+  if (ast.items.length !== 1 || ast.items[0].separator === '&') return null
+  const andOr = ast.items[0].command
+  return andOr.rest.length === 0 ? andOr.first : null
+}
+
+/**
+ * Collect every simple command in a node, including those nested in
+ * subshells and groups
+ */
+export function collectSimpleCommands(node: ShellNode): SimpleCommand[] {
+  switch (node.type) {
+    case 'list':
+      return node.items.flatMap(item => collectSimpleCommands(item.command))
+    case 'andOr':
+      return [node.first, ...node.rest.map(r => r.pipeline)].flatMap(collectSimpleCommands)
+    case 'pipeline':
+      return node.commands.flatMap(collectSimpleCommands)
+    case 'subshell':
+    case 'group':
+    case 'function':
+      return collectSimpleCommands(node.body)
+    case 'if':
+      return [
+        ...node.branches.flatMap(b => [...collectSimpleCommands(b.condition), ...collectSimpleCommands(b.body)]),
+        ...(node.elseBody ? collectSimpleCommands(node.elseBody) : []),
+      ]
+    case 'for':
+      return collectSimpleCommands(node.body)
+    case 'while':
+      return [...collectSimpleCommands(node.condition), ...collectSimpleCommands(node.body)]
+    case 'case':
+      return node.items.flatMap(item => collectSimpleCommands(item.body))
+    case 'simple':
+      return [node]
+  }
+}
+
+/**
+ * Collect every redirection in a node
+ */
+export function collectRedirects(node: ShellNode): Redirect[] {
+  switch (node.type) {
+    case 'list':
+      return node.items.flatMap(item => collectRedirects(item.command))
+    case 'andOr':
+      return [node.first, ...node.rest.map(r => r.pipeline)].flatMap(collectRedirects)
+    case 'pipeline':
+      return node.commands.flatMap(collectRedirects)
+    case 'subshell':
+    case 'group':
+    case 'for':
+      return [...collectRedirects(node.body), ...node.redirects]
+    case 'if':
+      return [
+        ...node.branches.flatMap(b => [...collectRedirects(b.condition), ...collectRedirects(b.body)]),
+        ...(node.elseBody ? collectRedirects(node.elseBody) : []),
+        ...node.redirects,
+      ]
+    case 'while':
+      return [...collectRedirects(node.condition), ...collectRedirects(node.body), ...node.redirects]
+    case 'case':
+      return [...node.items.flatMap(item => collectRedirects(item.body)), ...node.redirects]
+    case 'function':
+      return collectRedirects(node.body)
+    case 'simple':
+      return node.redirects
+  }
+}
+
+/**
+ * Collect the variable of every for loop in a node
+ */
+export function collectLoopVariables(node: ShellNode): string[] {
+  switch (node.type) {
+    case 'list':
+      return node.items.flatMap(item => collectLoopVariables(item.command))
+    case 'andOr':
+      return [node.first, ...node.rest.map(r => r.pipeline)].flatMap(collectLoopVariables)
+    case 'pipeline':
+      return node.commands.flatMap(collectLoopVariables)
+    case 'subshell':
+    case 'group':
+    case 'function':
+      return collectLoopVariables(node.body)
+    case 'if':
+      return [
+        ...node.branches.flatMap(b => [...collectLoopVariables(b.condition), ...collectLoopVariables(b.body)]),
+        ...(node.elseBody ? collectLoopVariables(node.elseBody) : []),
+      ]
+    case 'for':
+      return [node.variable, ...collectLoopVariables(node.body)]
+    case 'while':
+      return [...collectLoopVariables(node.condition), ...collectLoopVariables(node.body)]
+    case 'case':
+      return node.items.flatMap(item => collectLoopVariables(item.body))
+    case 'simple':
+      return []
+  }
+}
+
+/**
+ * Serialize a redirection back to source form
+ */
+export function formatRedirect(redirect: Redirect): string {
+  const fd = redirect.fd ?? ''
+  // fd duplication reads as one token (2>&1)
+  if (redirect.op === '>&' || redirect.op === '<&') {
+    return `${fd}${redirect.op}${redirect.target.raw}`
+  }
+  return `${fd}${redirect.op} ${redirect.target.raw}`
+}
+
+/**
+ * Serialize an AST node back to a command line (heredoc bodies are omitted)
+ */
+export function formatShell(node: ShellNode): string {
+  switch (node.type) {
+    case 'list':
+      return node.items
+        .map((item, i) => {
+          const text = formatShell(item.command)
+          if (item.separator === '&') return `${text} &`
+          if (item.separator === ';' && i < node.items.length - 1) return `${text};`
+          return text
+        })
+        .join(' ')
+    case 'andOr':
+      return [
+        formatShell(node.first),
+        ...node.rest.map(r => `${r.op} ${formatShell(r.pipeline)}`),
+      ].join(' ')
+    case 'pipeline':
+      return (node.negated ? '! ' : '') + node.commands.map(formatShell).join(' | ')
+    case 'subshell':
+      return withRedirects(`( ${formatShell(node.body)} )`, node.redirects)
+    case 'group':
+      return withRedirects(`{ ${formatTerminated(node.body)} }`, node.redirects)
+    case 'if': {
+      const branches = node.branches.map(
+        (b, i) => `${i === 0 ? 'if' : 'elif'} ${formatTerminated(b.condition)} then ${formatTerminated(b.body)}`
+      )
+      const elseText = node.elseBody ? ` else ${formatTerminated(node.elseBody)}` : ''
+      return withRedirects(`${branches.join(' ')}${elseText} fi`, node.redirects)
+    }
+    case 'for': {
+      const items = node.items ? ` in ${node.items.map(w => w.raw).join(' ')}` : ''
+      return withRedirects(`for ${node.variable}${items}; do ${formatTerminated(node.body)} done`, node.redirects)
+    }
+    case 'while':
+      return withRedirects(
+        `${node.until ? 'until' : 'while'} ${formatTerminated(node.condition)} do ${formatTerminated(node.body)} done`,
+        node.redirects
+      )
+    case 'case': {
+      const items = node.items.map(item =>
+        [`${item.patterns.map(w => w.raw).join(' | ')})`, formatShell(item.body), ';;'].filter(Boolean).join(' ')
+      )
+      return withRedirects(`case ${node.word.raw} in ${[...items, 'esac'].join(' ')}`, node.redirects)
+    }
+    case 'function':
+      return `${node.name}() ${formatShell(node.body)}`
+    case 'simple':
+      return [
+        ...node.assignments.map(a => `${a.name}=${a.value.raw}`),
+        ...node.words.map(w => w.raw),
+        ...node.redirects.map(formatRedirect),
+      ].join(' ')
+  }
+}
+
+/**
+ * Format a list that is followed by a reserved word, ending it with `;`
+ */
+function formatTerminated(list: CommandList): string {
+  const last = list.items[list.items.length - 1]
+  return last?.separator === '&' ? formatShell(list) : `${formatShell(list)};`
+}
+
+function withRedirects(text: string, redirects: Redirect[]): string {
+  return [text, ...redirects.map(formatRedirect)].join(' ')
+}
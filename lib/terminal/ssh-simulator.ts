@@ -4,6 +4,9 @@
  */
 
 import { MEMFS } from './memfs'
+import { EnvSimulator } from './env-simulator'
+import { runStartupFiles } from './command-executor'
+import { renderPrompt, DEFAULT_PS2 } from './prompt'
 
 export interface SSHSession {
   id: string
@@ -12,8 +15,12 @@ export interface SSHSession {
   connected: boolean
   remotePath: string
   startTime: number
+  env: EnvSimulator // Remote shell's variables and aliases
 }
 
+// Default remote prompt: like the local one, with the user@host in magenta
+const REMOTE_PS1 = '\\[\\e[1;35m\\]\\u@\\h\\[\\e[0m\\]:\\[\\e[1;34m\\]\\w\\[\\e[0m\\]\\$ '
+
 export interface SSHSimulatorOptions {
   fs: MEMFS
   onSessionStart?: (session: SSHSession) => void
@@ -95,6 +102,18 @@ export class SSHSimulator {
       connected: true,
       remotePath: `/home/${user}`,
       startTime: Date.now(),
+      env: new EnvSimulator({ username: user, currentPath: `/home/${user}`, hostname: host }),
+    }
+    session.env.setVariable('PS1', REMOTE_PS1)
+
+    // Log in: source the remote /etc/profile, ~/.profile and ~/.bashrc
+    const startup = runStartupFiles(
+      { currentPath: `${remoteFSPath}${session.remotePath}`, username: user, isSudo: false, env: session.env },
+      this.fs,
+      remoteFSPath
+    )
+    if (startup.newPath) {
+      session.remotePath = startup.newPath.slice(remoteFSPath.length) || '/'
     }
 
     this.sessions.set(sessionId, session)
@@ -107,7 +126,7 @@ export class SSHSimulator {
 
     return {
       success: true,
-      message: `Connected to ${host} as ${user}`,
+      message: [`Connected to ${host} as ${user}`, startup.stdout, startup.stderr].filter(Boolean).join('\n'),
       session,
     }
   }
@@ -173,24 +192,31 @@ export class SSHSimulator {
   }
 
   /**
-   * Get prompt for remote session
+   * Get prompt for remote session, rendered from the remote shell's PS1
+   * (or PS2 for continuation lines)
    */
-  getRemotePrompt(): string {
+  getRemotePrompt(historyNumber = 1, continuation = false): string {
     if (!this.activeSession) {
       return ''
     }
 
-    const displayPath = this.activeSession.remotePath === `/home/${this.activeSession.user}` 
-      ? '~' 
-      : this.activeSession.remotePath
-
-    return `\x1b[1;35m${this.activeSession.user}@${this.activeSession.host}\x1b[0m:\x1b[1;34m${displayPath}\x1b[0m$ `
+    const { env, user, host, remotePath } = this.activeSession
+    const template = continuation ? env.getVariable('PS2') ?? DEFAULT_PS2 : env.getVariable('PS1') ?? REMOTE_PS1
+    return renderPrompt(template, {
+      user,
+      host: env.getVariable('HOSTNAME') ?? host,
+      cwd: remotePath,
+      home: `/home/${user}`,
+      isRoot: false,
+      historyNumber,
+    })
   }
 
   /**
    * Execute command in remote context
+   * `columns` is the width of the terminal its output is shown on
    */
-  executeRemote(command: string, busybox: any): { success: boolean; output: string; error?: string; newPath?: string } {
+  async executeRemote(command: string, busybox: any, columns?: number): Promise<{ success: boolean; output: string; error?: string; newPath?: string }> {
     if (!this.activeSession) {
       return {
         success: false,
@@ -212,15 +238,17 @@ export class SSHSimulator {
       // Map current path to remote filesystem
       const currentRemotePath = this.getRemoteFSPath('.')
       
-      // Set busybox context to remote filesystem
+      // Set busybox context and environment to the remote session's
       const originalContext = busybox.getContext()
+      const originalEnv = busybox.getEnvironment()
       busybox.setContext({
         ...originalContext,
         currentPath: currentRemotePath,
       })
+      busybox.setEnvironment(this.activeSession.env)
 
       // Execute command
-      const result = busybox.execute(command)
+      const result = await busybox.execute(command, undefined, columns)
 
       // Get new path from busybox context (in case cd was used)
       const newContext = busybox.getContext()
@@ -234,6 +262,7 @@ export class SSHSimulator {
 
       // Restore original context
       busybox.setContext(originalContext)
+      busybox.setEnvironment(originalEnv)
 
       return {
         success: result.exitCode === 0,
@@ -0,0 +1,290 @@
+/**
+ * Tab Completion
+ * Readline-style completion of command names, MEMFS paths, $VAR names and
+ * ssh/scp targets for the word before the cursor
+ */
+
+import { MEMFS } from './memfs'
+import { EnvSimulator } from './env-simulator'
+import { canListDirectory } from './ls'
+import type { RemoteServer } from './network-simulator'
+
+export interface CompletionSources {
+  fs: MEMFS
+  currentPath: string
+  isSudo: boolean
+  commands: string[]
+  env?: EnvSimulator
+  servers?: Map<string, RemoteServer> // Keyed by the name or address each server answers to
+}
+
+export interface CompletionResult {
+  line: string         // The input with the completion applied
+  candidates: string[] // Names to list when the completion is ambiguous
+}
+
+interface Candidate {
+  value: string   // Unquoted text of the whole word
+  display: string // Name shown in the double-Tab listing
+  suffix: string  // Appended when this is the only match ('/', ' ', ':' or nothing)
+}
+
+// Characters that must be escaped in an unquoted word
+const SPECIAL_CHARS = /[\s'"\\$&;|()<>*?[\]!`#]/g
+
+// Tokens after which the next word is a command name
+const COMMAND_SEPARATORS = new Set([';', '|', '||', '&', '&&', '(', '{', '!', 'then', 'do', 'else', 'elif', 'sudo', 'time'])
+
+/**
+ * Complete the last word of `line`
+ * With one match the word is finished; otherwise it is extended to the
+ * longest common prefix and the matches are returned for listing
+ */
+export function completeLine(line: string, sources: CompletionSources): CompletionResult {
+  const { start, raw, previous } = splitCurrentWord(line)
+  const quote = raw[0] === '"' || raw[0] === "'" ? raw[0] : ''
+  const word = quote ? raw.slice(1) : raw.replace(/\\(.)/g, '$1')
+
+  // An unescaped $ starts a variable name, which is inserted as typed
+  const variable = /^\$(\{?)([A-Za-z_][A-Za-z0-9_]*)?$/.exec(raw)
+  const candidates = variable
+    ? completeVariable(variable[1] === '{', variable[2] ?? '', sources.env)
+    : findCandidates(word, previous, sources)
+  if (candidates.length === 0) {
+    return { line, candidates: [] }
+  }
+
+  const prefix = commonPrefix(candidates.map(c => c.value))
+  const unique = candidates.length === 1
+  const suffix = unique ? candidates[0].suffix : ''
+  const closeQuote = unique && quote && suffix !== '/' && suffix !== ':' ? quote : ''
+  const text = quote ? quote + prefix + closeQuote : variable ? prefix : escapeWord(prefix)
+
+  return {
+    line: line.slice(0, start) + text + (unique && closeQuote ? ' ' : suffix),
+    candidates: unique ? [] : candidates.map(c => c.display).sort(),
+  }
+}
+
+/**
+ * Lay out candidates in columns for a terminal `width` characters wide
+ */
+export function formatCandidates(candidates: string[], width: number): string {
+  if (candidates.length === 0) return ''
+
+  const columnWidth = Math.max(...candidates.map(c => c.length)) + 2
+  const columns = Math.max(1, Math.floor(width / columnWidth))
+  const rows = Math.ceil(candidates.length / columns)
+  const lines: string[] = []
+
+  // Fill down each column first, like ls and readline
+  for (let row = 0; row < rows; row++) {
+    let text = ''
+    for (let col = 0; col < columns; col++) {
+      const candidate = candidates[col * rows + row]
+      if (candidate !== undefined) text += candidate.padEnd(columnWidth)
+    }
+    lines.push(text.trimEnd())
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Find where the word being completed starts and the words before it
+ */
+function splitCurrentWord(line: string): { start: number; raw: string; previous: string[] } {
+  const words: string[] = []
+  let start = 0
+  let current = ''
+  let quote: string | null = null
+
+  const finishWord = (index: number) => {
+    if (current) words.push(current)
+    current = ''
+    start = index
+  }
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+
+    if (quote) {
+      if (ch === quote) quote = null
+      current += ch
+    } else if (ch === '\\' && i + 1 < line.length) {
+      current += ch + line[++i]
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+      current += ch
+    } else if (/\s/.test(ch)) {
+      finishWord(i + 1)
+    } else if (';|&()<>'.includes(ch)) {
+      // Operators are words of their own
+      finishWord(i)
+      let op = ch
+      while (i + 1 < line.length && ch !== '(' && ch !== ')' && line[i + 1] === ch) op += line[++i]
+      words.push(op)
+      start = i + 1
+    } else {
+      current += ch
+    }
+  }
+
+  return { start, raw: current, previous: words }
+}
+
+function findCandidates(word: string, previous: string[], sources: CompletionSources): Candidate[] {
+  const commandStart = findCommandStart(previous)
+  const command = previous[commandStart]
+  const redirected = /^\d*[<>]/.test(previous[previous.length - 1] ?? '')
+
+  if (commandStart === previous.length && !redirected && !word.includes('/')) {
+    return completeCommand(word, sources)
+  }
+
+  if (!redirected && (command === 'ssh' || command === 'scp') && sources.servers) {
+    const remote = completeRemote(word, command === 'scp', sources.servers)
+    if (remote) return remote
+  }
+
+  const executablesOnly = commandStart === previous.length && !redirected
+  return completePath(word, executablesOnly, sources)
+}
+
+// Index of the current command's name in the preceding words
+function findCommandStart(previous: string[]): number {
+  let start = 0
+  for (let i = 0; i < previous.length; i++) {
+    if (COMMAND_SEPARATORS.has(previous[i])) start = i + 1
+  }
+  // Skip leading NAME=value assignments
+  while (start < previous.length && /^[A-Za-z_][A-Za-z0-9_]*=/.test(previous[start])) start++
+  return start
+}
+
+function completeCommand(word: string, sources: CompletionSources): Candidate[] {
+  const names = new Set(sources.commands)
+  sources.env?.getFunctionNames().forEach(name => names.add(name))
+
+  return Array.from(names)
+    .filter(name => name.startsWith(word))
+    .sort()
+    .map(name => ({ value: name, display: name, suffix: ' ' }))
+}
+
+function completeVariable(braced: boolean, prefix: string, env?: EnvSimulator): Candidate[] {
+  if (!env) return []
+  return env
+    .getAllVariables()
+    .map(v => v.name)
+    .filter(name => name.startsWith(prefix))
+    .sort()
+    .map(name => ({
+      value: braced ? `\${${name}` : `$${name}`,
+      display: name,
+      suffix: braced ? '} ' : ' ',
+    }))
+}
+
+/**
+ * ssh: hosts and user@host; scp: user@host: and paths on the remote server
+ * Returns null when the word should complete as a local path instead
+ */
+function completeRemote(word: string, scp: boolean, servers: Map<string, RemoteServer>): Candidate[] | null {
+  const hostEnd = word.indexOf(':')
+  if (scp && hostEnd !== -1) {
+    const target = word.slice(0, hostEnd)
+    const server = servers.get(target.slice(target.indexOf('@') + 1))
+    return server ? completeRemotePath(target, word.slice(hostEnd + 1), server) : []
+  }
+  if (scp && !word.includes('@')) return null
+
+  const at = word.indexOf('@')
+  const candidates: Candidate[] = []
+  servers.forEach((server, host) => {
+    const targets = at === -1 ? [host, `${server.username}@${host}`] : [`${word.slice(0, at)}@${host}`]
+    for (const target of targets) {
+      if (target.startsWith(word)) {
+        candidates.push({ value: target, display: target, suffix: scp ? ':' : ' ' })
+      }
+    }
+  })
+  return candidates.sort((a, b) => a.value.localeCompare(b.value))
+}
+
+function completeRemotePath(target: string, path: string, server: RemoteServer): Candidate[] {
+  const entries = new Map<string, boolean>() // name -> is a directory
+  const dirEnd = path.lastIndexOf('/') + 1
+  const dir = path.slice(0, dirEnd)
+
+  for (const file of Object.keys(server.files)) {
+    if (!file.startsWith(path)) continue
+    const rest = file.slice(dir.length)
+    const slash = rest.indexOf('/')
+    const name = slash === -1 ? rest : rest.slice(0, slash)
+    entries.set(name, slash !== -1 || entries.get(name) === true)
+  }
+
+  return Array.from(entries.entries()).map(([name, isDir]) => ({
+    value: `${target}:${dir}${name}`,
+    display: isDir ? `${name}/` : name,
+    suffix: isDir ? '/' : ' ',
+  }))
+}
+
+function completePath(word: string, executablesOnly: boolean, sources: CompletionSources): Candidate[] {
+  const { fs, currentPath, isSudo } = sources
+  const dirEnd = word.lastIndexOf('/') + 1
+  const dirPart = word.slice(0, dirEnd)
+  const base = word.slice(dirEnd)
+
+  const dir = resolvePath(currentPath, expandTilde(dirPart || '.', sources.env))
+  if (!fs.exists(dir) || !fs.stat(dir).isDirectory()) return []
+  // Complete only in directories ls could list
+  if (!canListDirectory(dir, fs.stat(dir), isSudo)) return []
+
+  const candidates: Candidate[] = []
+  for (const name of fs.readdir(dir).sort()) {
+    if (!name.startsWith(base) || (name.startsWith('.') && !base.startsWith('.'))) continue
+
+    const stat = fs.stat(`${dir === '/' ? '' : dir}/${name}`)
+    const isDir = stat.isDirectory()
+    if (executablesOnly && !isDir && (stat.mode & 0o111) === 0) continue
+
+    candidates.push({
+      value: dirPart + name,
+      display: isDir ? `${name}/` : name,
+      suffix: isDir ? '/' : ' ',
+    })
+  }
+  return candidates
+}
+
+function expandTilde(path: string, env?: EnvSimulator): string {
+  if (path !== '~' && !path.startsWith('~/')) return path
+  const home = env?.getVariable('HOME') ?? '/'
+  return home + path.slice(1)
+}
+
+function resolvePath(currentPath: string, path: string): string {
+  const absolute = path.startsWith('/') ? path : `${currentPath}/${path}`
+  const parts: string[] = []
+  for (const part of absolute.split('/')) {
+    if (part === '..') parts.pop()
+    else if (part && part !== '.') parts.push(part)
+  }
+  return '/' + parts.join('/')
+}
+
+function commonPrefix(values: string[]): string {
+  let prefix = values[0]
+  for (const value of values.slice(1)) {
+    let i = 0
+    while (i < prefix.length && prefix[i] === value[i]) i++
+    prefix = prefix.slice(0, i)
+  }
+  return prefix
+}
+
+function escapeWord(word: string): string {
+  return word.replace(SPECIAL_CHARS, '\\$&')
+}
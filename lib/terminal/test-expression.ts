@@ -0,0 +1,197 @@
+/**
+ * Test Expressions
+ * Evaluates `test` / `[ ... ]` expressions: file tests, string and integer
+ * comparisons, combined with !, -a, -o and parentheses
+ */
+
+import { MEMFS } from './memfs'
+
+export interface TestContext {
+  currentPath: string
+  isSudo: boolean
+}
+
+export interface TestResult {
+  exitCode: number // 0 true, 1 false, 2 error
+  stderr: string
+}
+
+const UNARY_OPS = new Set(['-e', '-f', '-d', '-s', '-r', '-w', '-x', '-z', '-n'])
+
+const BINARY_OPS = new Set(['=', '==', '!=', '-eq', '-ne', '-lt', '-le', '-gt', '-ge'])
+
+class TestError extends Error {}
+
+/**
+ * Evaluate a test expression
+ * `name` is the command used (test or [), which needs a closing ]
+ */
+export function evaluateTest(name: string, args: string[], fs: MEMFS, context: TestContext): TestResult {
+  if (name === '[') {
+    if (args[args.length - 1] !== ']') {
+      return { exitCode: 2, stderr: "[: missing `]'" }
+    }
+    args = args.slice(0, -1)
+  }
+
+  if (args.length === 0) return { exitCode: 1, stderr: '' }
+
+  try {
+    const parser = new TestParser(args, fs, context)
+    const result = parser.parse()
+    return { exitCode: result ? 0 : 1, stderr: '' }
+  } catch (error) {
+    return { exitCode: 2, stderr: `${name}: ${error instanceof Error ? error.message : error}` }
+  }
+}
+
+/**
+ * Recursive descent over the arguments:
+ *   or      := and ('-o' and)*
+ *   and     := not ('-a' not)*
+ *   not     := '!' not | primary
+ *   primary := '(' or ')' | unary-op arg | arg binary-op arg | arg
+ */
+class TestParser {
+  private pos = 0
+
+  constructor(private args: string[], private fs: MEMFS, private context: TestContext) {}
+
+  parse(): boolean {
+    const result = this.parseOr()
+    if (this.pos < this.args.length) {
+      throw new TestError(`${this.args[this.pos]}: unexpected operator`)
+    }
+    return result
+  }
+
+  private parseOr(): boolean {
+    let result = this.parseAnd()
+    while (this.args[this.pos] === '-o') {
+      this.pos++
+      const right = this.parseAnd()
+      result = result || right
+    }
+    return result
+  }
+
+  private parseAnd(): boolean {
+    let result = this.parseNot()
+    while (this.args[this.pos] === '-a') {
+      this.pos++
+      const right = this.parseNot()
+      result = result && right
+    }
+    return result
+  }
+
+  private parseNot(): boolean {
+    // A lone "!" is just a non-empty string
+    if (this.args[this.pos] === '!' && this.pos + 1 < this.args.length) {
+      this.pos++
+      return !this.parseNot()
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): boolean {
+    const arg = this.args[this.pos]
+    if (arg === undefined) throw new TestError('argument expected')
+
+    // A binary operator takes precedence: [ -n = -n ] compares strings
+    const op = this.args[this.pos + 1]
+    if (op !== undefined && BINARY_OPS.has(op) && this.pos + 2 < this.args.length) {
+      const right = this.args[this.pos + 2]
+      this.pos += 3
+      return this.binary(arg, op, right)
+    }
+
+    if (arg === '(' && this.pos + 1 < this.args.length) {
+      this.pos++
+      const result = this.parseOr()
+      if (this.args[this.pos] !== ')') throw new TestError("missing `)'")
+      this.pos++
+      return result
+    }
+
+    if (UNARY_OPS.has(arg) && this.pos + 1 < this.args.length) {
+      const operand = this.args[this.pos + 1]
+      this.pos += 2
+      return this.unary(arg, operand)
+    }
+
+    this.pos++
+    return arg.length > 0
+  }
+
+  private unary(op: string, operand: string): boolean {
+    if (op === '-z') return operand.length === 0
+    if (op === '-n') return operand.length > 0
+
+    const path = resolvePath(this.context.currentPath, operand)
+    if (!operand || !this.fs.exists(path)) return false
+    const stat = this.fs.stat(path)
+    const readable = stat.owner !== 'root' || this.context.isSudo
+
+    switch (op) {
+      case '-e':
+        return true
+      case '-f':
+        return stat.isFile()
+      case '-d':
+        return stat.isDirectory()
+      case '-s':
+        return stat.size > 0
+      case '-r':
+      case '-w':
+        return readable
+      case '-x':
+        return readable && (stat.mode & 0o111) !== 0
+    }
+    return false
+  }
+
+  private binary(left: string, op: string, right: string): boolean {
+    switch (op) {
+      case '=':
+      case '==':
+        return left === right
+      case '!=':
+        return left !== right
+    }
+
+    const a = toInteger(left)
+    const b = toInteger(right)
+    switch (op) {
+      case '-eq':
+        return a === b
+      case '-ne':
+        return a !== b
+      case '-lt':
+        return a < b
+      case '-le':
+        return a <= b
+      case '-gt':
+        return a > b
+      default:
+        return a >= b
+    }
+  }
+}
+
+function toInteger(value: string): number {
+  if (!/^\s*[-+]?\d+\s*$/.test(value)) {
+    throw new TestError(`${value}: integer expression expected`)
+  }
+  return parseInt(value, 10)
+}
+
+function resolvePath(currentPath: string, path: string): string {
+  const absolute = path.startsWith('/') ? path : `${currentPath}/${path}`
+  const parts: string[] = []
+  for (const part of absolute.split('/')) {
+    if (part === '..') parts.pop()
+    else if (part && part !== '.') parts.push(part)
+  }
+  return '/' + parts.join('/')
+}
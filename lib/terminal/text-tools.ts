@@ -0,0 +1,607 @@
+/**
+ * Text Tools
+ * Line-oriented filters for pipelines and log forensics: wc, sort, uniq,
+ * cut, tr, tee, nl, rev and tac. Each reads its file operands (or standard
+ * input when there are none, or for "-") and writes to standard output.
+ */
+
+import type { MEMFS } from './memfs'
+import type { CommandResult } from './command-executor'
+import { commandRegistry } from './command-registry'
+import type { CommandInvocation } from './command-registry'
+import type { ParsedArgs } from './option-parser'
+
+export interface Input {
+  name: string     // Operand as given ('-' for standard input)
+  content: string
+}
+
+/**
+ * Read each operand, or standard input if there are none
+ */
+export function readInputs({ name, options, context, fs, stdin }: CommandInvocation): { inputs: Input[]; errors: string[] } {
+  const inputs: Input[] = []
+  const errors: string[] = []
+
+  for (const operand of options.args.length > 0 ? options.args : ['-']) {
+    if (operand === '-') {
+      inputs.push({ name: operand, content: stdin ?? '' })
+      continue
+    }
+
+    const path = resolvePath(context.currentPath, operand, context.username)
+    if (!fs.exists(path)) {
+      errors.push(`${name}: ${operand}: No such file or directory`)
+      continue
+    }
+    const stat = fs.stat(path)
+    if (stat.owner === 'root' && !context.isSudo) {
+      errors.push(`${name}: ${operand}: Permission denied`)
+    } else if (stat.isDirectory()) {
+      errors.push(`${name}: ${operand}: Is a directory`)
+    } else {
+      inputs.push({ name: operand, content: fs.readFile(path, { encoding: 'utf8' }) as string })
+    }
+  }
+
+  return { inputs, errors }
+}
+
+export function resolvePath(currentPath: string, path: string, username: string): string {
+  const home = `/home/${username}`
+  const absolute = path === '~' || path.startsWith('~/')
+    ? home + path.slice(1)
+    : path.startsWith('/') ? path : `${currentPath}/${path}`
+
+  const parts: string[] = []
+  for (const part of absolute.split('/')) {
+    if (part === '..') parts.pop()
+    else if (part && part !== '.') parts.push(part)
+  }
+  return '/' + parts.join('/')
+}
+
+/**
+ * Lines of a text; a final newline doesn't start another line
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') return []
+  return text.replace(/\n$/, '').split('\n')
+}
+
+function result(lines: string[], errors: string[], exitCode = errors.length > 0 ? 1 : 0): CommandResult {
+  return { stdout: lines.join('\n'), stderr: errors.join('\n'), exitCode }
+}
+
+function usageError(name: string, message: string): CommandResult {
+  return { stdout: '', stderr: `${name}: ${message}\nTry '${name} --help' for more information.`, exitCode: 1 }
+}
+
+/**
+ * wc [-lwcmL] [file...]: counts as if every line ends in a newline
+ */
+function wcCommand(invocation: CommandInvocation): CommandResult {
+  const { options } = invocation
+  const { inputs, errors } = readInputs(invocation)
+
+  const selected = ['l', 'w', 'm', 'c', 'L'].filter(flag => options.flags.has(flag))
+  const columns = selected.length > 0 ? selected : ['l', 'w', 'c']
+
+  const count = (content: string): Record<string, number> => {
+    const lines = splitLines(content)
+    const text = lines.map(line => `${line}\n`).join('')
+    return {
+      l: lines.length,
+      w: text.split(/\s+/).filter(Boolean).length,
+      m: text.length,
+      c: new TextEncoder().encode(text).length,
+      L: Math.max(0, ...lines.map(line => line.length)),
+    }
+  }
+
+  const rows = inputs.map(input => ({ name: input.name === '-' ? '' : input.name, counts: count(input.content) }))
+  if (rows.length > 1) {
+    const total: Record<string, number> = {}
+    columns.forEach(column => {
+      total[column] = column === 'L'
+        ? Math.max(...rows.map(row => row.counts.L))
+        : rows.reduce((sum, row) => sum + row.counts[column], 0)
+    })
+    rows.push({ name: 'total', counts: total })
+  }
+
+  // One number for one input needs no padding; standard input gets GNU's width of 7
+  const largest = Math.max(0, ...rows.flatMap(row => columns.map(column => row.counts[column])))
+  const fromStdin = inputs.some(input => input.name === '-')
+  const width = columns.length === 1 && rows.length === 1
+    ? 0
+    : Math.max(String(largest).length, fromStdin ? 7 : 1)
+
+  const lines = rows.map(row =>
+    [...columns.map(column => String(row.counts[column]).padStart(width)), ...(row.name ? [row.name] : [])].join(' ')
+  )
+  return result(lines, errors)
+}
+
+interface SortKey {
+  startField: number
+  endField?: number
+  numeric: boolean
+  reverse: boolean
+  foldCase: boolean
+}
+
+/**
+ * Parse a sort -k KEYDEF: F[.C][,F[.C]][nrf] (character offsets are ignored)
+ */
+function parseSortKey(spec: string, options: ParsedArgs): SortKey | null {
+  const match = spec.match(/^(\d+)(?:\.\d+)?([a-z]*)(?:,(\d+)(?:\.\d+)?([a-z]*))?$/)
+  if (!match || parseInt(match[1], 10) === 0) return null
+  const flags = `${match[2]}${match[4] ?? ''}`
+  if (/[^nrf]/.test(flags)) return null
+
+  // A key with no flags of its own takes the global ones
+  const inherit = flags === ''
+  return {
+    startField: parseInt(match[1], 10),
+    endField: match[3] ? parseInt(match[3], 10) : undefined,
+    numeric: inherit ? options.flags.has('n') : flags.includes('n'),
+    reverse: inherit ? false : flags.includes('r'),
+    foldCase: inherit ? options.flags.has('f') : flags.includes('f'),
+  }
+}
+
+// Leading number of a sort key; text that isn't a number sorts as 0
+function numericValue(text: string): number {
+  const match = text.trim().match(/^-?(\d+\.?\d*|\.\d+)/)
+  return match ? parseFloat(match[0]) : 0
+}
+
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * sort [-nrufs] [-t SEP] [-k KEYDEF]... [file...]
+ */
+function sortCommand(invocation: CommandInvocation): CommandResult {
+  const { options } = invocation
+  const separator = options.namedArgs.get('t')
+  if (separator !== undefined && separator.length !== 1) {
+    return { stdout: '', stderr: `sort: multi-character tab '${separator}'`, exitCode: 2 }
+  }
+
+  const keys: SortKey[] = []
+  for (const spec of options.values.get('k') ?? []) {
+    const key = parseSortKey(spec, options)
+    if (!key) {
+      return { stdout: '', stderr: `sort: invalid number at field start: invalid count at start of '${spec}'`, exitCode: 2 }
+    }
+    keys.push(key)
+  }
+  // Without -k the whole line is the key
+  const wholeLine: SortKey = { startField: 1, numeric: options.flags.has('n'), reverse: false, foldCase: options.flags.has('f') }
+
+  const { inputs, errors } = readInputs(invocation)
+  if (errors.length > 0) {
+    return { stdout: '', stderr: errors.map(error => error.replace(/^sort: /, 'sort: cannot read: ')).join('\n'), exitCode: 2 }
+  }
+
+  const fields = (line: string) => separator !== undefined ? line.split(separator) : line.trim().split(/\s+/)
+  const keyText = (line: string, key: SortKey): string => {
+    if (key === wholeLine) return line
+    const selected = fields(line).slice(key.startField - 1, key.endField)
+    return selected.join(separator ?? ' ')
+  }
+
+  const compareKey = (a: string, b: string, key: SortKey): number => {
+    let x = keyText(a, key)
+    let y = keyText(b, key)
+    if (key.foldCase) {
+      x = x.toUpperCase()
+      y = y.toUpperCase()
+    }
+    const order = key.numeric ? numericValue(x) - numericValue(y) : compareText(x, y)
+    return key.reverse ? -order : order
+  }
+  const compareKeys = (a: string, b: string): number => {
+    for (const key of keys.length > 0 ? keys : [wholeLine]) {
+      const order = compareKey(a, b, key)
+      if (order !== 0) return order
+    }
+    return 0
+  }
+
+  const unique = options.flags.has('u')
+  const stable = options.flags.has('s') || unique
+  const reverse = options.flags.has('r') ? -1 : 1
+  let lines = inputs.flatMap(input => splitLines(input.content))
+  lines = lines
+    .map((line, index) => ({ line, index }))
+    .sort((a, b) => {
+      // Lines with equal keys fall back to comparing whole lines, unless -s
+      const order = compareKeys(a.line, b.line) || (stable ? 0 : compareText(a.line, b.line))
+      return order * reverse || a.index - b.index
+    })
+    .map(entry => entry.line)
+
+  if (unique) {
+    lines = lines.filter((line, index) => index === 0 || compareKeys(lines[index - 1], line) !== 0)
+  }
+  return result(lines, [])
+}
+
+/**
+ * uniq [-cdui] [input]: collapse runs of equal adjacent lines
+ */
+function uniqCommand(invocation: CommandInvocation): CommandResult {
+  const { options } = invocation
+  if (options.args.length > 1) {
+    return usageError('uniq', `extra operand '${options.args[1]}'`)
+  }
+
+  const { inputs, errors } = readInputs(invocation)
+  if (errors.length > 0) return result([], errors)
+
+  const same = (a: string, b: string) => (options.flags.has('i') ? a.toLowerCase() === b.toLowerCase() : a === b)
+  const groups: { line: string; count: number }[] = []
+  for (const line of splitLines(inputs[0].content)) {
+    const last = groups[groups.length - 1]
+    if (last && same(last.line, line)) last.count++
+    else groups.push({ line, count: 1 })
+  }
+
+  const lines = groups
+    .filter(group => !options.flags.has('d') || group.count > 1)
+    .filter(group => !options.flags.has('u') || group.count === 1)
+    .map(group => (options.flags.has('c') ? `${String(group.count).padStart(7)} ${group.line}` : group.line))
+  return result(lines, [])
+}
+
+/**
+ * Parse a cut LIST (1,3-5,7-) into a test for 1-based positions
+ */
+function parseCutList(list: string): ((position: number) => boolean) | null {
+  const ranges: [number, number][] = []
+  for (const part of list.split(',')) {
+    const match = part.match(/^(\d*)(-?)(\d*)$/)
+    if (!match || (!match[1] && !match[3]) || match[1] === '0') return null
+    const start = match[1] ? parseInt(match[1], 10) : 1
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : Infinity) : start
+    if (end < start) return null
+    ranges.push([start, end])
+  }
+  return position => ranges.some(([start, end]) => position >= start && position <= end)
+}
+
+/**
+ * cut -f LIST [-d DELIM] [-s] | -c LIST | -b LIST [file...]
+ */
+function cutCommand(invocation: CommandInvocation): CommandResult {
+  const { options } = invocation
+  const modes = ['f', 'c', 'b'].filter(mode => options.namedArgs.has(mode))
+  if (modes.length === 0) {
+    return usageError('cut', 'you must specify a list of bytes, characters, or fields')
+  }
+  if (modes.length > 1) {
+    return usageError('cut', 'only one type of list may be specified')
+  }
+
+  const mode = modes[0]
+  const list = options.namedArgs.get(mode)!
+  const selected = parseCutList(list)
+  if (!selected) {
+    return usageError('cut', `invalid field value '${list}'`)
+  }
+
+  const delimiter = options.namedArgs.get('d') ?? '\t'
+  if (delimiter.length !== 1) {
+    return usageError('cut', 'the delimiter must be a single character')
+  }
+  if (mode !== 'f' && (options.namedArgs.has('d') || options.flags.has('s'))) {
+    return usageError('cut', 'an input delimiter may be specified only when operating on fields')
+  }
+
+  const { inputs, errors } = readInputs(invocation)
+  const lines = inputs.flatMap(input => splitLines(input.content)).flatMap(line => {
+    if (mode !== 'f') {
+      return [Array.from(line).filter((_, index) => selected(index + 1)).join('')]
+    }
+    // Lines without the delimiter pass through whole, unless -s
+    if (!line.includes(delimiter)) return options.flags.has('s') ? [] : [line]
+    return [line.split(delimiter).filter((_, index) => selected(index + 1)).join(delimiter)]
+  })
+  return result(lines, errors)
+}
+
+const TR_CLASSES: Record<string, string> = {
+  lower: 'abcdefghijklmnopqrstuvwxyz',
+  upper: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digit: '0123456789',
+  space: ' \t\n\r\f\v',
+  blank: ' \t',
+  punct: '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~',
+}
+TR_CLASSES.alpha = TR_CLASSES.lower + TR_CLASSES.upper
+TR_CLASSES.alnum = TR_CLASSES.alpha + TR_CLASSES.digit
+
+const TR_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\' }
+
+/**
+ * Expand a tr SET: ranges (a-z), classes ([:upper:]) and escapes (\n)
+ */
+function expandTrSet(set: string): string[] | string {
+  const chars: string[] = []
+  let i = 0
+  while (i < set.length) {
+    const rest = set.slice(i)
+    const cls = rest.match(/^\[:(\w+):\]/)
+    if (cls) {
+      if (!TR_CLASSES[cls[1]]) return `invalid character class '${cls[1]}'`
+      chars.push(...Array.from(TR_CLASSES[cls[1]]))
+      i += cls[0].length
+      continue
+    }
+
+    let char = set[i]
+    if (char === '\\' && i + 1 < set.length) {
+      char = TR_ESCAPES[set[i + 1]] ?? set[i + 1]
+      i++
+    }
+    i++
+
+    if (set[i] === '-' && i + 1 < set.length) {
+      const end = set[i + 1]
+      if (end < char) {
+        return `range-endpoints of '${char}-${end}' are in reverse collating sequence order`
+      }
+      for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+        chars.push(String.fromCharCode(code))
+      }
+      i += 2
+    } else {
+      chars.push(char)
+    }
+  }
+  return chars
+}
+
+/**
+ * tr [-ds] SET1 [SET2]: translate, delete or squeeze characters from standard input
+ */
+function trCommand({ options, stdin }: CommandInvocation): CommandResult {
+  const [first, second, extra] = options.args
+  const del = options.flags.has('d')
+  const squeeze = options.flags.has('s')
+
+  if (first === undefined) {
+    return usageError('tr', 'missing operand')
+  }
+  if (!del && !squeeze && second === undefined) {
+    return usageError('tr', `missing operand after '${first}'\nTwo strings must be given when translating.`)
+  }
+  if (extra !== undefined || (del && !squeeze && second !== undefined)) {
+    return usageError('tr', `extra operand '${extra ?? second}'`)
+  }
+
+  const set1 = expandTrSet(first)
+  const set2 = second === undefined ? [] : expandTrSet(second)
+  if (typeof set1 === 'string' || typeof set2 === 'string') {
+    return { stdout: '', stderr: `tr: ${typeof set1 === 'string' ? set1 : set2}`, exitCode: 1 }
+  }
+
+  let text = Array.from(stdin ?? '')
+  if (del) {
+    text = text.filter(char => !set1.includes(char))
+  } else if (set2.length > 0) {
+    // SET2 is padded with its last character
+    text = text.map(char => {
+      const index = set1.lastIndexOf(char)
+      return index === -1 ? char : set2[Math.min(index, set2.length - 1)]
+    })
+  }
+
+  // Squeeze repeats of the last set given
+  if (squeeze) {
+    const squeezed = set2.length > 0 ? set2 : set1
+    text = text.filter((char, index) => index === 0 || char !== text[index - 1] || !squeezed.includes(char))
+  }
+  return { stdout: text.join(''), stderr: '', exitCode: 0 }
+}
+
+/**
+ * tee [-a] FILE...: copy standard input to each file and to standard output
+ */
+function teeCommand({ options, context, fs, stdin }: CommandInvocation): CommandResult {
+  const text = stdin ?? ''
+  const errors: string[] = []
+
+  for (const name of options.args) {
+    const path = resolvePath(context.currentPath, name, context.username)
+    const error = writeOutput(fs, path, text, options.flags.has('a'), context.isSudo)
+    if (error) errors.push(`tee: ${name}: ${error}`)
+  }
+
+  return result(text === '' ? [] : [text], errors)
+}
+
+// Write (or append) a file the way a redirection does, or say why not
+export function writeOutput(fs: MEMFS, path: string, text: string, append: boolean, isSudo: boolean): string | null {
+  const parent = path.substring(0, path.lastIndexOf('/')) || '/'
+  if (!fs.exists(parent)) return 'No such file or directory'
+
+  const exists = fs.exists(path)
+  if (exists && fs.stat(path).isDirectory()) return 'Is a directory'
+  if (fs.stat(exists ? path : parent).owner === 'root' && !isSudo) return 'Permission denied'
+
+  try {
+    const existing = append && exists ? (fs.readFile(path, { encoding: 'utf8' }) as string) : ''
+    fs.writeFile(path, existing && text ? `${existing}\n${text}` : existing + text)
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e)
+  }
+  return null
+}
+
+/**
+ * nl [-b a|t] [-w WIDTH] [-s SEP] [-v START] [file...]
+ */
+function nlCommand(invocation: CommandInvocation): CommandResult {
+  const { options } = invocation
+  const style = options.namedArgs.get('b') ?? 't'
+  if (style !== 'a' && style !== 't') {
+    return usageError('nl', `invalid body numbering style: '${style}'`)
+  }
+  const width = parseInt(options.namedArgs.get('w') ?? '6', 10)
+  const start = parseInt(options.namedArgs.get('v') ?? '1', 10)
+  if (!(width > 0) || isNaN(start)) {
+    return usageError('nl', `invalid line number field width: '${options.namedArgs.get('w')}'`)
+  }
+  const separator = options.namedArgs.get('s') ?? '\t'
+
+  const { inputs, errors } = readInputs(invocation)
+  let number = start
+  const lines = inputs.flatMap(input => splitLines(input.content)).map(line => {
+    // -b t (the default) leaves empty lines unnumbered
+    if (style === 't' && line === '') return line
+    return `${String(number++).padStart(width)}${separator}${line}`
+  })
+  return result(lines, errors)
+}
+
+function revCommand(invocation: CommandInvocation): CommandResult {
+  const { inputs, errors } = readInputs(invocation)
+  const lines = inputs.flatMap(input => splitLines(input.content)).map(line => Array.from(line).reverse().join(''))
+  return result(lines, errors)
+}
+
+function tacCommand(invocation: CommandInvocation): CommandResult {
+  const { inputs, errors } = readInputs(invocation)
+  return result(inputs.flatMap(input => splitLines(input.content).reverse()), errors)
+}
+
+commandRegistry.registerAll([
+  {
+    name: 'wc',
+    summary: 'print newline, word, and byte counts for each file',
+    usage: 'wc [OPTION]... [FILE]...',
+    manPage: 'Print newline, word, and byte counts for each FILE, and a total line if more than one FILE is specified.\nWith no FILE, or when FILE is -, read standard input.',
+    options: [
+      { flags: ['-c', '--bytes'], description: 'print the byte counts' },
+      { flags: ['-m', '--chars'], description: 'print the character counts' },
+      { flags: ['-l', '--lines'], description: 'print the newline counts' },
+      { flags: ['-L', '--max-line-length'], description: 'print the maximum display width' },
+      { flags: ['-w', '--words'], description: 'print the word counts' },
+    ],
+    readsStdin: true,
+    examples: ['wc -l /logs/access.log', 'ls | wc -l'],
+    run: wcCommand,
+  },
+  {
+    name: 'sort',
+    summary: 'sort lines of text files',
+    usage: 'sort [OPTION]... [FILE]...',
+    manPage: 'Write sorted concatenation of all FILE(s) to standard output.\nWith no FILE, or when FILE is -, read standard input.',
+    options: [
+      { flags: ['-f', '--ignore-case'], description: 'fold lower case to upper case characters' },
+      { flags: ['-k', '--key'], value: 'KEYDEF', repeatable: true, description: 'sort via a key; KEYDEF gives location and type' },
+      { flags: ['-n', '--numeric-sort'], description: 'compare according to string numerical value' },
+      { flags: ['-r', '--reverse'], description: 'reverse the result of comparisons' },
+      { flags: ['-s', '--stable'], description: 'stabilize sort by disabling last-resort comparison' },
+      { flags: ['-t', '--field-separator'], value: 'SEP', description: 'use SEP instead of non-blank to blank transition' },
+      { flags: ['-u', '--unique'], description: 'output only the first of an equal run' },
+    ],
+    usageStatus: 2,
+    readsStdin: true,
+    examples: ['sort -n scores.txt', 'sort -t: -k3 -n /etc/passwd', 'sort | uniq -c | sort -rn'],
+    run: sortCommand,
+  },
+  {
+    name: 'uniq',
+    summary: 'report or omit repeated lines',
+    usage: 'uniq [OPTION]... [INPUT]',
+    manPage: 'Filter adjacent matching lines from INPUT (or standard input), writing to standard output.\nSort the input first to catch repeats that are not adjacent.',
+    options: [
+      { flags: ['-c', '--count'], description: 'prefix lines by the number of occurrences' },
+      { flags: ['-d', '--repeated'], description: 'only print duplicate lines, one for each group' },
+      { flags: ['-i', '--ignore-case'], description: 'ignore differences in case when comparing' },
+      { flags: ['-u', '--unique'], description: 'only print unique lines' },
+    ],
+    readsStdin: true,
+    examples: ['sort access.log | uniq -c', 'sort names.txt | uniq -d'],
+    run: uniqCommand,
+  },
+  {
+    name: 'cut',
+    summary: 'remove sections from each line of files',
+    usage: 'cut OPTION... [FILE]...',
+    manPage: 'Print selected parts of lines from each FILE to standard output.\nLIST is made up of ranges separated by commas: N, N-M, N- or -M.',
+    options: [
+      { flags: ['-b', '--bytes'], value: 'LIST', description: 'select only these bytes' },
+      { flags: ['-c', '--characters'], value: 'LIST', description: 'select only these characters' },
+      { flags: ['-d', '--delimiter'], value: 'DELIM', description: 'use DELIM instead of TAB for field delimiter' },
+      { flags: ['-f', '--fields'], value: 'LIST', description: 'select only these fields' },
+      { flags: ['-s', '--only-delimited'], description: 'do not print lines not containing delimiters' },
+    ],
+    readsStdin: true,
+    examples: ["cut -d' ' -f1 /logs/access.log", 'cut -d: -f1,3 /etc/passwd', 'cut -c1-10 notes.txt'],
+    run: cutCommand,
+  },
+  {
+    name: 'tr',
+    summary: 'translate or delete characters',
+    usage: 'tr [OPTION]... SET1 [SET2]',
+    manPage: 'Translate, squeeze, and/or delete characters from standard input, writing to standard output.\nSETs may use ranges (a-z), classes ([:upper:], [:digit:], [:space:] ...) and escapes (\\n, \\t).',
+    options: [
+      { flags: ['-d', '--delete'], description: 'delete characters in SET1, do not translate' },
+      { flags: ['-s', '--squeeze-repeats'], description: 'replace each sequence of a repeated character with one occurrence' },
+    ],
+    readsStdin: true,
+    examples: ["tr 'a-z' 'A-Z'", "tr -d '0-9'", "tr -s ' '"],
+    run: trCommand,
+  },
+  {
+    name: 'tee',
+    summary: 'read from standard input and write to standard output and files',
+    usage: 'tee [OPTION]... [FILE]...',
+    manPage: 'Copy standard input to each FILE, and also to standard output.',
+    options: [
+      { flags: ['-a', '--append'], description: 'append to the given FILEs, do not overwrite' },
+    ],
+    readsStdin: true,
+    examples: ['ls | tee listing.txt', 'echo done | tee -a progress.log'],
+    run: teeCommand,
+  },
+  {
+    name: 'nl',
+    summary: 'number lines of files',
+    usage: 'nl [OPTION]... [FILE]...',
+    manPage: 'Write each FILE to standard output, with line numbers added. Empty lines are not numbered unless -b a.',
+    options: [
+      { flags: ['-b', '--body-numbering'], value: 'STYLE', description: 'use STYLE for numbering body lines (a: all, t: non-empty)' },
+      { flags: ['-s', '--number-separator'], value: 'STRING', description: 'add STRING after (possible) line number' },
+      { flags: ['-v', '--starting-line-number'], value: 'NUMBER', description: 'first line number for each section' },
+      { flags: ['-w', '--number-width'], value: 'NUMBER', description: 'use NUMBER columns for line numbers' },
+    ],
+    readsStdin: true,
+    examples: ['nl notes.txt', 'nl -b a script.sh'],
+    run: nlCommand,
+  },
+  {
+    name: 'rev',
+    summary: 'reverse lines characterwise',
+    usage: 'rev [file...]',
+    readsStdin: true,
+    examples: ['echo hello | rev'],
+    run: revCommand,
+  },
+  {
+    name: 'tac',
+    summary: 'concatenate and print files in reverse',
+    usage: 'tac [FILE]...',
+    manPage: 'Write each FILE to standard output, last line first.',
+    readsStdin: true,
+    examples: ['tac /logs/sys.log | head'],
+    run: tacCommand,
+  },
+])
@@ -62,6 +62,36 @@ export interface Mission {
   requireSudo?: boolean
 }
 
+/**
+ * A command an adventure adds to the terminal
+ */
+export interface AdventureCommand {
+  name: string
+  aliases?: string[]
+  summary: string        // Shown by help
+  usage?: string
+  manPage?: string       // Shown by man
+  examples?: string[]
+  output?: string        // Printed when the command runs
+  error?: string         // Printed on stderr; the command then exits with status 1
+  requiresSudo?: boolean
+  destructive?: boolean  // Ask for confirmation before running
+}
+
+/**
+ * A process already running when an adventure starts
+ */
+export interface AdventureProcess {
+  command: string                // Full command line, e.g. "/usr/sbin/omega_surveillanced --daemon"
+  pid?: number
+  ppid?: number                  // Defaults to 1 (init)
+  user?: string                  // Defaults to root
+  cpu?: number                   // %CPU
+  mem?: number                   // %MEM
+  tty?: string                   // Defaults to '?' (no terminal)
+  env?: Record<string, string>   // Shown in /proc/<pid>/environ
+}
+
 export interface Adventure {
   id: string
   title: string
@@ -79,6 +109,8 @@ export interface Adventure {
     character?: string
   }
   initialFileSystem: FileSystem
+  commands?: AdventureCommand[] // Extra commands available during this adventure
+  processes?: AdventureProcess[] // Running on the machine when the adventure starts
 }
 
 export interface TerminalState {
@@ -4,6 +4,7 @@
  */
 
 import { MEMFS } from './memfs'
+import { CommandList, collectSimpleCommands, collectRedirects, commandArgv, wordToString } from './shell-parser'
 
 export type OutputValidator = (output: string, params?: any) => boolean
 export type FileSystemValidator = (fs: MEMFS, params?: any) => boolean
@@ -12,9 +13,11 @@ export type AdvancedValidator = (context: ValidationContext) => boolean
 export interface ValidationContext {
   output: string
   stderr: string
+  stdin?: string // Heredoc/here-string input given to the command
   exitCode: number
   fs: MEMFS
   command?: string
+  ast?: CommandList // Parsed form of `command`
   env?: Record<string, string>
 }
 
@@ -602,6 +605,20 @@ export const fileSystemValidators: Record<string, FileSystemValidator> = {
       return false
     }
   },
+
+  /**
+   * Check that a process of this name (or full command line) is running and not stopped
+   */
+  processRunning: (fs, params: string) => {
+    return procStatuses(fs).some(status => status.matches(params) && !status.stopped)
+  },
+
+  /**
+   * Check that no process of this name (or full command line) is left, stopped or not
+   */
+  processKilled: (fs, params: string) => {
+    return fs.exists('/proc/1') && !procStatuses(fs).some(status => status.matches(params))
+  },
 }
 
 /**
@@ -625,10 +642,12 @@ export const advancedValidators: Record<string, AdvancedValidator> = {
    */
   scpWithRemoteCheck: (context) => {
     const scpSuccess = validationRegistry.scpSuccess(context.output, undefined)
-    // Extract user and path from command if possible
-    const match = context.command?.match(/scp\s+(\S+)\s+(\w+)@([^:]+):(.+)/)
+    // Extract user and path from the scp command's operands
+    const scp = commandArgvs(context).find(argv => argv[0] === 'scp')
+    const operands = scp?.slice(1).filter(arg => !arg.startsWith('-')) || []
+    const match = operands.length >= 2 ? operands[operands.length - 1].match(/^(\w+)@([^:]+):(.+)$/) : null
     if (match) {
-      const [, localFile, user, , remotePath] = match
+      const [, user, , remotePath] = match
       return scpSuccess && fileSystemValidators.remoteFileExists(context.fs, { user, path: remotePath })
     }
     return scpSuccess
@@ -640,9 +659,13 @@ export const advancedValidators: Record<string, AdvancedValidator> = {
   envVarSetAndExported: (context) => {
     if (context.env) {
       // Check if variable exists in environment
-      const varMatch = context.command?.match(/export\s+([A-Z_]+)=/)
-      if (varMatch) {
-        const varName = varMatch[1]
+      const exported = commandArgvs(context)
+        .filter(argv => argv[0] === 'export')
+        .flatMap(argv => argv.slice(1))
+        .map(arg => arg.match(/^([A-Z_]+)=/))
+        .find(Boolean)
+      if (exported) {
+        const varName = exported[1]
         return context.env[varName] !== undefined
       }
     }
@@ -653,9 +676,9 @@ export const advancedValidators: Record<string, AdvancedValidator> = {
    * Validate redirection with file content check
    */
   redirectionWithFileCheck: (context) => {
-    const redirectMatch = context.command?.match(/>\s*(\S+)/)
-    if (redirectMatch) {
-      const targetFile = redirectMatch[1]
+    const redirect = context.ast && collectRedirects(context.ast).find(r => ['>', '>>', '>|', '&>', '&>>'].includes(r.op))
+    if (redirect) {
+      const targetFile = wordToString(redirect.target)
       return fileSystemValidators.fileExists(context.fs, targetFile) &&
              fileSystemValidators.fileModified(context.fs, targetFile)
     }
@@ -682,3 +705,25 @@ export const advancedValidators: Record<string, AdvancedValidator> = {
   },
 }
 
+/**
+ * Argument vectors of every simple command in the validated command line
+ */
+function commandArgvs(context: ValidationContext): string[][] {
+  return context.ast ? collectSimpleCommands(context.ast).map(commandArgv) : []
+}
+
+/**
+ * Name, command line and state of each process in /proc
+ */
+function procStatuses(fs: MEMFS): { matches: (name: string) => boolean; stopped: boolean }[] {
+  if (!fs.exists('/proc')) return []
+  return fs.readdir('/proc').filter(pid => /^\d+$/.test(pid)).map(pid => {
+    const status = fs.readFile(`/proc/${pid}/status`, { encoding: 'utf8' }) as string
+    const cmdline = (fs.readFile(`/proc/${pid}/cmdline`, { encoding: 'utf8' }) as string).split('\0').join(' ')
+    const name = status.match(/^Name:\t(.*)$/m)?.[1] ?? ''
+    return {
+      matches: (wanted: string) => name === wanted.slice(0, 15) || cmdline === wanted,
+      stopped: /^State:\tT/m.test(status),
+    }
+  })
+}
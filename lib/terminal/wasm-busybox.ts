@@ -4,7 +4,10 @@
  */
 
 import { MEMFS } from './memfs'
-import { executeCommand, executeSudoCommand } from './command-executor'
+import { executeCommand, executeSudoCommand, getExpansionContext, runStartupFiles } from './command-executor'
+import { EnvSimulator } from './env-simulator'
+import { procFilesystem } from './process-table'
+import type { ExpansionContext } from './word-expansion'
 
 export interface ExecutionContext {
   currentPath: string
@@ -26,10 +29,13 @@ export interface CommandResult {
 export class BusyBoxWASM {
   private fs: MEMFS
   private context: ExecutionContext
+  private env?: EnvSimulator
   private loaded: boolean = false
+  private substitutions = new Map<string, string>() // $(...) output recorded for the current command line
 
   constructor() {
     this.fs = new MEMFS()
+    this.fs.mount('/proc', procFilesystem)
     this.context = {
       currentPath: '/home/student',
       username: 'student',
@@ -92,9 +98,10 @@ export class BusyBoxWASM {
   }
 
   /**
-   * Execute a command
+   * Execute a command, optionally feeding it standard input
+   * `columns` is the terminal width when stdout goes straight to the terminal
    */
-  async execute(command: string): Promise<CommandResult> {
+  async execute(command: string, stdin?: string, columns?: number): Promise<CommandResult> {
     if (!this.loaded) {
       return {
         stdout: '',
@@ -104,12 +111,8 @@ export class BusyBoxWASM {
     }
 
     try {
-      const result = executeCommand(command, this.context, this.fs)
-      
-      // Update context if command modified it
-      if (result.newPath) {
-        this.context.currentPath = result.newPath
-      }
+      const result = executeCommand(command, { ...this.context, env: this.env, columns, substitutions: this.substitutions }, this.fs, stdin)
+      this.applyResult(result)
       
       return {
         stdout: result.stdout,
@@ -127,6 +130,44 @@ export class BusyBoxWASM {
     }
   }
 
+  /**
+   * Source /etc/profile, ~/.profile and ~/.bashrc at login
+   */
+  async runStartupFiles(): Promise<CommandResult> {
+    const result = runStartupFiles({ ...this.context, env: this.env }, this.fs)
+    this.applyResult(result)
+    return { stdout: result.stdout, stderr: result.stderr, exitCode: result.exitCode }
+  }
+
+  /**
+   * Update context and environment after a command ran
+   */
+  private applyResult(result: { exitCode: number; newPath?: string; requiresPassword?: boolean }): void {
+    // Update context if command modified it
+    if (result.newPath) {
+      this.context.currentPath = result.newPath
+      this.env?.updatePWD(result.newPath)
+    }
+
+    if (!result.requiresPassword) {
+      this.env?.setExitStatus(result.exitCode)
+    }
+  }
+
+  /**
+   * Set the shell environment used for expansion ($VAR, ~, $?)
+   */
+  setEnvironment(env: EnvSimulator): void {
+    this.env = env
+  }
+
+  /**
+   * Get the shell environment
+   */
+  getEnvironment(): EnvSimulator | undefined {
+    return this.env
+  }
+
   /**
    * Get the filesystem instance
    */
@@ -148,10 +189,25 @@ export class BusyBoxWASM {
     return { ...this.context }
   }
 
+  /**
+   * Get the context for expanding words ($VAR, $(...), globs) in this session
+   */
+  getExpansionContext(): ExpansionContext {
+    return getExpansionContext({ ...this.context, env: this.env, substitutions: this.substitutions }, this.fs)
+  }
+
+  /**
+   * Start a new command line: $(...) output recorded while checking the
+   * previous one is forgotten
+   */
+  beginCommandLine(): void {
+    this.substitutions = new Map()
+  }
+
   /**
    * Execute a sudo command with password verification
    */
-  async executeSudo(command: string, password: string): Promise<CommandResult> {
+  async executeSudo(command: string, password: string, stdin?: string, columns?: number): Promise<CommandResult> {
     if (!this.loaded) {
       return {
         stdout: '',
@@ -161,12 +217,14 @@ export class BusyBoxWASM {
     }
 
     try {
-      const result = executeSudoCommand(command, password, this.context, this.fs)
-      
-      // Update context if command modified it
-      if (result.newPath) {
-        this.context.currentPath = result.newPath
-      }
+      const result = executeSudoCommand(
+        command,
+        password,
+        { ...this.context, env: this.env, columns, substitutions: this.substitutions },
+        this.fs,
+        stdin
+      )
+      this.applyResult(result)
       
       return {
         stdout: result.stdout,
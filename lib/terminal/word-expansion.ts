@@ -0,0 +1,414 @@
+/**
+ * Word Expansion
+ * Turns parsed words into argv the way bash does: tilde expansion,
+ * parameter expansion, command substitution and arithmetic, field splitting, then
+ * pathname (glob) expansion
+ */
+
+import { MEMFS } from './memfs'
+import { Word, WordPart, parseSimpleCommand } from './shell-parser'
+import { expandGlob } from './glob'
+import { evaluateArithmetic } from './arithmetic'
+import type { EnvSimulator } from './env-simulator'
+
+export interface ExpansionContext {
+  fs: MEMFS
+  currentPath: string
+  username: string
+  isSudo?: boolean
+  env?: EnvSimulator // Without an environment only ~ and globs are expanded
+  parameters?: ParameterScope // Overrides env for parameter lookups ($1, locals, ...)
+  substitute?: CommandSubstituter // Without it $(...) and `...` are kept as written
+}
+
+/**
+ * Runs the command inside $(...) or `...` and returns its stdout
+ */
+export type CommandSubstituter = (command: string) => string
+
+/**
+ * Lookups needed for parameter expansion
+ */
+export interface ParameterScope {
+  getParameter(name: string): string | undefined
+  setVariable(name: string, value: string): void
+  getPositionalParameters?(): string[] // Lets "$@" expand to one field per parameter
+}
+
+interface Segment {
+  text: string
+  expanded: boolean // Produced by an expansion (subject to field splitting)
+  fields?: string[] // "$@": separate fields even inside double quotes
+}
+
+interface Field {
+  parts: WordPart[]
+  exists: boolean // Quoted empty strings still produce a field
+}
+
+const IFS_WHITESPACE = /[ \t\n]+/
+
+/**
+ * Expand parameters in text ($VAR, ${VAR}, ${VAR:-default}, $?, ...)
+ * Unset parameters expand to the empty string. $(...) and `...` are only
+ * run when a substituter is given.
+ */
+export function expandParameters(text: string, scope: ParameterScope, substitute?: CommandSubstituter): string {
+  return scanParameters(text, scope, substitute).map(segment => segment.text).join('')
+}
+
+/**
+ * List the commands substituted by a word ($(...) and `...`), outermost only
+ */
+export function findCommandSubstitutions(word: Word): string[] {
+  return word.parts
+    .filter(part => part.quote !== 'single')
+    .flatMap(part => scanSubstitutions(part.value))
+}
+
+/**
+ * List the parameters a word expands ($NAME, ${NAME...}, $1, ...) by name,
+ * including the variables named in $((...))
+ */
+export function findParameterNames(word: Word): string[] {
+  return word.parts
+    .filter(part => part.quote !== 'single')
+    .flatMap(part => [
+      ...[...part.value.matchAll(/\$\{?#?([A-Za-z_]\w*|\d+|[@*#?$!])/g)].map(match => match[1]),
+      ...[...part.value.matchAll(/\$\(\((.*?)\)\)/g)].flatMap(match => match[1].match(/[A-Za-z_]\w*/g) ?? []),
+    ])
+}
+
+function scanSubstitutions(text: string): string[] {
+  const commands: string[] = []
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+    } else if (text[i] === '`') {
+      const end = findClosing(text, i + 1, '`')
+      commands.push(unescapeBackticks(text.slice(i + 1, end)))
+      i = end
+    } else if (text[i] === '$' && text[i + 1] === '(') {
+      const end = findBalanced(text, i + 1, '(', ')')
+      // Inside $((...)) only the substitutions count
+      if (text[i + 2] === '(') commands.push(...scanSubstitutions(text.slice(i + 3, end)))
+      else commands.push(text.slice(i + 2, end))
+      i = end
+    }
+  }
+  return commands
+}
+
+/**
+ * Expand a word into zero or more fields
+ */
+export function expandWord(word: Word, context: ExpansionContext): string[] {
+  const fields: Field[] = []
+  let current: Field = { parts: [], exists: false }
+
+  const append = (value: string, quote: WordPart['quote']) => {
+    if (quote !== 'none' || value) current.exists = true
+    if (value) current.parts.push({ value, quote })
+  }
+  const breakField = () => {
+    if (current.exists) fields.push(current)
+    current = { parts: [], exists: false }
+  }
+
+  word.parts.forEach((part, index) => {
+    let value = part.value
+
+    if (index === 0 && part.quote === 'none' && value.startsWith('~')) {
+      const tilde = expandTilde(value, word.parts.length === 1, context)
+      if (tilde) {
+        append(tilde.home, 'single')
+        value = tilde.rest
+      }
+    }
+
+    if (part.quote === 'single') {
+      append(value, 'single')
+      return
+    }
+
+    const segments = scanParameters(value, context.parameters ?? context.env, context.substitute)
+
+    for (const segment of segments) {
+      if (part.quote === 'double' && segment.fields) {
+        segment.fields.forEach((field, i) => {
+          if (i > 0) breakField()
+          append(field, 'double')
+        })
+      } else if (part.quote === 'double') {
+        append(segment.text, 'double')
+      } else if (!segment.expanded) {
+        append(segment.text, 'none')
+      } else {
+        // Unquoted expansion results are split into separate fields
+        segment.text.split(IFS_WHITESPACE).forEach((piece, i) => {
+          if (i > 0) breakField()
+          append(piece, 'none')
+        })
+      }
+    }
+  })
+  breakField()
+
+  return fields.flatMap(field => expandGlob(field.parts, context.fs, context))
+}
+
+/**
+ * Expand every word of a command into argv
+ */
+export function expandWords(words: Word[], context: ExpansionContext): string[] {
+  return words.flatMap(word => expandWord(word, context))
+}
+
+/**
+ * Parse a command string into argv with all expansions applied
+ */
+export function expandArgv(command: string, context: ExpansionContext): string[] {
+  const simple = parseSimpleCommand(command)
+  return simple ? expandWords(simple.words, context) : []
+}
+
+/**
+ * Expand an assignment value (NAME=value): no field splitting or globbing
+ */
+export function expandAssignmentValue(word: Word, context: ExpansionContext): string {
+  return word.parts
+    .map((part, index) => {
+      let value = part.value
+      let prefix = ''
+
+      if (index === 0 && part.quote === 'none' && value.startsWith('~')) {
+        const tilde = expandTilde(value, word.parts.length === 1, context)
+        if (tilde) {
+          prefix = tilde.home
+          value = tilde.rest
+        }
+      }
+
+      if (part.quote === 'single') return prefix + value
+      const scope = context.parameters ?? context.env
+      return prefix + scanParameters(value, scope, context.substitute).map(segment => segment.text).join('')
+    })
+    .join('')
+}
+
+/**
+ * Expand a pattern word (case patterns): parameters and substitutions only,
+ * keeping the quoting so quoted characters still match literally
+ */
+export function expandPattern(word: Word, context: ExpansionContext): WordPart[] {
+  const scope = context.parameters ?? context.env
+  return word.parts.map(part => {
+    if (part.quote === 'single') return part
+    const value = scanParameters(part.value, scope, context.substitute).map(segment => segment.text).join('')
+    return { value, quote: part.quote }
+  })
+}
+
+/**
+ * Expand a leading ~, ~user, ~+ or ~- prefix
+ */
+function expandTilde(
+  value: string,
+  wholeWord: boolean,
+  context: ExpansionContext
+): { home: string; rest: string } | null {
+  const slash = value.indexOf('/')
+  // A tilde prefix followed by quoted text (~"x") isn't expanded
+  if (slash === -1 && !wholeWord) return null
+
+  const prefix = slash === -1 ? value.slice(1) : value.slice(1, slash)
+  const rest = slash === -1 ? '' : value.slice(slash)
+  const env = context.env
+
+  let home: string | undefined
+  if (prefix === '') {
+    home = env?.getVariable('HOME') || `/home/${context.username}`
+  } else if (prefix === '+') {
+    home = env?.getVariable('PWD') || context.currentPath
+  } else if (prefix === '-') {
+    home = env?.getVariable('OLDPWD')
+  } else if (prefix === 'root') {
+    home = '/root'
+  } else if (/^[a-z_][a-z0-9_-]*$/i.test(prefix) && context.fs.exists(`/home/${prefix}`)) {
+    home = `/home/${prefix}`
+  }
+
+  return home === undefined ? null : { home, rest }
+}
+
+/**
+ * Split text into literal and expanded segments
+ * Without a scope parameters are kept as written, likewise substitutions
+ * without a substituter.
+ */
+function scanParameters(text: string, scope?: ParameterScope, substitute?: CommandSubstituter): Segment[] {
+  const segments: Segment[] = []
+  const literal = (value: string) => {
+    const last = segments[segments.length - 1]
+    if (last && !last.expanded) last.text += value
+    else segments.push({ text: value, expanded: false })
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+
+    if (char === '`') {
+      const end = findClosing(text, i + 1, '`')
+      if (substitute) {
+        const output = substitute(unescapeBackticks(text.slice(i + 1, end)))
+        segments.push({ text: trimTrailingNewlines(output), expanded: true })
+      } else {
+        literal(text.slice(i, end + 1))
+      }
+      i = end + 1
+      continue
+    }
+
+    if (char !== '$' || i + 1 >= text.length) {
+      literal(char)
+      i++
+      continue
+    }
+
+    const next = text[i + 1]
+
+    if (next === '(' && text[i + 2] === '(' && scope) {
+      // Arithmetic $((...)): parameters and substitutions inside it expand first
+      const end = findBalanced(text, i + 1, '(', ')')
+      const inner = findBalanced(text, i + 2, '(', ')') === end - 1
+        ? text.slice(i + 3, end - 1)
+        : text.slice(i + 2, end)
+      const expression = expandParameters(inner, scope, substitute)
+      segments.push({ text: String(evaluateArithmetic(expression, name => scope.getParameter(name))), expanded: true })
+      i = end + 1
+      continue
+    }
+
+    if (next === '(') {
+      const end = findBalanced(text, i + 1, '(', ')')
+      if (substitute && text[i + 2] !== '(') {
+        const output = substitute(text.slice(i + 2, end))
+        segments.push({ text: trimTrailingNewlines(output), expanded: true })
+      } else {
+        literal(text.slice(i, end + 1))
+      }
+      i = end + 1
+      continue
+    }
+
+    if (next === '{' && scope) {
+      const end = findBalanced(text, i + 1, '{', '}')
+      const body = text.slice(i + 2, end)
+      segments.push(body === '@' ? positional(scope) : { text: expandBraced(body, scope, substitute), expanded: true })
+      i = end + 1
+      continue
+    }
+
+    const name = text.slice(i + 1).match(/^([A-Za-z_][A-Za-z0-9_]*|[0-9?$#@*!-])/)
+    if (name && scope) {
+      segments.push(name[1] === '@' ? positional(scope) : { text: scope.getParameter(name[1]) ?? '', expanded: true })
+      i += 1 + name[1].length
+      continue
+    }
+
+    literal(char)
+    i++
+  }
+
+  return segments
+}
+
+/**
+ * Expand $@
+ */
+function positional(scope: ParameterScope): Segment {
+  const fields = scope.getPositionalParameters?.()
+  return { text: fields ? fields.join(' ') : scope.getParameter('@') ?? '', expanded: true, fields }
+}
+
+/**
+ * Expand the inside of ${...}
+ */
+function expandBraced(body: string, scope: ParameterScope, substitute?: CommandSubstituter): string {
+  // ${#VAR}: length
+  const length = body.match(/^#([A-Za-z_][A-Za-z0-9_]*|[0-9?$#@*!-])$/)
+  if (length) {
+    return String((scope.getParameter(length[1]) ?? '').length)
+  }
+
+  const match = body.match(/^([A-Za-z_][A-Za-z0-9_]*|[0-9?$#@*!-])(:?[-=+?])?([\s\S]*)$/)
+  if (!match) {
+    throw new Error(`\${${body}}: bad substitution`)
+  }
+
+  const [, name, op, operand] = match
+  const value = scope.getParameter(name)
+
+  if (!op) {
+    if (operand) throw new Error(`\${${body}}: bad substitution`)
+    return value ?? ''
+  }
+
+  // With a colon, an empty value counts as unset
+  const isSet = op.startsWith(':') ? Boolean(value) : value !== undefined
+  const word = () => expandParameters(operand, scope, substitute)
+
+  switch (op.replace(':', '')) {
+    case '-':
+      return isSet ? value! : word()
+    case '=':
+      if (isSet) return value!
+      scope.setVariable(name, word())
+      return scope.getParameter(name) ?? ''
+    case '+':
+      return isSet ? word() : ''
+    case '?':
+      if (isSet) return value!
+      throw new Error(`${name}: ${operand ? word() : 'parameter null or not set'}`)
+  }
+
+  return value ?? ''
+}
+
+/**
+ * Command substitution drops trailing newlines from the output
+ */
+function trimTrailingNewlines(text: string): string {
+  return text.replace(/\n+$/, '')
+}
+
+/**
+ * Inside backticks, \\ \` and \$ are escapes for the literal character
+ */
+function unescapeBackticks(text: string): string {
+  return text.replace(/\\([\\`$])/g, '$1')
+}
+
+function findBalanced(text: string, start: number, open: string, close: string): number {
+  let depth = 0
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+    } else if (text[i] === open) {
+      depth++
+    } else if (text[i] === close) {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return text.length - 1
+}
+
+function findClosing(text: string, start: number, close: string): number {
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === close) return i
+  }
+  return text.length - 1
+}